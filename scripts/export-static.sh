@@ -18,6 +18,8 @@ mkdir -p out/_next/static
 
 # Copy HTML pages
 cp "${NEXT_DIR}/server/app/index.html" out/
+cp "${NEXT_DIR}/server/app/sandbox.html" out/
+cp "${NEXT_DIR}/server/app/calendar.html" out/
 cp "${NEXT_DIR}/server/app/_not-found.html" out/404.html
 
 cp "${NEXT_DIR}/server/pages/404.html" out/_404.html 2>/dev/null || true
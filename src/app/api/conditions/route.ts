@@ -4,33 +4,90 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import type { CurrentConditions, TidePhaseType, TidePhasePreferences, TidePrediction, CurrentData } from '@/types/conditions';
+import type { CurrentConditions, TidePrediction, CurrentData, AlgorithmVersion, WaterQuality } from '@/types/conditions';
 import { fetchCurrentTidePrediction, fetchCurrentWeather, fetchWaveData, fetchCurrents } from '@/lib/api/noaa';
-import { fetchWaterQuality } from '@/lib/api/beachwatch';
+import { fetchWaterQuality, fetchEnterococcusHistory } from '@/lib/api/beachwatch';
 import { fetchRecentSSOs } from '@/lib/api/sfpuc';
-import { calculateSwimScore } from '@/lib/algorithms/swim-score';
-import { fetchWindData } from '@/lib/api/open-meteo';
+import {
+  SCORING_ALGORITHMS,
+  SCORING_MODE_VERSIONS,
+  DEFAULT_ALGORITHM_VERSION,
+  parseAlgorithmParam,
+  compareScores,
+} from '@/lib/algorithms/versions';
+import { calculateBacteriaNowcast } from '@/lib/algorithms/bacteria-nowcast';
+import { assessSSOImpact } from '@/lib/algorithms/sso-impact';
+import { calculateDaylight } from '@/lib/algorithms/solar';
+import { SAFETY_THRESHOLDS } from '@/config/thresholds';
+import { fetchWindData, fetchPrecipitation } from '@/lib/api/open-meteo';
 import { fetchDamReleases } from '@/lib/api/cdec';
 import { fetchOpenWaterLogWaveData } from '@/lib/api/openwaterlog';
 import { fetchWaterTemperature } from '@/lib/api/seatemperature';
+import { resolveScoringConfig } from '@/config/profiles';
+import { assessColdExposure, parseExposureParams } from '@/lib/algorithms/cold-exposure';
+import { parseScoreParams } from '@/lib/algorithms/score-inputs';
 
 export const dynamic = 'force-dynamic'; // Always fetch fresh data
 export const revalidate = 300; // Cache for 5 minutes
 
 export async function GET(request: NextRequest) {
   try {
-    // Extract tide phase preference from query parameters
+    // Tide phase preference, swimmer profile (reshapes thresholds, weights and caps), custom factor
+    // weights and the language of advice and issues (lang, otherwise the Accept-Language header)
     const searchParams = request.nextUrl.searchParams;
-    const tidePhasePreference = searchParams.get('tidePhasePreference') as TidePhaseType | null;
-
-    // Build custom tide preferences if a valid preference is provided
-    let customTidePreferences: TidePhasePreferences | undefined;
-    if (tidePhasePreference && isValidTidePhase(tidePhasePreference)) {
-      customTidePreferences = {
-        slack: tidePhasePreference === 'slack' ? 100 : 85,
-        flood: tidePhasePreference === 'flood' ? 100 : 85,
-        ebb: tidePhasePreference === 'ebb' ? 100 : 85,
-      };
+    const { params, error: paramsError, errors: paramsErrors } = parseScoreParams(
+      searchParams,
+      request.headers.get('accept-language')
+    );
+    if (!params) {
+      return NextResponse.json(
+        { error: paramsError, details: paramsErrors },
+        { status: 400 }
+      );
+    }
+    const { profile, locale } = params;
+
+    // Scoring algorithm: algorithm=v1 picks a registered version, algorithm=v2,v1 also scores the same
+    // inputs with a second version for comparison. scoring=legacy|continuous is the older way to pick v1 or v2
+    const algorithmParam = searchParams.get('algorithm');
+    const scoringParam = searchParams.get('scoring');
+    let algorithmVersions: AlgorithmVersion[] = [DEFAULT_ALGORITHM_VERSION];
+    if (algorithmParam !== null && scoringParam) {
+      return NextResponse.json(
+        { error: 'Conflicting scoring parameters', details: ['Use algorithm or scoring, not both'] },
+        { status: 400 }
+      );
+    }
+    if (algorithmParam !== null) {
+      const { versions, errors } = parseAlgorithmParam(algorithmParam);
+      if (errors.length > 0) {
+        return NextResponse.json(
+          { error: 'Invalid algorithm parameter', details: errors },
+          { status: 400 }
+        );
+      }
+      algorithmVersions = versions;
+    } else if (scoringParam) {
+      if (scoringParam !== 'continuous' && scoringParam !== 'legacy') {
+        return NextResponse.json(
+          { error: 'Invalid scoring parameter', details: ['scoring must be "continuous" or "legacy"'] },
+          { status: 400 }
+        );
+      }
+      algorithmVersions = [SCORING_MODE_VERSIONS[scoringParam]];
+    }
+
+    // Cold exposure inputs, e.g. suit=skins&cap=neoprene&acclimatisation=unacclimatised (default to the profile's)
+    const { exposure: exposureOverrides, errors: exposureErrors } = parseExposureParams({
+      suit: searchParams.get('suit'),
+      cap: searchParams.get('cap'),
+      acclimatisation: searchParams.get('acclimatisation'),
+    });
+    if (exposureErrors.length > 0) {
+      return NextResponse.json(
+        { error: 'Invalid cold exposure parameters', details: exposureErrors },
+        { status: 400 }
+      );
     }
 
     // Fetch wave data with fallback strategy: OpenWaterLog first, then NOAA buoy
@@ -53,7 +110,9 @@ export async function GET(request: NextRequest) {
     };
 
     // Fetch all data sources in parallel
-    const [tide, current, weather, waves, waterQuality, recentSSOs, windData, damReleases, waterTemp] = await Promise.allSettled([
+    const [
+      tide, current, weather, waves, waterQuality, recentSSOs, windData, damReleases, waterTemp, precipitation, bacteriaHistory,
+    ] = await Promise.allSettled([
       fetchCurrentTidePrediction(),
       fetchCurrents(),
       fetchCurrentWeather(),
@@ -63,6 +122,8 @@ export async function GET(request: NextRequest) {
       fetchWindData(),
       fetchDamReleases(),
       fetchWaterTemperature(),
+      fetchPrecipitation(),
+      fetchEnterococcusHistory(),
     ]);
 
     // Extract successful results or use fallbacks
@@ -75,6 +136,8 @@ export async function GET(request: NextRequest) {
     const windDataResult = windData.status === 'fulfilled' ? windData.value : null;
     const damReleasesData = damReleases.status === 'fulfilled' ? damReleases.value : null;
     const waterTempData = waterTemp.status === 'fulfilled' ? waterTemp.value : null;
+    const precipitationData = precipitation.status === 'fulfilled' ? precipitation.value : null;
+    const bacteriaHistoryData = bacteriaHistory.status === 'fulfilled' ? bacteriaHistory.value : [];
 
     // Check if we have minimum required data (tide is critical)
     // Other data can be null and scoring algorithm will handle gracefully
@@ -140,17 +203,33 @@ export async function GET(request: NextRequest) {
       source: 'unavailable',
     };
 
-    const waterQualityWithFallback = waterQualityData || {
+    const waterQualityWithFallback: WaterQuality = waterQualityData || {
       timestamp: now,
       status: 'safe' as const,
       source: 'unavailable',
     };
 
+    // Bacteria nowcast for the days between weekly samples
+    waterQualityWithFallback.nowcast = calculateBacteriaNowcast(
+      {
+        history: bacteriaHistoryData,
+        waterQuality: waterQualityData,
+        precipitation: precipitationData,
+        tide: tideData,
+        ssoImpact: assessSSOImpact(ssoData, SAFETY_THRESHOLDS)?.impact ?? 0,
+      },
+      SAFETY_THRESHOLDS,
+      now
+    );
+
+    // Sunrise, sunset and twilight for the park - computed offline
+    const daylight = calculateDaylight(now);
+
     // Calculate current from tide if actual current data is unavailable
     const currentWithFallback = currentData || calculateCurrentFromTide(tideData, now);
 
-    // Calculate swim score with custom preferences if provided
-    const score = calculateSwimScore(
+    // Calculate swim score with custom preferences, profile and weights using the selected algorithm version
+    const scoreWithAlgorithm = (version: AlgorithmVersion) => SCORING_ALGORITHMS[version].calculate(
       tideData,
       currentWithFallback,
       weatherWithFallback,
@@ -158,19 +237,44 @@ export async function GET(request: NextRequest) {
       waterQualityWithFallback,
       ssoData,
       damReleasesData,
-      customTidePreferences
+      waterTempData,
+      precipitationData,
+      { ...params, daylight }
+    );
+    const [algorithmVersion, comparisonVersion] = algorithmVersions;
+    const score = scoreWithAlgorithm(algorithmVersion);
+
+    // Same inputs through a second version, e.g. to evaluate a proposed algorithm against live data
+    const algorithmComparison = comparisonVersion
+      ? compareScores(score, scoreWithAlgorithm(comparisonVersion))
+      : undefined;
+
+    // Recommended swim duration and exit feel for the swimmer's suit, cap and acclimatisation
+    const scoringConfig = resolveScoringConfig(profile);
+    const coldExposure = assessColdExposure(
+      waterTempData,
+      weatherWithFallback.source === 'unavailable' ? null : weatherWithFallback,
+      { ...scoringConfig.exposure, ...exposureOverrides },
+      scoringConfig.thresholds,
+      now,
+      locale
     );
 
     // Construct response with fallbacks for missing data
     const conditions: CurrentConditions = {
       timestamp: now,
       score,
+      algorithmComparison,
       tide: tideData,
       current: currentWithFallback,
       weather: weatherWithFallback,
       waves: wavesWithFallback,
       waterQuality: waterQualityWithFallback,
       waterTemperature: waterTempData || undefined,
+      precipitation: precipitationData || undefined,
+      daylight,
+      coldExposure: coldExposure || undefined,
+      locale,
       recentSSOs: ssoData,
       damReleases: damReleasesData || undefined,
       dataFreshness: {
@@ -179,6 +283,7 @@ export async function GET(request: NextRequest) {
         waves: waveData?.timestamp || now,
         waterQuality: waterQualityData?.timestamp || now,
         waterTemperature: waterTempData?.timestamp || undefined,
+        precipitation: precipitationData?.timestamp || undefined,
         sso: ssoData.length > 0 ? ssoData[0].reportedAt : now,
         damReleases: damReleasesData?.timestamp || undefined,
       },
@@ -187,6 +292,8 @@ export async function GET(request: NextRequest) {
     return NextResponse.json(conditions, {
       headers: {
         'Cache-Control': 'public, s-maxage=300, stale-while-revalidate=600',
+        'Content-Language': locale,
+        'Vary': 'Accept-Language',
       },
     });
   } catch (error) {
@@ -201,13 +308,6 @@ export async function GET(request: NextRequest) {
   }
 }
 
-/**
- * Type guard to validate tide phase values
- */
-function isValidTidePhase(value: string): value is TidePhaseType {
-  return ['slack', 'flood', 'ebb'].includes(value);
-}
-
 /**
  * Calculate estimated current speed from tide change rate
  * Uses tide rate as a proxy when direct current measurements are unavailable
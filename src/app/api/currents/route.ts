@@ -0,0 +1,71 @@
+/**
+ * Currents API Route
+ * Predicts slack current windows - when the current at the station is slow enough to swim
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { CURRENT_STATION_ID } from '@/config/aquatic-park';
+import { isSwimmerProfileId, resolveScoringConfig } from '@/config/profiles';
+import { fetchCurrentPredictions } from '@/lib/api/noaa';
+import { findSlackWindows, nextSlackWindow } from '@/lib/algorithms/slack-windows';
+
+export const dynamic = 'force-dynamic';
+
+const MAX_DAYS = 7;
+
+// Fetch this far either side of the range, so slacks at its edges have a maximum on both sides
+const PADDING_MS = 8 * 60 * 60 * 1000;
+
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+
+    const days = parseInt(searchParams.get('days') || '2', 10);
+    if (!Number.isFinite(days) || days < 1 || days > MAX_DAYS) {
+      return NextResponse.json(
+        { error: 'Invalid days parameter', details: [`days must be between 1 and ${MAX_DAYS}`] },
+        { status: 400 }
+      );
+    }
+
+    // Windows end where the current passes the profile's "slow" speed unless a limit is given
+    const profileParam = searchParams.get('profile');
+    const profile = isSwimmerProfileId(profileParam) ? profileParam : undefined;
+    const maxKnotsParam = searchParams.get('maxKnots');
+    const maxKnots = maxKnotsParam !== null
+      ? parseFloat(maxKnotsParam)
+      : resolveScoringConfig(profile).thresholds.current.slow;
+    if (!Number.isFinite(maxKnots) || maxKnots <= 0) {
+      return NextResponse.json(
+        { error: 'Invalid maxKnots parameter', details: ['maxKnots must be a positive number'] },
+        { status: 400 }
+      );
+    }
+
+    const now = new Date();
+    const end = new Date(now.getTime() + days * 24 * 60 * 60 * 1000);
+
+    const events = await fetchCurrentPredictions(
+      new Date(now.getTime() - PADDING_MS),
+      new Date(end.getTime() + PADDING_MS)
+    );
+    const windows = findSlackWindows(events, maxKnots).filter(
+      window => window.end > now && window.start < end
+    );
+
+    return NextResponse.json({
+      station: CURRENT_STATION_ID,
+      maxKnots,
+      next: nextSlackWindow(windows, now),
+      windows,
+      events: events.filter(event => event.timestamp >= now && event.timestamp <= end),
+      range: { start: now, end },
+    });
+  } catch (error) {
+    console.error('Error in currents API:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch current predictions' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,65 @@
+/**
+ * Score Sensitivity API Route
+ * Reports how far each condition must move on its own to change the rating or lift a cap,
+ * for conditions posted in the shape /api/conditions returns
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { parseScoreInputs, parseScoreParams } from '@/lib/algorithms/score-inputs';
+import { assessSensitivity } from '@/lib/algorithms/sensitivity';
+
+export const dynamic = 'force-dynamic';
+
+export async function POST(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+
+    // Same personalisation parameters as /api/conditions
+    const { params, error: paramsError, errors: paramsErrors } = parseScoreParams(
+      searchParams,
+      request.headers.get('accept-language')
+    );
+    if (!params) {
+      return NextResponse.json(
+        { error: paramsError, details: paramsErrors },
+        { status: 400 }
+      );
+    }
+    const { locale } = params;
+
+    // Conditions to analyse, e.g. the response of /api/conditions
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json(
+        { error: 'Invalid request body', details: ['Body must be JSON'] },
+        { status: 400 }
+      );
+    }
+
+    const now = new Date();
+    const { inputs, errors } = parseScoreInputs(body, now);
+    if (!inputs) {
+      return NextResponse.json(
+        { error: 'Invalid conditions', details: errors },
+        { status: 400 }
+      );
+    }
+
+    const sensitivity = assessSensitivity(inputs, params, now);
+
+    return NextResponse.json(sensitivity, {
+      headers: {
+        'Content-Language': locale,
+        'Vary': 'Accept-Language',
+      },
+    });
+  } catch (error) {
+    console.error('Error in sensitivity API:', error);
+    return NextResponse.json(
+      { error: 'Internal server error', message: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
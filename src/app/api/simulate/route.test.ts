@@ -0,0 +1,36 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { NextRequest } from 'next/server';
+import { scoreInputs } from '@/test/fixtures';
+import { POST } from './route';
+
+// A winter evening scenario, months away from whenever the tests run
+const SCENARIO_TIME = new Date('2026-01-15T20:00:00Z');
+const RAIN_TIME = new Date('2026-01-15T08:00:00Z');
+
+function simulate(body: unknown) {
+  return POST(new NextRequest('http://localhost/api/simulate', { method: 'POST', body: JSON.stringify(body) }));
+}
+
+describe('POST /api/simulate', () => {
+  it('scores the scenario at its time rather than the current time', async () => {
+    const inputs = scoreInputs(SCENARIO_TIME);
+    const response = await simulate({
+      ...inputs,
+      time: SCENARIO_TIME,
+      precipitation: { ...inputs.precipitation, last24hInches: 0.3, lastSignificantRainAt: RAIN_TIME },
+    });
+    assert.equal(response.status, 200);
+
+    const { score } = await response.json();
+    assert.equal(score.timestamp, SCENARIO_TIME.toISOString());
+    assert.equal(score.factors.waterQuality.runoffAdvisory, true);
+    assert.equal(score.factors.waterQuality.hoursSinceRain, 12);
+  });
+
+  it('rejects a time that is not a date', async () => {
+    const response = await simulate({ ...scoreInputs(), time: 'tonight' });
+    assert.equal(response.status, 400);
+    assert.deepEqual((await response.json()).details, ['time must be an ISO date']);
+  });
+});
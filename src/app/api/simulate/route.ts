@@ -0,0 +1,113 @@
+/**
+ * Scenario Simulator API Route
+ * Scores hand-entered conditions, so any scenario can be scored without waiting for it to happen
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import type { AlgorithmVersion } from '@/types/conditions';
+import { parseScoreInputs, parseScoreParams } from '@/lib/algorithms/score-inputs';
+import { SCORING_ALGORITHMS, DEFAULT_ALGORITHM_VERSION, parseAlgorithmParam, compareScores } from '@/lib/algorithms/versions';
+
+export const dynamic = 'force-dynamic';
+
+export async function POST(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+
+    // Same personalisation parameters as /api/conditions
+    const { params, error: paramsError, errors: paramsErrors } = parseScoreParams(
+      searchParams,
+      request.headers.get('accept-language')
+    );
+    if (!params) {
+      return NextResponse.json(
+        { error: paramsError, details: paramsErrors },
+        { status: 400 }
+      );
+    }
+    const { locale } = params;
+
+    // algorithm=v1 scores the scenario with one version, algorithm=v2,v1 compares two
+    const algorithmParam = searchParams.get('algorithm');
+    let algorithmVersions: AlgorithmVersion[] = [DEFAULT_ALGORITHM_VERSION];
+    if (algorithmParam !== null) {
+      const { versions, errors } = parseAlgorithmParam(algorithmParam);
+      if (errors.length > 0) {
+        return NextResponse.json(
+          { error: 'Invalid algorithm parameter', details: errors },
+          { status: 400 }
+        );
+      }
+      algorithmVersions = versions;
+    }
+
+    // The scenario, in the shape /api/conditions returns
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json(
+        { error: 'Invalid request body', details: ['Body must be JSON'] },
+        { status: 400 }
+      );
+    }
+
+    // An optional time places the scenario at a moment, for daylight and the age of samples, rain and spills
+    let now = new Date();
+    const time = typeof body === 'object' && body !== null ? (body as Record<string, unknown>).time : undefined;
+    if (time !== undefined) {
+      const scenarioTime = typeof time === 'string' ? new Date(time) : null;
+      if (!scenarioTime || Number.isNaN(scenarioTime.getTime())) {
+        return NextResponse.json(
+          { error: 'Invalid conditions', details: ['time must be an ISO date'] },
+          { status: 400 }
+        );
+      }
+      now = scenarioTime;
+    }
+
+    const { inputs, errors } = parseScoreInputs(body, now);
+    if (!inputs) {
+      return NextResponse.json(
+        { error: 'Invalid conditions', details: errors },
+        { status: 400 }
+      );
+    }
+
+    const scoreWithAlgorithm = (version: AlgorithmVersion) => SCORING_ALGORITHMS[version].calculate(
+      inputs.tide,
+      inputs.current,
+      inputs.weather,
+      inputs.waves,
+      inputs.waterQuality,
+      inputs.recentSSOs,
+      inputs.damReleases,
+      inputs.waterTemperature,
+      inputs.precipitation,
+      { ...params, now }
+    );
+
+    const [algorithmVersion, comparisonVersion] = algorithmVersions;
+    const score = scoreWithAlgorithm(algorithmVersion);
+    const algorithmComparison = comparisonVersion
+      ? compareScores(score, scoreWithAlgorithm(comparisonVersion))
+      : undefined;
+
+    // Echo the inputs with defaults filled in, so callers can see exactly what was scored
+    return NextResponse.json(
+      { timestamp: now, inputs, score, algorithmComparison },
+      {
+        headers: {
+          'Content-Language': locale,
+          'Vary': 'Accept-Language',
+        },
+      }
+    );
+  } catch (error) {
+    console.error('Error in simulate API:', error);
+    return NextResponse.json(
+      { error: 'Internal server error', message: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,51 @@
+/**
+ * Tide Calendar API Route
+ * Classifies each day of a month as spring, neap or king tides, for planning long swims
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { TIDE_STATION_ID } from '@/config/aquatic-park';
+import { SAFETY_THRESHOLDS } from '@/config/thresholds';
+import { fetchTidePredictions } from '@/lib/api/noaa';
+import { buildTideCalendar, monthDates, parkDate } from '@/lib/algorithms/tide-cycle';
+
+export const dynamic = 'force-dynamic';
+
+// Fetch a day either side of the month, so its first and last days get all their highs and lows
+const PADDING_MS = 24 * 60 * 60 * 1000;
+
+export async function GET(request: NextRequest) {
+  try {
+    // month=YYYY-MM, defaulting to this month at the park
+    const month = request.nextUrl.searchParams.get('month') || parkDate(new Date()).slice(0, 7);
+    const match = /^(\d{4})-(0[1-9]|1[0-2])$/.exec(month);
+    if (!match) {
+      return NextResponse.json(
+        { error: 'Invalid month parameter', details: ['month must be in YYYY-MM format'] },
+        { status: 400 }
+      );
+    }
+    const year = parseInt(match[1], 10);
+    const monthNumber = parseInt(match[2], 10);
+
+    const extremes = await fetchTidePredictions(
+      new Date(Date.UTC(year, monthNumber - 1, 1) - PADDING_MS),
+      new Date(Date.UTC(year, monthNumber, 1) + PADDING_MS)
+    );
+    const { neapRange, springRange, kingRange } = SAFETY_THRESHOLDS.tide;
+
+    return NextResponse.json({
+      station: TIDE_STATION_ID,
+      month,
+      source: extremes[0]?.source ?? null,
+      thresholds: { neapRange, springRange, kingRange },
+      days: buildTideCalendar(extremes, monthDates(year, monthNumber), SAFETY_THRESHOLDS.tide),
+    });
+  } catch (error) {
+    console.error('Error in tide calendar API:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch tide predictions' },
+      { status: 500 }
+    );
+  }
+}
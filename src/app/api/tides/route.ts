@@ -1,10 +1,10 @@
 /**
  * Tides API Route
- * Fetches tide predictions for a specified time range
+ * Fetches tide predictions for a specified time range, as highs and lows or a 6-minute curve
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { fetchTidePredictions, fetchCurrentTidePrediction } from '@/lib/api/noaa';
+import { fetchTidePredictions, fetchTideCurve, fetchCurrentTidePrediction } from '@/lib/api/noaa';
 
 export const dynamic = 'force-dynamic';
 
@@ -13,17 +13,27 @@ export async function GET(request: NextRequest) {
     const searchParams = request.nextUrl.searchParams;
     const hours = parseInt(searchParams.get('hours') || '48', 10);
 
+    // interval=hilo (default) lists highs and lows, interval=6 the height every 6 minutes
+    const interval = searchParams.get('interval') || 'hilo';
+    if (interval !== 'hilo' && interval !== '6') {
+      return NextResponse.json(
+        { error: 'Invalid interval parameter', details: ['interval must be "hilo" or "6"'] },
+        { status: 400 }
+      );
+    }
+
     const now = new Date();
     const future = new Date(now.getTime() + hours * 60 * 60 * 1000);
 
     const [predictions, current] = await Promise.all([
-      fetchTidePredictions(now, future),
+      interval === '6' ? fetchTideCurve(now, future) : fetchTidePredictions(now, future),
       fetchCurrentTidePrediction(),
     ]);
 
     return NextResponse.json({
       current,
       predictions,
+      interval,
       range: { start: now, end: future },
     });
   } catch (error) {
@@ -81,7 +81,14 @@ export default function Home() {
       <footer className="mt-12 pb-8">
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
           <p className="text-center text-sm text-gray-500 dark:text-gray-400">
-            Data sources: NOAA, SF PUC, CA Beach Watch • Updates every 5 minutes
+            Data sources: NOAA, SF PUC, CA Beach Watch • Updates every 5 minutes •{' '}
+            <a href="sandbox" className="underline hover:text-blue-600 dark:hover:text-blue-300">
+              Try a what-if scenario
+            </a>
+            {' '}•{' '}
+            <a href="calendar" className="underline hover:text-blue-600 dark:hover:text-blue-300">
+              Spring &amp; neap tide calendar
+            </a>
           </p>
         </div>
       </footer>
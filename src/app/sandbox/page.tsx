@@ -0,0 +1,35 @@
+import ScenarioSandbox from '@/components/sandbox/ScenarioSandbox';
+
+export default function Sandbox() {
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-cyan-50 dark:from-gray-900 dark:to-gray-800">
+      {/* Header */}
+      <header className="bg-white dark:bg-gray-800 shadow-sm">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
+          <div className="flex items-center justify-between">
+            <div>
+              <h1 className="text-4xl font-bold text-blue-600 dark:text-blue-400">
+                Swimmingly
+              </h1>
+              <p className="text-gray-600 dark:text-gray-400 mt-1">
+                What-if scenarios for Aquatic Park
+              </p>
+            </div>
+            {/* Relative link so it also works under the GitHub Pages prefix */}
+            <a
+              href="./"
+              className="text-sm text-blue-600 dark:text-blue-400 underline hover:text-blue-800 dark:hover:text-blue-300"
+            >
+              Live conditions
+            </a>
+          </div>
+        </div>
+      </header>
+
+      {/* Main Content */}
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <ScenarioSandbox />
+      </main>
+    </div>
+  );
+}
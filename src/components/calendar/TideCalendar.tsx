@@ -0,0 +1,239 @@
+/**
+ * Tide Calendar Component
+ * Month view of the spring/neap cycle, for picking days for long swims
+ */
+
+'use client';
+
+import { useEffect, useState } from 'react';
+import type { MoonPhase, TideCycle, TideCycleDay } from '@/types/conditions';
+import { LOCALES } from '@/config/locales';
+import { SAFETY_THRESHOLDS } from '@/config/thresholds';
+import { buildTideCalendar, monthDates, parkDate } from '@/lib/algorithms/tide-cycle';
+import { HARMONIC_SOURCE, getStationHarmonics, predictTideExtremes } from '@/lib/algorithms/harmonic-tides';
+import { translate, translateValue, formatQuantity, formatQuantityChange } from '@/lib/i18n';
+import { useLocale } from '@/hooks/useLocale';
+import LanguageSelect from '@/components/dashboard/LanguageSelect';
+
+interface CalendarMonth {
+  year: number;
+  month: number; // 1-12
+}
+
+interface CalendarData {
+  days: TideCycleDay[];
+  source: string | null;
+}
+
+const CYCLES: TideCycle[] = ['king', 'spring', 'moderate', 'neap'];
+
+const CYCLE_STYLES: Record<TideCycle, string> = {
+  king: 'bg-red-100 dark:bg-red-900/40 border-red-300 dark:border-red-700',
+  spring: 'bg-amber-100 dark:bg-amber-900/40 border-amber-300 dark:border-amber-700',
+  moderate: 'bg-white dark:bg-gray-800 border-gray-200 dark:border-gray-700',
+  neap: 'bg-green-100 dark:bg-green-900/40 border-green-300 dark:border-green-700',
+};
+
+const MOON_ICONS: Record<MoonPhase, string> = {
+  'new-moon': '🌑',
+  'waxing-crescent': '🌒',
+  'first-quarter': '🌓',
+  'waxing-gibbous': '🌔',
+  'full-moon': '🌕',
+  'waning-gibbous': '🌖',
+  'last-quarter': '🌗',
+  'waning-crescent': '🌘',
+};
+
+export default function TideCalendar() {
+  const { locale, setLocale } = useLocale();
+  // Set on the client, so the month is today's rather than the build's
+  const [month, setMonth] = useState<CalendarMonth | null>(null);
+  const [data, setData] = useState<CalendarData | null>(null);
+  const [error, setError] = useState(false);
+
+  // Static builds (GitHub Pages) have no API, so predict the month in the browser instead
+  const isStaticMode = typeof window !== 'undefined' && (
+    window.location.hostname.includes('github.io') ||
+    process.env.NEXT_PUBLIC_BUILD_MODE === 'static'
+  );
+
+  useEffect(() => {
+    const today = parkDate(new Date());
+    setMonth({ year: parseInt(today.slice(0, 4), 10), month: parseInt(today.slice(5, 7), 10) });
+  }, []);
+
+  useEffect(() => {
+    if (!month) return;
+    let cancelled = false;
+    setData(null);
+    setError(false);
+
+    const load = async (): Promise<CalendarData> => {
+      if (isStaticMode) return predictMonth(month);
+      const response = await fetch(`/api/tides/calendar?month=${monthParam(month)}`);
+      if (!response.ok) {
+        throw new Error('Failed to fetch tide calendar');
+      }
+      return response.json();
+    };
+
+    load()
+      .then((result) => {
+        if (!cancelled) setData(result);
+      })
+      .catch((err) => {
+        console.error('Error loading tide calendar:', err);
+        if (!cancelled) setError(true);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [month, isStaticMode]);
+
+  if (!month) return null;
+
+  const intlTag = LOCALES[locale].intlTag;
+  const firstOfMonth = new Date(Date.UTC(month.year, month.month - 1, 1));
+  const dates = monthDates(month.year, month.month);
+  const today = parkDate(new Date());
+  const daysByDate = new Map((data?.days ?? []).map((day) => [day.date, day]));
+  // 1 Jan 2023 was a Sunday
+  const weekdays = Array.from({ length: 7 }, (_, i) =>
+    new Intl.DateTimeFormat(intlTag, { weekday: 'short', timeZone: 'UTC' }).format(new Date(Date.UTC(2023, 0, 1 + i)))
+  );
+  const { neapRange, springRange, kingRange } = SAFETY_THRESHOLDS.tide;
+  const legendRanges: Record<TideCycle, string> = {
+    king: `≥ ${formatQuantityChange(kingRange, 'height', locale)}`,
+    spring: `≥ ${formatQuantityChange(springRange, 'height', locale)}`,
+    moderate: '',
+    neap: `≤ ${formatQuantityChange(neapRange, 'height', locale)}`,
+  };
+
+  const shiftMonth = (delta: number) => {
+    const shifted = new Date(Date.UTC(month.year, month.month - 1 + delta, 1));
+    setMonth({ year: shifted.getUTCFullYear(), month: shifted.getUTCMonth() + 1 });
+  };
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-lg p-6">
+      <div className="flex items-center justify-between mb-2">
+        <h2 className="text-xl font-semibold text-gray-800 dark:text-gray-200">
+          {translate(locale, 'ui.calendar.title')}
+        </h2>
+        <LanguageSelect locale={locale} onChange={setLocale} />
+      </div>
+      <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">
+        {translate(locale, 'ui.calendar.help')}
+      </p>
+
+      <div className="flex items-center justify-between mb-4">
+        <button
+          onClick={() => shiftMonth(-1)}
+          aria-label={translate(locale, 'ui.calendar.previous')}
+          className="px-3 py-1 text-sm rounded-md bg-blue-100 dark:bg-blue-900/40 text-blue-700 dark:text-blue-300 hover:bg-blue-200 dark:hover:bg-blue-800/60 transition-colors"
+        >
+          ←
+        </button>
+        <h3 className="text-lg font-semibold text-gray-800 dark:text-gray-200">
+          {new Intl.DateTimeFormat(intlTag, { month: 'long', year: 'numeric', timeZone: 'UTC' }).format(firstOfMonth)}
+        </h3>
+        <button
+          onClick={() => shiftMonth(1)}
+          aria-label={translate(locale, 'ui.calendar.next')}
+          className="px-3 py-1 text-sm rounded-md bg-blue-100 dark:bg-blue-900/40 text-blue-700 dark:text-blue-300 hover:bg-blue-200 dark:hover:bg-blue-800/60 transition-colors"
+        >
+          →
+        </button>
+      </div>
+
+      {error ? (
+        <p className="text-sm text-red-700 dark:text-red-400">{translate(locale, 'ui.calendar.error')}</p>
+      ) : !data ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">{translate(locale, 'ui.calendar.loading')}</p>
+      ) : (
+        <>
+          <div className="grid grid-cols-7 gap-1 text-center text-xs font-medium text-gray-500 dark:text-gray-400 mb-1">
+            {weekdays.map((weekday) => (
+              <div key={weekday}>{weekday}</div>
+            ))}
+          </div>
+          <div className="grid grid-cols-7 gap-1">
+            {Array.from({ length: firstOfMonth.getUTCDay() }, (_, i) => (
+              <div key={`blank-${i}`} />
+            ))}
+            {dates.map((date) => {
+              const day = daysByDate.get(date);
+              return (
+                <div
+                  key={date}
+                  title={day
+                    ? translate(locale, 'ui.calendar.day', {
+                        cycle: translateValue(locale, day.cycle),
+                        moon: translateValue(locale, day.moonPhase),
+                        high: formatQuantity(day.highFeet, 'height', locale),
+                        low: formatQuantity(day.lowFeet, 'height', locale),
+                      })
+                    : undefined}
+                  className={`rounded-md border p-1 sm:p-2 min-h-[4rem] ${
+                    day ? CYCLE_STYLES[day.cycle] : CYCLE_STYLES.moderate
+                  } ${date === today ? 'ring-2 ring-blue-500' : ''}`}
+                >
+                  <div className="flex items-center justify-between text-xs">
+                    <span className="font-semibold text-gray-700 dark:text-gray-300">{parseInt(date.slice(8), 10)}</span>
+                    {day && <span aria-label={translateValue(locale, day.moonPhase)}>{MOON_ICONS[day.moonPhase]}</span>}
+                  </div>
+                  {day && (
+                    <div className="mt-1 text-xs text-gray-600 dark:text-gray-400">
+                      {formatQuantityChange(day.rangeFeet, 'height', locale)}
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+
+          <div className="flex flex-wrap gap-3 mt-4 text-xs text-gray-600 dark:text-gray-400">
+            {CYCLES.map((cycle) => (
+              <span key={cycle} className="flex items-center gap-1">
+                <span className={`inline-block w-3 h-3 rounded-sm border ${CYCLE_STYLES[cycle]}`} />
+                <span className="capitalize">{translateValue(locale, cycle)}</span>
+                {legendRanges[cycle] && <span>({legendRanges[cycle]})</span>}
+              </span>
+            ))}
+          </div>
+          <p className="text-xs text-gray-500 dark:text-gray-400 mt-2">
+            {translate(locale, 'ui.calendar.rangeNote')}
+          </p>
+          {data.source === HARMONIC_SOURCE && (
+            <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+              {translate(locale, 'ui.calendar.offline')}
+            </p>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
+
+function monthParam({ year, month }: CalendarMonth): string {
+  return `${year}-${String(month).padStart(2, '0')}`;
+}
+
+// Classify a month from offline harmonic predictions, with a day either side for its edges
+function predictMonth({ year, month }: CalendarMonth): CalendarData {
+  const harmonics = getStationHarmonics();
+  if (!harmonics) {
+    throw new Error('No harmonic constituents for the tide station');
+  }
+  const extremes = predictTideExtremes(
+    new Date(Date.UTC(year, month - 1, 0)),
+    new Date(Date.UTC(year, month, 2)),
+    harmonics
+  );
+  return {
+    days: buildTideCalendar(extremes, monthDates(year, month), SAFETY_THRESHOLDS.tide),
+    source: HARMONIC_SOURCE,
+  };
+}
@@ -1,13 +1,39 @@
 'use client';
 
 import { useEffect, useState, useRef } from 'react';
-import type { CurrentConditions as CurrentConditionsType, TidePhasePreferences } from '@/types/conditions';
+import type {
+  CurrentConditions as CurrentConditionsType,
+  TidePhasePreferences,
+  TidePhaseType,
+  SwimmerProfileId,
+  FactorWeights,
+  Locale,
+} from '@/types/conditions';
 import { useTidePreference } from '@/hooks/useTidePreference';
+import { useSwimmerProfile } from '@/hooks/useSwimmerProfile';
+import { useScoreWeights } from '@/hooks/useScoreWeights';
+import { useLocale } from '@/hooks/useLocale';
 import { useConditionsCache } from '@/hooks/useConditionsCache';
-import { SAFETY_THRESHOLDS } from '@/config/thresholds';
+import { resolveScoringConfig } from '@/config/profiles';
+import { LOCALES } from '@/config/locales';
 import { calculateSwimScore } from '@/lib/algorithms/swim-score';
+import { calculateDaylight } from '@/lib/algorithms/solar';
+import { assessColdExposure } from '@/lib/algorithms/cold-exposure';
+import { serializeWeights } from '@/lib/algorithms/score-weights';
+import {
+  translate,
+  translateValue,
+  formatNumber,
+  formatQuantity,
+  formatQuantityChange,
+  formatParkTime,
+  toLocalUnits,
+  type QuantityKind,
+} from '@/lib/i18n';
 import SwimScore from './SwimScore';
 import ConditionsCard from './ConditionsCard';
+import ScoreBreakdown from './ScoreBreakdown';
+import LanguageSelect from './LanguageSelect';
 
 // Raw data type for client-side recalculation
 interface RawConditionsData {
@@ -17,35 +43,56 @@ interface RawConditionsData {
   waves: CurrentConditionsType['waves'];
   waterQuality: CurrentConditionsType['waterQuality'];
   waterTemperature: CurrentConditionsType['waterTemperature'];
+  precipitation: CurrentConditionsType['precipitation'];
   recentSSOs: CurrentConditionsType['recentSSOs'];
   damReleases: CurrentConditionsType['damReleases'];
   dataFreshness: CurrentConditionsType['dataFreshness'];
 }
 
+// User settings that personalise the score
+interface ScoreSettings {
+  tidePreference: TidePhaseType | null;
+  profile: SwimmerProfileId;
+  weights: Partial<FactorWeights> | null;
+  locale: Locale;
+}
+
 /**
  * Format timestamp for display
  * Shows relative time for recent data, absolute time for older data
  */
-function formatTimestamp(date: Date): string {
+function formatTimestamp(date: Date, locale: Locale): string {
   const now = new Date();
   const diffMinutes = Math.floor((now.getTime() - new Date(date).getTime()) / (1000 * 60));
 
-  if (diffMinutes === 0) return 'just now';
-  if (diffMinutes === 1) return '1 minute ago';
-  if (diffMinutes < 60) return `${diffMinutes} minutes ago`;
+  if (diffMinutes === 0) return translate(locale, 'ui.justNow');
+  if (diffMinutes === 1) return translate(locale, 'ui.minuteAgo');
+  if (diffMinutes < 60) return translate(locale, 'ui.minutesAgo', { count: diffMinutes });
 
   const diffHours = Math.floor(diffMinutes / 60);
-  if (diffHours === 1) return '1 hour ago';
-  if (diffHours < 24) return `${diffHours} hours ago`;
+  if (diffHours === 1) return translate(locale, 'ui.hourAgo');
+  if (diffHours < 24) return translate(locale, 'ui.hoursAgo', { count: diffHours });
+
+  return new Date(date).toLocaleTimeString(LOCALES[locale].intlTag, { hour: '2-digit', minute: '2-digit' });
+}
 
-  return new Date(date).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+// Threshold limit in the locale's units, e.g. "2ft" or "0.6m"
+function formatLimit(value: number, kind: QuantityKind, locale: Locale): string {
+  const local = toLocalUnits(value, kind, locale);
+  const number = new Intl.NumberFormat(LOCALES[locale].intlTag, { maximumFractionDigits: 1 }).format(local.value);
+  return `${number}${local.unit}`;
 }
 
 export default function CurrentConditions() {
   const [conditions, setConditions] = useState<CurrentConditionsType | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  const { preference, setPreference, isLoaded } = useTidePreference();
+  const { preference, setPreference, isLoaded: isPreferenceLoaded } = useTidePreference();
+  const { profile, setProfile, isLoaded: isProfileLoaded } = useSwimmerProfile();
+  const { weights: customWeights, setWeights: setCustomWeights, isLoaded: isWeightsLoaded } = useScoreWeights();
+  const { locale, setLocale, isLoaded: isLocaleLoaded } = useLocale();
+  const isLoaded = isPreferenceLoaded && isProfileLoaded && isWeightsLoaded && isLocaleLoaded;
+  const settings: ScoreSettings = { tidePreference: preference, profile, weights: customWeights, locale };
   const { cachedData, setCachedData, isCacheValid } = useConditionsCache();
   // Store raw data for client-side recalculation on GitHub Pages
   const rawDataRef = useRef<RawConditionsData | null>(null);
@@ -67,8 +114,10 @@ export default function CurrentConditions() {
   };
 
   // Recalculate score client-side using raw data (for GitHub Pages)
-  const recalculateScore = (rawData: RawConditionsData, tidePreference: string | null): CurrentConditionsType => {
-    const customTidePreferences = buildTidePreferences(tidePreference);
+  const recalculateScore = (rawData: RawConditionsData, scoreSettings: ScoreSettings): CurrentConditionsType => {
+    const customTidePreferences = buildTidePreferences(scoreSettings.tidePreference);
+    // Daylight is computed offline, so it is always current even when the data snapshot is not
+    const daylight = calculateDaylight(new Date());
     const newScore = calculateSwimScore(
       rawData.tide,
       rawData.current,
@@ -77,11 +126,32 @@ export default function CurrentConditions() {
       rawData.waterQuality,
       rawData.recentSSOs || [],
       rawData.damReleases ?? null,
-      customTidePreferences
+      rawData.waterTemperature ?? null,
+      rawData.precipitation ?? null,
+      {
+        tidePreferences: customTidePreferences,
+        profile: scoreSettings.profile,
+        weights: scoreSettings.weights ?? undefined,
+        daylight,
+        locale: scoreSettings.locale,
+      }
+    );
+    // Cold exposure uses the selected profile's suit, cap and acclimatisation
+    const scoringConfig = resolveScoringConfig(scoreSettings.profile);
+    const coldExposure = assessColdExposure(
+      rawData.waterTemperature ?? null,
+      rawData.weather?.source === 'unavailable' ? null : rawData.weather,
+      scoringConfig.exposure,
+      scoringConfig.thresholds,
+      new Date(),
+      scoreSettings.locale
     );
     return {
       timestamp: new Date(),
       ...rawData,
+      locale: scoreSettings.locale,
+      daylight,
+      coldExposure: coldExposure ?? undefined,
       score: newScore,
     };
   };
@@ -94,36 +164,36 @@ export default function CurrentConditions() {
     }
   }, [isCacheValid, cachedData]);
 
-  // Fetch conditions when component mounts or preference changes
+  // Fetch conditions when component mounts or settings change
   useEffect(() => {
-    // Only fetch when preference is loaded to avoid double-fetching
+    // Only fetch when all settings are loaded to avoid double-fetching
     if (isLoaded) {
       // On GitHub Pages with cached raw data, recalculate instead of refetching
       if (isStaticMode && rawDataRef.current) {
-        const recalculated = recalculateScore(rawDataRef.current, preference);
+        const recalculated = recalculateScore(rawDataRef.current, settings);
         setConditions(recalculated);
         return;
       }
       // If we have valid cache, fetch in background
       if (isCacheValid && cachedData) {
-        fetchConditions(preference, true); // background fetch
+        fetchConditions(settings, true); // background fetch
       } else {
-        fetchConditions(preference, false); // foreground fetch
+        fetchConditions(settings, false); // foreground fetch
       }
     }
-  }, [isLoaded, preference]);
+  }, [isLoaded, preference, profile, customWeights, locale]);
 
   // Setup auto-refresh interval (disabled on GitHub Pages static site)
   useEffect(() => {
     // Only set up auto-refresh in dynamic mode (not on GitHub Pages)
     if (!isStaticMode) {
       // Refresh every 5 minutes
-      const interval = setInterval(() => fetchConditions(preference, true), 5 * 60 * 1000);
+      const interval = setInterval(() => fetchConditions(settings, true), 5 * 60 * 1000);
       return () => clearInterval(interval);
     }
-  }, [preference, isStaticMode]);
+  }, [preference, profile, customWeights, locale, isStaticMode]);
 
-  async function fetchConditions(tidePreference: typeof preference, isBackgroundFetch = false) {
+  async function fetchConditions(scoreSettings: ScoreSettings, isBackgroundFetch = false) {
     try {
       // Only show loading state if not a background fetch
       if (!isBackgroundFetch) {
@@ -134,11 +204,18 @@ export default function CurrentConditions() {
       const url = isStaticMode
         ? '/swimmingly/static-data.json'
         : (() => {
-            // Include tide preference in API call for dynamic mode
+            // Include tide preference, swimmer profile, custom weights and language in API call for dynamic mode
             const params = new URLSearchParams();
-            if (tidePreference) {
-              params.append('tidePhasePreference', tidePreference);
+            if (scoreSettings.tidePreference) {
+              params.append('tidePhasePreference', scoreSettings.tidePreference);
+            }
+            if (scoreSettings.profile) {
+              params.append('profile', scoreSettings.profile);
             }
+            if (scoreSettings.weights) {
+              params.append('weights', serializeWeights(scoreSettings.weights));
+            }
+            params.append('lang', scoreSettings.locale);
             return `/api/conditions${params.toString() ? `?${params.toString()}` : ''}`;
           })();
 
@@ -161,12 +238,13 @@ export default function CurrentConditions() {
             waves: data.waves,
             waterQuality: data.waterQuality,
             waterTemperature: data.waterTemperature,
+            precipitation: data.precipitation,
             recentSSOs: data.recentSSOs,
             damReleases: data.damReleases,
             dataFreshness: data.dataFreshness,
           };
-          // Recalculate score with user's tide preference
-          const recalculated = recalculateScore(rawDataRef.current, tidePreference);
+          // Recalculate score with user's tide preference, swimmer profile, weights and language
+          const recalculated = recalculateScore(rawDataRef.current, scoreSettings);
           setCachedData(recalculated);
           setConditions(recalculated);
         } else {
@@ -197,14 +275,31 @@ export default function CurrentConditions() {
 
     // In static mode, recalculate score client-side instead of re-fetching
     if (isStaticMode && rawDataRef.current) {
-      const recalculated = recalculateScore(rawDataRef.current, newPreference);
+      const recalculated = recalculateScore(rawDataRef.current, { ...settings, tidePreference: newPreference });
       setConditions(recalculated);
       return;
     }
 
     // In dynamic mode, refetch with new preference
     setLoading(true);
-    fetchConditions(newPreference);
+    fetchConditions({ ...settings, tidePreference: newPreference });
+  };
+
+  // Handle swimmer profile change from SwimScore component
+  const handleProfileChange = (newProfile: SwimmerProfileId) => {
+    // Update localStorage and state - the fetch effect picks up the new profile
+    setProfile(newProfile);
+  };
+
+  // Handle custom weight change from SwimScore component (null resets to profile weights)
+  const handleWeightsChange = (newWeights: Partial<FactorWeights> | null) => {
+    // Update localStorage and state - the fetch effect picks up the new weights
+    setCustomWeights(newWeights);
+  };
+
+  // Handle language change - the fetch effect picks up the new locale so advice is re-localised
+  const handleLocaleChange = (newLocale: Locale) => {
+    setLocale(newLocale);
   };
 
   if (loading) {
@@ -212,7 +307,7 @@ export default function CurrentConditions() {
       <div className="flex items-center justify-center min-h-[400px]">
         <div className="text-center">
           <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600 mx-auto mb-4"></div>
-          <p className="text-gray-600 dark:text-gray-400">Loading conditions...</p>
+          <p className="text-gray-600 dark:text-gray-400">{translate(locale, 'ui.loadingConditions')}</p>
         </div>
       </div>
     );
@@ -222,14 +317,14 @@ export default function CurrentConditions() {
     return (
       <div className="bg-red-50 dark:bg-red-900/20 border-2 border-red-200 dark:border-red-800 rounded-lg p-6">
         <h3 className="text-lg font-semibold text-red-800 dark:text-red-200 mb-2">
-          Error Loading Data
+          {translate(locale, 'ui.errorTitle')}
         </h3>
         <p className="text-red-700 dark:text-red-300">{error}</p>
         <button
-          onClick={() => fetchConditions(preference)}
+          onClick={() => fetchConditions(settings)}
           className="mt-4 px-4 py-2 bg-red-600 text-white rounded hover:bg-red-700 transition"
         >
-          Retry
+          {translate(locale, 'ui.retry')}
         </button>
       </div>
     );
@@ -239,7 +334,10 @@ export default function CurrentConditions() {
     return null;
   }
 
-  const { score, tide, current, weather, waves, waterQuality, damReleases } = conditions;
+  const { score, tide, current, weather, waves, waterQuality, damReleases, coldExposure } = conditions;
+
+  // Thresholds for the active swimmer profile (keeps card labels in sync with scoring)
+  const thresholds = resolveScoringConfig(score?.profile ?? profile).thresholds;
 
   // Get values from score factors with safe defaults (ensures sync with score calculation)
   const waveHeight = score?.factors?.waves?.heightFeet ?? 0;
@@ -299,15 +397,30 @@ export default function CurrentConditions() {
     return 'info';
   };
 
+  const mapWaterTemperatureStatus = (condition: string): 'good' | 'warning' | 'danger' | 'info' => {
+    if (condition === 'comfortable' || condition === 'moderate') return 'good';
+    if (condition === 'cool' || condition === 'cold') return 'warning';
+    if (condition === 'cold-shock') return 'danger';
+    return 'info';
+  };
+
+  const mapVisibilityStatus = (condition: string): 'good' | 'warning' | 'danger' | 'info' => {
+    if (condition === 'clear') return 'good';
+    if (condition === 'haze') return 'info';
+    if (condition === 'fog') return 'warning';
+    if (condition === 'dense-fog') return 'danger';
+    return 'info';
+  };
+
   // Map current speed to status, considering both favorability and actual speed
   const mapTideCurrentStatus = (): 'good' | 'warning' | 'danger' | 'info' => {
     const speed = currentSpeed;
     // Very strong current (>2.0 knots) is always dangerous
-    if (speed >= SAFETY_THRESHOLDS.current.veryStrong) return 'danger';
+    if (speed >= thresholds.current.veryStrong) return 'danger';
     // Strong current (1.5-2.0 knots) is a warning
-    if (speed >= SAFETY_THRESHOLDS.current.strong) return 'warning';
+    if (speed >= thresholds.current.strong) return 'warning';
     // Moderate current (1.0-1.5 knots) - warning if not favorable, otherwise info
-    if (speed >= SAFETY_THRESHOLDS.current.moderate) {
+    if (speed >= thresholds.current.moderate) {
       return score?.factors?.tideAndCurrent?.favorable ? 'info' : 'warning';
     }
     // Slower currents - good if favorable, info otherwise
@@ -320,10 +433,28 @@ export default function CurrentConditions() {
   const weatherStatus = mapWeatherStatus(score?.factors?.weather?.windCondition ?? 'calm');
   const waterQualityStatus = mapWaterQualityStatus(score?.factors?.waterQuality?.status ?? 'safe');
   const damReleasesStatus = mapDamReleasesStatus(score?.factors?.damReleases?.releaseLevel ?? 'low');
+  const waterTemperatureStatus = mapWaterTemperatureStatus(score?.factors?.waterTemperature?.condition ?? 'unknown');
+  const visibilityStatus = mapVisibilityStatus(score?.factors?.visibility?.condition ?? 'unknown');
+  const coldExposureStatus: 'good' | 'warning' | 'danger' | 'info' =
+    !coldExposure ? 'info'
+    : coldExposure.risk === 'extreme' ? 'danger'
+    : coldExposure.risk === 'high' || coldExposure.risk === 'moderate' ? 'warning'
+    : 'good';
+
+  // Card values in the locale's units
+  const tideHeightLocal = toLocalUnits(tideHeight, 'height', locale);
+  const waveHeightLocal = toLocalUnits(waveHeight, 'height', locale);
+  const windSpeedLocal = toLocalUnits(windSpeed, 'windSpeed', locale);
+  const waterTempLocal = toLocalUnits(score?.factors?.waterTemperature?.temperatureF ?? 0, 'temperature', locale);
+  const visibilityLocal = toLocalUnits(score?.factors?.visibility?.visibilityMiles ?? 0, 'distance', locale);
+  const damFlowLocal = toLocalUnits(score?.factors?.damReleases?.totalFlowCFS ?? 0, 'flow', locale);
+  const knots = translate(locale, 'unit.kt');
+  // Metric rain reads in tenths of a millimetre rather than hundredths of an inch
+  const rainDigits = LOCALES[locale].units === 'metric' ? 1 : 2;
 
   // Clear localStorage and refresh
   const handleClearCache = () => {
-    if (confirm('Clear all cached data and refresh?')) {
+    if (confirm(translate(locale, 'ui.clearCacheConfirm'))) {
       localStorage.clear();
       window.location.reload();
     }
@@ -331,14 +462,15 @@ export default function CurrentConditions() {
 
   return (
     <div className="space-y-6">
-      {/* Clear Cache Button */}
-      <div className="flex justify-end">
+      {/* Language Selector and Clear Cache Button */}
+      <div className="flex justify-end gap-2">
+        <LanguageSelect locale={locale} onChange={handleLocaleChange} />
         <button
           onClick={handleClearCache}
           className="text-xs px-3 py-1.5 bg-gray-100 hover:bg-gray-200 dark:bg-gray-800 dark:hover:bg-gray-700 text-gray-600 dark:text-gray-400 rounded-md transition-colors border border-gray-300 dark:border-gray-600"
-          title="Clear cached data and refresh"
+          title={translate(locale, 'ui.clearCacheTitle')}
         >
-          🗑️ Clear Cache
+          🗑️ {translate(locale, 'ui.clearCache')}
         </button>
       </div>
 
@@ -349,36 +481,65 @@ export default function CurrentConditions() {
             score={score}
             tidePreference={preference}
             onTidePreferenceChange={handleTidePreferenceChange}
-            isPreferenceLoaded={isLoaded}
+            isPreferenceLoaded={isPreferenceLoaded}
+            profile={profile}
+            onProfileChange={handleProfileChange}
+            isProfileLoaded={isProfileLoaded}
+            hasCustomWeights={customWeights !== null}
+            onWeightsChange={handleWeightsChange}
+            isWeightsLoaded={isWeightsLoaded}
+            locale={locale}
           />
         </div>
 
         {/* Condition Cards */}
         <div className="lg:col-span-2 grid grid-cols-1 md:grid-cols-2 gap-4">
           <ConditionsCard
-            title="Tide & Current"
-            value={tideHeight.toFixed(1)}
-            unit="ft"
-            secondaryValue={currentSpeed.toFixed(2)}
-            secondaryUnit="kt"
-            threshold={`Slack <${SAFETY_THRESHOLDS.current.slack}kt, Moderate <${SAFETY_THRESHOLDS.current.moderate}kt, Strong <${SAFETY_THRESHOLDS.current.strong}kt, Dangerous >${SAFETY_THRESHOLDS.current.veryStrong}kt`}
+            title={translate(locale, 'ui.card.tideCurrent')}
+            value={formatNumber(tideHeightLocal.value, locale, 1)}
+            unit={tideHeightLocal.unit}
+            secondaryValue={formatNumber(currentSpeed, locale, 2)}
+            secondaryUnit={knots}
+            threshold={translate(locale, 'ui.threshold.current', {
+              slack: `${thresholds.current.slack}${knots}`,
+              moderate: `${thresholds.current.moderate}${knots}`,
+              strong: `${thresholds.current.strong}${knots}`,
+              veryStrong: `${thresholds.current.veryStrong}${knots}`,
+            })}
             status={tideStatus}
             icon="🌊"
             details={[
-              `Phase: ${score?.factors?.tideAndCurrent?.phase ?? 'unknown'}`,
+              translate(locale, 'ui.detail.phase', { phase: translateValue(locale, score?.factors?.tideAndCurrent?.phase ?? 'unknown') }),
+              tide?.changeRateFeetPerHour
+                ? translate(locale, tide.changeRateFeetPerHour > 0 ? 'ui.detail.tideRising' : 'ui.detail.tideFalling', {
+                    rate: formatQuantityChange(Math.abs(tide.changeRateFeetPerHour), 'height', locale),
+                  })
+                : '',
+              tide?.slackWindow
+                ? translate(locale, 'ui.detail.slackWindow', {
+                    start: formatParkTime(new Date(tide.slackWindow.start), locale),
+                    end: formatParkTime(new Date(tide.slackWindow.end), locale),
+                  })
+                : '',
+              tide?.tideCycle
+                ? translate(locale, 'ui.detail.tideCycle', {
+                    cycle: translateValue(locale, tide.tideCycle.cycle),
+                    range: formatQuantityChange(tide.tideCycle.rangeFeet, 'height', locale),
+                  })
+                : '',
               // Sort next high/low by timestamp - show whichever comes first
               ...((() => {
                 const tideEvents = [];
                 if (tide?.nextHigh) {
                   tideEvents.push({
-                    label: 'Next high',
+                    key: 'ui.detail.nextHigh' as const,
                     timestamp: new Date(tide.nextHigh.timestamp),
                     heightFeet: tide.nextHigh.heightFeet
                   });
                 }
                 if (tide?.nextLow) {
                   tideEvents.push({
-                    label: 'Next low',
+                    key: 'ui.detail.nextLow' as const,
                     timestamp: new Date(tide.nextLow.timestamp),
                     heightFeet: tide.nextLow.heightFeet
                   });
@@ -386,28 +547,51 @@ export default function CurrentConditions() {
                 // Sort by timestamp (earliest first)
                 tideEvents.sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
                 return tideEvents.map(event =>
-                  `${event.label}: ${event.timestamp.toLocaleTimeString('en-US', { timeZone: 'America/Los_Angeles', hour: 'numeric', minute: '2-digit', hour12: true })} (${event.heightFeet.toFixed(1)} ft)`
+                  translate(locale, event.key, {
+                    time: formatParkTime(event.timestamp, locale),
+                    height: formatQuantity(event.heightFeet, 'height', locale),
+                  })
                 );
               })()),
-              latestTideCurrentTimestamp ? `Updated: ${latestTideCurrentTimestamp.toLocaleTimeString('en-US', { timeZone: 'America/Los_Angeles', hour: 'numeric', minute: '2-digit', hour12: true })} PST${isUsingCachedTideData ? ' (cached)' : ''}` : '',
-              ...(score?.factors?.tideAndCurrent?.issues?.filter(issue => !issue.toLowerCase().includes('current')) ?? []),
+              latestTideCurrentTimestamp
+                ? translate(locale, isUsingCachedTideData ? 'ui.detail.updatedAtCached' : 'ui.detail.updatedAt', { time: formatParkTime(latestTideCurrentTimestamp, locale) })
+                : '',
+              ...(score?.factors?.tideAndCurrent?.issues ?? []),
               // Data source link
               '🔗 https://tidesandcurrents.noaa.gov/noaatidepredictions.html?id=9414290',
             ].filter(Boolean)}
           />
 
           <ConditionsCard
-            title="Waves"
-            value={waveHeight.toFixed(1)}
-            unit="ft"
-            threshold={`Calm <${SAFETY_THRESHOLDS.waves.calm}ft, Safe <${SAFETY_THRESHOLDS.waves.safe}ft, Moderate <${SAFETY_THRESHOLDS.waves.moderate}ft, Rough <${SAFETY_THRESHOLDS.waves.rough}ft`}
+            title={translate(locale, 'ui.card.waves')}
+            value={formatNumber(waveHeightLocal.value, locale, 1)}
+            unit={waveHeightLocal.unit}
+            threshold={translate(locale, 'ui.threshold.waves', {
+              calm: formatLimit(thresholds.waves.calm, 'height', locale),
+              safe: formatLimit(thresholds.waves.safe, 'height', locale),
+              moderate: formatLimit(thresholds.waves.moderate, 'height', locale),
+              rough: formatLimit(thresholds.waves.rough, 'height', locale),
+            })}
             status={waveStatus}
             icon="🌊"
             details={[
-              `Status: ${score?.factors?.waves?.status ?? 'unknown'}`,
-              swellPeriod ? `Period: ${swellPeriod.toFixed(0)}s` : '',
-              conditions.waves?.source ? `Station: ${conditions.waves.source}` : '',
-              conditions.waves?.timestamp ? `Updated: ${new Date(conditions.waves.timestamp).toLocaleTimeString('en-US', { timeZone: 'America/Los_Angeles', hour: 'numeric', minute: '2-digit', hour12: true })} PST` : '',
+              translate(locale, 'ui.detail.status', { status: translateValue(locale, score?.factors?.waves?.status ?? 'unknown') }),
+              swellPeriod ? translate(locale, 'ui.detail.period', { seconds: formatNumber(swellPeriod, locale) }) : '',
+              score?.factors?.waves?.swellType && score.factors.waves.swellType !== 'unknown'
+                ? translate(locale, 'ui.detail.swellType', { type: translateValue(locale, score.factors.waves.swellType) })
+                : '',
+              score?.factors?.waves?.direction !== undefined
+                ? translate(locale, 'ui.detail.swellDirection', {
+                    degrees: Math.round(score.factors.waves.direction),
+                    sector: translateValue(locale, score.factors.waves.exposureSector),
+                    exposure: Math.round(score.factors.waves.exposure * 100),
+                  })
+                : '',
+              score?.factors?.waves?.effectiveHeightFeet !== undefined && score.factors.waves.effectiveHeightFeet !== waveHeight
+                ? translate(locale, 'ui.detail.effectiveHeight', { height: formatQuantity(score.factors.waves.effectiveHeightFeet, 'height', locale) })
+                : '',
+              conditions.waves?.source ? translate(locale, 'ui.detail.station', { station: conditions.waves.source }) : '',
+              conditions.waves?.timestamp ? translate(locale, 'ui.detail.updatedAt', { time: formatParkTime(conditions.waves.timestamp, locale) }) : '',
               // Add data source links
               conditions.waves?.source?.toLowerCase().includes('openwaterlog')
                 ? '🔗 https://openwaterlog.com/locations/aquatic-park/'
@@ -419,22 +603,30 @@ export default function CurrentConditions() {
           />
 
           <ConditionsCard
-            title="Wind"
-            value={windSpeed.toFixed(0)}
-            unit="mph"
-            threshold={`Calm <${SAFETY_THRESHOLDS.wind.calm}mph, Light <${SAFETY_THRESHOLDS.wind.light}mph, Moderate <${SAFETY_THRESHOLDS.wind.moderate}mph, Strong <${SAFETY_THRESHOLDS.wind.strong}mph`}
+            title={translate(locale, 'ui.card.wind')}
+            value={formatNumber(windSpeedLocal.value, locale)}
+            unit={windSpeedLocal.unit}
+            threshold={translate(locale, 'ui.threshold.wind', {
+              calm: formatLimit(thresholds.wind.calm, 'windSpeed', locale),
+              light: formatLimit(thresholds.wind.light, 'windSpeed', locale),
+              moderate: formatLimit(thresholds.wind.moderate, 'windSpeed', locale),
+              strong: formatLimit(thresholds.wind.strong, 'windSpeed', locale),
+            })}
             status={weatherStatus}
             icon="💨"
             details={[
-              `Condition: ${score?.factors?.weather?.windCondition ?? 'unknown'}`,
-              windGust ? `Gusts: ${windGust.toFixed(0)} mph` : '',
-              windDirection !== undefined ? `Direction: ${windDirection}°` : '',
-              `Air Temp: ${temperature.toFixed(0)}°F`,
+              translate(locale, 'ui.detail.condition', { condition: translateValue(locale, score?.factors?.weather?.windCondition ?? 'unknown') }),
+              windGust ? translate(locale, 'ui.detail.gusts', { speed: formatQuantity(windGust, 'windSpeed', locale, 0) }) : '',
+              windDirection !== undefined ? translate(locale, 'ui.detail.direction', { degrees: windDirection }) : '',
+              translate(locale, 'ui.detail.airTemp', { temperature: formatQuantity(temperature, 'temperature', locale, 0) }),
               conditions?.waterTemperature
-                ? `Water Temp: ${conditions.waterTemperature.temperatureF.toFixed(1)}°F (${conditions.waterTemperature.source})`
+                ? translate(locale, 'ui.detail.waterTemp', {
+                    temperature: formatQuantity(conditions.waterTemperature.temperatureF, 'temperature', locale),
+                    source: conditions.waterTemperature.source,
+                  })
                 : '',
-              weather?.timestamp ? `Updated: ${formatTimestamp(weather.timestamp)}` : '',
-              windSourceDisplay ? `Source: ${windSourceDisplay}` : '',
+              weather?.timestamp ? translate(locale, 'ui.detail.updated', { time: formatTimestamp(weather.timestamp, locale) }) : '',
+              windSourceDisplay ? translate(locale, 'ui.detail.source', { source: windSourceDisplay }) : '',
               ...(score?.factors?.weather?.issues ?? []),
               // Data source links
               isOpenMeteoWind
@@ -449,25 +641,53 @@ export default function CurrentConditions() {
           />
 
           <ConditionsCard
-            title="Water Quality"
-            value={(score?.factors?.waterQuality?.status ?? 'unknown').toUpperCase()}
-            threshold={`Enterococcus: Safe ≤${SAFETY_THRESHOLDS.waterQuality.enterococcus.safe}, Advisory ≤${SAFETY_THRESHOLDS.waterQuality.enterococcus.advisory}, Warning ≤${SAFETY_THRESHOLDS.waterQuality.enterococcus.dangerous}, Dangerous >${SAFETY_THRESHOLDS.waterQuality.enterococcus.dangerous} | Coliform: Safe ≤${SAFETY_THRESHOLDS.waterQuality.coliform.safe}, Advisory ≤${SAFETY_THRESHOLDS.waterQuality.coliform.advisory}, Warning ≤${SAFETY_THRESHOLDS.waterQuality.coliform.dangerous}, Dangerous >${SAFETY_THRESHOLDS.waterQuality.coliform.dangerous} MPN/100ml`}
+            title={translate(locale, 'ui.card.waterQuality')}
+            value={translateValue(locale, score?.factors?.waterQuality?.status ?? 'unknown').toLocaleUpperCase(LOCALES[locale].intlTag)}
+            threshold={translate(locale, 'ui.threshold.waterQuality', {
+              enterococcusSafe: thresholds.waterQuality.enterococcus.safe,
+              enterococcusAdvisory: thresholds.waterQuality.enterococcus.advisory,
+              enterococcusDangerous: thresholds.waterQuality.enterococcus.dangerous,
+              coliformSafe: thresholds.waterQuality.coliform.safe,
+              coliformAdvisory: thresholds.waterQuality.coliform.advisory,
+              coliformDangerous: thresholds.waterQuality.coliform.dangerous,
+            })}
             status={waterQualityStatus}
             icon="💧"
             details={[
-              `Bacteria: ${score?.factors?.waterQuality?.bacteriaLevel ?? 'unknown'}`,
+              translate(locale, 'ui.detail.bacteria', { level: translateValue(locale, score?.factors?.waterQuality?.bacteriaLevel ?? 'unknown') }),
               waterQuality?.enterococcusCount !== undefined
-                ? `Enterococcus: ${waterQuality.enterococcusCount.toFixed(0)} MPN/100ml`
+                ? translate(locale, 'ui.detail.enterococcus', { count: formatNumber(waterQuality.enterococcusCount, locale) })
                 : '',
               waterQuality?.coliformCount !== undefined
-                ? `Total Coliform: ${waterQuality.coliformCount.toFixed(0)} MPN/100ml`
+                ? translate(locale, 'ui.detail.coliform', { count: formatNumber(waterQuality.coliformCount, locale) })
                 : '',
               score?.factors?.waterQuality?.recentSSO
-                ? `SSO ${score?.factors?.waterQuality?.daysSinceSSO ?? '?'} days ago`
+                ? score.factors.waterQuality.ssoImpact !== undefined
+                  ? translate(locale, 'ui.detail.ssoImpact', {
+                      days: score.factors.waterQuality.daysSinceSSO ?? '?',
+                      impact: Math.round(score.factors.waterQuality.ssoImpact * 100),
+                    })
+                  : translate(locale, 'ui.detail.sso', { days: score.factors.waterQuality.daysSinceSSO ?? '?' })
+                : '',
+              conditions?.precipitation
+                ? conditions.precipitation.next24hInches > 0
+                  ? translate(locale, 'ui.detail.rainForecast', {
+                      amount: formatQuantity(conditions.precipitation.last72hInches, 'rain', locale, rainDigits),
+                      forecast: formatQuantity(conditions.precipitation.next24hInches, 'rain', locale, rainDigits),
+                    })
+                  : translate(locale, 'ui.detail.rain', {
+                      amount: formatQuantity(conditions.precipitation.last72hInches, 'rain', locale, rainDigits),
+                    })
+                : '',
+              waterQuality?.nowcast
+                ? translate(locale, 'ui.detail.nowcast', {
+                    percent: Math.round(waterQuality.nowcast.probability * 100),
+                    level: translateValue(locale, waterQuality.nowcast.level),
+                  })
                 : '',
               waterQuality?.notes || '', // Shows "Sampled X days ago"
-              waterQuality?.source ? `Source: ${waterQuality.source}` : '', // Show which API
-              waterQuality?.stationId ? `Station: ${waterQuality.stationId}` : '',
+              waterQuality?.source ? translate(locale, 'ui.detail.source', { source: waterQuality.source }) : '', // Show which API
+              waterQuality?.stationId ? translate(locale, 'ui.detail.station', { station: waterQuality.stationId }) : '',
               // Show link to data source based on which API provided the data
               waterQuality?.source?.includes('SF Beach Water Quality')
                 ? '🔗 https://data.sfgov.org/Energy-and-Environment/Beach-Water-Quality-Monitoring/v3fv-x3ux'
@@ -481,58 +701,161 @@ export default function CurrentConditions() {
           />
 
           <ConditionsCard
-            title="Dam Releases"
-            value={score?.factors?.damReleases?.totalFlowCFS
-              ? Math.round(score.factors.damReleases.totalFlowCFS / 1000).toString() + 'k'
-              : '0'}
-            unit="CFS"
-            threshold={`Low <${SAFETY_THRESHOLDS.damReleases.moderate.toLocaleString()}CFS, Moderate <${SAFETY_THRESHOLDS.damReleases.high.toLocaleString()}CFS, High <${SAFETY_THRESHOLDS.damReleases.extreme.toLocaleString()}CFS`}
+            title={translate(locale, 'ui.card.waterTemperature')}
+            value={score?.factors?.waterTemperature?.temperatureF !== undefined
+              ? formatNumber(waterTempLocal.value, locale, 1)
+              : '--'}
+            unit={waterTempLocal.unit}
+            threshold={translate(locale, 'ui.threshold.waterTemp', {
+              coldShock: formatLimit(thresholds.waterTemp.coldShock, 'temperature', locale),
+              cold: formatLimit(thresholds.waterTemp.cold, 'temperature', locale),
+              cool: formatLimit(thresholds.waterTemp.cool, 'temperature', locale),
+              comfortable: formatLimit(thresholds.waterTemp.comfortable, 'temperature', locale),
+            })}
+            status={waterTemperatureStatus}
+            icon="🌡️"
+            details={[
+              translate(locale, 'ui.detail.condition', { condition: translateValue(locale, score?.factors?.waterTemperature?.condition ?? 'unknown') }),
+              score?.factors?.waterTemperature?.wetsuitRecommended ? translate(locale, 'ui.detail.wetsuit') : '',
+              conditions?.waterTemperature?.timestamp
+                ? translate(locale, 'ui.detail.updated', { time: formatTimestamp(conditions.waterTemperature.timestamp, locale) })
+                : '',
+              ...(score?.factors?.waterTemperature?.issues ?? []),
+              conditions?.waterTemperature
+                ? '🔗 https://seatemperature.info/aquatic-park-water-temperature.html'
+                : '',
+            ].filter(Boolean)}
+          />
+
+          <ConditionsCard
+            title={translate(locale, 'ui.card.coldExposure')}
+            value={coldExposure ? coldExposure.maxSwimMinutes : '--'}
+            unit={translate(locale, 'unit.minutesMax')}
+            threshold={translate(locale, 'ui.threshold.coldExposure', {
+              extreme: thresholds.coldExposure.extremeMinutes,
+              high: thresholds.coldExposure.highMinutes,
+              moderate: thresholds.coldExposure.moderateMinutes,
+            })}
+            status={coldExposureStatus}
+            icon="🥶"
+            details={coldExposure ? [
+              translate(locale, 'ui.detail.risk', { risk: translateValue(locale, coldExposure.risk) }),
+              translate(locale, 'ui.detail.exitFeel', {
+                feel: translateValue(locale, coldExposure.exitFeel),
+                temperature: formatQuantity(coldExposure.exitFeelF, 'temperature', locale, 0),
+                wind: formatQuantity(coldExposure.windSpeedMph, 'windSpeed', locale, 0),
+              }),
+              translate(locale, 'ui.detail.exposure', {
+                suit: translateValue(locale, coldExposure.exposure.suit),
+                cap: translateValue(locale, coldExposure.exposure.cap),
+                acclimatisation: translateValue(locale, coldExposure.exposure.acclimatisation),
+              }),
+              ...coldExposure.advice,
+            ] : [translate(locale, 'ui.detail.noWaterTemp')]}
+          />
+
+          <ConditionsCard
+            title={translate(locale, 'ui.card.visibility')}
+            value={score?.factors?.visibility?.visibilityMiles !== undefined
+              ? formatNumber(visibilityLocal.value, locale, 1)
+              : '--'}
+            unit={visibilityLocal.unit}
+            threshold={translate(locale, 'ui.threshold.visibility', {
+              denseFog: formatLimit(thresholds.visibility.denseFog, 'distance', locale),
+              poor: formatLimit(thresholds.visibility.poor, 'distance', locale),
+              moderate: formatLimit(thresholds.visibility.moderate, 'distance', locale),
+              good: formatLimit(thresholds.visibility.good, 'distance', locale),
+            })}
+            status={visibilityStatus}
+            icon="🌫️"
+            details={[
+              translate(locale, 'ui.detail.condition', { condition: translateValue(locale, score?.factors?.visibility?.condition ?? 'unknown') }),
+              conditions?.daylight
+                ? translate(locale, 'ui.detail.light', { period: translateValue(locale, conditions.daylight.period) })
+                : '',
+              conditions?.daylight?.sunrise && conditions.daylight.sunset
+                ? translate(locale, 'ui.detail.sunTimes', {
+                    sunrise: formatParkTime(conditions.daylight.sunrise, locale),
+                    sunset: formatParkTime(conditions.daylight.sunset, locale),
+                  })
+                : '',
+              conditions?.daylight?.civilDawn && conditions.daylight.civilDusk
+                ? translate(locale, 'ui.detail.civilTwilight', {
+                    dawn: formatParkTime(conditions.daylight.civilDawn, locale),
+                    dusk: formatParkTime(conditions.daylight.civilDusk, locale),
+                  })
+                : '',
+              weather?.timestamp ? translate(locale, 'ui.detail.updated', { time: formatTimestamp(weather.timestamp, locale) }) : '',
+              ...(score?.factors?.visibility?.issues ?? []),
+              weather?.source?.includes('NOAA') ? '🔗 https://www.weather.gov/' : '',
+            ].filter(Boolean)}
+          />
+
+          <ConditionsCard
+            title={translate(locale, 'ui.card.damReleases')}
+            value={damFlowLocal.value >= 1000
+              ? formatNumber(damFlowLocal.value / 1000, locale) + 'k'
+              : formatNumber(damFlowLocal.value, locale)}
+            unit={damFlowLocal.unit}
+            threshold={translate(locale, 'ui.threshold.damReleases', {
+              moderate: formatLimit(thresholds.damReleases.moderate, 'flow', locale),
+              high: formatLimit(thresholds.damReleases.high, 'flow', locale),
+              extreme: formatLimit(thresholds.damReleases.extreme, 'flow', locale),
+            })}
             status={damReleasesStatus}
             icon="🏔️"
             details={[
-              `Level: ${score?.factors?.damReleases?.releaseLevel ?? 'unknown'}`,
+              translate(locale, 'ui.detail.level', { level: translateValue(locale, score?.factors?.damReleases?.releaseLevel ?? 'unknown') }),
 
               // Current snapshot
-              `Current: ${score?.factors?.damReleases?.totalFlowCFS?.toLocaleString() ?? '0'} CFS`,
+              translate(locale, 'ui.detail.currentFlow', { flow: formatQuantity(score?.factors?.damReleases?.totalFlowCFS ?? 0, 'flow', locale, 0) }),
 
               // 48-hour historical context
               damReleases?.historical48h?.averageFlowCFS
-                ? `48h Average: ${Math.round(damReleases.historical48h.averageFlowCFS).toLocaleString()} CFS`
+                ? translate(locale, 'ui.detail.averageFlow', { flow: formatQuantity(damReleases.historical48h.averageFlowCFS, 'flow', locale, 0) })
                 : '',
 
               damReleases?.historical48h?.peakFlowCFS
-                ? `48h Peak: ${Math.round(damReleases.historical48h.peakFlowCFS).toLocaleString()} CFS`
+                ? translate(locale, 'ui.detail.peakFlow', { flow: formatQuantity(damReleases.historical48h.peakFlowCFS, 'flow', locale, 0) })
                 : '',
 
               // Trend indicator with emoji
               damReleases?.historical48h?.trendDirection
-                ? `Trend: ${damReleases.historical48h.trendDirection === 'increasing' ? '↗️ Increasing'
-                    : damReleases.historical48h.trendDirection === 'decreasing' ? '↘️ Decreasing'
-                    : '→ Stable'}`
+                ? translate(locale, 'ui.detail.trend', {
+                    trend: `${damReleases.historical48h.trendDirection === 'increasing' ? '↗️'
+                      : damReleases.historical48h.trendDirection === 'decreasing' ? '↘️'
+                      : '→'} ${translateValue(locale, damReleases.historical48h.trendDirection)}`,
+                  })
                 : '',
 
               // Explanatory note about time lag
-              '⏱️ Dam releases take 24-48 hours to reach SF Bay',
-              'Score reflects recent releases affecting current conditions',
+              `⏱️ ${translate(locale, 'ui.detail.damLag')}`,
+              translate(locale, 'ui.detail.damScore'),
 
               // Top source
-              `Top Source: ${score?.factors?.damReleases?.topContributor ?? 'Unknown'}`,
+              translate(locale, 'ui.detail.topSource', { name: score?.factors?.damReleases?.topContributor ?? translateValue(locale, 'unknown') }),
 
               // Individual dam contributions with 48h peak
               ...(damReleases?.dams
                 .filter(dam => dam.current.flowCFS > 0)
                 .sort((a, b) => b.current.flowCFS - a.current.flowCFS)
                 .slice(0, 3)  // Top 3 dams
-                .map(dam =>
-                  `${dam.name}: ${Math.round(dam.current.flowCFS).toLocaleString()} CFS (${dam.current.percentOfTotal.toFixed(0)}%)` +
-                  (dam.historical48h?.peakFlowCFS ? ` - 48h peak: ${Math.round(dam.historical48h.peakFlowCFS).toLocaleString()}` : '')
-                )
+                .map(dam => {
+                  const flow = {
+                    name: dam.name,
+                    flow: formatQuantity(dam.current.flowCFS, 'flow', locale, 0),
+                    percent: formatNumber(dam.current.percentOfTotal, locale),
+                  };
+                  return dam.historical48h?.peakFlowCFS
+                    ? translate(locale, 'ui.detail.damFlowPeak', { ...flow, peak: formatQuantity(dam.historical48h.peakFlowCFS, 'flow', locale, 0) })
+                    : translate(locale, 'ui.detail.damFlow', flow);
+                })
                 || []
               ),
 
               // Latest data timestamp
               damReleases?.latestDataTimestamp
-                ? `Latest Data: ${new Date(damReleases.latestDataTimestamp).toLocaleTimeString('en-US', { timeZone: 'America/Los_Angeles', hour: 'numeric', minute: '2-digit', hour12: true })} PST`
+                ? translate(locale, 'ui.detail.latestData', { time: formatParkTime(damReleases.latestDataTimestamp, locale) })
                 : '',
 
               // Issues/warnings from scoring algorithm
@@ -544,6 +867,9 @@ export default function CurrentConditions() {
           />
         </div>
       </div>
+
+      {/* Score Breakdown Waterfall */}
+      <ScoreBreakdown score={score} locale={locale} />
     </div>
   );
 }
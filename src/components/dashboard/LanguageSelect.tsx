@@ -0,0 +1,33 @@
+/**
+ * Language Selector Component
+ * Allows users to pick the language advice and labels are shown in
+ */
+
+'use client';
+
+import type { Locale } from '@/types/conditions';
+import { LOCALES } from '@/config/locales';
+import { translate } from '@/lib/i18n';
+
+interface LanguageSelectProps {
+  locale: Locale;
+  onChange: (locale: Locale) => void;
+}
+
+export default function LanguageSelect({ locale, onChange }: LanguageSelectProps) {
+  return (
+    <select
+      value={locale}
+      onChange={(e) => onChange(e.target.value as Locale)}
+      aria-label={translate(locale, 'ui.language')}
+      title={translate(locale, 'ui.language')}
+      className="rounded-md border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 px-2 py-1 text-xs text-gray-700 dark:text-gray-300 focus:border-blue-500"
+    >
+      {Object.values(LOCALES).map((option) => (
+        <option key={option.id} value={option.id}>
+          {option.label}
+        </option>
+      ))}
+    </select>
+  );
+}
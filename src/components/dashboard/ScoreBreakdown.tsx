@@ -0,0 +1,164 @@
+/**
+ * Score Breakdown Component
+ * Renders the swim score as a waterfall: factor contributions build up the weighted score,
+ * interaction penalties adjust it, then any caps that fired pull it down to the final score
+ */
+
+'use client';
+
+import type { SwimScore, Locale } from '@/types/conditions';
+import { SCORE_RANGES } from '@/config/thresholds';
+import { translate } from '@/lib/i18n';
+
+interface ScoreBreakdownProps {
+  score: SwimScore;
+  locale: Locale;
+}
+
+interface WaterfallRow {
+  key: string;
+  label: string;
+  detail: string;
+  title?: string; // Tooltip, defaults to the label
+  start: number; // 0-100
+  end: number;   // 0-100
+  kind: 'factor' | 'subtotal' | 'interaction' | 'cap' | 'total';
+}
+
+const BAR_COLORS: Record<Exclude<WaterfallRow['kind'], 'total'>, string> = {
+  factor: 'bg-blue-400 dark:bg-blue-500',
+  subtotal: 'bg-gray-400 dark:bg-gray-500',
+  interaction: 'bg-orange-400 dark:bg-orange-500',
+  cap: 'bg-red-500 dark:bg-red-600',
+};
+
+export default function ScoreBreakdown({ score, locale }: ScoreBreakdownProps) {
+  const { breakdown } = score;
+
+  // Older cached scores predate the breakdown
+  if (!breakdown) return null;
+
+  const rows: WaterfallRow[] = [];
+  let running = 0;
+
+  for (const entry of breakdown.contributions) {
+    rows.push({
+      key: entry.factor,
+      label: translate(locale, `factor.${entry.factor}`),
+      detail: `${entry.rawScore} × ${entry.weight}% = +${entry.contribution.toFixed(1)}`,
+      start: running,
+      end: running + entry.contribution,
+      kind: 'factor',
+    });
+    running += entry.contribution;
+  }
+
+  rows.push({
+    key: 'weighted',
+    label: translate(locale, 'ui.breakdown.weighted'),
+    detail: `${breakdown.weightedScore}`,
+    start: 0,
+    end: breakdown.weightedScore,
+    kind: 'subtotal',
+  });
+
+  // Older cached scores predate interactions
+  const interactions = breakdown.interactions ?? [];
+  if (interactions.length > 0) {
+    let adjusted = breakdown.weightedScore;
+    for (const interaction of interactions) {
+      rows.push({
+        key: interaction.id,
+        label: interaction.label,
+        detail: interaction.contribution.toFixed(1),
+        title: interaction.detail,
+        start: adjusted + interaction.contribution,
+        end: adjusted,
+        kind: 'interaction',
+      });
+      adjusted += interaction.contribution;
+    }
+
+    rows.push({
+      key: 'adjusted',
+      label: translate(locale, 'ui.breakdown.adjusted'),
+      detail: `${breakdown.adjustedScore}`,
+      start: 0,
+      end: breakdown.adjustedScore,
+      kind: 'subtotal',
+    });
+  }
+
+  for (const cap of breakdown.appliedCaps) {
+    const observed = cap.observed !== undefined
+      ? ` (${Number.isInteger(cap.observed) ? cap.observed : cap.observed.toFixed(1)}${cap.unit ? ` ${cap.unit}` : ''})`
+      : '';
+    rows.push({
+      key: cap.id,
+      label: translate(locale, 'ui.breakdown.cap', { condition: cap.condition }),
+      detail: `${cap.scoreBefore} → ${cap.scoreAfter}${observed}`,
+      start: cap.scoreAfter,
+      end: cap.scoreBefore,
+      kind: 'cap',
+    });
+  }
+
+  rows.push({
+    key: 'final',
+    label: translate(locale, 'ui.breakdown.final'),
+    detail: `${breakdown.finalScore}`,
+    start: 0,
+    end: breakdown.finalScore,
+    kind: 'total',
+  });
+
+  const finalColor = SCORE_RANGES[score.rating].color;
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-lg p-6">
+      <h2 className="text-xl font-semibold mb-1 text-gray-800 dark:text-gray-200">
+        {translate(locale, 'ui.breakdown.title')}
+      </h2>
+      <p className="text-xs text-gray-500 dark:text-gray-400 mb-4">
+        {translate(locale, 'ui.breakdown.help')}
+      </p>
+
+      <div className="space-y-2">
+        {rows.map((row) => (
+          <div key={row.key} className="grid grid-cols-12 gap-2 items-center">
+            <div className={`col-span-4 text-xs truncate ${
+              row.kind === 'cap'
+                ? 'text-red-700 dark:text-red-400'
+                : row.kind === 'interaction'
+                ? 'text-orange-700 dark:text-orange-400'
+                : row.kind === 'factor'
+                ? 'text-gray-600 dark:text-gray-400'
+                : 'font-semibold text-gray-800 dark:text-gray-200'
+            }`} title={row.title ?? row.label}>
+              {row.label}
+            </div>
+            <div className="col-span-6 relative h-4 bg-gray-100 dark:bg-gray-700 rounded">
+              <div
+                className={`absolute h-4 rounded ${row.kind === 'total' ? '' : BAR_COLORS[row.kind]}`}
+                style={{
+                  left: `${Math.min(row.start, row.end)}%`,
+                  width: `${Math.max(Math.abs(row.end - row.start), 0.5)}%`,
+                  ...(row.kind === 'total' ? { backgroundColor: finalColor } : {}),
+                }}
+              />
+            </div>
+            <div className="col-span-2 text-xs text-right text-gray-600 dark:text-gray-400 whitespace-nowrap">
+              {row.detail}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {breakdown.appliedCaps.length === 0 && (
+        <p className="mt-4 text-xs text-gray-500 dark:text-gray-400">
+          {translate(locale, 'ui.breakdown.noCaps')}
+        </p>
+      )}
+    </div>
+  );
+}
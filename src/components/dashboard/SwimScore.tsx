@@ -1,23 +1,50 @@
 'use client';
 
-import type { SwimScore as SwimScoreType, TidePhaseType } from '@/types/conditions';
+import type { SwimScore as SwimScoreType, TidePhaseType, SwimmerProfileId, FactorWeights, Locale } from '@/types/conditions';
 import { SCORE_RANGES } from '@/config/thresholds';
 import TidePhaseToggle from './TidePhaseToggle';
+import SwimmerProfileSelect from './SwimmerProfileSelect';
+import WeightsEditor from './WeightsEditor';
+import { SCORE_FACTOR_KEYS } from '@/lib/algorithms/score-weights';
+import { isWarning } from '@/lib/algorithms/rules';
+import { translate, translateValue, formatParkTime } from '@/lib/i18n';
 
 interface SwimScoreProps {
   score: SwimScoreType;
   tidePreference: TidePhaseType;
   onTidePreferenceChange: (preference: TidePhaseType) => void;
   isPreferenceLoaded: boolean;
+  profile: SwimmerProfileId;
+  onProfileChange: (profile: SwimmerProfileId) => void;
+  isProfileLoaded: boolean;
+  hasCustomWeights: boolean;
+  onWeightsChange: (weights: Partial<FactorWeights> | null) => void;
+  isWeightsLoaded: boolean;
+  locale: Locale;
 }
 
 export default function SwimScore({
   score,
   tidePreference,
   onTidePreferenceChange,
-  isPreferenceLoaded
+  isPreferenceLoaded,
+  profile,
+  onProfileChange,
+  isProfileLoaded,
+  hasCustomWeights,
+  onWeightsChange,
+  isWeightsLoaded,
+  locale
 }: SwimScoreProps) {
-  const { overallScore, rating, warnings, recommendations } = score;
+  const { overallScore, rating, advisories, confidence } = score;
+  const recommendations = advisories.filter(advisory => !isWarning(advisory));
+  const warnings = advisories.filter(isWarning);
+
+  // With low confidence the single number overstates what we know - show the plausible range
+  const showRange = confidence?.level === 'low' && confidence.scoreRange.low !== confidence.scoreRange.high;
+  const uncertainFactors = confidence
+    ? SCORE_FACTOR_KEYS.filter(key => confidence.factors[key].confidence < 0.8)
+    : [];
 
   // Get color based on rating
   const scoreRange = SCORE_RANGES[rating];
@@ -26,7 +53,7 @@ export default function SwimScore({
   return (
     <div className="bg-white dark:bg-gray-800 rounded-lg shadow-lg p-6">
       <h2 className="text-xl font-semibold mb-4 text-gray-800 dark:text-gray-200">
-        Current Swim Score
+        {translate(locale, 'ui.score.title')}
       </h2>
 
       {/* Score Circle */}
@@ -38,27 +65,71 @@ export default function SwimScore({
           }}
         >
           <div className="absolute w-40 h-40 bg-white dark:bg-gray-800 rounded-full flex flex-col items-center justify-center">
-            <div className="text-5xl font-bold" style={{ color }}>
-              {overallScore}
-            </div>
+            {showRange ? (
+              <div className="text-4xl font-bold" style={{ color }} title={translate(locale, 'ui.score.bestEstimate', { score: overallScore })}>
+                {confidence.scoreRange.low}–{confidence.scoreRange.high}
+              </div>
+            ) : (
+              <div className="text-5xl font-bold" style={{ color }}>
+                {overallScore}
+              </div>
+            )}
             <div className="text-lg font-semibold mt-1 text-gray-600 dark:text-gray-400 uppercase">
-              {rating}
+              {translateValue(locale, rating)}
             </div>
           </div>
         </div>
       </div>
 
+      {/* Data Confidence */}
+      {confidence && (
+        <div className="mb-4 text-center">
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            {translate(locale, 'ui.score.confidence')}{' '}
+            <span className={`font-semibold ${
+              confidence.level === 'high'
+                ? 'text-green-700 dark:text-green-400'
+                : confidence.level === 'medium'
+                ? 'text-yellow-700 dark:text-yellow-400'
+                : 'text-red-700 dark:text-red-400'
+            }`}>
+              {translateValue(locale, confidence.level)} ({Math.round(confidence.overall * 100)}%)
+            </span>
+            {!showRange && confidence.level !== 'high' && (
+              <span> · {translate(locale, 'ui.score.likely', { low: confidence.scoreRange.low, high: confidence.scoreRange.high })}</span>
+            )}
+          </p>
+          {uncertainFactors.length > 0 && (
+            <ul className="mt-2 space-y-0.5 text-left">
+              {uncertainFactors.map((key) => (
+                <li key={key} className="text-xs text-gray-500 dark:text-gray-400">
+                  {translate(locale, `factor.${key}`)} ({Math.round(confidence.factors[key].confidence * 100)}%):{' '}
+                  {confidence.factors[key].reasons.join(', ')}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+
       {/* Recommendations */}
       {recommendations.length > 0 && (
         <div className="mb-4">
           <h3 className="font-semibold text-sm text-gray-700 dark:text-gray-300 mb-2">
-            Recommendations
+            {translate(locale, 'ui.score.recommendations')}
           </h3>
           <ul className="space-y-1">
-            {recommendations.map((rec, idx) => (
-              <li key={idx} className="text-sm text-green-700 dark:text-green-400 flex items-start">
-                <span className="mr-2">✓</span>
-                <span>{rec}</span>
+            {recommendations.map(advisory => (
+              <li
+                key={advisory.code}
+                className={`text-sm flex items-start ${
+                  advisory.severity === 'caution'
+                    ? 'text-amber-700 dark:text-amber-400'
+                    : 'text-green-700 dark:text-green-400'
+                }`}
+              >
+                <span className="mr-2">{advisory.severity === 'caution' ? '!' : '✓'}</span>
+                <span>{advisory.text}</span>
               </li>
             ))}
           </ul>
@@ -69,32 +140,61 @@ export default function SwimScore({
       {warnings.length > 0 && (
         <div>
           <h3 className="font-semibold text-sm text-gray-700 dark:text-gray-300 mb-2">
-            Warnings
+            {translate(locale, 'ui.score.warnings')}
           </h3>
           <ul className="space-y-1">
-            {warnings.map((warning, idx) => (
-              <li key={idx} className="text-sm text-red-700 dark:text-red-400 flex items-start">
+            {warnings.map(advisory => (
+              <li
+                key={advisory.code}
+                className={`text-sm text-red-700 dark:text-red-400 flex items-start ${
+                  advisory.severity === 'danger' ? 'font-semibold' : ''
+                }`}
+              >
                 <span className="mr-2">⚠</span>
-                <span>{warning}</span>
+                <span>{advisory.text}</span>
               </li>
             ))}
           </ul>
         </div>
       )}
 
+      {/* Swimmer Profile Selector */}
+      <div className="mt-6 pt-6 border-t border-gray-200 dark:border-gray-700">
+        <SwimmerProfileSelect
+          profile={profile}
+          onChange={onProfileChange}
+          isLoading={!isProfileLoaded}
+          locale={locale}
+        />
+      </div>
+
+      {/* Factor Weights Editor (older cached scores may not carry weights) */}
+      {score.weights && (
+        <div className="mt-6 pt-6 border-t border-gray-200 dark:border-gray-700">
+          <WeightsEditor
+            weights={score.weights}
+            isCustom={hasCustomWeights}
+            onChange={onWeightsChange}
+            isLoading={!isWeightsLoaded}
+            locale={locale}
+          />
+        </div>
+      )}
+
       {/* Tide Phase Preference Toggle */}
       <div className="mt-6 pt-6 border-t border-gray-200 dark:border-gray-700">
         <TidePhaseToggle
           preference={tidePreference}
           onChange={onTidePreferenceChange}
           isLoading={!isPreferenceLoaded}
+          locale={locale}
         />
       </div>
 
       {/* Timestamp */}
       <div className="mt-4 pt-4 border-t border-gray-200 dark:border-gray-700">
         <p className="text-xs text-gray-500 dark:text-gray-400">
-          Last updated: {new Date(score.timestamp).toLocaleTimeString()}
+          {translate(locale, 'ui.score.lastUpdated', { time: formatParkTime(score.timestamp, locale) })}
         </p>
       </div>
     </div>
@@ -0,0 +1,49 @@
+/**
+ * Swimmer Profile Selector Component
+ * Allows users to pick the swimmer profile used for swim score calculation
+ */
+
+'use client';
+
+import type { SwimmerProfileId, Locale } from '@/types/conditions';
+import { SWIMMER_PROFILES } from '@/config/profiles';
+import { translate } from '@/lib/i18n';
+
+interface SwimmerProfileSelectProps {
+  profile: SwimmerProfileId;
+  onChange: (profile: SwimmerProfileId) => void;
+  isLoading?: boolean;
+  locale: Locale;
+}
+
+export default function SwimmerProfileSelect({ profile, onChange, isLoading = false, locale }: SwimmerProfileSelectProps) {
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-semibold text-gray-700 dark:text-gray-300">
+          {translate(locale, 'ui.profile.title')}
+        </h3>
+        {isLoading && (
+          <span className="text-xs text-gray-500 dark:text-gray-400">{translate(locale, 'ui.loading')}</span>
+        )}
+      </div>
+
+      <select
+        value={profile}
+        onChange={(e) => onChange(e.target.value as SwimmerProfileId)}
+        disabled={isLoading}
+        className="w-full rounded-lg border-2 border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 p-2 text-sm text-gray-900 dark:text-gray-100 focus:border-blue-500 disabled:opacity-50"
+      >
+        {Object.values(SWIMMER_PROFILES).map((option) => (
+          <option key={option.id} value={option.id}>
+            {translate(locale, `profile.${option.id}.label`)}
+          </option>
+        ))}
+      </select>
+
+      <p className="text-xs text-gray-600 dark:text-gray-400">
+        {translate(locale, `profile.${profile}.description`)}
+      </p>
+    </div>
+  );
+}
@@ -5,50 +5,53 @@
 
 'use client';
 
-import type { TidePhaseType } from '@/types/conditions';
+import type { TidePhaseType, Locale } from '@/types/conditions';
+import type { MessageKey } from '@/config/messages/en';
+import { translate } from '@/lib/i18n';
 
 interface TidePhaseToggleProps {
   preference: TidePhaseType;
   onChange: (phase: TidePhaseType) => void;
   isLoading?: boolean;
+  locale: Locale;
 }
 
 const TIDE_PHASES: Array<{
   value: TidePhaseType;
-  label: string;
-  description: string;
+  label: MessageKey;
+  description: MessageKey;
 }> = [
   {
     value: 'slack',
-    label: 'Slack',
-    description: 'Minimal water movement between tides',
+    label: 'ui.tide.slack',
+    description: 'ui.tide.slackDescription',
   },
   {
     value: 'flood',
-    label: 'Flood',
-    description: 'Incoming/rising tide',
+    label: 'ui.tide.flood',
+    description: 'ui.tide.floodDescription',
   },
   {
     value: 'ebb',
-    label: 'Ebb',
-    description: 'Outgoing/falling tide',
+    label: 'ui.tide.ebb',
+    description: 'ui.tide.ebbDescription',
   },
 ];
 
-export default function TidePhaseToggle({ preference, onChange, isLoading = false }: TidePhaseToggleProps) {
+export default function TidePhaseToggle({ preference, onChange, isLoading = false, locale }: TidePhaseToggleProps) {
   return (
     <div className="space-y-3">
       <div className="flex items-center justify-between">
         <h3 className="text-sm font-semibold text-gray-700 dark:text-gray-300">
-          Preferred Tide Phase
+          {translate(locale, 'ui.tide.title')}
         </h3>
         {isLoading && (
-          <span className="text-xs text-gray-500 dark:text-gray-400">Loading...</span>
+          <span className="text-xs text-gray-500 dark:text-gray-400">{translate(locale, 'ui.loading')}</span>
         )}
       </div>
 
       <p className="text-xs text-gray-600 dark:text-gray-400">
-        Select your preferred tide phase to personalize your swim score
+        {translate(locale, 'ui.tide.help')}
       </p>
 
       <div className="space-y-2">
@@ -77,11 +80,11 @@ export default function TidePhaseToggle({ preference, onChange, isLoading = fals
             <div className="ml-3 flex-1">
               <div className="flex items-center justify-between">
                 <span className="text-sm font-medium text-gray-900 dark:text-gray-100">
-                  {phase.label}
+                  {translate(locale, phase.label)}
                 </span>
               </div>
               <p className="text-xs text-gray-600 dark:text-gray-400 mt-0.5">
-                {phase.description}
+                {translate(locale, phase.description)}
               </p>
             </div>
           </label>
@@ -89,7 +92,7 @@ export default function TidePhaseToggle({ preference, onChange, isLoading = fals
       </div>
 
       <div className="text-xs text-gray-500 dark:text-gray-400 pt-2 border-t border-gray-200 dark:border-gray-700">
-        Your preference is saved locally and will affect your swim score calculation
+        {translate(locale, 'ui.tide.saved')}
       </div>
     </div>
   );
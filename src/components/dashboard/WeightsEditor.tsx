@@ -0,0 +1,85 @@
+/**
+ * Factor Weights Editor Component
+ * Lets users adjust how much each factor contributes to their swim score
+ */
+
+'use client';
+
+import { useEffect, useState } from 'react';
+import type { FactorWeights, Locale } from '@/types/conditions';
+import { SCORE_FACTOR_KEYS } from '@/lib/algorithms/score-weights';
+import { translate } from '@/lib/i18n';
+
+interface WeightsEditorProps {
+  weights: FactorWeights;          // Effective weights of the current score
+  isCustom: boolean;               // Whether the user has overridden the profile weights
+  onChange: (weights: Partial<FactorWeights> | null) => void;
+  isLoading?: boolean;
+  locale: Locale;
+}
+
+export default function WeightsEditor({ weights, isCustom, onChange, isLoading = false, locale }: WeightsEditorProps) {
+  const [draft, setDraft] = useState<FactorWeights>(weights);
+
+  // Reset the draft whenever a new score arrives
+  useEffect(() => {
+    setDraft(weights);
+  }, [weights]);
+
+  const total = SCORE_FACTOR_KEYS.reduce((sum, key) => sum + draft[key], 0);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-semibold text-gray-700 dark:text-gray-300">
+          {translate(locale, 'ui.weights.title')}
+        </h3>
+        {isCustom && (
+          <span className="text-xs text-blue-600 dark:text-blue-400">{translate(locale, 'ui.weights.custom')}</span>
+        )}
+      </div>
+
+      <p className="text-xs text-gray-600 dark:text-gray-400">
+        {translate(locale, 'ui.weights.help')}
+      </p>
+
+      <div className="space-y-2">
+        {SCORE_FACTOR_KEYS.map((key) => (
+          <label key={key} className="block">
+            <div className="flex items-center justify-between text-xs text-gray-700 dark:text-gray-300">
+              <span>{translate(locale, `factor.${key}`)}</span>
+              <span>{total > 0 ? Math.round((draft[key] * 100) / total) : 0}%</span>
+            </div>
+            <input
+              type="range"
+              min={0}
+              max={50}
+              step={1}
+              value={draft[key]}
+              disabled={isLoading}
+              onChange={(e) => setDraft({ ...draft, [key]: Number(e.target.value) })}
+              className="w-full accent-blue-600"
+            />
+          </label>
+        ))}
+      </div>
+
+      <div className="flex gap-2">
+        <button
+          onClick={() => onChange(draft)}
+          disabled={isLoading || total <= 0}
+          className="flex-1 text-xs px-3 py-1.5 bg-blue-600 hover:bg-blue-700 text-white rounded-md transition-colors disabled:opacity-50"
+        >
+          {translate(locale, 'ui.weights.apply')}
+        </button>
+        <button
+          onClick={() => onChange(null)}
+          disabled={isLoading || !isCustom}
+          className="flex-1 text-xs px-3 py-1.5 bg-gray-100 hover:bg-gray-200 dark:bg-gray-800 dark:hover:bg-gray-700 text-gray-600 dark:text-gray-400 rounded-md transition-colors border border-gray-300 dark:border-gray-600 disabled:opacity-50"
+        >
+          {translate(locale, 'ui.weights.reset')}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,403 @@
+/**
+ * Scenario Sandbox Component
+ * Scores hand-entered conditions in the browser, for teaching what conditions mean
+ * and for checking threshold changes without waiting for the weather
+ */
+
+'use client';
+
+import { useMemo, useState } from 'react';
+import type { AlgorithmVersion, Locale, SwimScore } from '@/types/conditions';
+import type { MessageKey } from '@/config/messages/en';
+import { SCORE_RANGES } from '@/config/thresholds';
+import { parseScoreInputs } from '@/lib/algorithms/score-inputs';
+import { SCORING_ALGORITHMS, DEFAULT_ALGORITHM_VERSION } from '@/lib/algorithms/versions';
+import { calculateDaylight } from '@/lib/algorithms/solar';
+import { isWarning } from '@/lib/algorithms/rules';
+import { translate, translateValue } from '@/lib/i18n';
+import { useSwimmerProfile } from '@/hooks/useSwimmerProfile';
+import { useLocale } from '@/hooks/useLocale';
+import ScoreBreakdown from '@/components/dashboard/ScoreBreakdown';
+import SwimmerProfileSelect from '@/components/dashboard/SwimmerProfileSelect';
+import LanguageSelect from '@/components/dashboard/LanguageSelect';
+
+type ScenarioField =
+  | 'time'
+  | 'tideHeight'
+  | 'tidePhase'
+  | 'tideRate'
+  | 'currentSpeed'
+  | 'airTemperature'
+  | 'windSpeed'
+  | 'windGust'
+  | 'visibility'
+  | 'waveHeight'
+  | 'swellPeriod'
+  | 'waterQuality'
+  | 'enterococcus'
+  | 'waterTemperature'
+  | 'rain'
+  | 'damFlow';
+
+// Form values as typed; blank optional fields mean no data
+type ScenarioValues = Record<ScenarioField, string>;
+
+type Preset = 'calm' | 'windy' | 'rain';
+
+interface FieldSpec {
+  key: ScenarioField;
+  label: MessageKey;
+  options?: string[]; // Select instead of a number input
+  step?: number;
+}
+
+const FIELD_GROUPS: Array<{ title: MessageKey; fields: FieldSpec[] }> = [
+  {
+    title: 'ui.card.tideCurrent',
+    fields: [
+      { key: 'tideHeight', label: 'ui.sandbox.tideHeight', step: 0.1 },
+      { key: 'tidePhase', label: 'ui.sandbox.tidePhase', options: ['slack', 'flood', 'ebb'] },
+      { key: 'tideRate', label: 'ui.sandbox.tideRate', step: 0.1 },
+      { key: 'currentSpeed', label: 'ui.sandbox.currentSpeed', step: 0.1 },
+    ],
+  },
+  {
+    title: 'ui.card.wind',
+    fields: [
+      { key: 'airTemperature', label: 'ui.sandbox.airTemperature', step: 1 },
+      { key: 'windSpeed', label: 'ui.sandbox.windSpeed', step: 1 },
+      { key: 'windGust', label: 'ui.sandbox.windGust', step: 1 },
+      { key: 'visibility', label: 'ui.sandbox.visibility', step: 0.1 },
+    ],
+  },
+  {
+    title: 'ui.card.waves',
+    fields: [
+      { key: 'waveHeight', label: 'ui.sandbox.waveHeight', step: 0.1 },
+      { key: 'swellPeriod', label: 'ui.sandbox.swellPeriod', step: 1 },
+    ],
+  },
+  {
+    title: 'ui.card.waterQuality',
+    fields: [
+      { key: 'waterQuality', label: 'ui.sandbox.waterQuality', options: ['safe', 'advisory', 'warning', 'closed'] },
+      { key: 'enterococcus', label: 'ui.sandbox.enterococcus', step: 1 },
+      { key: 'rain', label: 'ui.sandbox.rain', step: 0.1 },
+    ],
+  },
+  {
+    title: 'ui.card.waterTemperature',
+    fields: [
+      { key: 'waterTemperature', label: 'ui.sandbox.waterTemperature', step: 0.5 },
+    ],
+  },
+  {
+    title: 'ui.card.damReleases',
+    fields: [
+      { key: 'damFlow', label: 'ui.sandbox.damFlow', step: 1000 },
+    ],
+  },
+];
+
+const PRESETS: Record<Preset, Omit<ScenarioValues, 'time'> & { hour: number }> = {
+  calm: {
+    hour: 7,
+    tideHeight: '3.5', tidePhase: 'slack', tideRate: '0.1', currentSpeed: '0.2',
+    airTemperature: '58', windSpeed: '4', windGust: '', visibility: '10',
+    waveHeight: '0.5', swellPeriod: '',
+    waterQuality: 'safe', enterococcus: '10', rain: '0',
+    waterTemperature: '60', damFlow: '12000',
+  },
+  windy: {
+    hour: 15,
+    tideHeight: '2.8', tidePhase: 'ebb', tideRate: '-1.2', currentSpeed: '2.1',
+    airTemperature: '64', windSpeed: '22', windGust: '30', visibility: '10',
+    waveHeight: '2.5', swellPeriod: '4',
+    waterQuality: 'safe', enterococcus: '20', rain: '0',
+    waterTemperature: '58', damFlow: '25000',
+  },
+  rain: {
+    hour: 10,
+    tideHeight: '4.2', tidePhase: 'flood', tideRate: '0.8', currentSpeed: '1.0',
+    airTemperature: '52', windSpeed: '10', windGust: '18', visibility: '3',
+    waveHeight: '1.2', swellPeriod: '',
+    waterQuality: 'advisory', enterococcus: '150', rain: '1.5',
+    waterTemperature: '53', damFlow: '60000',
+  },
+};
+
+function presetValues(preset: Preset): ScenarioValues {
+  const { hour, ...values } = PRESETS[preset];
+  const time = new Date();
+  time.setHours(hour, 0, 0, 0);
+  return { ...values, time: toDateTimeInput(time) };
+}
+
+// datetime-local inputs take local time without a zone
+function toDateTimeInput(date: Date): string {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+}
+
+// Blank optional numbers are left out so the score treats them as missing data
+function toNumber(value: string): number | undefined {
+  return value.trim() === '' ? undefined : Number(value);
+}
+
+/**
+ * Build a conditions object in the shape the simulate API accepts
+ */
+function toConditions(values: ScenarioValues) {
+  const currentSpeed = toNumber(values.currentSpeed);
+  const waterTemperature = toNumber(values.waterTemperature);
+  const rain = toNumber(values.rain);
+  const damFlow = toNumber(values.damFlow);
+
+  return {
+    tide: {
+      heightFeet: toNumber(values.tideHeight),
+      currentPhase: values.tidePhase,
+      changeRateFeetPerHour: toNumber(values.tideRate),
+    },
+    current: currentSpeed === undefined ? undefined : { speedKnots: currentSpeed },
+    weather: {
+      temperatureF: toNumber(values.airTemperature),
+      windSpeedMph: toNumber(values.windSpeed),
+      windGustMph: toNumber(values.windGust),
+      visibilityMiles: toNumber(values.visibility),
+    },
+    waves: {
+      waveHeightFeet: toNumber(values.waveHeight),
+      swellPeriodSeconds: toNumber(values.swellPeriod),
+    },
+    waterQuality: {
+      status: values.waterQuality,
+      enterococcusCount: toNumber(values.enterococcus),
+    },
+    waterTemperature: waterTemperature === undefined ? undefined : { temperatureF: waterTemperature },
+    // A single amount is treated as having fallen in the last 24 hours
+    precipitation: rain === undefined ? undefined : { last24hInches: rain, last48hInches: rain, last72hInches: rain },
+    damReleases: damFlow === undefined ? undefined : { current: { totalFlowCFS: damFlow } },
+  };
+}
+
+export default function ScenarioSandbox() {
+  const { profile, setProfile, isLoaded: isProfileLoaded } = useSwimmerProfile();
+  const { locale, setLocale } = useLocale();
+  const [values, setValues] = useState<ScenarioValues>(() => presetValues('calm'));
+  const [algorithm, setAlgorithm] = useState<AlgorithmVersion>(DEFAULT_ALGORITHM_VERSION);
+
+  // Score on every edit - the whole calculation runs in the browser, so this works on the static site too
+  const result = useMemo(() => {
+    const time = new Date(values.time);
+    if (Number.isNaN(time.getTime())) {
+      return { score: null, comparison: null, errors: ['time must be a date'] };
+    }
+
+    const { inputs, errors } = parseScoreInputs(toConditions(values), time);
+    if (!inputs) return { score: null, comparison: null, errors };
+
+    const options = { profile, daylight: calculateDaylight(time), locale };
+    const scoreWith = (version: AlgorithmVersion) => SCORING_ALGORITHMS[version].calculate(
+      inputs.tide,
+      inputs.current,
+      inputs.weather,
+      inputs.waves,
+      inputs.waterQuality,
+      inputs.recentSSOs,
+      inputs.damReleases,
+      inputs.waterTemperature,
+      inputs.precipitation,
+      options
+    );
+
+    // Score with the other version too, to show what an algorithm change does to this scenario
+    const other = (Object.keys(SCORING_ALGORITHMS) as AlgorithmVersion[]).find(version => version !== algorithm);
+    return {
+      score: scoreWith(algorithm),
+      comparison: other ? scoreWith(other) : null,
+      errors,
+    };
+  }, [values, algorithm, profile, locale]);
+
+  const setValue = (key: ScenarioField, value: string) => {
+    setValues(previous => ({ ...previous, [key]: value }));
+  };
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+      {/* Scenario Form */}
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-lg p-6">
+        <div className="flex items-center justify-between mb-2">
+          <h2 className="text-xl font-semibold text-gray-800 dark:text-gray-200">
+            {translate(locale, 'ui.sandbox.title')}
+          </h2>
+          <LanguageSelect locale={locale} onChange={setLocale} />
+        </div>
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+          {translate(locale, 'ui.sandbox.help')}
+        </p>
+        <p className="text-xs text-gray-500 dark:text-gray-400 mb-4">
+          {translate(locale, 'ui.sandbox.optional')}
+        </p>
+
+        <div className="flex flex-wrap items-center gap-2 mb-4">
+          <span className="text-sm text-gray-700 dark:text-gray-300">{translate(locale, 'ui.sandbox.preset')}</span>
+          {(Object.keys(PRESETS) as Preset[]).map((preset) => (
+            <button
+              key={preset}
+              onClick={() => setValues(presetValues(preset))}
+              className="px-3 py-1 text-xs rounded-md bg-blue-100 dark:bg-blue-900/40 text-blue-700 dark:text-blue-300 hover:bg-blue-200 dark:hover:bg-blue-800/60 transition-colors"
+            >
+              {translate(locale, `ui.sandbox.preset.${preset}`)}
+            </button>
+          ))}
+        </div>
+
+        <div className="grid grid-cols-2 gap-3 mb-4">
+          <label className="block text-xs text-gray-700 dark:text-gray-300">
+            {translate(locale, 'ui.sandbox.time')}
+            <input
+              type="datetime-local"
+              value={values.time}
+              onChange={(e) => setValue('time', e.target.value)}
+              className="mt-1 w-full rounded-md border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-900 px-2 py-1 text-sm"
+            />
+          </label>
+          <label className="block text-xs text-gray-700 dark:text-gray-300">
+            {translate(locale, 'ui.sandbox.algorithm')}
+            <select
+              value={algorithm}
+              onChange={(e) => setAlgorithm(e.target.value as AlgorithmVersion)}
+              className="mt-1 w-full rounded-md border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-900 px-2 py-1 text-sm"
+            >
+              {Object.values(SCORING_ALGORITHMS).map((option) => (
+                <option key={option.id} value={option.id}>
+                  {option.id} - {option.label}
+                </option>
+              ))}
+            </select>
+          </label>
+        </div>
+
+        {FIELD_GROUPS.map((group) => (
+          <fieldset key={group.title} className="mb-4">
+            <legend className="text-sm font-semibold text-gray-700 dark:text-gray-300 mb-2">
+              {translate(locale, group.title)}
+            </legend>
+            <div className="grid grid-cols-2 gap-3">
+              {group.fields.map((field) => (
+                <label key={field.key} className="block text-xs text-gray-700 dark:text-gray-300">
+                  {translate(locale, field.label)}
+                  {field.options ? (
+                    <select
+                      value={values[field.key]}
+                      onChange={(e) => setValue(field.key, e.target.value)}
+                      className="mt-1 w-full rounded-md border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-900 px-2 py-1 text-sm"
+                    >
+                      {field.options.map((option) => (
+                        <option key={option} value={option}>
+                          {translateValue(locale, option)}
+                        </option>
+                      ))}
+                    </select>
+                  ) : (
+                    <input
+                      type="number"
+                      step={field.step}
+                      value={values[field.key]}
+                      onChange={(e) => setValue(field.key, e.target.value)}
+                      className="mt-1 w-full rounded-md border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-900 px-2 py-1 text-sm"
+                    />
+                  )}
+                </label>
+              ))}
+            </div>
+          </fieldset>
+        ))}
+
+        <div className="pt-4 border-t border-gray-200 dark:border-gray-700">
+          <SwimmerProfileSelect
+            profile={profile}
+            onChange={setProfile}
+            isLoading={!isProfileLoaded}
+            locale={locale}
+          />
+        </div>
+      </div>
+
+      {/* Scenario Result */}
+      <div className="space-y-6">
+        {result.score ? (
+          <>
+            <ScenarioScore score={result.score} comparison={result.comparison} locale={locale} />
+            <ScoreBreakdown score={result.score} locale={locale} />
+          </>
+        ) : (
+          <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg p-6">
+            <p className="text-sm font-semibold text-red-800 dark:text-red-200 mb-2">
+              {translate(locale, 'ui.sandbox.invalid')}
+            </p>
+            <ul className="list-disc list-inside text-sm text-red-700 dark:text-red-300">
+              {result.errors.map((error) => (
+                <li key={error}>{error}</li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+interface ScenarioScoreProps {
+  score: SwimScore;
+  comparison: SwimScore | null;
+  locale: Locale;
+}
+
+function ScenarioScore({ score, comparison, locale }: ScenarioScoreProps) {
+  const { color } = SCORE_RANGES[score.rating];
+  const delta = comparison ? comparison.overallScore - score.overallScore : 0;
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-lg p-6">
+      <h2 className="text-xl font-semibold mb-4 text-gray-800 dark:text-gray-200">
+        {translate(locale, 'ui.sandbox.result')}
+      </h2>
+      <div className="flex items-baseline gap-3 mb-2">
+        <span className="text-5xl font-bold" style={{ color }}>{score.overallScore}</span>
+        <span className="text-lg font-semibold text-gray-600 dark:text-gray-400 uppercase">
+          {translateValue(locale, score.rating)}
+        </span>
+      </div>
+      {comparison && (
+        <p className="text-xs text-gray-500 dark:text-gray-400 mb-4">
+          {translate(locale, 'ui.sandbox.compare', {
+            version: comparison.algorithmVersion,
+            delta: delta > 0 ? `+${delta}` : delta,
+          })}
+        </p>
+      )}
+      {score.advisories.length > 0 && (
+        <ul className="space-y-1">
+          {score.advisories.map((advisory) => (
+            <li
+              key={advisory.code}
+              className={`text-sm flex items-start ${
+                isWarning(advisory)
+                  ? 'text-red-700 dark:text-red-400'
+                  : advisory.severity === 'caution'
+                  ? 'text-amber-700 dark:text-amber-400'
+                  : 'text-green-700 dark:text-green-400'
+              }`}
+            >
+              <span className="mr-2">{advisory.severity === 'info' ? '✓' : '!'}</span>
+              <span>{advisory.text}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -24,6 +24,18 @@ export const AQUATIC_PARK = {
     current: 'SFB1203' // Point Blunt SE corner of angel island
   },
 
+  // Swell exposure by direction the swell comes FROM (degrees true, as reported by NDBC MWD)
+  // Ocean swell reaches the cove through the Golden Gate and wraps in through the cove's
+  // north-facing opening; swell from other directions is blocked by the headlands
+  swellExposure: {
+    sectors: [
+      { id: 'golden-gate', from: 265, to: 300, exposure: 1.0 },  // W-WNW, straight through the Gate
+      { id: 'northwest', from: 300, to: 330, exposure: 0.5 },    // Partly shadowed by the Marin Headlands
+      { id: 'southwest', from: 230, to: 265, exposure: 0.4 },    // Partly shadowed by Lands End
+    ],
+    blocked: { id: 'blocked', exposure: 0.15 },                  // Everything else barely reaches the cove
+  },
+
   // Beach identifier for water quality APIs
   beachId: 'aquatic-park-sf',
 
@@ -0,0 +1,41 @@
+/**
+ * Locales
+ * Languages the advice and dashboard are translated into, and the units each one reads in
+ */
+
+import type { Locale, UnitSystem } from '@/types/conditions';
+import type { MessageKey } from './messages/en';
+import { EN_MESSAGES } from './messages/en';
+import { ES_MESSAGES } from './messages/es';
+import { ZH_MESSAGES } from './messages/zh';
+
+export interface LocaleSettings {
+  id: Locale;
+  label: string;     // Language name in that language, for the language selector
+  intlTag: string;   // BCP 47 tag used to format numbers and times
+  units: UnitSystem;
+}
+
+export const DEFAULT_LOCALE: Locale = 'en';
+
+export const LOCALES: Record<Locale, LocaleSettings> = {
+  en: { id: 'en', label: 'English', intlTag: 'en-US', units: 'imperial' },
+  es: { id: 'es', label: 'Español', intlTag: 'es-US', units: 'metric' },
+  // Traditional characters, as used by San Francisco's Chinese-language services
+  zh: { id: 'zh', label: '中文', intlTag: 'zh-TW', units: 'metric' },
+};
+
+export type MessageCatalogue = Record<MessageKey, string>;
+
+export const MESSAGES: Record<Locale, MessageCatalogue> = {
+  en: EN_MESSAGES,
+  es: ES_MESSAGES,
+  zh: ZH_MESSAGES,
+};
+
+/**
+ * Type guard for locale ids
+ */
+export function isLocale(value: unknown): value is Locale {
+  return typeof value === 'string' && value in LOCALES;
+}
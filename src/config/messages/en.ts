@@ -0,0 +1,373 @@
+/**
+ * English messages
+ * The source catalogue: every other locale must translate each key. Keys without a prefix
+ * are advisory codes (see RULE_MESSAGES) and condition.* keys are cap conditions (see
+ * RULE_CONDITIONS); {name} placeholders are filled when rendering.
+ */
+
+import { RULE_MESSAGES, RULE_CONDITIONS } from '@/config/rules';
+
+export const EN_MESSAGES = {
+  ...RULE_MESSAGES,
+  ...RULE_CONDITIONS,
+
+  // Factor issues
+  'issue.waterQuality.noData': 'No water quality data available',
+  'issue.waterQuality.dangerous': 'Dangerous bacteria levels ({count} MPN/100ml)',
+  'issue.waterQuality.high': 'High bacteria levels ({count} MPN/100ml)',
+  'issue.waterQuality.elevated': 'Elevated bacteria levels ({count} MPN/100ml)',
+  'issue.waterQuality.nowcast': 'Nowcast: {percent}% chance Enterococcus exceeds {threshold} MPN/100ml today',
+  'issue.sso.active': 'Active sewer overflow',
+  'issue.sso.major': 'Major sewer overflow {days} days ago',
+  'issue.sso.recent': 'Recent sewer overflow {days} days ago',
+  'issue.sso.details': '{issue} ({details})',
+  'issue.sso.distance': '{distance} away',
+  'issue.rain.heavy': 'Heavy rain ({amount} over 72 h) - runoff advisory for another {hours} h',
+  'issue.rain.light': 'Rain ({amount} over 72 h) - runoff advisory for another {hours} h',
+  'issue.tide.noData': 'No tide data available',
+  'issue.tide.moderate': 'Moderate tide movement ({phase})',
+  'issue.tide.strong': 'Strong tide movement ({phase})',
+  'issue.tide.above': 'Water level {amount} above prediction',
+  'issue.tide.below': 'Water level {amount} below prediction',
+  'issue.tide.late': 'Tide running {minutes} min late',
+  'issue.tide.early': 'Tide running {minutes} min early',
+  'issue.tide.spring': 'Spring tides ({range} range today)',
+  'issue.tide.king': 'King tide ({range} range today)',
+  'issue.current.veryStrong': 'Very strong current ({speed} knots)',
+  'issue.current.strong': 'Strong current ({speed} knots)',
+  'issue.current.moderate': 'Moderate current ({speed} knots)',
+  'issue.waves.noData': 'No wave data available',
+  'issue.waves.effectiveHeight': '{effective} effective, {reported} reported',
+  'issue.waves.moderate': 'Moderate waves ({height})',
+  'issue.waves.rough': 'Rough waves ({height})',
+  'issue.waves.dangerous': 'Dangerous waves ({height})',
+  'issue.waves.groundswell': 'Groundswell ({period} s, {sector}) - surge at the cove entrance',
+  'issue.waves.longPeriod': 'Long-period groundswell ({period} s, {sector}) - surge at the cove entrance',
+  'issue.wind.noData': 'No wind data available',
+  'issue.wind.moderate': 'Moderate winds ({speed})',
+  'issue.wind.strong': 'Strong winds ({speed})',
+  'issue.wind.veryStrong': 'Very strong winds ({speed})',
+  'issue.weather.precipitation': 'Precipitation present',
+  'issue.dams.noData': 'Dam release data unavailable',
+  'issue.dams.extreme': 'Extreme dam releases (48h peak: {flow})',
+  'issue.dams.extremeCurrents': 'Very strong currents expected - swimming not recommended',
+  'issue.dams.high': 'High dam releases (48h avg: {flow})',
+  'issue.dams.highCurrents': 'Strong currents - experienced swimmers only',
+  'issue.dams.elevated': 'Elevated dam releases (48h avg: {flow})',
+  'issue.dams.elevatedCurrents': 'Increased current strength',
+  'issue.dams.moderate': 'Moderate dam releases (48h avg: {flow})',
+  'issue.dams.rising': 'Dam releases trending upward - conditions may worsen',
+  'issue.waterTemp.noData': 'Water temperature data unavailable',
+  'issue.waterTemp.coldShock': 'Cold shock risk ({temperature})',
+  'issue.waterTemp.veryCold': 'Very cold water ({temperature})',
+  'issue.waterTemp.cold': 'Cold water ({temperature})',
+  'issue.visibility.dark': 'Dark (sun {degrees}° below the horizon)',
+  'issue.visibility.twilight': 'Civil twilight - low light',
+  'issue.visibility.notObserved': 'Visibility not observed',
+  'issue.visibility.denseFog': 'Dense fog ({distance} visibility)',
+  'issue.visibility.fog': 'Fog ({distance} visibility)',
+  'issue.visibility.reduced': 'Reduced visibility ({distance})',
+
+  // Cold exposure advice
+  'advice.coldExposure.extreme': 'Water this cold can weaken your arms within minutes - swim with a partner and stay near the exit',
+  'advice.coldExposure.high': 'Keep it short and stay within reach of the beach',
+  'advice.coldExposure.newToCold': 'New to cold water - enter slowly and let your breathing settle before swimming',
+  'advice.coldExposure.considerWetsuit': 'Consider a wetsuit until you are acclimatised',
+  'advice.coldExposure.wearCap': 'Wear a cap - a bare head loses heat quickly',
+  'advice.coldExposure.coldExit': 'Cold exit - have warm layers and a hat ready; you will keep cooling for 10-20 minutes after getting out',
+  'advice.coldExposure.chillyExit': 'Chilly exit - get dry and dressed quickly',
+
+  // Score interactions
+  'interaction.windAgainstCurrent': 'Wind against tide',
+  'interaction.windAgainstCurrent.detail': '{wind} wind from {windDirection}° against {current} current toward {currentDirection}°',
+
+  // Score confidence
+  'confidence.waterQuality.missing': 'No water quality sample available',
+  'confidence.waterQuality.sampleAge': 'Sample is {days} days old',
+  'confidence.waterQuality.noCount': 'No bacteria count in sample',
+  'confidence.waterQuality.noRainfall': 'No rainfall data - runoff advisory unavailable',
+  'confidence.tide.missing': 'No tide data available',
+  'confidence.tide.age': 'Tide observation is {hours} hours old',
+  'confidence.tide.harmonic': 'Tide predicted offline from approximate harmonic constituents',
+  'confidence.current.missing': 'No current data available',
+  'confidence.current.estimated': 'Current speed estimated from tide rate',
+  'confidence.current.age': 'Current prediction is {hours} hours old',
+  'confidence.waves.missing': 'No wave data available',
+  'confidence.waves.age': 'Wave report is {hours} hours old',
+  'confidence.waves.noSwell': 'No swell period or direction - reported height used as is',
+  'confidence.weather.missing': 'No wind or weather data available',
+  'confidence.weather.windOnly': 'Weather observation unavailable - using wind model only',
+  'confidence.weather.age': 'Weather observation is {hours} hours old',
+  'confidence.damReleases.missing': 'Dam release data unavailable',
+  'confidence.damReleases.age': 'Latest dam data is {hours} hours old',
+  'confidence.damReleases.noHistory': 'No 48-hour dam history',
+  'confidence.waterTemperature.missing': 'Water temperature unavailable',
+  'confidence.waterTemperature.age': 'Water temperature is {hours} hours old',
+  'confidence.visibility.missing': 'Visibility not observed',
+  'confidence.visibility.age': 'Visibility observation is {hours} hours old',
+
+  // Score factors
+  'factor.waterQuality': 'Water Quality',
+  'factor.tideAndCurrent': 'Tide & Current',
+  'factor.waves': 'Waves',
+  'factor.weather': 'Wind & Weather',
+  'factor.damReleases': 'Dam Releases',
+  'factor.waterTemperature': 'Water Temperature',
+  'factor.visibility': 'Visibility',
+
+  // Swimmer profiles
+  'profile.standard.label': 'Standard',
+  'profile.standard.description': 'Regular bay swimmer using the default thresholds',
+  'profile.wetsuit.label': 'Wetsuit',
+  'profile.wetsuit.description': 'Full wetsuit - cold water matters much less',
+  'profile.skins.label': 'Skins',
+  'profile.skins.description': 'Swimsuit and cap only - water temperature dominates',
+  'profile.beginner.label': 'Beginner',
+  'profile.beginner.description': 'First open water swims - conservative current, wave and wind limits',
+  'profile.marathoner.label': 'Marathoner',
+  'profile.marathoner.description': 'Long-distance swimmer comfortable in current and chop',
+
+  // Status and category values
+  'value.slack': 'slack',
+  'value.flood': 'flood',
+  'value.ebb': 'ebb',
+  'value.calm': 'calm',
+  'value.light': 'light',
+  'value.moderate': 'moderate',
+  'value.strong': 'strong',
+  'value.rough': 'rough',
+  'value.dangerous': 'dangerous',
+  'value.safe': 'safe',
+  'value.advisory': 'advisory',
+  'value.warning': 'warning',
+  'value.closed': 'closed',
+  'value.low': 'low',
+  'value.medium': 'medium',
+  'value.high': 'high',
+  'value.extreme': 'extreme',
+  'value.unknown': 'unknown',
+  'value.clear': 'clear',
+  'value.haze': 'haze',
+  'value.fog': 'fog',
+  'value.dense-fog': 'dense fog',
+  'value.cold-shock': 'cold shock',
+  'value.cold': 'cold',
+  'value.cool': 'cool',
+  'value.comfortable': 'comfortable',
+  'value.mild': 'mild',
+  'value.chilly': 'chilly',
+  'value.bitter': 'bitter',
+  'value.day': 'day',
+  'value.civil-twilight': 'civil twilight',
+  'value.night': 'night',
+  'value.increasing': 'Increasing',
+  'value.decreasing': 'Decreasing',
+  'value.stable': 'Stable',
+  'value.wind-chop': 'wind chop',
+  'value.mixed': 'mixed',
+  'value.groundswell': 'groundswell',
+  'value.long-period': 'long-period',
+  'value.golden-gate': 'Golden Gate (W-WNW)',
+  'value.northwest': 'northwest',
+  'value.southwest': 'southwest',
+  'value.blocked': 'blocked',
+  'value.skins': 'skins',
+  'value.shorty': 'shorty',
+  'value.fullsuit': 'full wetsuit',
+  'value.none': 'no',
+  'value.silicone': 'silicone',
+  'value.neoprene': 'neoprene',
+  'value.unacclimatised': 'unacclimatised',
+  'value.partial': 'partly acclimatised',
+  'value.acclimatised': 'acclimatised',
+  'value.excellent': 'excellent',
+  'value.good': 'good',
+  'value.fair': 'fair',
+  'value.poor': 'poor',
+  'value.king': 'king tide',
+  'value.spring': 'spring tide',
+  'value.neap': 'neap tide',
+  'value.new-moon': 'new moon',
+  'value.waxing-crescent': 'waxing crescent',
+  'value.first-quarter': 'first quarter',
+  'value.waxing-gibbous': 'waxing gibbous',
+  'value.full-moon': 'full moon',
+  'value.waning-gibbous': 'waning gibbous',
+  'value.last-quarter': 'last quarter',
+  'value.waning-crescent': 'waning crescent',
+
+  // Sensitivity analysis
+  'sensitivity.variable.windSpeed': 'Wind',
+  'sensitivity.variable.currentSpeed': 'Current',
+  'sensitivity.variable.waveHeight': 'Waves',
+  'sensitivity.variable.waterTemperature': 'Water temperature',
+  'sensitivity.variable.visibility': 'Visibility',
+  'sensitivity.variable.enterococcus': 'Enterococcus',
+  'sensitivity.better.decrease': '{variable} must drop {amount} for {rating}',
+  'sensitivity.better.increase': '{variable} must rise {amount} for {rating}',
+  'sensitivity.worse.decrease': '{variable} dropping {amount} would make it {rating}',
+  'sensitivity.worse.increase': '{variable} rising {amount} would make it {rating}',
+  'sensitivity.cap.decrease': '{variable} must fall to {value} to lift the cap at {cap}',
+  'sensitivity.cap.increase': '{variable} must rise to {value} to lift the cap at {cap}',
+
+  // Units
+  'unit.kt': 'kt',
+  'unit.minutesMax': 'min max',
+  'unit.mpn': 'MPN/100ml',
+
+  // Dashboard
+  'ui.language': 'Language',
+  'ui.loading': 'Loading...',
+  'ui.loadingConditions': 'Loading conditions...',
+  'ui.errorTitle': 'Error Loading Data',
+  'ui.retry': 'Retry',
+  'ui.clearCache': 'Clear Cache',
+  'ui.clearCacheTitle': 'Clear cached data and refresh',
+  'ui.clearCacheConfirm': 'Clear all cached data and refresh?',
+  'ui.justNow': 'just now',
+  'ui.minuteAgo': '1 minute ago',
+  'ui.minutesAgo': '{count} minutes ago',
+  'ui.hourAgo': '1 hour ago',
+  'ui.hoursAgo': '{count} hours ago',
+
+  'ui.score.title': 'Current Swim Score',
+  'ui.score.bestEstimate': 'Best estimate: {score}',
+  'ui.score.confidence': 'Data confidence:',
+  'ui.score.likely': 'likely {low}–{high}',
+  'ui.score.recommendations': 'Recommendations',
+  'ui.score.warnings': 'Warnings',
+  'ui.score.lastUpdated': 'Last updated: {time}',
+
+  'ui.profile.title': 'Swimmer Profile',
+  'ui.weights.title': 'Factor Weights',
+  'ui.weights.custom': 'Custom',
+  'ui.weights.help': 'Adjust how much each factor counts - weights are scaled to total 100',
+  'ui.weights.apply': 'Apply',
+  'ui.weights.reset': 'Reset to profile',
+
+  'ui.tide.title': 'Preferred Tide Phase',
+  'ui.tide.help': 'Select your preferred tide phase to personalize your swim score',
+  'ui.tide.saved': 'Your preference is saved locally and will affect your swim score calculation',
+  'ui.tide.slack': 'Slack',
+  'ui.tide.slackDescription': 'Minimal water movement between tides',
+  'ui.tide.flood': 'Flood',
+  'ui.tide.floodDescription': 'Incoming/rising tide',
+  'ui.tide.ebb': 'Ebb',
+  'ui.tide.ebbDescription': 'Outgoing/falling tide',
+
+  'ui.breakdown.title': 'Score Breakdown',
+  'ui.breakdown.help': 'Each factor adds its score × weight; interactions such as wind against tide subtract, then safety caps limit the total',
+  'ui.breakdown.weighted': 'Weighted score',
+  'ui.breakdown.adjusted': 'Adjusted score',
+  'ui.breakdown.cap': 'Cap: {condition}',
+  'ui.breakdown.final': 'Swim score',
+  'ui.breakdown.noCaps': 'No safety caps applied - the score is the weighted average',
+
+  'ui.card.tideCurrent': 'Tide & Current',
+  'ui.card.waves': 'Waves',
+  'ui.card.wind': 'Wind',
+  'ui.card.waterQuality': 'Water Quality',
+  'ui.card.waterTemperature': 'Water Temperature',
+  'ui.card.coldExposure': 'Cold Exposure',
+  'ui.card.visibility': 'Visibility',
+  'ui.card.damReleases': 'Dam Releases',
+
+  'ui.threshold.current': 'Slack <{slack}, Moderate <{moderate}, Strong <{strong}, Dangerous >{veryStrong}',
+  'ui.threshold.waves': 'Calm <{calm}, Safe <{safe}, Moderate <{moderate}, Rough <{rough}',
+  'ui.threshold.wind': 'Calm <{calm}, Light <{light}, Moderate <{moderate}, Strong <{strong}',
+  'ui.threshold.waterQuality': 'Enterococcus: Safe ≤{enterococcusSafe}, Advisory ≤{enterococcusAdvisory}, Warning ≤{enterococcusDangerous}, Dangerous >{enterococcusDangerous} | Coliform: Safe ≤{coliformSafe}, Advisory ≤{coliformAdvisory}, Warning ≤{coliformDangerous}, Dangerous >{coliformDangerous} MPN/100ml',
+  'ui.threshold.waterTemp': 'Cold shock <{coldShock}, Very cold <{cold}, Cold <{cool}, Comfortable >{comfortable}',
+  'ui.threshold.coldExposure': 'Extreme <{extreme} min, High <{high} min, Moderate <{moderate} min',
+  'ui.threshold.visibility': 'Dense fog ≤{denseFog}, Fog <{poor}, Reduced <{moderate}, Good ≥{good}',
+  'ui.threshold.damReleases': 'Low <{moderate}, Moderate <{high}, High <{extreme}',
+
+  'ui.detail.phase': 'Phase: {phase}',
+  'ui.detail.nextHigh': 'Next high: {time} ({height})',
+  'ui.detail.nextLow': 'Next low: {time} ({height})',
+  'ui.detail.tideRising': 'Rising {rate}/h',
+  'ui.detail.tideFalling': 'Falling {rate}/h',
+  'ui.detail.slackWindow': 'Slack water: {start} - {end}',
+  'ui.detail.tideCycle': 'Today: {cycle}, {range} range',
+  'ui.detail.updatedAt': 'Updated: {time} PST',
+  'ui.detail.updatedAtCached': 'Updated: {time} PST (cached)',
+  'ui.detail.updated': 'Updated: {time}',
+  'ui.detail.status': 'Status: {status}',
+  'ui.detail.period': 'Period: {seconds}s',
+  'ui.detail.swellType': 'Swell type: {type}',
+  'ui.detail.swellDirection': 'Direction: {degrees}° ({sector}, {exposure}% exposure)',
+  'ui.detail.effectiveHeight': 'Effective at cove: {height}',
+  'ui.detail.station': 'Station: {station}',
+  'ui.detail.source': 'Source: {source}',
+  'ui.detail.condition': 'Condition: {condition}',
+  'ui.detail.gusts': 'Gusts: {speed}',
+  'ui.detail.direction': 'Direction: {degrees}°',
+  'ui.detail.airTemp': 'Air Temp: {temperature}',
+  'ui.detail.waterTemp': 'Water Temp: {temperature} ({source})',
+  'ui.detail.bacteria': 'Bacteria: {level}',
+  'ui.detail.enterococcus': 'Enterococcus: {count} MPN/100ml',
+  'ui.detail.coliform': 'Total Coliform: {count} MPN/100ml',
+  'ui.detail.sso': 'SSO {days} days ago',
+  'ui.detail.ssoImpact': 'SSO {days} days ago (impact {impact}%)',
+  'ui.detail.rain': 'Rain: {amount} past 72h',
+  'ui.detail.rainForecast': 'Rain: {amount} past 72h, {forecast} forecast',
+  'ui.detail.nowcast': 'Nowcast: {percent}% exceedance chance ({level})',
+  'ui.detail.wetsuit': 'Wetsuit recommended',
+  'ui.detail.risk': 'Risk: {risk}',
+  'ui.detail.exitFeel': 'Exit feel: {feel} ({temperature} in {wind} wind)',
+  'ui.detail.exposure': 'For: {suit}, {cap} cap, {acclimatisation}',
+  'ui.detail.noWaterTemp': 'Water temperature unavailable',
+  'ui.detail.light': 'Light: {period}',
+  'ui.detail.sunTimes': 'Sunrise {sunrise}, sunset {sunset}',
+  'ui.detail.civilTwilight': 'Civil twilight {dawn} - {dusk}',
+  'ui.detail.level': 'Level: {level}',
+  'ui.detail.currentFlow': 'Current: {flow}',
+  'ui.detail.averageFlow': '48h Average: {flow}',
+  'ui.detail.peakFlow': '48h Peak: {flow}',
+  'ui.detail.trend': 'Trend: {trend}',
+  'ui.detail.damLag': 'Dam releases take 24-48 hours to reach SF Bay',
+  'ui.detail.damScore': 'Score reflects recent releases affecting current conditions',
+  'ui.detail.topSource': 'Top Source: {name}',
+  'ui.detail.damFlow': '{name}: {flow} ({percent}%)',
+  'ui.detail.damFlowPeak': '{name}: {flow} ({percent}%) - 48h peak: {peak}',
+  'ui.detail.latestData': 'Latest Data: {time} PST',
+
+  // Scenario sandbox
+  'ui.sandbox.title': 'Scenario Sandbox',
+  'ui.sandbox.help': 'Enter any conditions to see the swim score they would get. Nothing here uses live data.',
+  'ui.sandbox.preset': 'Start from',
+  'ui.sandbox.preset.calm': 'Calm slack morning',
+  'ui.sandbox.preset.windy': 'Windy afternoon ebb',
+  'ui.sandbox.preset.rain': 'After heavy rain',
+  'ui.sandbox.time': 'Time',
+  'ui.sandbox.algorithm': 'Algorithm',
+  'ui.sandbox.tideHeight': 'Tide height (ft)',
+  'ui.sandbox.tidePhase': 'Tide phase',
+  'ui.sandbox.tideRate': 'Tide change (ft/h)',
+  'ui.sandbox.currentSpeed': 'Current speed (kt)',
+  'ui.sandbox.airTemperature': 'Air temperature (°F)',
+  'ui.sandbox.windSpeed': 'Wind speed (mph)',
+  'ui.sandbox.windGust': 'Wind gusts (mph)',
+  'ui.sandbox.visibility': 'Visibility (mi)',
+  'ui.sandbox.waveHeight': 'Wave height (ft)',
+  'ui.sandbox.swellPeriod': 'Swell period (s)',
+  'ui.sandbox.waterQuality': 'Water quality status',
+  'ui.sandbox.enterococcus': 'Enterococcus (MPN/100ml)',
+  'ui.sandbox.waterTemperature': 'Water temperature (°F)',
+  'ui.sandbox.rain': 'Rain past 24h (in)',
+  'ui.sandbox.damFlow': 'Dam releases (CFS)',
+  'ui.sandbox.optional': 'Leave a field blank for no data',
+  'ui.sandbox.invalid': 'These conditions cannot be scored:',
+  'ui.sandbox.result': 'Scenario Score',
+  'ui.sandbox.compare': 'Compared with {version}: {delta} points',
+  'ui.calendar.title': 'Spring & neap tides',
+  'ui.calendar.help': 'Each day\'s range from the highest high to the lowest low tide. Spring and king tides drive the strongest currents through the Gate - neap days are best for long swims.',
+  'ui.calendar.previous': 'Previous month',
+  'ui.calendar.next': 'Next month',
+  'ui.calendar.loading': 'Loading tide predictions...',
+  'ui.calendar.error': 'Tide predictions are unavailable',
+  'ui.calendar.day': '{cycle}, {moon} - high {high}, low {low}',
+  'ui.calendar.rangeNote': 'Ranges peak a day or two after new and full moon, and are biggest when the moon is also closest to Earth.',
+  'ui.calendar.offline': 'Predicted from bundled harmonic constituents - heights are approximate.',
+} as const;
+
+export type MessageKey = keyof typeof EN_MESSAGES;
@@ -0,0 +1,415 @@
+/**
+ * Spanish messages
+ */
+
+import type { MessageKey } from './en';
+
+export const ES_MESSAGES: Record<MessageKey, string> = {
+  // Advisories
+  'waterQuality.dangerous': 'No nade - calidad del agua peligrosa',
+  'waterQuality.warning': 'Alerta de calidad del agua vigente',
+  'waterQuality.recentSSO': 'Desbordamiento reciente de alcantarillado - tenga precaución',
+  'rainfall.runoffAdvisory': 'Aviso por escorrentía de lluvia - evite el agua durante {hours} horas después de lluvias fuertes',
+  'rainfall.forecast': 'Pronóstico de lluvia - probablemente seguirá un aviso por escorrentía',
+  'tide.slack': 'Momento excelente - marea estoa',
+  'current.strong': 'Corrientes fuertes - solo nadadores con experiencia',
+  'tide.surge': 'Marea de tormenta - el agua está muy lejos de su nivel previsto; espere corrientes más fuertes y horarios de marea desplazados',
+  'tide.anomaly': 'El nivel del agua no coincide con la predicción de marea - los horarios y alturas pueden variar',
+  'tide.king': 'Marea real - las corrientes más fuertes del mes en el Golden Gate, y la playa se inunda en pleamar',
+  'tide.spring': 'Mareas vivas - corrientes más fuertes y estoas más cortas de lo habitual',
+  'waves.dangerous': 'Oleaje peligroso',
+  'waves.rough': 'Mar agitado - no se recomienda nadar',
+  'waves.calm': 'Agua en calma',
+  'wind.strong': 'Vientos fuertes',
+  'windAgainstCurrent': 'Viento contra la marea - espere agua picada y empinada',
+  'damReleases.extreme': 'Descargas extremas de las presas - se esperan corrientes muy fuertes',
+  'damReleases.high': 'Descargas altas de las presas - corrientes fuertes en la bahía',
+  'damReleases.moderate': 'Descargas moderadas de las presas - atención a las corrientes',
+  'damReleases.low': 'Operación normal de las presas',
+  'waterTemperature.coldShock': 'Riesgo de choque por frío - entre despacio y nade poco tiempo',
+  'waterTemperature.cold': 'Agua muy fría - se recomienda traje de neopreno, limite la exposición',
+  'waterTemperature.wetsuit': 'Se recomienda traje de neopreno',
+  'visibility.denseFog': 'Niebla densa - los barcos no pueden ver a los nadadores, manténgase fuera del canal o espere a que se disipe',
+  'visibility.fog': 'Niebla - manténgase cerca de la orilla dentro de la ensenada',
+  'visibility.fogGear': 'Use un gorro de color vivo y una boya de arrastre para que los barcos lo vean',
+  'visibility.haze': 'Visibilidad reducida - use un gorro de color vivo',
+  'daylight.darkBeforeSunrise': 'Oscuro - los barcos no ven a los nadadores sin luces - amanece a las {time}',
+  'daylight.darkAfterSunset': 'Oscuro - los barcos no ven a los nadadores sin luces - el sol se puso a las {time}',
+  'daylight.twilight': 'Poca luz - use un gorro de color vivo y una luz, y quédese dentro de la ensenada',
+  'daylight.sunsetSoon': 'Puesta de sol a las {time} - planee salir del agua antes de que oscurezca',
+  'overall.excellent': 'Condiciones excelentes para nadar',
+  'overall.good': 'Buenas condiciones para nadar',
+  'overall.fair': 'Condiciones regulares - se recomienda experiencia',
+  'overall.poor': 'Malas condiciones - no se recomienda nadar',
+  'overall.dangerous': 'Condiciones peligrosas - no nade',
+
+  // Cap conditions
+  'condition.current.veryStrong': 'Velocidad de la corriente ≥ {threshold}',
+  'condition.current.strong': 'Velocidad de la corriente ≥ {threshold}',
+  'condition.waterQuality.dangerous': 'Calidad del agua peligrosa',
+  'condition.waterQuality.warning': 'Alerta de calidad del agua',
+  'condition.waves.dangerous': 'Altura efectiva de las olas ≥ {threshold}',
+  'condition.waves.rough': 'Altura efectiva de las olas ≥ {threshold}',
+  'condition.waterTemperature.coldShock': 'Temperatura del agua < {threshold}',
+  'condition.visibility.denseFog': 'Visibilidad ≤ {threshold} (niebla densa)',
+  'condition.visibility.poor': 'Visibilidad < {threshold} (niebla)',
+  'condition.visibility.night': 'Elevación del sol < {threshold} (oscuro)',
+
+  // Factor issues
+  'issue.waterQuality.noData': 'No hay datos de calidad del agua',
+  'issue.waterQuality.dangerous': 'Niveles peligrosos de bacterias ({count} NMP/100ml)',
+  'issue.waterQuality.high': 'Niveles altos de bacterias ({count} NMP/100ml)',
+  'issue.waterQuality.elevated': 'Niveles elevados de bacterias ({count} NMP/100ml)',
+  'issue.waterQuality.nowcast': 'Pronóstico: {percent}% de probabilidad de que los enterococos superen {threshold} NMP/100ml hoy',
+  'issue.sso.active': 'Desbordamiento de alcantarillado activo',
+  'issue.sso.major': 'Desbordamiento grave de alcantarillado hace {days} días',
+  'issue.sso.recent': 'Desbordamiento reciente de alcantarillado hace {days} días',
+  'issue.sso.details': '{issue} ({details})',
+  'issue.sso.distance': 'a {distance}',
+  'issue.rain.heavy': 'Lluvia intensa ({amount} en 72 h) - aviso por escorrentía durante {hours} h más',
+  'issue.rain.light': 'Lluvia ({amount} en 72 h) - aviso por escorrentía durante {hours} h más',
+  'issue.tide.noData': 'No hay datos de marea',
+  'issue.tide.moderate': 'Movimiento de marea moderado ({phase})',
+  'issue.tide.strong': 'Movimiento de marea fuerte ({phase})',
+  'issue.tide.above': 'Nivel del agua {amount} por encima de la predicción',
+  'issue.tide.below': 'Nivel del agua {amount} por debajo de la predicción',
+  'issue.tide.late': 'La marea va {minutes} min retrasada',
+  'issue.tide.early': 'La marea va {minutes} min adelantada',
+  'issue.tide.spring': 'Mareas vivas ({range} de amplitud hoy)',
+  'issue.tide.king': 'Marea real ({range} de amplitud hoy)',
+  'issue.current.veryStrong': 'Corriente muy fuerte ({speed} nudos)',
+  'issue.current.strong': 'Corriente fuerte ({speed} nudos)',
+  'issue.current.moderate': 'Corriente moderada ({speed} nudos)',
+  'issue.waves.noData': 'No hay datos de oleaje',
+  'issue.waves.effectiveHeight': '{effective} efectivas, {reported} registradas',
+  'issue.waves.moderate': 'Olas moderadas ({height})',
+  'issue.waves.rough': 'Olas fuertes ({height})',
+  'issue.waves.dangerous': 'Olas peligrosas ({height})',
+  'issue.waves.groundswell': 'Mar de fondo ({period} s, {sector}) - resaca en la entrada de la ensenada',
+  'issue.waves.longPeriod': 'Mar de fondo de período largo ({period} s, {sector}) - resaca en la entrada de la ensenada',
+  'issue.wind.noData': 'No hay datos de viento',
+  'issue.wind.moderate': 'Vientos moderados ({speed})',
+  'issue.wind.strong': 'Vientos fuertes ({speed})',
+  'issue.wind.veryStrong': 'Vientos muy fuertes ({speed})',
+  'issue.weather.precipitation': 'Hay precipitación',
+  'issue.dams.noData': 'No hay datos de descargas de las presas',
+  'issue.dams.extreme': 'Descargas extremas de las presas (pico en 48 h: {flow})',
+  'issue.dams.extremeCurrents': 'Se esperan corrientes muy fuertes - no se recomienda nadar',
+  'issue.dams.high': 'Descargas altas de las presas (promedio en 48 h: {flow})',
+  'issue.dams.highCurrents': 'Corrientes fuertes - solo nadadores con experiencia',
+  'issue.dams.elevated': 'Descargas elevadas de las presas (promedio en 48 h: {flow})',
+  'issue.dams.elevatedCurrents': 'Corriente más fuerte de lo normal',
+  'issue.dams.moderate': 'Descargas moderadas de las presas (promedio en 48 h: {flow})',
+  'issue.dams.rising': 'Las descargas de las presas van en aumento - las condiciones pueden empeorar',
+  'issue.waterTemp.noData': 'No hay datos de temperatura del agua',
+  'issue.waterTemp.coldShock': 'Riesgo de choque por frío ({temperature})',
+  'issue.waterTemp.veryCold': 'Agua muy fría ({temperature})',
+  'issue.waterTemp.cold': 'Agua fría ({temperature})',
+  'issue.visibility.dark': 'Oscuro (sol {degrees}° bajo el horizonte)',
+  'issue.visibility.twilight': 'Crepúsculo civil - poca luz',
+  'issue.visibility.notObserved': 'Visibilidad no observada',
+  'issue.visibility.denseFog': 'Niebla densa ({distance} de visibilidad)',
+  'issue.visibility.fog': 'Niebla ({distance} de visibilidad)',
+  'issue.visibility.reduced': 'Visibilidad reducida ({distance})',
+
+  // Cold exposure advice
+  'advice.coldExposure.extreme': 'El agua tan fría puede debilitar los brazos en minutos - nade acompañado y cerca de la salida',
+  'advice.coldExposure.high': 'Nade poco tiempo y sin alejarse de la playa',
+  'advice.coldExposure.newToCold': 'Nuevo en agua fría - entre despacio y deje que su respiración se calme antes de nadar',
+  'advice.coldExposure.considerWetsuit': 'Considere un traje de neopreno hasta aclimatarse',
+  'advice.coldExposure.wearCap': 'Use gorro - la cabeza descubierta pierde calor rápidamente',
+  'advice.coldExposure.coldExit': 'Salida fría - tenga ropa de abrigo y un gorro a mano; seguirá enfriándose 10-20 minutos después de salir',
+  'advice.coldExposure.chillyExit': 'Salida fresca - séquese y vístase rápido',
+
+  // Score interactions
+  'interaction.windAgainstCurrent': 'Viento contra la marea',
+  'interaction.windAgainstCurrent.detail': 'Viento de {wind} desde {windDirection}° contra una corriente de {current} hacia {currentDirection}°',
+
+  // Score confidence
+  'confidence.waterQuality.missing': 'No hay muestra de calidad del agua',
+  'confidence.waterQuality.sampleAge': 'La muestra tiene {days} días',
+  'confidence.waterQuality.noCount': 'La muestra no incluye recuento de bacterias',
+  'confidence.waterQuality.noRainfall': 'Sin datos de lluvia - aviso por escorrentía no disponible',
+  'confidence.tide.missing': 'No hay datos de marea',
+  'confidence.tide.age': 'La observación de marea tiene {hours} horas',
+  'confidence.tide.harmonic': 'Marea predicha sin conexión a partir de constituyentes armónicos aproximados',
+  'confidence.current.missing': 'No hay datos de corriente',
+  'confidence.current.estimated': 'Velocidad de la corriente estimada a partir del ritmo de la marea',
+  'confidence.current.age': 'La predicción de corriente tiene {hours} horas',
+  'confidence.waves.missing': 'No hay datos de oleaje',
+  'confidence.waves.age': 'El informe de oleaje tiene {hours} horas',
+  'confidence.waves.noSwell': 'Sin período ni dirección del oleaje - se usa la altura reportada tal cual',
+  'confidence.weather.missing': 'No hay datos de viento ni del tiempo',
+  'confidence.weather.windOnly': 'Observación meteorológica no disponible - solo se usa el modelo de viento',
+  'confidence.weather.age': 'La observación meteorológica tiene {hours} horas',
+  'confidence.damReleases.missing': 'Datos de descargas de las presas no disponibles',
+  'confidence.damReleases.age': 'Los últimos datos de las presas tienen {hours} horas',
+  'confidence.damReleases.noHistory': 'Sin historial de 48 horas de las presas',
+  'confidence.waterTemperature.missing': 'Temperatura del agua no disponible',
+  'confidence.waterTemperature.age': 'La temperatura del agua tiene {hours} horas',
+  'confidence.visibility.missing': 'Visibilidad no observada',
+  'confidence.visibility.age': 'La observación de visibilidad tiene {hours} horas',
+
+  // Score factors
+  'factor.waterQuality': 'Calidad del agua',
+  'factor.tideAndCurrent': 'Marea y corriente',
+  'factor.waves': 'Oleaje',
+  'factor.weather': 'Viento y clima',
+  'factor.damReleases': 'Descargas de presas',
+  'factor.waterTemperature': 'Temperatura del agua',
+  'factor.visibility': 'Visibilidad',
+
+  // Swimmer profiles
+  'profile.standard.label': 'Estándar',
+  'profile.standard.description': 'Nadador habitual de la bahía con los umbrales predeterminados',
+  'profile.wetsuit.label': 'Neopreno',
+  'profile.wetsuit.description': 'Traje de neopreno completo - el agua fría importa mucho menos',
+  'profile.skins.label': 'Sin neopreno',
+  'profile.skins.description': 'Solo traje de baño y gorro - la temperatura del agua es lo principal',
+  'profile.beginner.label': 'Principiante',
+  'profile.beginner.description': 'Primeros nados en aguas abiertas - límites prudentes de corriente, oleaje y viento',
+  'profile.marathoner.label': 'Maratonista',
+  'profile.marathoner.description': 'Nadador de larga distancia acostumbrado a la corriente y al agua picada',
+
+  // Status and category values
+  'value.slack': 'estoa',
+  'value.flood': 'creciente',
+  'value.ebb': 'vaciante',
+  'value.calm': 'en calma',
+  'value.light': 'suave',
+  'value.moderate': 'moderado',
+  'value.strong': 'fuerte',
+  'value.rough': 'agitado',
+  'value.dangerous': 'peligroso',
+  'value.safe': 'seguro',
+  'value.advisory': 'aviso',
+  'value.warning': 'alerta',
+  'value.closed': 'cerrado',
+  'value.low': 'bajo',
+  'value.medium': 'media',
+  'value.high': 'alto',
+  'value.extreme': 'extremo',
+  'value.unknown': 'desconocido',
+  'value.clear': 'despejado',
+  'value.haze': 'bruma',
+  'value.fog': 'niebla',
+  'value.dense-fog': 'niebla densa',
+  'value.cold-shock': 'choque por frío',
+  'value.cold': 'frío',
+  'value.cool': 'fresco',
+  'value.comfortable': 'agradable',
+  'value.mild': 'templada',
+  'value.chilly': 'fresca',
+  'value.bitter': 'helada',
+  'value.day': 'día',
+  'value.civil-twilight': 'crepúsculo civil',
+  'value.night': 'noche',
+  'value.increasing': 'En aumento',
+  'value.decreasing': 'En descenso',
+  'value.stable': 'Estable',
+  'value.wind-chop': 'marejadilla de viento',
+  'value.mixed': 'mixto',
+  'value.groundswell': 'mar de fondo',
+  'value.long-period': 'período largo',
+  'value.golden-gate': 'Golden Gate (O-ONO)',
+  'value.northwest': 'noroeste',
+  'value.southwest': 'suroeste',
+  'value.blocked': 'bloqueado',
+  'value.skins': 'traje de baño',
+  'value.shorty': 'neopreno corto',
+  'value.fullsuit': 'neopreno completo',
+  'value.none': 'ninguno',
+  'value.silicone': 'silicona',
+  'value.neoprene': 'neopreno',
+  'value.unacclimatised': 'sin aclimatar',
+  'value.partial': 'parcialmente aclimatado',
+  'value.acclimatised': 'aclimatado',
+  'value.excellent': 'excelente',
+  'value.good': 'bueno',
+  'value.fair': 'regular',
+  'value.poor': 'malo',
+  'value.king': 'marea real',
+  'value.spring': 'marea viva',
+  'value.neap': 'marea muerta',
+  'value.new-moon': 'luna nueva',
+  'value.waxing-crescent': 'luna creciente',
+  'value.first-quarter': 'cuarto creciente',
+  'value.waxing-gibbous': 'gibosa creciente',
+  'value.full-moon': 'luna llena',
+  'value.waning-gibbous': 'gibosa menguante',
+  'value.last-quarter': 'cuarto menguante',
+  'value.waning-crescent': 'luna menguante',
+
+  // Análisis de sensibilidad
+  'sensitivity.variable.windSpeed': 'el viento',
+  'sensitivity.variable.currentSpeed': 'la corriente',
+  'sensitivity.variable.waveHeight': 'el oleaje',
+  'sensitivity.variable.waterTemperature': 'la temperatura del agua',
+  'sensitivity.variable.visibility': 'la visibilidad',
+  'sensitivity.variable.enterococcus': 'el enterococo',
+  'sensitivity.better.decrease': 'Para llegar a «{rating}», {variable} debe bajar {amount}',
+  'sensitivity.better.increase': 'Para llegar a «{rating}», {variable} debe subir {amount}',
+  'sensitivity.worse.decrease': 'Si {variable} baja {amount}, pasaría a «{rating}»',
+  'sensitivity.worse.increase': 'Si {variable} sube {amount}, pasaría a «{rating}»',
+  'sensitivity.cap.decrease': 'Para quitar el límite de {cap}, {variable} debe bajar a {value}',
+  'sensitivity.cap.increase': 'Para quitar el límite de {cap}, {variable} debe subir a {value}',
+
+  // Units
+  'unit.kt': 'nudos',
+  'unit.minutesMax': 'min máx.',
+  'unit.mpn': 'MPN/100ml',
+
+  // Dashboard
+  'ui.language': 'Idioma',
+  'ui.loading': 'Cargando...',
+  'ui.loadingConditions': 'Cargando condiciones...',
+  'ui.errorTitle': 'Error al cargar los datos',
+  'ui.retry': 'Reintentar',
+  'ui.clearCache': 'Borrar caché',
+  'ui.clearCacheTitle': 'Borrar los datos guardados y actualizar',
+  'ui.clearCacheConfirm': '¿Borrar todos los datos guardados y actualizar?',
+  'ui.justNow': 'ahora mismo',
+  'ui.minuteAgo': 'hace 1 minuto',
+  'ui.minutesAgo': 'hace {count} minutos',
+  'ui.hourAgo': 'hace 1 hora',
+  'ui.hoursAgo': 'hace {count} horas',
+
+  'ui.score.title': 'Puntuación actual de nado',
+  'ui.score.bestEstimate': 'Mejor estimación: {score}',
+  'ui.score.confidence': 'Confianza en los datos:',
+  'ui.score.likely': 'probablemente {low}–{high}',
+  'ui.score.recommendations': 'Recomendaciones',
+  'ui.score.warnings': 'Advertencias',
+  'ui.score.lastUpdated': 'Última actualización: {time}',
+
+  'ui.profile.title': 'Perfil de nadador',
+  'ui.weights.title': 'Peso de los factores',
+  'ui.weights.custom': 'Personalizado',
+  'ui.weights.help': 'Ajuste cuánto cuenta cada factor - los pesos se escalan para sumar 100',
+  'ui.weights.apply': 'Aplicar',
+  'ui.weights.reset': 'Restablecer perfil',
+
+  'ui.tide.title': 'Fase de marea preferida',
+  'ui.tide.help': 'Elija su fase de marea preferida para personalizar su puntuación',
+  'ui.tide.saved': 'Su preferencia se guarda en este dispositivo y afecta el cálculo de su puntuación',
+  'ui.tide.slack': 'Estoa',
+  'ui.tide.slackDescription': 'Movimiento mínimo del agua entre mareas',
+  'ui.tide.flood': 'Creciente',
+  'ui.tide.floodDescription': 'Marea entrante/subiendo',
+  'ui.tide.ebb': 'Vaciante',
+  'ui.tide.ebbDescription': 'Marea saliente/bajando',
+
+  'ui.breakdown.title': 'Desglose de la puntuación',
+  'ui.breakdown.help': 'Cada factor suma su puntuación × peso; interacciones como el viento contra la marea restan, y luego los límites de seguridad acotan el total',
+  'ui.breakdown.weighted': 'Puntuación ponderada',
+  'ui.breakdown.adjusted': 'Puntuación ajustada',
+  'ui.breakdown.cap': 'Límite: {condition}',
+  'ui.breakdown.final': 'Puntuación de nado',
+  'ui.breakdown.noCaps': 'No se aplicaron límites de seguridad - la puntuación es el promedio ponderado',
+
+  'ui.card.tideCurrent': 'Marea y corriente',
+  'ui.card.waves': 'Oleaje',
+  'ui.card.wind': 'Viento',
+  'ui.card.waterQuality': 'Calidad del agua',
+  'ui.card.waterTemperature': 'Temperatura del agua',
+  'ui.card.coldExposure': 'Exposición al frío',
+  'ui.card.visibility': 'Visibilidad',
+  'ui.card.damReleases': 'Descargas de presas',
+
+  'ui.threshold.current': 'Estoa <{slack}, Moderada <{moderate}, Fuerte <{strong}, Peligrosa >{veryStrong}',
+  'ui.threshold.waves': 'Calma <{calm}, Seguro <{safe}, Moderado <{moderate}, Agitado <{rough}',
+  'ui.threshold.wind': 'Calma <{calm}, Suave <{light}, Moderado <{moderate}, Fuerte <{strong}',
+  'ui.threshold.waterQuality': 'Enterococos: Seguro ≤{enterococcusSafe}, Aviso ≤{enterococcusAdvisory}, Alerta ≤{enterococcusDangerous}, Peligroso >{enterococcusDangerous} | Coliformes: Seguro ≤{coliformSafe}, Aviso ≤{coliformAdvisory}, Alerta ≤{coliformDangerous}, Peligroso >{coliformDangerous} NMP/100ml',
+  'ui.threshold.waterTemp': 'Choque por frío <{coldShock}, Muy fría <{cold}, Fría <{cool}, Agradable >{comfortable}',
+  'ui.threshold.coldExposure': 'Extremo <{extreme} min, Alto <{high} min, Moderado <{moderate} min',
+  'ui.threshold.visibility': 'Niebla densa ≤{denseFog}, Niebla <{poor}, Reducida <{moderate}, Buena ≥{good}',
+  'ui.threshold.damReleases': 'Bajo <{moderate}, Moderado <{high}, Alto <{extreme}',
+
+  'ui.detail.phase': 'Fase: {phase}',
+  'ui.detail.nextHigh': 'Próxima pleamar: {time} ({height})',
+  'ui.detail.nextLow': 'Próxima bajamar: {time} ({height})',
+  'ui.detail.tideRising': 'Subiendo {rate}/h',
+  'ui.detail.tideFalling': 'Bajando {rate}/h',
+  'ui.detail.slackWindow': 'Estoa: {start} - {end}',
+  'ui.detail.tideCycle': 'Hoy: {cycle}, {range} de amplitud',
+  'ui.detail.updatedAt': 'Actualizado: {time} PST',
+  'ui.detail.updatedAtCached': 'Actualizado: {time} PST (en caché)',
+  'ui.detail.updated': 'Actualizado: {time}',
+  'ui.detail.status': 'Estado: {status}',
+  'ui.detail.period': 'Período: {seconds} s',
+  'ui.detail.swellType': 'Tipo de oleaje: {type}',
+  'ui.detail.swellDirection': 'Dirección: {degrees}° ({sector}, {exposure}% de exposición)',
+  'ui.detail.effectiveHeight': 'Efectiva en la ensenada: {height}',
+  'ui.detail.station': 'Estación: {station}',
+  'ui.detail.source': 'Fuente: {source}',
+  'ui.detail.condition': 'Condición: {condition}',
+  'ui.detail.gusts': 'Ráfagas: {speed}',
+  'ui.detail.direction': 'Dirección: {degrees}°',
+  'ui.detail.airTemp': 'Temp. del aire: {temperature}',
+  'ui.detail.waterTemp': 'Temp. del agua: {temperature} ({source})',
+  'ui.detail.bacteria': 'Bacterias: {level}',
+  'ui.detail.enterococcus': 'Enterococos: {count} NMP/100ml',
+  'ui.detail.coliform': 'Coliformes totales: {count} NMP/100ml',
+  'ui.detail.sso': 'Desbordamiento hace {days} días',
+  'ui.detail.ssoImpact': 'Desbordamiento hace {days} días (impacto {impact}%)',
+  'ui.detail.rain': 'Lluvia: {amount} en 72 h',
+  'ui.detail.rainForecast': 'Lluvia: {amount} en 72 h, {forecast} pronosticados',
+  'ui.detail.nowcast': 'Pronóstico: {percent}% de probabilidad de superar el límite ({level})',
+  'ui.detail.wetsuit': 'Se recomienda traje de neopreno',
+  'ui.detail.risk': 'Riesgo: {risk}',
+  'ui.detail.exitFeel': 'Sensación al salir: {feel} ({temperature} con viento de {wind})',
+  'ui.detail.exposure': 'Para: {suit}, gorro: {cap}, {acclimatisation}',
+  'ui.detail.noWaterTemp': 'Temperatura del agua no disponible',
+  'ui.detail.light': 'Luz: {period}',
+  'ui.detail.sunTimes': 'Amanecer {sunrise}, atardecer {sunset}',
+  'ui.detail.civilTwilight': 'Crepúsculo civil {dawn} - {dusk}',
+  'ui.detail.level': 'Nivel: {level}',
+  'ui.detail.currentFlow': 'Actual: {flow}',
+  'ui.detail.averageFlow': 'Promedio 48 h: {flow}',
+  'ui.detail.peakFlow': 'Pico 48 h: {flow}',
+  'ui.detail.trend': 'Tendencia: {trend}',
+  'ui.detail.damLag': 'Las descargas de las presas tardan 24-48 horas en llegar a la bahía de SF',
+  'ui.detail.damScore': 'La puntuación refleja las descargas recientes que afectan las condiciones actuales',
+  'ui.detail.topSource': 'Fuente principal: {name}',
+  'ui.detail.damFlow': '{name}: {flow} ({percent}%)',
+  'ui.detail.damFlowPeak': '{name}: {flow} ({percent}%) - pico 48 h: {peak}',
+  'ui.detail.latestData': 'Últimos datos: {time} PST',
+
+  // Scenario sandbox
+  'ui.sandbox.title': 'Simulador de escenarios',
+  'ui.sandbox.help': 'Introduce cualquier condición para ver la puntuación de nado que obtendría. Aquí no se usan datos en vivo.',
+  'ui.sandbox.preset': 'Partir de',
+  'ui.sandbox.preset.calm': 'Mañana tranquila con repunte',
+  'ui.sandbox.preset.windy': 'Tarde ventosa con reflujo',
+  'ui.sandbox.preset.rain': 'Tras lluvias intensas',
+  'ui.sandbox.time': 'Hora',
+  'ui.sandbox.algorithm': 'Algoritmo',
+  'ui.sandbox.tideHeight': 'Altura de la marea (ft)',
+  'ui.sandbox.tidePhase': 'Fase de la marea',
+  'ui.sandbox.tideRate': 'Cambio de la marea (ft/h)',
+  'ui.sandbox.currentSpeed': 'Velocidad de la corriente (kt)',
+  'ui.sandbox.airTemperature': 'Temperatura del aire (°F)',
+  'ui.sandbox.windSpeed': 'Velocidad del viento (mph)',
+  'ui.sandbox.windGust': 'Ráfagas de viento (mph)',
+  'ui.sandbox.visibility': 'Visibilidad (mi)',
+  'ui.sandbox.waveHeight': 'Altura de las olas (ft)',
+  'ui.sandbox.swellPeriod': 'Periodo del oleaje (s)',
+  'ui.sandbox.waterQuality': 'Estado de la calidad del agua',
+  'ui.sandbox.enterococcus': 'Enterococo (MPN/100ml)',
+  'ui.sandbox.waterTemperature': 'Temperatura del agua (°F)',
+  'ui.sandbox.rain': 'Lluvia últimas 24 h (in)',
+  'ui.sandbox.damFlow': 'Descargas de presas (CFS)',
+  'ui.sandbox.optional': 'Deja un campo vacío si no hay datos',
+  'ui.sandbox.invalid': 'Estas condiciones no se pueden puntuar:',
+  'ui.sandbox.result': 'Puntuación del escenario',
+  'ui.sandbox.compare': 'Comparado con {version}: {delta} puntos',
+  'ui.calendar.title': 'Mareas vivas y muertas',
+  'ui.calendar.help': 'Amplitud de cada día, de la pleamar más alta a la bajamar más baja. Las mareas vivas y reales generan las corrientes más fuertes en el Golden Gate; los días de marea muerta son los mejores para nados largos.',
+  'ui.calendar.previous': 'Mes anterior',
+  'ui.calendar.next': 'Mes siguiente',
+  'ui.calendar.loading': 'Cargando predicciones de marea...',
+  'ui.calendar.error': 'Las predicciones de marea no están disponibles',
+  'ui.calendar.day': '{cycle}, {moon} - pleamar {high}, bajamar {low}',
+  'ui.calendar.rangeNote': 'La amplitud alcanza su máximo uno o dos días después de la luna nueva y la llena, y es mayor cuando la luna está además más cerca de la Tierra.',
+  'ui.calendar.offline': 'Predicción a partir de constituyentes armónicos incluidos - las alturas son aproximadas.',
+};
@@ -0,0 +1,415 @@
+/**
+ * Chinese messages (Traditional characters)
+ */
+
+import type { MessageKey } from './en';
+
+export const ZH_MESSAGES: Record<MessageKey, string> = {
+  // Advisories
+  'waterQuality.dangerous': '請勿下水 - 水質危險',
+  'waterQuality.warning': '水質警告生效中',
+  'waterQuality.recentSSO': '近期污水溢流 - 請小心',
+  'rainfall.runoffAdvisory': '降雨徑流警示 - 大雨後{hours}小時內請勿下水',
+  'rainfall.forecast': '預報有雨 - 之後可能發布徑流警示',
+  'tide.slack': '絕佳時機 - 平潮',
+  'current.strong': '水流強勁 - 僅限有經驗的泳者',
+  'tide.surge': '風暴潮 - 水位遠離預測值，預期水流更強、潮汐時間改變',
+  'tide.anomaly': '水位與潮汐預測不符 - 潮汐時間和高度可能不同',
+  'tide.king': '天文大潮 - 金門海峽出現本月最強水流，滿潮時海灘會被淹沒',
+  'tide.spring': '大潮 - 水流比平常更強，平潮時段更短',
+  'waves.dangerous': '海浪危險',
+  'waves.rough': '海面洶湧 - 不建議下水',
+  'waves.calm': '水面平靜',
+  'wind.strong': '風勢強勁',
+  'windAgainstCurrent': '風與潮流逆向 - 預計浪陡且起伏大',
+  'damReleases.extreme': '水壩極大量放水 - 預計水流非常強勁',
+  'damReleases.high': '水壩大量放水 - 海灣水流強勁',
+  'damReleases.moderate': '水壩中量放水 - 請留意水流',
+  'damReleases.low': '水壩正常運作',
+  'waterTemperature.coldShock': '有冷休克風險 - 緩慢入水並縮短游泳時間',
+  'waterTemperature.cold': '水溫非常低 - 建議穿防寒衣並限制時間',
+  'waterTemperature.wetsuit': '建議穿防寒衣',
+  'visibility.denseFog': '濃霧 - 船隻看不見泳者，請遠離航道或等霧散去',
+  'visibility.fog': '有霧 - 請留在灣內靠近岸邊',
+  'visibility.fogGear': '請戴顏色鮮豔的泳帽並拖著浮標，讓船隻看得見您',
+  'visibility.haze': '能見度降低 - 請戴顏色鮮豔的泳帽',
+  'daylight.darkBeforeSunrise': '天色昏暗 - 沒有燈光船隻看不見泳者 - 日出時間 {time}',
+  'daylight.darkAfterSunset': '天色昏暗 - 沒有燈光船隻看不見泳者 - 日落時間 {time}',
+  'daylight.twilight': '光線不足 - 請戴顏色鮮豔的泳帽和燈，並留在灣內',
+  'daylight.sunsetSoon': '日落時間 {time} - 請在天黑前上岸',
+  'overall.excellent': '游泳條件極佳',
+  'overall.good': '游泳條件良好',
+  'overall.fair': '條件普通 - 建議有經驗的泳者',
+  'overall.poor': '條件差 - 不建議下水',
+  'overall.dangerous': '條件危險 - 請勿下水',
+
+  // Cap conditions
+  'condition.current.veryStrong': '流速 ≥ {threshold}',
+  'condition.current.strong': '流速 ≥ {threshold}',
+  'condition.waterQuality.dangerous': '水質狀態為危險',
+  'condition.waterQuality.warning': '水質狀態為警告',
+  'condition.waves.dangerous': '有效浪高 ≥ {threshold}',
+  'condition.waves.rough': '有效浪高 ≥ {threshold}',
+  'condition.waterTemperature.coldShock': '水溫 < {threshold}',
+  'condition.visibility.denseFog': '能見度 ≤ {threshold}（濃霧）',
+  'condition.visibility.poor': '能見度 < {threshold}（霧）',
+  'condition.visibility.night': '太陽仰角 < {threshold}（天黑）',
+
+  // Factor issues
+  'issue.waterQuality.noData': '沒有水質資料',
+  'issue.waterQuality.dangerous': '細菌含量危險（{count} MPN/100ml）',
+  'issue.waterQuality.high': '細菌含量高（{count} MPN/100ml）',
+  'issue.waterQuality.elevated': '細菌含量偏高（{count} MPN/100ml）',
+  'issue.waterQuality.nowcast': '即時預測：今日腸球菌超過 {threshold} MPN/100ml 的機率為 {percent}%',
+  'issue.sso.active': '污水溢流進行中',
+  'issue.sso.major': '{days} 天前發生重大污水溢流',
+  'issue.sso.recent': '{days} 天前發生污水溢流',
+  'issue.sso.details': '{issue}（{details}）',
+  'issue.sso.distance': '距離 {distance}',
+  'issue.rain.heavy': '大雨（72 小時內 {amount}）- 徑流警示還有 {hours} 小時',
+  'issue.rain.light': '降雨（72 小時內 {amount}）- 徑流警示還有 {hours} 小時',
+  'issue.tide.noData': '沒有潮汐資料',
+  'issue.tide.moderate': '潮水流動中等（{phase}）',
+  'issue.tide.strong': '潮水流動強勁（{phase}）',
+  'issue.tide.above': '水位高於預測 {amount}',
+  'issue.tide.below': '水位低於預測 {amount}',
+  'issue.tide.late': '潮汐延遲 {minutes} 分鐘',
+  'issue.tide.early': '潮汐提早 {minutes} 分鐘',
+  'issue.tide.spring': '大潮（今日潮差 {range}）',
+  'issue.tide.king': '天文大潮（今日潮差 {range}）',
+  'issue.current.veryStrong': '水流非常強（{speed} 節）',
+  'issue.current.strong': '水流強（{speed} 節）',
+  'issue.current.moderate': '水流中等（{speed} 節）',
+  'issue.waves.noData': '沒有海浪資料',
+  'issue.waves.effectiveHeight': '有效 {effective}，報告 {reported}',
+  'issue.waves.moderate': '中浪（{height}）',
+  'issue.waves.rough': '大浪（{height}）',
+  'issue.waves.dangerous': '危險海浪（{height}）',
+  'issue.waves.groundswell': '湧浪（{period} 秒，{sector}）- 灣口會有湧動',
+  'issue.waves.longPeriod': '長週期湧浪（{period} 秒，{sector}）- 灣口會有湧動',
+  'issue.wind.noData': '沒有風力資料',
+  'issue.wind.moderate': '風力中等（{speed}）',
+  'issue.wind.strong': '強風（{speed}）',
+  'issue.wind.veryStrong': '非常強風（{speed}）',
+  'issue.weather.precipitation': '正在下雨',
+  'issue.dams.noData': '沒有水壩放水資料',
+  'issue.dams.extreme': '水壩極大量放水（48 小時峰值：{flow}）',
+  'issue.dams.extremeCurrents': '預計水流非常強勁 - 不建議下水',
+  'issue.dams.high': '水壩大量放水（48 小時平均：{flow}）',
+  'issue.dams.highCurrents': '水流強勁 - 僅限有經驗的泳者',
+  'issue.dams.elevated': '水壩放水增加（48 小時平均：{flow}）',
+  'issue.dams.elevatedCurrents': '水流增強',
+  'issue.dams.moderate': '水壩中量放水（48 小時平均：{flow}）',
+  'issue.dams.rising': '水壩放水量上升 - 條件可能轉差',
+  'issue.waterTemp.noData': '沒有水溫資料',
+  'issue.waterTemp.coldShock': '冷休克風險（{temperature}）',
+  'issue.waterTemp.veryCold': '水溫非常低（{temperature}）',
+  'issue.waterTemp.cold': '水溫低（{temperature}）',
+  'issue.visibility.dark': '天黑（太陽在地平線下 {degrees}°）',
+  'issue.visibility.twilight': '民用曙暮光 - 光線不足',
+  'issue.visibility.notObserved': '沒有能見度觀測',
+  'issue.visibility.denseFog': '濃霧（能見度 {distance}）',
+  'issue.visibility.fog': '有霧（能見度 {distance}）',
+  'issue.visibility.reduced': '能見度降低（{distance}）',
+
+  // Cold exposure advice
+  'advice.coldExposure.extreme': '這麼冷的水幾分鐘內就會讓手臂無力 - 請結伴游泳並留在出口附近',
+  'advice.coldExposure.high': '請縮短時間並留在離沙灘不遠處',
+  'advice.coldExposure.newToCold': '初次冷水游泳 - 緩慢入水，等呼吸平穩後再開始游',
+  'advice.coldExposure.considerWetsuit': '適應冷水之前可考慮穿防寒衣',
+  'advice.coldExposure.wearCap': '請戴泳帽 - 頭部裸露散熱很快',
+  'advice.coldExposure.coldExit': '上岸會很冷 - 準備好保暖衣物和帽子；上岸後 10-20 分鐘體溫仍會下降',
+  'advice.coldExposure.chillyExit': '上岸會有點冷 - 盡快擦乾並穿好衣服',
+
+  // Score interactions
+  'interaction.windAgainstCurrent': '風與潮流逆向',
+  'interaction.windAgainstCurrent.detail': '{wind} 的風從 {windDirection}° 吹來，逆向流往 {currentDirection}° 的 {current}水流',
+
+  // Score confidence
+  'confidence.waterQuality.missing': '沒有水質採樣',
+  'confidence.waterQuality.sampleAge': '採樣已是 {days} 天前',
+  'confidence.waterQuality.noCount': '採樣中沒有細菌數',
+  'confidence.waterQuality.noRainfall': '沒有降雨資料 - 無法判斷逕流警告',
+  'confidence.tide.missing': '沒有潮汐資料',
+  'confidence.tide.age': '潮汐觀測已是 {hours} 小時前',
+  'confidence.tide.harmonic': '潮汐以近似調和分潮離線預測',
+  'confidence.current.missing': '沒有水流資料',
+  'confidence.current.estimated': '水流速度由潮汐變化率估算',
+  'confidence.current.age': '水流預測已是 {hours} 小時前',
+  'confidence.waves.missing': '沒有海浪資料',
+  'confidence.waves.age': '海浪報告已是 {hours} 小時前',
+  'confidence.waves.noSwell': '沒有湧浪週期或方向 - 直接採用報告浪高',
+  'confidence.weather.missing': '沒有風或天氣資料',
+  'confidence.weather.windOnly': '無天氣觀測 - 僅使用風力模型',
+  'confidence.weather.age': '天氣觀測已是 {hours} 小時前',
+  'confidence.damReleases.missing': '無水壩放水資料',
+  'confidence.damReleases.age': '最新水壩資料已是 {hours} 小時前',
+  'confidence.damReleases.noHistory': '沒有 48 小時水壩紀錄',
+  'confidence.waterTemperature.missing': '無水溫資料',
+  'confidence.waterTemperature.age': '水溫資料已是 {hours} 小時前',
+  'confidence.visibility.missing': '未觀測能見度',
+  'confidence.visibility.age': '能見度觀測已是 {hours} 小時前',
+
+  // Score factors
+  'factor.waterQuality': '水質',
+  'factor.tideAndCurrent': '潮汐與水流',
+  'factor.waves': '海浪',
+  'factor.weather': '風與天氣',
+  'factor.damReleases': '水壩放水',
+  'factor.waterTemperature': '水溫',
+  'factor.visibility': '能見度',
+
+  // Swimmer profiles
+  'profile.standard.label': '標準',
+  'profile.standard.description': '一般海灣泳者，使用預設門檻',
+  'profile.wetsuit.label': '防寒衣',
+  'profile.wetsuit.description': '全身防寒衣 - 冷水影響小得多',
+  'profile.skins.label': '不穿防寒衣',
+  'profile.skins.description': '只穿泳衣和泳帽 - 水溫最為關鍵',
+  'profile.beginner.label': '初學者',
+  'profile.beginner.description': '剛開始開放水域游泳 - 對水流、海浪和風採取保守限制',
+  'profile.marathoner.label': '長泳者',
+  'profile.marathoner.description': '習慣水流和浪湧的長距離泳者',
+
+  // Status and category values
+  'value.slack': '平潮',
+  'value.flood': '漲潮',
+  'value.ebb': '退潮',
+  'value.calm': '平靜',
+  'value.light': '微風',
+  'value.moderate': '中等',
+  'value.strong': '強',
+  'value.rough': '洶湧',
+  'value.dangerous': '危險',
+  'value.safe': '安全',
+  'value.advisory': '警示',
+  'value.warning': '警告',
+  'value.closed': '關閉',
+  'value.low': '低',
+  'value.medium': '中',
+  'value.high': '高',
+  'value.extreme': '極端',
+  'value.unknown': '不明',
+  'value.clear': '晴朗',
+  'value.haze': '霾',
+  'value.fog': '霧',
+  'value.dense-fog': '濃霧',
+  'value.cold-shock': '冷休克',
+  'value.cold': '冷',
+  'value.cool': '涼',
+  'value.comfortable': '舒適',
+  'value.mild': '溫和',
+  'value.chilly': '微冷',
+  'value.bitter': '嚴寒',
+  'value.day': '白天',
+  'value.civil-twilight': '民用曙暮光',
+  'value.night': '夜間',
+  'value.increasing': '上升',
+  'value.decreasing': '下降',
+  'value.stable': '穩定',
+  'value.wind-chop': '風浪',
+  'value.mixed': '混合',
+  'value.groundswell': '湧浪',
+  'value.long-period': '長週期',
+  'value.golden-gate': '金門海峽（西至西北偏西）',
+  'value.northwest': '西北',
+  'value.southwest': '西南',
+  'value.blocked': '受阻擋',
+  'value.skins': '泳衣',
+  'value.shorty': '短袖防寒衣',
+  'value.fullsuit': '全身防寒衣',
+  'value.none': '無',
+  'value.silicone': '矽膠',
+  'value.neoprene': '氯丁橡膠',
+  'value.unacclimatised': '未適應冷水',
+  'value.partial': '部分適應冷水',
+  'value.acclimatised': '已適應冷水',
+  'value.excellent': '極佳',
+  'value.good': '良好',
+  'value.fair': '普通',
+  'value.poor': '差',
+  'value.king': '天文大潮',
+  'value.spring': '大潮',
+  'value.neap': '小潮',
+  'value.new-moon': '新月',
+  'value.waxing-crescent': '眉月',
+  'value.first-quarter': '上弦月',
+  'value.waxing-gibbous': '盈凸月',
+  'value.full-moon': '滿月',
+  'value.waning-gibbous': '虧凸月',
+  'value.last-quarter': '下弦月',
+  'value.waning-crescent': '殘月',
+
+  // 敏感度分析
+  'sensitivity.variable.windSpeed': '風速',
+  'sensitivity.variable.currentSpeed': '水流',
+  'sensitivity.variable.waveHeight': '浪高',
+  'sensitivity.variable.waterTemperature': '水溫',
+  'sensitivity.variable.visibility': '能見度',
+  'sensitivity.variable.enterococcus': '腸球菌',
+  'sensitivity.better.decrease': '{variable}須下降{amount}才能達到「{rating}」',
+  'sensitivity.better.increase': '{variable}須上升{amount}才能達到「{rating}」',
+  'sensitivity.worse.decrease': '{variable}若下降{amount}，將變為「{rating}」',
+  'sensitivity.worse.increase': '{variable}若上升{amount}，將變為「{rating}」',
+  'sensitivity.cap.decrease': '{variable}須降至{value}才能解除{cap}分上限',
+  'sensitivity.cap.increase': '{variable}須升至{value}才能解除{cap}分上限',
+
+  // Units
+  'unit.kt': '節',
+  'unit.minutesMax': '分鐘上限',
+  'unit.mpn': 'MPN/100ml',
+
+  // Dashboard
+  'ui.language': '語言',
+  'ui.loading': '載入中...',
+  'ui.loadingConditions': '正在載入狀況...',
+  'ui.errorTitle': '資料載入錯誤',
+  'ui.retry': '重試',
+  'ui.clearCache': '清除快取',
+  'ui.clearCacheTitle': '清除快取資料並重新整理',
+  'ui.clearCacheConfirm': '要清除所有快取資料並重新整理嗎？',
+  'ui.justNow': '剛剛',
+  'ui.minuteAgo': '1 分鐘前',
+  'ui.minutesAgo': '{count} 分鐘前',
+  'ui.hourAgo': '1 小時前',
+  'ui.hoursAgo': '{count} 小時前',
+
+  'ui.score.title': '目前游泳分數',
+  'ui.score.bestEstimate': '最佳估計：{score}',
+  'ui.score.confidence': '資料可信度：',
+  'ui.score.likely': '可能 {low}–{high}',
+  'ui.score.recommendations': '建議',
+  'ui.score.warnings': '警告',
+  'ui.score.lastUpdated': '最後更新：{time}',
+
+  'ui.profile.title': '泳者類型',
+  'ui.weights.title': '因素權重',
+  'ui.weights.custom': '自訂',
+  'ui.weights.help': '調整每個因素的比重 - 權重會按比例調整為總和 100',
+  'ui.weights.apply': '套用',
+  'ui.weights.reset': '重設為類型預設',
+
+  'ui.tide.title': '偏好的潮汐階段',
+  'ui.tide.help': '選擇您偏好的潮汐階段來個人化游泳分數',
+  'ui.tide.saved': '您的偏好儲存在本機，並會影響游泳分數的計算',
+  'ui.tide.slack': '平潮',
+  'ui.tide.slackDescription': '兩次潮汐之間水流最小',
+  'ui.tide.flood': '漲潮',
+  'ui.tide.floodDescription': '潮水流入/上漲',
+  'ui.tide.ebb': '退潮',
+  'ui.tide.ebbDescription': '潮水流出/下降',
+
+  'ui.breakdown.title': '分數明細',
+  'ui.breakdown.help': '每個因素加上 分數 × 權重；風與潮流逆向等交互作用會扣分，最後由安全上限限制總分',
+  'ui.breakdown.weighted': '加權分數',
+  'ui.breakdown.adjusted': '調整後分數',
+  'ui.breakdown.cap': '上限：{condition}',
+  'ui.breakdown.final': '游泳分數',
+  'ui.breakdown.noCaps': '未套用安全上限 - 分數即為加權平均',
+
+  'ui.card.tideCurrent': '潮汐與水流',
+  'ui.card.waves': '海浪',
+  'ui.card.wind': '風',
+  'ui.card.waterQuality': '水質',
+  'ui.card.waterTemperature': '水溫',
+  'ui.card.coldExposure': '冷水暴露',
+  'ui.card.visibility': '能見度',
+  'ui.card.damReleases': '水壩放水',
+
+  'ui.threshold.current': '平潮 <{slack}，中等 <{moderate}，強 <{strong}，危險 >{veryStrong}',
+  'ui.threshold.waves': '平靜 <{calm}，安全 <{safe}，中等 <{moderate}，洶湧 <{rough}',
+  'ui.threshold.wind': '平靜 <{calm}，微風 <{light}，中等 <{moderate}，強 <{strong}',
+  'ui.threshold.waterQuality': '腸球菌：安全 ≤{enterococcusSafe}，警示 ≤{enterococcusAdvisory}，警告 ≤{enterococcusDangerous}，危險 >{enterococcusDangerous} | 大腸桿菌群：安全 ≤{coliformSafe}，警示 ≤{coliformAdvisory}，警告 ≤{coliformDangerous}，危險 >{coliformDangerous} MPN/100ml',
+  'ui.threshold.waterTemp': '冷休克 <{coldShock}，非常冷 <{cold}，冷 <{cool}，舒適 >{comfortable}',
+  'ui.threshold.coldExposure': '極端 <{extreme} 分鐘，高 <{high} 分鐘，中等 <{moderate} 分鐘',
+  'ui.threshold.visibility': '濃霧 ≤{denseFog}，有霧 <{poor}，降低 <{moderate}，良好 ≥{good}',
+  'ui.threshold.damReleases': '低 <{moderate}，中等 <{high}，高 <{extreme}',
+
+  'ui.detail.phase': '階段：{phase}',
+  'ui.detail.nextHigh': '下次滿潮：{time}（{height}）',
+  'ui.detail.nextLow': '下次乾潮：{time}（{height}）',
+  'ui.detail.tideRising': '上升 {rate}/小時',
+  'ui.detail.tideFalling': '下降 {rate}/小時',
+  'ui.detail.slackWindow': '平潮時段：{start} - {end}',
+  'ui.detail.tideCycle': '今日：{cycle}，潮差 {range}',
+  'ui.detail.updatedAt': '更新時間：{time} PST',
+  'ui.detail.updatedAtCached': '更新時間：{time} PST（快取）',
+  'ui.detail.updated': '更新時間：{time}',
+  'ui.detail.status': '狀態：{status}',
+  'ui.detail.period': '週期：{seconds} 秒',
+  'ui.detail.swellType': '湧浪類型：{type}',
+  'ui.detail.swellDirection': '方向：{degrees}°（{sector}，{exposure}% 暴露）',
+  'ui.detail.effectiveHeight': '灣內有效浪高：{height}',
+  'ui.detail.station': '測站：{station}',
+  'ui.detail.source': '來源：{source}',
+  'ui.detail.condition': '狀況：{condition}',
+  'ui.detail.gusts': '陣風：{speed}',
+  'ui.detail.direction': '方向：{degrees}°',
+  'ui.detail.airTemp': '氣溫：{temperature}',
+  'ui.detail.waterTemp': '水溫：{temperature}（{source}）',
+  'ui.detail.bacteria': '細菌：{level}',
+  'ui.detail.enterococcus': '腸球菌：{count} MPN/100ml',
+  'ui.detail.coliform': '總大腸桿菌群：{count} MPN/100ml',
+  'ui.detail.sso': '{days} 天前污水溢流',
+  'ui.detail.ssoImpact': '{days} 天前污水溢流（影響 {impact}%）',
+  'ui.detail.rain': '雨量：過去 72 小時 {amount}',
+  'ui.detail.rainForecast': '雨量：過去 72 小時 {amount}，預報 {forecast}',
+  'ui.detail.nowcast': '即時預測：超標機率 {percent}%（{level}）',
+  'ui.detail.wetsuit': '建議穿防寒衣',
+  'ui.detail.risk': '風險：{risk}',
+  'ui.detail.exitFeel': '上岸體感：{feel}（{temperature}，風速 {wind}）',
+  'ui.detail.exposure': '適用：{suit}，泳帽：{cap}，{acclimatisation}',
+  'ui.detail.noWaterTemp': '沒有水溫資料',
+  'ui.detail.light': '光線：{period}',
+  'ui.detail.sunTimes': '日出 {sunrise}，日落 {sunset}',
+  'ui.detail.civilTwilight': '民用曙暮光 {dawn} - {dusk}',
+  'ui.detail.level': '等級：{level}',
+  'ui.detail.currentFlow': '目前：{flow}',
+  'ui.detail.averageFlow': '48 小時平均：{flow}',
+  'ui.detail.peakFlow': '48 小時峰值：{flow}',
+  'ui.detail.trend': '趨勢：{trend}',
+  'ui.detail.damLag': '水壩放水需 24-48 小時才會到達舊金山灣',
+  'ui.detail.damScore': '分數反映影響目前狀況的近期放水',
+  'ui.detail.topSource': '主要來源：{name}',
+  'ui.detail.damFlow': '{name}：{flow}（{percent}%）',
+  'ui.detail.damFlowPeak': '{name}：{flow}（{percent}%）- 48 小時峰值：{peak}',
+  'ui.detail.latestData': '最新資料：{time} PST',
+
+  // Scenario sandbox
+  'ui.sandbox.title': '情境模擬',
+  'ui.sandbox.help': '輸入任意狀況，查看其游泳分數。此處不使用即時資料。',
+  'ui.sandbox.preset': '起始情境',
+  'ui.sandbox.preset.calm': '平潮的平靜早晨',
+  'ui.sandbox.preset.windy': '大風的午後退潮',
+  'ui.sandbox.preset.rain': '大雨過後',
+  'ui.sandbox.time': '時間',
+  'ui.sandbox.algorithm': '演算法',
+  'ui.sandbox.tideHeight': '潮高（英尺）',
+  'ui.sandbox.tidePhase': '潮汐階段',
+  'ui.sandbox.tideRate': '潮位變化（英尺/小時）',
+  'ui.sandbox.currentSpeed': '流速（節）',
+  'ui.sandbox.airTemperature': '氣溫（°F）',
+  'ui.sandbox.windSpeed': '風速（英里/小時）',
+  'ui.sandbox.windGust': '陣風（英里/小時）',
+  'ui.sandbox.visibility': '能見度（英里）',
+  'ui.sandbox.waveHeight': '浪高（英尺）',
+  'ui.sandbox.swellPeriod': '湧浪週期（秒）',
+  'ui.sandbox.waterQuality': '水質狀態',
+  'ui.sandbox.enterococcus': '腸球菌（MPN/100ml）',
+  'ui.sandbox.waterTemperature': '水溫（°F）',
+  'ui.sandbox.rain': '過去 24 小時雨量（英寸）',
+  'ui.sandbox.damFlow': '水庫放水量（CFS）',
+  'ui.sandbox.optional': '欄位留空表示無資料',
+  'ui.sandbox.invalid': '無法為這些狀況評分：',
+  'ui.sandbox.result': '情境分數',
+  'ui.sandbox.compare': '與 {version} 比較：{delta} 分',
+  'ui.calendar.title': '大潮與小潮',
+  'ui.calendar.help': '每日從最高滿潮到最低乾潮的潮差。大潮和天文大潮會在金門海峽帶來最強的水流，小潮日最適合長距離游泳。',
+  'ui.calendar.previous': '上個月',
+  'ui.calendar.next': '下個月',
+  'ui.calendar.loading': '正在載入潮汐預測...',
+  'ui.calendar.error': '無法取得潮汐預測',
+  'ui.calendar.day': '{cycle}，{moon} - 滿潮 {high}，乾潮 {low}',
+  'ui.calendar.rangeNote': '潮差在新月和滿月後一兩天達到最大，月球同時接近近地點時最大。',
+  'ui.calendar.offline': '根據內建調和常數預測 - 高度為近似值。',
+};
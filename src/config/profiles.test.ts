@@ -0,0 +1,23 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { SAFETY_THRESHOLDS, SCORE_CAPS, SCORE_WEIGHTS } from './thresholds';
+import { SWIMMER_PROFILES, resolveScoringConfig } from './profiles';
+
+describe('resolveScoringConfig', () => {
+  it('merges a profile\'s overrides onto the defaults', () => {
+    const config = resolveScoringConfig('marathoner');
+
+    assert.equal(config.thresholds.current.strong, SWIMMER_PROFILES.marathoner.thresholds?.current?.strong);
+    assert.equal(config.thresholds.current.slow, SAFETY_THRESHOLDS.current.slow);
+    assert.deepEqual(config.thresholds.waterTemp, SAFETY_THRESHOLDS.waterTemp);
+    assert.equal(config.caps.current.strong, 69);
+    assert.equal(config.caps.current.veryStrong, SCORE_CAPS.current.veryStrong);
+    assert.equal(config.weights.weather, SCORE_WEIGHTS.weather);
+  });
+
+  it('leaves the defaults untouched', () => {
+    const before = structuredClone(SAFETY_THRESHOLDS);
+    resolveScoringConfig('beginner');
+    assert.deepEqual(SAFETY_THRESHOLDS, before);
+  });
+});
@@ -0,0 +1,254 @@
+/**
+ * Swimmer profiles
+ * Each profile overrides parts of the default thresholds, weights and caps so the same
+ * conditions can be scored for very different swimmers
+ */
+
+import type { SwimmerProfileId, ExposureProfile } from '@/types/conditions';
+import {
+  SAFETY_THRESHOLDS,
+  SCORING_CURVES,
+  SCORE_WEIGHTS,
+  SCORE_CAPS,
+  type SafetyThresholds,
+  type ScoringCurves,
+  type ScoreWeights,
+  type ScoreCaps,
+} from './thresholds';
+import { SCORE_RULES, type ScoreRule } from './rules';
+
+type DeepPartial<T> = { [K in keyof T]?: T[K] extends object ? DeepPartial<T[K]> : T[K] };
+
+export interface SwimmerProfile {
+  id: SwimmerProfileId;
+  label: string;
+  description: string;
+  thresholds?: DeepPartial<SafetyThresholds>;
+  weights?: Partial<ScoreWeights>; // Overridden weights must still sum to 100
+  caps?: DeepPartial<ScoreCaps>;
+  exposure?: Partial<ExposureProfile>; // Default suit, cap and acclimatisation for cold exposure
+}
+
+/**
+ * Configuration a score is calculated from before profile overrides
+ * Each algorithm version pins its own (see src/lib/algorithms/versions.ts)
+ */
+export interface ScoringBaseline {
+  thresholds: SafetyThresholds;
+  curves: ScoringCurves;
+  weights: ScoreWeights;
+  caps: ScoreCaps;
+  rules: ReadonlyArray<ScoreRule>;
+}
+
+/**
+ * Fully resolved scoring configuration for a profile
+ */
+export interface ScoringConfig extends ScoringBaseline {
+  profile: SwimmerProfileId;
+  exposure: ExposureProfile;
+}
+
+export const DEFAULT_SWIMMER_PROFILE: SwimmerProfileId = 'standard';
+
+export const CURRENT_SCORING_BASELINE: ScoringBaseline = {
+  thresholds: SAFETY_THRESHOLDS,
+  curves: SCORING_CURVES,
+  weights: SCORE_WEIGHTS,
+  caps: SCORE_CAPS,
+  rules: SCORE_RULES,
+};
+
+export const DEFAULT_EXPOSURE_PROFILE: ExposureProfile = {
+  suit: 'skins',
+  cap: 'silicone',
+  acclimatisation: 'partial',
+};
+
+export const SWIMMER_PROFILES: Record<SwimmerProfileId, SwimmerProfile> = {
+  standard: {
+    id: 'standard',
+    label: 'Standard',
+    description: 'Regular bay swimmer using the default thresholds',
+  },
+
+  wetsuit: {
+    id: 'wetsuit',
+    label: 'Wetsuit',
+    description: 'Full wetsuit - cold water matters much less',
+    thresholds: {
+      waterTemp: {
+        coldShock: 45,
+        cold: 50,
+        cool: 53,
+        moderate: 58,
+        comfortable: 62,
+      },
+    },
+    weights: {
+      weather: 15,
+      waterTemperature: 5,
+    },
+    caps: {
+      waterTemperature: { coldShock: 79 },
+    },
+    exposure: {
+      suit: 'fullsuit',
+    },
+  },
+
+  skins: {
+    id: 'skins',
+    label: 'Skins',
+    description: 'Swimsuit and cap only - water temperature dominates',
+    thresholds: {
+      waterTemp: {
+        coldShock: 52,
+        cold: 56,
+        cool: 60,
+        moderate: 64,
+        comfortable: 68,
+      },
+    },
+    weights: {
+      tideAndCurrent: 15,
+      damReleases: 5,
+      waterTemperature: 20,
+    },
+    caps: {
+      waterTemperature: { coldShock: 39 },
+    },
+    exposure: {
+      acclimatisation: 'acclimatised',
+    },
+  },
+
+  beginner: {
+    id: 'beginner',
+    label: 'Beginner',
+    description: 'First open water swims - conservative current, wave and wind limits',
+    thresholds: {
+      current: {
+        slow: 0.3,
+        moderate: 0.6,
+        strong: 1.0,
+        veryStrong: 1.5,
+      },
+      waves: {
+        calm: 1,
+        safe: 2,
+        moderate: 3,
+        rough: 5,
+      },
+      wind: {
+        light: 8,
+        moderate: 12,
+        strong: 15,
+        veryStrong: 20,
+      },
+      tide: {
+        phasePreference: {
+          slack: 100,
+          flood: 70,
+          ebb: 60,      // Ebb pulls swimmers out toward the cove opening
+        },
+      },
+    },
+    weights: {
+      waterQuality: 25,
+      tideAndCurrent: 25,
+      waves: 20,
+      damReleases: 5,
+    },
+    caps: {
+      current: { veryStrong: 19, strong: 39 },
+      waves: { rough: 19 },
+    },
+    exposure: {
+      suit: 'fullsuit',
+      acclimatisation: 'unacclimatised', // Newcomers haven't built up cold tolerance yet
+    },
+  },
+
+  marathoner: {
+    id: 'marathoner',
+    label: 'Marathoner',
+    description: 'Long-distance swimmer comfortable in current and chop',
+    thresholds: {
+      current: {
+        moderate: 1.5,
+        strong: 2.0,
+        veryStrong: 2.5,
+      },
+      waves: {
+        safe: 4,
+        moderate: 6,
+        rough: 9,
+      },
+      wind: {
+        moderate: 18,
+        strong: 22,
+        veryStrong: 28,
+      },
+    },
+    weights: {
+      waterQuality: 35,
+      tideAndCurrent: 15,
+      waves: 10,
+      visibility: 10, // Long swims leave the cove, where boat traffic can't see swimmers in fog
+    },
+    caps: {
+      current: { strong: 69 },
+    },
+    exposure: {
+      acclimatisation: 'acclimatised',
+    },
+  },
+};
+
+/**
+ * Type guard to validate swimmer profile identifiers
+ */
+export function isSwimmerProfileId(value: unknown): value is SwimmerProfileId {
+  return typeof value === 'string' && value in SWIMMER_PROFILES;
+}
+
+/**
+ * Merge a profile's overrides onto the baseline thresholds, weights and caps
+ */
+export function resolveScoringConfig(
+  profileId: SwimmerProfileId = DEFAULT_SWIMMER_PROFILE,
+  baseline: ScoringBaseline = CURRENT_SCORING_BASELINE
+): ScoringConfig {
+  const profile = SWIMMER_PROFILES[profileId] ?? SWIMMER_PROFILES[DEFAULT_SWIMMER_PROFILE];
+
+  return {
+    profile: profile.id,
+    thresholds: deepMerge<SafetyThresholds>(baseline.thresholds, profile.thresholds),
+    curves: baseline.curves,
+    weights: deepMerge<ScoreWeights>(baseline.weights, profile.weights),
+    caps: deepMerge<ScoreCaps>(baseline.caps, profile.caps),
+    rules: baseline.rules,
+    exposure: { ...DEFAULT_EXPOSURE_PROFILE, ...profile.exposure },
+  };
+}
+
+/**
+ * Merge overrides onto a copy of base, recursing into nested objects; arrays and other values replace
+ */
+function deepMerge<T extends object>(base: T, overrides?: DeepPartial<T>): T {
+  const result: Record<string, unknown> = Object.fromEntries(Object.entries(base));
+  if (!overrides) return result as T;
+
+  for (const [key, value] of Object.entries(overrides)) {
+    if (value === undefined) continue;
+    const baseValue = result[key];
+    result[key] = isRecord(value) && isRecord(baseValue) ? deepMerge(baseValue, value) : value;
+  }
+
+  return result as T;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
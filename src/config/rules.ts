@@ -0,0 +1,559 @@
+/**
+ * Scoring rules
+ * Overall score caps and advice messages as declarative rules, so they can be
+ * reviewed and adjusted without reading the algorithm code.
+ *
+ * Rules run top to bottom:
+ * - `when` is checked against the rule facts (see below). Every rule whose condition holds fires.
+ * - Rules that share a `group` behave like if / else-if: only the first one to fire in the group applies.
+ * - `cap` limits the overall score to a number or a SCORE_CAPS entry (e.g. 'current.veryStrong');
+ *   caps are listed in breakdown.appliedCaps when they lower the score. Point deductions belong
+ *   in interactions.ts, before the caps.
+ * - `condition` names the text from RULE_CONDITIONS shown as an applied cap's condition. Its
+ *   `{threshold}` placeholder is the rule's threshold in the reader's units.
+ * - `message` adds an advisory with that code from RULE_MESSAGES. `params` maps the message's
+ *   `{name}` placeholders to facts or thresholds. Info and caution advisories also go to
+ *   recommendations, warning and danger advisories to warnings.
+ *
+ * Facts:
+ * - `factors.*` - any swim score factor field, e.g. 'factors.waves.status'
+ * - `interactions.<id>` - points an interaction took off, e.g. 'interactions.windAgainstCurrent' (0 if none)
+ * - `daylight.*` - period, sunElevation, sunriseAhead, minutesToSunset, sunrise and sunset
+ * - `bacteria.enterococcusCount` - latest sample count
+ * - `sources.*` - source of the tide, current, weather, waves and waterQuality inputs ('unavailable' when defaulted)
+ * - `score` - overall score so far (after interactions and earlier caps)
+ *
+ * Comparisons take a literal `value` or `{ threshold: 'path' }` into SAFETY_THRESHOLDS, so
+ * swimmer profiles that move thresholds also move the rules.
+ */
+
+import type { AdvisorySeverity, ScoreFactorKey } from '@/types/conditions';
+
+export type RuleComparison = 'eq' | 'neq' | 'lt' | 'lte' | 'gt' | 'gte';
+
+export type RuleValue = number | string | boolean | { threshold: string };
+
+export type RuleCondition =
+  | { fact: string; op: RuleComparison; value: RuleValue }
+  | { all: ReadonlyArray<RuleCondition> }
+  | { any: ReadonlyArray<RuleCondition> };
+
+export interface ScoreRule {
+  id: string;
+  description: string;       // Plain-language summary for reviewers ({thresholds.path} names a threshold)
+  when: RuleCondition;
+  severity: AdvisorySeverity;
+  group?: string;            // Only the first rule to fire in a group applies
+  factor?: ScoreFactorKey;   // Factor a cap or advisory is attributed to
+  cap?: number | string;     // Maximum overall score, or a path into SCORE_CAPS
+  observed?: string;         // Fact reported as the cap's observed value
+  threshold?: number | string; // Threshold reported with the cap (number or SAFETY_THRESHOLDS path)
+  unit?: string;
+  condition?: RuleConditionCode; // Applied cap's condition - required with cap
+  message?: RuleMessageCode;
+  params?: Record<string, string>; // Message placeholder -> fact or 'thresholds.' path
+}
+
+/**
+ * Advisory text by message code
+ * Codes are stable identifiers for notifications and integrations - add new codes rather than
+ * renaming existing ones
+ */
+export const RULE_MESSAGES = {
+  'waterQuality.dangerous': 'Do not swim - dangerous water quality',
+  'waterQuality.warning': 'Water quality warning in effect',
+  'waterQuality.recentSSO': 'Recent sewer overflow - use caution',
+  'rainfall.runoffAdvisory': 'Rainfall runoff advisory - avoid the water for {hours} hours after significant rain',
+  'rainfall.forecast': 'Rain forecast - a runoff advisory is likely to follow',
+  'tide.slack': 'Excellent time - slack tide',
+  'current.strong': 'Strong currents - experienced swimmers only',
+  'tide.surge': 'Storm surge - the water is far off its predicted level, so expect stronger currents and shifted tide times',
+  'tide.anomaly': 'Water level is off the tide prediction - tide times and heights may differ',
+  'tide.king': 'King tide - the strongest currents of the month through the Gate, and the beach floods at high water',
+  'tide.spring': 'Spring tides - stronger currents and shorter slack windows than usual',
+  'waves.dangerous': 'Dangerous wave conditions',
+  'waves.rough': 'Rough seas - not recommended',
+  'waves.calm': 'Calm water conditions',
+  'wind.strong': 'Strong winds present',
+  'windAgainstCurrent': 'Wind against tide - expect steep, choppy water',
+  'damReleases.extreme': 'Extreme dam releases - very strong currents expected',
+  'damReleases.high': 'High dam releases - strong bay currents',
+  'damReleases.moderate': 'Moderate dam releases - be aware of currents',
+  'damReleases.low': 'Normal dam operations',
+  'waterTemperature.coldShock': 'Cold shock risk - enter slowly and keep swims short',
+  'waterTemperature.cold': 'Very cold water - wetsuit recommended, limit exposure',
+  'waterTemperature.wetsuit': 'Wetsuit recommended',
+  'visibility.denseFog': 'Dense fog - boats cannot see swimmers, stay out of the channel or wait for it to lift',
+  'visibility.fog': 'Fog - stay close to shore inside the cove',
+  'visibility.fogGear': 'Wear a bright swim cap and tow a buoy so boats can see you',
+  'visibility.haze': 'Reduced visibility - wear a bright swim cap',
+  'daylight.darkBeforeSunrise': 'Dark - boats cannot see swimmers without lights - sunrise at {time}',
+  'daylight.darkAfterSunset': 'Dark - boats cannot see swimmers without lights - sun set at {time}',
+  'daylight.twilight': 'Low light - wear a bright cap and a light, and stay inside the cove',
+  'daylight.sunsetSoon': 'Sunset at {time} - plan to be out of the water by dark',
+  'overall.excellent': 'Excellent conditions for swimming',
+  'overall.good': 'Good conditions for swimming',
+  'overall.fair': 'Fair conditions - experienced swimmers recommended',
+  'overall.poor': 'Poor conditions - not recommended',
+  'overall.dangerous': 'Dangerous conditions - do not swim',
+} as const satisfies Record<string, string>;
+
+export type RuleMessageCode = keyof typeof RULE_MESSAGES;
+
+/**
+ * Cap condition text by code
+ */
+export const RULE_CONDITIONS = {
+  'condition.current.veryStrong': 'Current speed ≥ {threshold}',
+  'condition.current.strong': 'Current speed ≥ {threshold}',
+  'condition.waterQuality.dangerous': 'Water quality status is dangerous',
+  'condition.waterQuality.warning': 'Water quality status is warning',
+  'condition.waves.dangerous': 'Effective wave height ≥ {threshold}',
+  'condition.waves.rough': 'Effective wave height ≥ {threshold}',
+  'condition.waterTemperature.coldShock': 'Water temperature < {threshold}',
+  'condition.visibility.denseFog': 'Visibility ≤ {threshold} (dense fog)',
+  'condition.visibility.poor': 'Visibility < {threshold} (fog)',
+  'condition.visibility.night': 'Sun elevation < {threshold} (dark)',
+} as const satisfies Record<string, string>;
+
+export type RuleConditionCode = keyof typeof RULE_CONDITIONS;
+
+export const SCORE_RULES: ReadonlyArray<ScoreRule> = [
+  // Current caps
+  {
+    id: 'current.veryStrong',
+    description: 'Current speed ≥ {thresholds.current.veryStrong} kt',
+    when: { fact: 'factors.tideAndCurrent.currentSpeed', op: 'gte', value: { threshold: 'current.veryStrong' } },
+    severity: 'danger',
+    group: 'currentCap',
+    factor: 'tideAndCurrent',
+    cap: 'current.veryStrong',
+    observed: 'factors.tideAndCurrent.currentSpeed',
+    threshold: 'current.veryStrong',
+    unit: 'kt',
+    condition: 'condition.current.veryStrong',
+  },
+  {
+    id: 'current.strong',
+    description: 'Current speed ≥ {thresholds.current.strong} kt',
+    when: { fact: 'factors.tideAndCurrent.currentSpeed', op: 'gte', value: { threshold: 'current.strong' } },
+    severity: 'warning',
+    group: 'currentCap',
+    factor: 'tideAndCurrent',
+    cap: 'current.strong',
+    observed: 'factors.tideAndCurrent.currentSpeed',
+    threshold: 'current.strong',
+    unit: 'kt',
+    condition: 'condition.current.strong',
+  },
+
+  // Water quality
+  {
+    id: 'waterQuality.dangerous',
+    description: 'Water quality status is dangerous',
+    when: { fact: 'factors.waterQuality.status', op: 'eq', value: 'dangerous' },
+    severity: 'danger',
+    group: 'waterQuality',
+    factor: 'waterQuality',
+    cap: 'waterQuality.dangerous',
+    observed: 'bacteria.enterococcusCount',
+    threshold: 'waterQuality.enterococcus.dangerous',
+    unit: 'MPN/100ml',
+    condition: 'condition.waterQuality.dangerous',
+    message: 'waterQuality.dangerous',
+  },
+  {
+    id: 'waterQuality.warning',
+    description: 'Water quality status is warning',
+    when: { fact: 'factors.waterQuality.status', op: 'eq', value: 'warning' },
+    severity: 'warning',
+    group: 'waterQuality',
+    factor: 'waterQuality',
+    cap: 'waterQuality.warning',
+    observed: 'bacteria.enterococcusCount',
+    threshold: 'waterQuality.enterococcus.advisory',
+    unit: 'MPN/100ml',
+    condition: 'condition.waterQuality.warning',
+    message: 'waterQuality.warning',
+  },
+  {
+    id: 'waterQuality.recentSSO',
+    description: 'Sewer overflow near the park',
+    when: { fact: 'factors.waterQuality.recentSSO', op: 'eq', value: true },
+    severity: 'warning',
+    group: 'waterQuality',
+    factor: 'waterQuality',
+    message: 'waterQuality.recentSSO',
+  },
+
+  // Rainfall runoff
+  {
+    id: 'rainfall.runoffAdvisory',
+    description: 'Significant rain within the advisory window',
+    when: { fact: 'factors.waterQuality.runoffAdvisory', op: 'eq', value: true },
+    severity: 'warning',
+    group: 'rainfall',
+    factor: 'waterQuality',
+    message: 'rainfall.runoffAdvisory',
+    params: { hours: 'thresholds.rainfall.advisoryHours' },
+  },
+  {
+    id: 'rainfall.forecast',
+    description: 'First flush amount of rain forecast in the next 24 hours',
+    when: { fact: 'factors.waterQuality.forecastRainInches', op: 'gte', value: { threshold: 'rainfall.firstFlushInches' } },
+    severity: 'caution',
+    group: 'rainfall',
+    factor: 'waterQuality',
+    message: 'rainfall.forecast',
+  },
+
+  // Tide and current
+  {
+    id: 'tide.slack',
+    description: 'Slack tide',
+    when: { fact: 'factors.tideAndCurrent.phase', op: 'eq', value: 'slack' },
+    severity: 'info',
+    group: 'tide',
+    factor: 'tideAndCurrent',
+    message: 'tide.slack',
+  },
+  {
+    id: 'current.strongAdvice',
+    description: 'Current faster than {thresholds.current.moderate} kt',
+    when: { fact: 'factors.tideAndCurrent.currentSpeed', op: 'gt', value: { threshold: 'current.moderate' } },
+    severity: 'warning',
+    group: 'tide',
+    factor: 'tideAndCurrent',
+    message: 'current.strong',
+  },
+
+  // Observed water level against the prediction
+  {
+    id: 'tide.surge',
+    description: 'Water level at least {thresholds.tide.residualSurge} ft off the prediction',
+    when: { fact: 'factors.tideAndCurrent.surge', op: 'eq', value: 'surge' },
+    severity: 'warning',
+    group: 'tideResidual',
+    factor: 'tideAndCurrent',
+    message: 'tide.surge',
+  },
+  {
+    id: 'tide.anomaly',
+    description: 'Water level at least {thresholds.tide.residualAnomaly} ft off the prediction',
+    when: { fact: 'factors.tideAndCurrent.surge', op: 'eq', value: 'anomaly' },
+    severity: 'caution',
+    group: 'tideResidual',
+    factor: 'tideAndCurrent',
+    message: 'tide.anomaly',
+  },
+
+  // Spring/neap cycle
+  {
+    id: 'tide.king',
+    description: 'Daily tidal range ≥ {thresholds.tide.kingRange} ft',
+    when: { fact: 'factors.tideAndCurrent.cycle', op: 'eq', value: 'king' },
+    severity: 'caution',
+    group: 'tideCycle',
+    factor: 'tideAndCurrent',
+    message: 'tide.king',
+  },
+  {
+    id: 'tide.spring',
+    description: 'Daily tidal range ≥ {thresholds.tide.springRange} ft',
+    when: { fact: 'factors.tideAndCurrent.cycle', op: 'eq', value: 'spring' },
+    severity: 'info',
+    group: 'tideCycle',
+    factor: 'tideAndCurrent',
+    message: 'tide.spring',
+  },
+
+  // Waves
+  {
+    id: 'waves.dangerous',
+    description: 'Effective wave height ≥ {thresholds.waves.rough} ft',
+    when: { fact: 'factors.waves.status', op: 'eq', value: 'dangerous' },
+    severity: 'danger',
+    group: 'waves',
+    factor: 'waves',
+    cap: 'waves.dangerous',
+    observed: 'factors.waves.effectiveHeightFeet',
+    threshold: 'waves.rough',
+    unit: 'ft',
+    condition: 'condition.waves.dangerous',
+    message: 'waves.dangerous',
+  },
+  {
+    id: 'waves.rough',
+    description: 'Effective wave height ≥ {thresholds.waves.moderate} ft',
+    when: { fact: 'factors.waves.status', op: 'eq', value: 'rough' },
+    severity: 'warning',
+    group: 'waves',
+    factor: 'waves',
+    cap: 'waves.rough',
+    observed: 'factors.waves.effectiveHeightFeet',
+    threshold: 'waves.moderate',
+    unit: 'ft',
+    condition: 'condition.waves.rough',
+    message: 'waves.rough',
+  },
+  {
+    id: 'waves.calm',
+    description: 'Effective wave height below {thresholds.waves.calm} ft (not when wave data is unavailable)',
+    when: {
+      all: [
+        { fact: 'sources.waves', op: 'neq', value: 'unavailable' },
+        { fact: 'factors.waves.effectiveHeightFeet', op: 'lt', value: { threshold: 'waves.calm' } },
+      ],
+    },
+    severity: 'info',
+    group: 'waves',
+    factor: 'waves',
+    message: 'waves.calm',
+  },
+
+  // Wind
+  {
+    id: 'wind.strong',
+    description: 'Strong wind',
+    when: { fact: 'factors.weather.windCondition', op: 'eq', value: 'strong' },
+    severity: 'warning',
+    factor: 'weather',
+    message: 'wind.strong',
+  },
+  {
+    id: 'windAgainstCurrent',
+    description: 'Wind against tide penalty of at least {thresholds.windAgainstCurrent.warningPenalty} points',
+    when: { fact: 'interactions.windAgainstCurrent', op: 'gte', value: { threshold: 'windAgainstCurrent.warningPenalty' } },
+    severity: 'warning',
+    factor: 'weather',
+    message: 'windAgainstCurrent',
+  },
+
+  // Dam releases
+  {
+    id: 'damReleases.extreme',
+    description: 'Extreme dam releases',
+    when: { fact: 'factors.damReleases.releaseLevel', op: 'eq', value: 'extreme' },
+    severity: 'warning',
+    group: 'damReleases',
+    factor: 'damReleases',
+    message: 'damReleases.extreme',
+  },
+  {
+    id: 'damReleases.high',
+    description: 'High dam releases',
+    when: { fact: 'factors.damReleases.releaseLevel', op: 'eq', value: 'high' },
+    severity: 'warning',
+    group: 'damReleases',
+    factor: 'damReleases',
+    message: 'damReleases.high',
+  },
+  {
+    id: 'damReleases.moderate',
+    description: 'Moderate dam releases',
+    when: { fact: 'factors.damReleases.releaseLevel', op: 'eq', value: 'moderate' },
+    severity: 'caution',
+    group: 'damReleases',
+    factor: 'damReleases',
+    message: 'damReleases.moderate',
+  },
+  {
+    id: 'damReleases.low',
+    description: 'Normal dam releases',
+    when: { fact: 'factors.damReleases.releaseLevel', op: 'eq', value: 'low' },
+    severity: 'info',
+    group: 'damReleases',
+    factor: 'damReleases',
+    message: 'damReleases.low',
+  },
+
+  // Water temperature
+  {
+    id: 'waterTemperature.coldShock',
+    description: 'Water temperature < {thresholds.waterTemp.coldShock}°F',
+    when: { fact: 'factors.waterTemperature.condition', op: 'eq', value: 'cold-shock' },
+    severity: 'warning',
+    factor: 'waterTemperature',
+    cap: 'waterTemperature.coldShock',
+    observed: 'factors.waterTemperature.temperatureF',
+    threshold: 'waterTemp.coldShock',
+    unit: '°F',
+    condition: 'condition.waterTemperature.coldShock',
+    message: 'waterTemperature.coldShock',
+  },
+  {
+    id: 'waterTemperature.cold',
+    description: 'Very cold water',
+    when: { fact: 'factors.waterTemperature.condition', op: 'eq', value: 'cold' },
+    severity: 'caution',
+    group: 'wetsuit',
+    factor: 'waterTemperature',
+    message: 'waterTemperature.cold',
+  },
+  {
+    id: 'waterTemperature.wetsuit',
+    description: 'Wetsuit recommended for the water temperature',
+    when: {
+      any: [
+        { fact: 'factors.waterTemperature.condition', op: 'eq', value: 'cold-shock' },
+        { fact: 'factors.waterTemperature.wetsuitRecommended', op: 'eq', value: true },
+      ],
+    },
+    severity: 'caution',
+    group: 'wetsuit',
+    factor: 'waterTemperature',
+    message: 'waterTemperature.wetsuit',
+  },
+
+  // Fog
+  {
+    id: 'visibility.denseFog',
+    description: 'Visibility ≤ {thresholds.visibility.denseFog} mi (dense fog)',
+    when: { fact: 'factors.visibility.condition', op: 'eq', value: 'dense-fog' },
+    severity: 'danger',
+    group: 'visibility',
+    factor: 'visibility',
+    cap: 'visibility.denseFog',
+    observed: 'factors.visibility.visibilityMiles',
+    threshold: 'visibility.denseFog',
+    unit: 'mi',
+    condition: 'condition.visibility.denseFog',
+    message: 'visibility.denseFog',
+  },
+  {
+    id: 'visibility.poor',
+    description: 'Visibility < {thresholds.visibility.poor} mi (fog)',
+    when: { fact: 'factors.visibility.condition', op: 'eq', value: 'fog' },
+    severity: 'warning',
+    group: 'visibility',
+    factor: 'visibility',
+    cap: 'visibility.poor',
+    observed: 'factors.visibility.visibilityMiles',
+    threshold: 'visibility.poor',
+    unit: 'mi',
+    condition: 'condition.visibility.poor',
+    message: 'visibility.fog',
+  },
+  {
+    id: 'visibility.haze',
+    description: 'Reduced visibility',
+    when: { fact: 'factors.visibility.condition', op: 'eq', value: 'haze' },
+    severity: 'caution',
+    group: 'visibility',
+    factor: 'visibility',
+    message: 'visibility.haze',
+  },
+  {
+    id: 'visibility.fogGear',
+    description: 'Fog - be visible to boats',
+    when: { fact: 'factors.visibility.condition', op: 'eq', value: 'fog' },
+    severity: 'caution',
+    factor: 'visibility',
+    message: 'visibility.fogGear',
+  },
+
+  // Darkness
+  {
+    id: 'visibility.night',
+    description: 'Sun elevation below {thresholds.visibility.nightElevation}° (dark)',
+    when: { fact: 'daylight.sunElevation', op: 'lt', value: { threshold: 'visibility.nightElevation' } },
+    severity: 'warning',
+    factor: 'visibility',
+    cap: 'visibility.night',
+    observed: 'daylight.sunElevation',
+    threshold: 'visibility.nightElevation',
+    unit: '°',
+    condition: 'condition.visibility.night',
+  },
+  {
+    id: 'daylight.darkBeforeSunrise',
+    description: 'Dark before sunrise',
+    when: {
+      all: [
+        { fact: 'daylight.period', op: 'eq', value: 'night' },
+        { fact: 'daylight.sunriseAhead', op: 'eq', value: true },
+      ],
+    },
+    severity: 'warning',
+    group: 'daylight',
+    factor: 'visibility',
+    message: 'daylight.darkBeforeSunrise',
+    params: { time: 'daylight.sunrise' },
+  },
+  {
+    id: 'daylight.darkAfterSunset',
+    description: 'Dark after sunset',
+    when: { fact: 'daylight.period', op: 'eq', value: 'night' },
+    severity: 'warning',
+    group: 'daylight',
+    factor: 'visibility',
+    message: 'daylight.darkAfterSunset',
+    params: { time: 'daylight.sunset' },
+  },
+  {
+    id: 'daylight.twilight',
+    description: 'Civil twilight',
+    when: { fact: 'daylight.period', op: 'eq', value: 'civil-twilight' },
+    severity: 'caution',
+    group: 'daylight',
+    factor: 'visibility',
+    message: 'daylight.twilight',
+  },
+  {
+    id: 'daylight.sunsetSoon',
+    description: 'Sunset within the hour',
+    when: {
+      all: [
+        { fact: 'daylight.minutesToSunset', op: 'gt', value: 0 },
+        { fact: 'daylight.minutesToSunset', op: 'lte', value: 60 },
+      ],
+    },
+    severity: 'caution',
+    group: 'daylight',
+    factor: 'visibility',
+    message: 'daylight.sunsetSoon',
+    params: { time: 'daylight.sunset' },
+  },
+
+  // Overall advice (uses the final score - keep these after every cap)
+  {
+    id: 'overall.excellent',
+    description: 'Overall score ≥ 80',
+    when: { fact: 'score', op: 'gte', value: 80 },
+    severity: 'info',
+    group: 'overall',
+    message: 'overall.excellent',
+  },
+  {
+    id: 'overall.good',
+    description: 'Overall score ≥ 60',
+    when: { fact: 'score', op: 'gte', value: 60 },
+    severity: 'info',
+    group: 'overall',
+    message: 'overall.good',
+  },
+  {
+    id: 'overall.fair',
+    description: 'Overall score ≥ 40',
+    when: { fact: 'score', op: 'gte', value: 40 },
+    severity: 'caution',
+    group: 'overall',
+    message: 'overall.fair',
+  },
+  {
+    id: 'overall.poor',
+    description: 'Overall score ≥ 20',
+    when: { fact: 'score', op: 'gte', value: 20 },
+    severity: 'warning',
+    group: 'overall',
+    message: 'overall.poor',
+  },
+  {
+    id: 'overall.dangerous',
+    description: 'Overall score below 20',
+    when: { fact: 'score', op: 'lt', value: 20 },
+    severity: 'danger',
+    group: 'overall',
+    message: 'overall.dangerous',
+  },
+];
@@ -0,0 +1,328 @@
+/**
+ * Original scoring configuration (algorithm v1)
+ * The thresholds, weights and caps the swim score was calculated with before continuous curves,
+ * swimmer profiles and the later factors. Scores stamped v1 must stay reproducible - don't edit
+ * these values, register a new version in src/lib/algorithms/versions.ts instead.
+ */
+
+import type { ScoreRule } from './rules';
+
+export const V1_SAFETY_THRESHOLDS = {
+  // Water quality thresholds (MPN/100ml)
+  waterQuality: {
+    enterococcus: {
+      safe: 104,           // ≤ 104: safe | 105-500: advisory
+      advisory: 500,       // 501-1000: warning
+      dangerous: 1000,     // > 1000: closed (do not swim)
+    },
+    coliform: {
+      safe: 200,
+      advisory: 1000,
+      dangerous: 2000,
+    },
+  },
+
+  // Reported wave height (feet)
+  waves: {
+    calm: 2,              // < 2 feet = calm
+    safe: 3,              // 2-3 feet = safe
+    moderate: 5,          // 3-5 feet = moderate/caution
+    rough: 8,             // 5-8 feet = rough, > 8 feet = dangerous
+  },
+
+  // Wind speed (mph)
+  wind: {
+    calm: 5,
+    light: 10,
+    moderate: 15,
+    strong: 20,
+    veryStrong: 25,
+  },
+
+  // Current speed (knots)
+  current: {
+    slack: 0.3,
+    slow: 0.5,
+    moderate: 1.0,
+    strong: 1.5,
+    veryStrong: 2.0,
+  },
+
+  // Days after a sewer overflow is reported that it lowers the score
+  sso: {
+    cautionDays: 3,
+  },
+
+  // Tide change rate (feet per hour)
+  tide: {
+    lowCurrent: 1.0,      // < 1.0 ft/hour = full phase preference
+    moderateCurrent: 2.0, // < 2.0 ft/hour = reduced, above that strongly reduced
+    phasePreference: {
+      slack: 100,
+      flood: 85,
+      ebb: 85,
+    },
+  },
+
+  // Combined dam release flow (CFS)
+  damReleases: {
+    low: 30000,
+    moderate: 50000,
+    high: 80000,
+    extreme: 100000,
+  },
+} as const;
+
+/**
+ * v1 weights - water temperature and visibility weren't scored yet
+ */
+export const V1_SCORE_WEIGHTS = {
+  waterQuality: 30,
+  tideAndCurrent: 25,
+  waves: 20,
+  weather: 15,
+  damReleases: 10,
+  waterTemperature: 0,
+  visibility: 0,
+} as const;
+
+export const V1_SCORE_CAPS = {
+  current: {
+    veryStrong: 39,
+    strong: 59,
+  },
+  waterQuality: {
+    dangerous: 19,
+    warning: 39,
+  },
+  waves: {
+    dangerous: 19,
+    rough: 39,
+  },
+} as const;
+
+/**
+ * v1 caps and advice, in the order the original algorithm applied them
+ * Message codes are shared with SCORE_RULES, so v1 advisories are translated like the current ones
+ */
+export const V1_SCORE_RULES: ReadonlyArray<ScoreRule> = [
+  {
+    id: 'current.veryStrong',
+    description: 'Current speed ≥ {thresholds.current.veryStrong} kt',
+    when: { fact: 'factors.tideAndCurrent.currentSpeed', op: 'gte', value: { threshold: 'current.veryStrong' } },
+    severity: 'danger',
+    group: 'currentCap',
+    factor: 'tideAndCurrent',
+    cap: 'current.veryStrong',
+    observed: 'factors.tideAndCurrent.currentSpeed',
+    threshold: 'current.veryStrong',
+    unit: 'kt',
+    condition: 'condition.current.veryStrong',
+  },
+  {
+    id: 'current.strong',
+    description: 'Current speed ≥ {thresholds.current.strong} kt',
+    when: { fact: 'factors.tideAndCurrent.currentSpeed', op: 'gte', value: { threshold: 'current.strong' } },
+    severity: 'warning',
+    group: 'currentCap',
+    factor: 'tideAndCurrent',
+    cap: 'current.strong',
+    observed: 'factors.tideAndCurrent.currentSpeed',
+    threshold: 'current.strong',
+    unit: 'kt',
+    condition: 'condition.current.strong',
+  },
+  {
+    id: 'waterQuality.dangerous',
+    description: 'Water quality status is dangerous',
+    when: { fact: 'factors.waterQuality.status', op: 'eq', value: 'dangerous' },
+    severity: 'danger',
+    group: 'waterQuality',
+    factor: 'waterQuality',
+    cap: 'waterQuality.dangerous',
+    observed: 'bacteria.enterococcusCount',
+    threshold: 'waterQuality.enterococcus.dangerous',
+    unit: 'MPN/100ml',
+    condition: 'condition.waterQuality.dangerous',
+    message: 'waterQuality.dangerous',
+  },
+  {
+    id: 'waterQuality.warning',
+    description: 'Water quality status is warning',
+    when: { fact: 'factors.waterQuality.status', op: 'eq', value: 'warning' },
+    severity: 'warning',
+    group: 'waterQuality',
+    factor: 'waterQuality',
+    cap: 'waterQuality.warning',
+    observed: 'bacteria.enterococcusCount',
+    threshold: 'waterQuality.enterococcus.advisory',
+    unit: 'MPN/100ml',
+    condition: 'condition.waterQuality.warning',
+    message: 'waterQuality.warning',
+  },
+  {
+    id: 'waterQuality.recentSSO',
+    description: 'Sewer overflow reported in the last {thresholds.sso.cautionDays} days',
+    when: { fact: 'factors.waterQuality.recentSSO', op: 'eq', value: true },
+    severity: 'warning',
+    group: 'waterQuality',
+    factor: 'waterQuality',
+    message: 'waterQuality.recentSSO',
+  },
+  {
+    id: 'tide.slack',
+    description: 'Slack tide',
+    when: { fact: 'factors.tideAndCurrent.phase', op: 'eq', value: 'slack' },
+    severity: 'info',
+    group: 'tide',
+    factor: 'tideAndCurrent',
+    message: 'tide.slack',
+  },
+  {
+    id: 'current.strongAdvice',
+    description: 'Current faster than {thresholds.current.moderate} kt',
+    when: { fact: 'factors.tideAndCurrent.currentSpeed', op: 'gt', value: { threshold: 'current.moderate' } },
+    severity: 'warning',
+    group: 'tide',
+    factor: 'tideAndCurrent',
+    message: 'current.strong',
+  },
+  {
+    id: 'waves.dangerous',
+    description: 'Wave height ≥ {thresholds.waves.rough} ft',
+    when: { fact: 'factors.waves.status', op: 'eq', value: 'dangerous' },
+    severity: 'danger',
+    group: 'waves',
+    factor: 'waves',
+    cap: 'waves.dangerous',
+    observed: 'factors.waves.heightFeet',
+    threshold: 'waves.rough',
+    unit: 'ft',
+    condition: 'condition.waves.dangerous',
+    message: 'waves.dangerous',
+  },
+  {
+    id: 'waves.rough',
+    description: 'Wave height ≥ {thresholds.waves.moderate} ft',
+    when: { fact: 'factors.waves.status', op: 'eq', value: 'rough' },
+    severity: 'warning',
+    group: 'waves',
+    factor: 'waves',
+    cap: 'waves.rough',
+    observed: 'factors.waves.heightFeet',
+    threshold: 'waves.moderate',
+    unit: 'ft',
+    condition: 'condition.waves.rough',
+    message: 'waves.rough',
+  },
+  {
+    id: 'waves.calm',
+    description: 'Wave height below {thresholds.waves.calm} ft (v1 also fired this when wave data was unavailable)',
+    when: { fact: 'factors.waves.heightFeet', op: 'lt', value: { threshold: 'waves.calm' } },
+    severity: 'info',
+    group: 'waves',
+    factor: 'waves',
+    message: 'waves.calm',
+  },
+  {
+    id: 'wind.strong',
+    description: 'Strong wind',
+    when: { fact: 'factors.weather.windCondition', op: 'eq', value: 'strong' },
+    severity: 'warning',
+    factor: 'weather',
+    message: 'wind.strong',
+  },
+  {
+    id: 'damReleases.extreme',
+    description: 'Extreme dam releases',
+    when: { fact: 'factors.damReleases.releaseLevel', op: 'eq', value: 'extreme' },
+    severity: 'warning',
+    group: 'damReleases',
+    factor: 'damReleases',
+    message: 'damReleases.extreme',
+  },
+  {
+    id: 'damReleases.high',
+    description: 'High dam releases',
+    when: { fact: 'factors.damReleases.releaseLevel', op: 'eq', value: 'high' },
+    severity: 'warning',
+    group: 'damReleases',
+    factor: 'damReleases',
+    message: 'damReleases.high',
+  },
+  {
+    id: 'damReleases.moderate',
+    description: 'Moderate dam releases',
+    when: { fact: 'factors.damReleases.releaseLevel', op: 'eq', value: 'moderate' },
+    severity: 'caution',
+    group: 'damReleases',
+    factor: 'damReleases',
+    message: 'damReleases.moderate',
+  },
+  {
+    id: 'damReleases.low',
+    description: 'Normal dam releases',
+    when: { fact: 'factors.damReleases.releaseLevel', op: 'eq', value: 'low' },
+    severity: 'info',
+    group: 'damReleases',
+    factor: 'damReleases',
+    message: 'damReleases.low',
+  },
+  {
+    id: 'overall.excellent',
+    description: 'Overall score ≥ 80',
+    when: { fact: 'score', op: 'gte', value: 80 },
+    severity: 'info',
+    group: 'overall',
+    message: 'overall.excellent',
+  },
+  {
+    id: 'overall.good',
+    description: 'Overall score ≥ 60',
+    when: { fact: 'score', op: 'gte', value: 60 },
+    severity: 'info',
+    group: 'overall',
+    message: 'overall.good',
+  },
+  {
+    id: 'overall.fair',
+    description: 'Overall score ≥ 40',
+    when: { fact: 'score', op: 'gte', value: 40 },
+    severity: 'caution',
+    group: 'overall',
+    message: 'overall.fair',
+  },
+  {
+    id: 'overall.poor',
+    description: 'Overall score ≥ 20',
+    when: { fact: 'score', op: 'gte', value: 20 },
+    severity: 'warning',
+    group: 'overall',
+    message: 'overall.poor',
+  },
+  {
+    id: 'overall.dangerous',
+    description: 'Overall score below 20',
+    when: { fact: 'score', op: 'lt', value: 20 },
+    severity: 'danger',
+    group: 'overall',
+    message: 'overall.dangerous',
+  },
+];
+
+/**
+ * Everything v1 scores with (versions.ts freezes a copy)
+ */
+export interface V1ScoringBaseline {
+  thresholds: typeof V1_SAFETY_THRESHOLDS;
+  weights: typeof V1_SCORE_WEIGHTS;
+  caps: typeof V1_SCORE_CAPS;
+  rules: ReadonlyArray<ScoreRule>;
+}
+
+export const V1_SCORING_BASELINE: V1ScoringBaseline = {
+  thresholds: V1_SAFETY_THRESHOLDS,
+  weights: V1_SCORE_WEIGHTS,
+  caps: V1_SCORE_CAPS,
+  rules: V1_SCORE_RULES,
+};
@@ -3,6 +3,8 @@
  * These values determine what constitutes safe, caution, and dangerous conditions
  */
 
+import type { ScoringMode } from '@/types/conditions';
+
 export const SAFETY_THRESHOLDS = {
   // Water quality thresholds (MPN/100ml - Most Probable Number per 100 milliliters)
   // EPA standards for marine recreational water quality
@@ -18,6 +20,12 @@ export const SAFETY_THRESHOLDS = {
       advisory: 1000,      // 1001-2000: warning
       dangerous: 2000,     // > 2000: closed (do not swim)
     },
+    // Nowcast probability that Enterococcus exceeds the safe standard today
+    nowcast: {
+      moderate: 0.25,      // ≥ 25% = moderate
+      advisory: 0.5,       // ≥ 50% = advisory when the last sample is stale
+      staleSampleDays: 2,  // Samples older than this defer to the nowcast
+    },
   },
 
   // Wave height thresholds (feet)
@@ -29,6 +37,18 @@ export const SAFETY_THRESHOLDS = {
     // > 8 feet = dangerous
   },
 
+  // Swell period thresholds (seconds) and effective height multipliers
+  // Long-period groundswell carries more energy, shoals higher and surges at the cove entrance;
+  // short-period wind chop measured at the buoy mostly dies out crossing the bar
+  swell: {
+    windChop: 8,          // < 8 s = wind chop
+    groundswell: 13,      // 13-16 s = groundswell
+    longPeriod: 16,       // ≥ 16 s = long-period groundswell
+    windChopFactor: 0.8,
+    groundswellFactor: 1.25,
+    longPeriodFactor: 1.5,
+  },
+
   // Wind speed thresholds (mph)
   wind: {
     calm: 5,              // < 5 mph = calm
@@ -47,8 +67,21 @@ export const SAFETY_THRESHOLDS = {
     veryStrong: 2.0,      // > 2.0 knots = very strong (dangerous)
   },
 
+  // Wind against current - opposing wind and current stack up steep, short chop
+  // Wind direction is where the wind blows from, current direction is where the water flows to,
+  // so they oppose when the two bearings are close (e.g. a westerly wind over an ebb)
+  windAgainstCurrent: {
+    maxAngle: 45,         // Bearings within 45° count as opposing
+    minWind: 8,           // mph - lighter wind doesn't build chop
+    minCurrent: 0.5,      // knots - weaker current doesn't build chop
+    penaltyPerMphKnot: 0.6, // Score points per mph above minWind × knots of current
+    maxPenalty: 15,       // Largest penalty in score points
+    warningPenalty: 4,    // Penalty at which a "wind against tide" warning is raised
+  },
+
   // Water temperature thresholds (Fahrenheit)
   waterTemp: {
+    coldShock: 50,        // < 50°F = cold shock risk (caps overall score)
     cold: 55,             // < 55°F = very cold (wetsuit required)
     cool: 60,             // 55-60°F = cold (wetsuit recommended)
     moderate: 65,         // 60-65°F = moderate
@@ -57,17 +90,49 @@ export const SAFETY_THRESHOLDS = {
 
   // Visibility thresholds (miles)
   visibility: {
+    denseFog: 0.25,       // ≤ 0.25 mile = dense fog (NWS dense fog advisory)
     poor: 1,              // < 1 mile = poor
     moderate: 3,          // 1-3 miles = moderate
     good: 5,              // 3-5 miles = good
     excellent: 10,        // > 10 miles = excellent
+    nightElevation: -6,   // Sun more than 6° below the horizon = night (civil dusk to dawn)
+    // Visibility factor ceilings in the dark - boats can't see swimmers without lights
+    nightScore: 20,
+    twilightScore: 60,
+  },
+
+  // Rainfall runoff thresholds (inches)
+  // SF guidance: avoid the bay for 72 hours after significant rain - storm drains flush
+  // bacteria into the bay (the "first flush") before any sample can show it
+  rainfall: {
+    firstFlushInches: 0.1, // ≥ 0.1" in 24 hours triggers a runoff advisory
+    heavyInches: 0.5,      // ≥ 0.5" in 72 hours = heavy runoff (water quality warning)
+    advisoryHours: 72,     // Advisory lasts 72 hours after the rain
+  },
+
+  // Cold exposure thresholds
+  // Risk follows the recommended swim time; exit feel is the wind chill on wet skin
+  coldExposure: {
+    extremeMinutes: 10,   // < 10 min recommended = extreme risk
+    highMinutes: 20,      // < 20 min = high
+    moderateMinutes: 40,  // < 40 min = moderate
+    bitterExitF: 32,      // Exit feel < 32°F = bitter
+    coldExitF: 45,        // < 45°F = cold
+    chillyExitF: 55,      // < 55°F = chilly, otherwise mild
   },
 
   // SSO (Sanitary Sewer Overflow) time thresholds
+  // Impact = distance × volume × age factors (0-1); the most impactful spill sets the score ceiling
   sso: {
     cautionDays: 3,       // Show caution for 3 days after SSO
     warningDays: 7,       // Show warning for 7 days after major SSO
-    proximityMiles: 2,    // SSO within 2 miles affects score
+    proximityMiles: 2,    // SSO within 2 miles has full distance impact
+    maxImpactMiles: 5,    // Impact fades to nothing at 5 miles
+    fullImpactGallons: 10000,  // Smaller spills scale down by √(volume / 10,000)
+    majorVolumeGallons: 50000, // ≥ 50,000 gallons = major spill (uses warningDays)
+    minImpact: 0.1,       // Below this impact a spill is ignored
+    warningImpact: 0.4,   // ≥ 0.4 = water quality warning
+    dangerousImpact: 0.75, // ≥ 0.75 = dangerous (e.g. an active spill nearby)
   },
 
   // Tide range thresholds (feet)
@@ -77,6 +142,18 @@ export const SAFETY_THRESHOLDS = {
     moderateCurrent: 2.0, // Tide change < 2.0 ft/hour = moderate
     // > 2.0 ft/hour = strong current
 
+    // Observed minus predicted water level (feet) - wind and pressure push the bay off its prediction
+    residualAnomaly: 0.5, // ≥ 0.5 ft either way = anomaly, tide times and heights may be off
+    residualSurge: 1.0,   // ≥ 1.0 ft either way = storm surge
+
+    // Daily tidal range (feet, highest high to lowest low) - bigger ranges drive much
+    // stronger currents through the Gate
+    neapRange: 4.5,       // ≤ 4.5 ft = neap tides
+    springRange: 7.0,     // ≥ 7.0 ft = spring tides
+    kingRange: 8.5,       // ≥ 8.5 ft = king tides (the year's biggest, near perigee)
+    springPenalty: 10,    // Points off the tide & current score on spring tide days
+    kingPenalty: 20,      // Points off the tide & current score on king tide days
+
     // Tide phase preferences (0-100, where 100 is most favorable)
     // Adjust these based on local conditions and swimmer preferences
     phasePreference: {
@@ -96,16 +173,151 @@ export const SAFETY_THRESHOLDS = {
   },
 } as const;
 
+/**
+ * Continuous scoring curves
+ * Map a factor's input value to a 0-100 score without the jumps of step thresholds.
+ * Curve points (`at`) and logistic midpoints may name a threshold in the curve's `group`
+ * (e.g. 'light' in 'wind'), so swimmer profiles that move thresholds also move the curves.
+ * Inputs beyond the first/last piecewise point are clamped to that point's score.
+ */
+export type CurveAnchor = number | string;
+
+export interface PiecewiseLinearCurve {
+  kind: 'piecewise';
+  group: string; // Path into SAFETY_THRESHOLDS used to resolve named anchors
+  points: ReadonlyArray<{ at: CurveAnchor; score: number }>;
+}
+
+export interface LogisticCurve {
+  kind: 'logistic';
+  group: string;
+  midpoint: CurveAnchor; // Input value where the score is halfway between min and max
+  steepness: number;     // Positive = score rises with input, negative = score falls
+  min: number;
+  max: number;
+}
+
+export type ScoringCurve = PiecewiseLinearCurve | LogisticCurve;
+
+export const SCORING_CURVES = {
+  // Enterococcus (MPN/100ml) → water quality score
+  enterococcus: {
+    kind: 'piecewise',
+    group: 'waterQuality.enterococcus',
+    points: [
+      { at: 35, score: 100 },
+      { at: 'safe', score: 90 },
+      { at: 'advisory', score: 40 },
+      { at: 'dangerous', score: 0 },
+    ],
+  },
+
+  // Tide change rate (ft/hr) → percentage of the tide phase preference kept
+  tideRate: {
+    kind: 'piecewise',
+    group: 'tide',
+    points: [
+      { at: 'slackWindow', score: 100 },
+      { at: 'lowCurrent', score: 90 },
+      { at: 'moderateCurrent', score: 55 },
+      { at: 3, score: 35 },
+    ],
+  },
+
+  // Current speed (knots) → ceiling on the tide & current score
+  currentSpeed: {
+    kind: 'piecewise',
+    group: 'current',
+    points: [
+      { at: 'moderate', score: 100 },
+      { at: 'strong', score: 55 },
+      { at: 'veryStrong', score: 30 },
+      { at: 3, score: 10 },
+    ],
+  },
+
+  // Wave height (ft) → wave score
+  waves: {
+    kind: 'piecewise',
+    group: 'waves',
+    points: [
+      { at: 1, score: 100 },
+      { at: 'calm', score: 95 },
+      { at: 'safe', score: 80 },
+      { at: 'moderate', score: 45 },
+      { at: 'rough', score: 15 },
+      { at: 12, score: 5 },
+    ],
+  },
+
+  // Wind speed (mph) → weather score
+  wind: {
+    kind: 'piecewise',
+    group: 'wind',
+    points: [
+      { at: 'calm', score: 100 },
+      { at: 'light', score: 90 },
+      { at: 'moderate', score: 72 },
+      { at: 'strong', score: 48 },
+      { at: 'veryStrong', score: 22 },
+      { at: 35, score: 10 },
+    ],
+  },
+
+  // Weighted dam release flow (CFS) → dam release score
+  damReleases: {
+    kind: 'piecewise',
+    group: 'damReleases',
+    points: [
+      { at: 'low', score: 100 },
+      { at: 'moderate', score: 72 },
+      { at: 'high', score: 45 },
+      { at: 'extreme', score: 15 },
+      { at: 130000, score: 5 },
+    ],
+  },
+
+  // Visibility (miles) → visibility score
+  visibility: {
+    kind: 'piecewise',
+    group: 'visibility',
+    points: [
+      { at: 'denseFog', score: 5 },
+      { at: 'poor', score: 30 },
+      { at: 'moderate', score: 60 },
+      { at: 'good', score: 85 },
+      { at: 'excellent', score: 100 },
+    ],
+  },
+
+  // Water temperature (°F) → water temperature score
+  waterTemperature: {
+    kind: 'logistic',
+    group: 'waterTemp',
+    midpoint: 'cold',
+    steepness: 0.4,
+    min: 10,
+    max: 100,
+  },
+} as const satisfies Record<string, ScoringCurve>;
+
+/**
+ * Scoring mode used when none is requested
+ */
+export const DEFAULT_SCORING_MODE: ScoringMode = 'continuous';
+
 /**
  * Score weights for the overall swim score calculation
  * All weights should sum to 100
  */
 export const SCORE_WEIGHTS = {
   waterQuality: 30,      // Highest priority - safety first
-  tideAndCurrent: 25,    // Affects difficulty and safety
-  waves: 20,             // Affects comfort and safety
-  weather: 15,           // Affects comfort
+  tideAndCurrent: 20,    // Affects difficulty and safety
+  waves: 15,             // Affects comfort and safety
+  weather: 10,           // Affects comfort
   damReleases: 10,       // Affects bay currents and water flow
+  waterTemperature: 10,  // Cold water risk and exposure
+  visibility: 5,         // Fog hides swimmers from boats and pilots
 } as const;
 
 /**
@@ -118,3 +330,40 @@ export const SCORE_RANGES = {
   poor: { min: 20, max: 39, label: 'Poor', color: '#ef4444' },
   dangerous: { min: 0, max: 19, label: 'Dangerous', color: '#991b1b' },
 } as const;
+
+/**
+ * Overall score caps applied when a single factor reaches a dangerous level
+ * These override the weighted average so one critical hazard can't be averaged away
+ */
+export const SCORE_CAPS = {
+  current: {
+    veryStrong: 39,       // Very strong current caps at Poor
+    strong: 59,           // Strong current caps at Fair
+  },
+  waterQuality: {
+    dangerous: 19,        // Dangerous water quality caps at Dangerous
+    warning: 39,          // Water quality warning caps at Poor
+  },
+  waves: {
+    dangerous: 19,        // Dangerous waves cap at Dangerous
+    rough: 39,            // Rough waves cap at Poor
+  },
+  waterTemperature: {
+    coldShock: 59,        // Cold shock risk caps at Fair
+  },
+  visibility: {
+    denseFog: 39,         // Dense fog caps at Poor
+    poor: 59,             // Fog under a mile caps at Fair
+    night: 59,            // Swimming in the dark caps at Fair
+  },
+} as const;
+
+/**
+ * Widened types for the constants above, so swimmer profiles can substitute their own values
+ */
+type Widen<T> = { -readonly [K in keyof T]: T[K] extends number ? number : Widen<T[K]> };
+
+export type SafetyThresholds = Widen<typeof SAFETY_THRESHOLDS>;
+export type ScoreWeights = Widen<typeof SCORE_WEIGHTS>;
+export type ScoreCaps = Widen<typeof SCORE_CAPS>;
+export type ScoringCurves = Record<keyof typeof SCORING_CURVES, ScoringCurve>;
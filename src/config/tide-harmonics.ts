@@ -0,0 +1,48 @@
+/**
+ * Tide harmonic constituents for offline tide prediction
+ *
+ * Values for San Francisco (Golden Gate), NOAA station 9414290: amplitudes in feet, phases in
+ * degrees relative to Greenwich (NOAA's "Phase GMT"), heights above MLLW. They are approximate -
+ * limited to the main constituents - so offline heights can differ from NOAA's predictions by a few
+ * tenths of a foot and turns by up to half an hour.
+ * Source: https://tidesandcurrents.noaa.gov/harcon.html?id=9414290
+ */
+
+import { TIDE_STATION_ID } from './aquatic-park';
+
+export type ConstituentName = 'M2' | 'S2' | 'N2' | 'K2' | 'K1' | 'O1' | 'P1' | 'Q1' | 'M4' | 'MS4' | 'SA' | 'SSA';
+
+export interface HarmonicConstituent {
+  name: ConstituentName;
+  amplitudeFeet: number;
+  phaseDegrees: number; // Greenwich epoch (GMT)
+}
+
+export interface StationHarmonics {
+  stationId: string;
+  name: string;
+  meanSeaLevelFeet: number; // Mean sea level above MLLW
+  constituents: HarmonicConstituent[];
+}
+
+export const TIDE_HARMONICS: Record<string, StationHarmonics> = {
+  [TIDE_STATION_ID]: {
+    stationId: TIDE_STATION_ID,
+    name: 'San Francisco, CA',
+    meanSeaLevelFeet: 3.12,
+    constituents: [
+      { name: 'M2', amplitudeFeet: 1.890, phaseDegrees: 208.2 },  // Principal lunar semidiurnal
+      { name: 'K1', amplitudeFeet: 1.214, phaseDegrees: 225.4 },  // Lunar diurnal
+      { name: 'O1', amplitudeFeet: 0.755, phaseDegrees: 208.4 },  // Lunar diurnal
+      { name: 'S2', amplitudeFeet: 0.449, phaseDegrees: 216.2 },  // Principal solar semidiurnal
+      { name: 'N2', amplitudeFeet: 0.400, phaseDegrees: 183.2 },  // Larger lunar elliptic semidiurnal
+      { name: 'P1', amplitudeFeet: 0.374, phaseDegrees: 222.1 },  // Solar diurnal
+      { name: 'Q1', amplitudeFeet: 0.135, phaseDegrees: 202.4 },  // Larger lunar elliptic diurnal
+      { name: 'K2', amplitudeFeet: 0.131, phaseDegrees: 206.0 },  // Lunisolar semidiurnal
+      { name: 'M4', amplitudeFeet: 0.072, phaseDegrees: 136.8 },  // Shallow water overtide of M2
+      { name: 'MS4', amplitudeFeet: 0.033, phaseDegrees: 149.0 }, // Shallow water quarter diurnal
+      { name: 'SA', amplitudeFeet: 0.144, phaseDegrees: 200.2 },  // Solar annual (seasonal mean sea level)
+      { name: 'SSA', amplitudeFeet: 0.098, phaseDegrees: 272.3 }, // Solar semiannual
+    ],
+  },
+};
@@ -0,0 +1,63 @@
+/**
+ * Custom hook for managing the display language
+ * Persists user's language to localStorage, defaulting to the browser's language
+ */
+
+'use client';
+
+import { useState, useEffect } from 'react';
+import type { Locale } from '@/types/conditions';
+import { DEFAULT_LOCALE, isLocale } from '@/config/locales';
+import { matchLocale } from '@/lib/i18n';
+
+const STORAGE_KEY = 'swimmingly-locale';
+
+interface UseLocaleReturn {
+  locale: Locale;
+  setLocale: (locale: Locale) => void;
+  isLoaded: boolean;
+}
+
+/**
+ * Hook to manage display language with localStorage persistence
+ * SSR-safe: initializes on client side only
+ */
+export function useLocale(): UseLocaleReturn {
+  const [locale, setLocaleState] = useState<Locale>(DEFAULT_LOCALE);
+  const [isLoaded, setIsLoaded] = useState(false);
+
+  // Load language from localStorage on mount (client-side only), else use the browser's
+  useEffect(() => {
+    try {
+      const stored = localStorage.getItem(STORAGE_KEY);
+      if (stored && isLocale(stored)) {
+        setLocaleState(stored);
+      } else {
+        setLocaleState(matchLocale(navigator.language) ?? DEFAULT_LOCALE);
+      }
+    } catch (error) {
+      // localStorage not available or error reading - use default
+      console.warn('Failed to load language from localStorage:', error);
+    } finally {
+      setIsLoaded(true);
+    }
+  }, []);
+
+  // Update language and persist to localStorage
+  const setLocale = (newLocale: Locale) => {
+    try {
+      localStorage.setItem(STORAGE_KEY, newLocale);
+      setLocaleState(newLocale);
+    } catch (error) {
+      // localStorage not available - still update state
+      console.warn('Failed to save language to localStorage:', error);
+      setLocaleState(newLocale);
+    }
+  };
+
+  return {
+    locale,
+    setLocale,
+    isLoaded,
+  };
+}
@@ -0,0 +1,66 @@
+/**
+ * Custom hook for managing custom swim score factor weights
+ * Persists user's weight overrides to localStorage
+ */
+
+'use client';
+
+import { useState, useEffect } from 'react';
+import type { FactorWeights } from '@/types/conditions';
+import { validateWeights } from '@/lib/algorithms/score-weights';
+
+const STORAGE_KEY = 'swimmingly-score-weights';
+
+interface UseScoreWeightsReturn {
+  weights: Partial<FactorWeights> | null; // null = use the profile's weights
+  setWeights: (weights: Partial<FactorWeights> | null) => void;
+  isLoaded: boolean;
+}
+
+/**
+ * Hook to manage custom factor weights with localStorage persistence
+ * SSR-safe: initializes on client side only
+ */
+export function useScoreWeights(): UseScoreWeightsReturn {
+  const [weights, setWeightsState] = useState<Partial<FactorWeights> | null>(null);
+  const [isLoaded, setIsLoaded] = useState(false);
+
+  // Load weights from localStorage on mount (client-side only)
+  useEffect(() => {
+    try {
+      const stored = localStorage.getItem(STORAGE_KEY);
+      if (stored) {
+        const parsed = JSON.parse(stored);
+        if (parsed && typeof parsed === 'object' && validateWeights(parsed).length === 0) {
+          setWeightsState(parsed);
+        }
+      }
+    } catch (error) {
+      // localStorage not available or invalid JSON - use profile weights
+      console.warn('Failed to load score weights from localStorage:', error);
+    } finally {
+      setIsLoaded(true);
+    }
+  }, []);
+
+  // Update weights and persist to localStorage (null clears the override)
+  const setWeights = (newWeights: Partial<FactorWeights> | null) => {
+    try {
+      if (newWeights) {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(newWeights));
+      } else {
+        localStorage.removeItem(STORAGE_KEY);
+      }
+    } catch (error) {
+      // localStorage not available - still update state
+      console.warn('Failed to save score weights to localStorage:', error);
+    }
+    setWeightsState(newWeights);
+  };
+
+  return {
+    weights,
+    setWeights,
+    isLoaded,
+  };
+}
@@ -0,0 +1,60 @@
+/**
+ * Custom hook for managing the selected swimmer profile
+ * Persists user's swimmer profile to localStorage
+ */
+
+'use client';
+
+import { useState, useEffect } from 'react';
+import type { SwimmerProfileId } from '@/types/conditions';
+import { DEFAULT_SWIMMER_PROFILE, isSwimmerProfileId } from '@/config/profiles';
+
+const STORAGE_KEY = 'swimmingly-swimmer-profile';
+
+interface UseSwimmerProfileReturn {
+  profile: SwimmerProfileId;
+  setProfile: (profile: SwimmerProfileId) => void;
+  isLoaded: boolean;
+}
+
+/**
+ * Hook to manage swimmer profile with localStorage persistence
+ * SSR-safe: initializes on client side only
+ */
+export function useSwimmerProfile(): UseSwimmerProfileReturn {
+  const [profile, setProfileState] = useState<SwimmerProfileId>(DEFAULT_SWIMMER_PROFILE);
+  const [isLoaded, setIsLoaded] = useState(false);
+
+  // Load profile from localStorage on mount (client-side only)
+  useEffect(() => {
+    try {
+      const stored = localStorage.getItem(STORAGE_KEY);
+      if (stored && isSwimmerProfileId(stored)) {
+        setProfileState(stored);
+      }
+    } catch (error) {
+      // localStorage not available or error reading - use default
+      console.warn('Failed to load swimmer profile from localStorage:', error);
+    } finally {
+      setIsLoaded(true);
+    }
+  }, []);
+
+  // Update profile and persist to localStorage
+  const setProfile = (newProfile: SwimmerProfileId) => {
+    try {
+      localStorage.setItem(STORAGE_KEY, newProfile);
+      setProfileState(newProfile);
+    } catch (error) {
+      // localStorage not available - still update state
+      console.warn('Failed to save swimmer profile to localStorage:', error);
+      setProfileState(newProfile);
+    }
+  };
+
+  return {
+    profile,
+    setProfile,
+    isLoaded,
+  };
+}
@@ -0,0 +1,173 @@
+/**
+ * Bacteria Nowcast
+ * Estimates the probability that today's Enterococcus count exceeds the single-sample standard.
+ * Samples are weekly at best, so this fills the days in between from rainfall, tide range,
+ * sewer overflows and the site's own sample history.
+ *
+ * Logistic model: the prior comes from the historical exceedance rate, conditioned on the last
+ * sample and fading back to the base rate as that sample ages. Rainfall, SSO impact and tide
+ * range then shift the log-odds. The coefficients are conservative priors rather than a fitted
+ * regression - the history only calibrates the baseline and persistence.
+ */
+
+import type {
+  BacteriaNowcast,
+  EnterococcusSample,
+  PrecipitationData,
+  TidePrediction,
+  WaterQuality,
+} from '@/types/conditions';
+import type { SafetyThresholds } from '@/config/thresholds';
+
+// Log-odds change per inch of rain in the last 72 hours (capped at MAX_RAIN_INCHES)
+const RAIN_COEFFICIENT = 2.5;
+const MAX_RAIN_INCHES = 2;
+
+// Log-odds change at full SSO impact
+const SSO_COEFFICIENT = 3;
+
+// Log-odds change per foot of tide range above typical - bigger tides flush the cove
+const TIDE_RANGE_COEFFICIENT = -0.15;
+const TYPICAL_TIDE_RANGE_FEET = 4.5;
+
+// Days for the last sample's influence to halve
+const PERSISTENCE_HALF_LIFE_DAYS = 3;
+
+// Prior used when there is no history, and pseudo-counts for smoothing small samples
+const DEFAULT_EXCEEDANCE_RATE = 0.1;
+const PRIOR_WEIGHT = 4;
+
+// Consecutive samples further apart than this aren't used to estimate persistence
+const MAX_PAIR_GAP_DAYS = 10;
+
+export interface NowcastInputs {
+  history: EnterococcusSample[];
+  waterQuality: WaterQuality | null;
+  precipitation: PrecipitationData | null;
+  tide: TidePrediction | null;
+  ssoImpact: number; // 0-1, from assessSSOImpact
+}
+
+/**
+ * Calculate the bacteria nowcast
+ */
+export function calculateBacteriaNowcast(
+  inputs: NowcastInputs,
+  thresholds: SafetyThresholds,
+  now: Date = new Date()
+): BacteriaNowcast {
+  const standard = thresholds.waterQuality.enterococcus.safe;
+  const history = [...(inputs.history ?? [])]
+    .filter(sample => !isNaN(new Date(sample.timestamp).getTime()))
+    .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+
+  // Baseline exceedance rate, smoothed toward the default for short histories
+  const exceedances = history.filter(sample => sample.count > standard).length;
+  const baseRate = smooth(exceedances, history.length, DEFAULT_EXCEEDANCE_RATE);
+
+  // Persistence: how often a sample exceeds given the previous sample did (or didn't)
+  let afterExceed = 0, afterExceedTotal = 0, afterClean = 0, afterCleanTotal = 0;
+  for (let i = 1; i < history.length; i++) {
+    const gapDays = daysBetween(history[i - 1].timestamp, history[i].timestamp);
+    if (gapDays > MAX_PAIR_GAP_DAYS) continue;
+    const exceeded = history[i].count > standard;
+    if (history[i - 1].count > standard) {
+      afterExceedTotal++;
+      if (exceeded) afterExceed++;
+    } else {
+      afterCleanTotal++;
+      if (exceeded) afterClean++;
+    }
+  }
+
+  // Last measured value - the current sample if it is newer than the history
+  const latest = latestSample(history, inputs.waterQuality);
+  let prior = baseRate;
+  let lastSampleAgeDays: number | undefined;
+  if (latest) {
+    lastSampleAgeDays = daysBetween(latest.timestamp, now);
+    const conditional = latest.count > standard
+      ? smooth(afterExceed, afterExceedTotal, Math.max(baseRate, 0.5))
+      : smooth(afterClean, afterCleanTotal, baseRate);
+    const persistence = Math.pow(0.5, lastSampleAgeDays / PERSISTENCE_HALF_LIFE_DAYS);
+    prior = baseRate + (conditional - baseRate) * persistence;
+  }
+
+  // Environmental adjustments on the log-odds scale
+  const rain72hInches = inputs.precipitation?.last72hInches;
+  const tideRangeFeet = tideRange(inputs.tide);
+  let logOdds = logit(prior);
+  if (rain72hInches !== undefined) {
+    logOdds += RAIN_COEFFICIENT * Math.min(rain72hInches, MAX_RAIN_INCHES);
+  }
+  logOdds += SSO_COEFFICIENT * (inputs.ssoImpact ?? 0);
+  if (tideRangeFeet !== undefined) {
+    logOdds += TIDE_RANGE_COEFFICIENT * (tideRangeFeet - TYPICAL_TIDE_RANGE_FEET);
+  }
+
+  const probability = Math.round(sigmoid(logOdds) * 100) / 100;
+  const nowcastThresholds = thresholds.waterQuality.nowcast;
+
+  return {
+    timestamp: now,
+    probability,
+    level: probability >= nowcastThresholds.advisory
+      ? 'high'
+      : probability >= nowcastThresholds.moderate
+      ? 'moderate'
+      : 'low',
+    thresholdMPN: standard,
+    inputs: {
+      rain72hInches,
+      tideRangeFeet: tideRangeFeet !== undefined ? Math.round(tideRangeFeet * 10) / 10 : undefined,
+      ssoImpact: inputs.ssoImpact ?? 0,
+      lastSampleCount: latest?.count,
+      lastSampleAgeDays: lastSampleAgeDays !== undefined ? Math.round(lastSampleAgeDays * 10) / 10 : undefined,
+      historicalExceedanceRate: Math.round(baseRate * 100) / 100,
+      samplesUsed: history.length,
+    },
+  };
+}
+
+function latestSample(
+  history: EnterococcusSample[],
+  waterQuality: WaterQuality | null
+): { timestamp: Date; count: number } | null {
+  const lastHistory = history.length > 0 ? history[history.length - 1] : null;
+  const current = waterQuality?.enterococcusCount !== undefined
+    ? { timestamp: new Date(waterQuality.timestamp), count: waterQuality.enterococcusCount }
+    : null;
+
+  if (current && (!lastHistory || current.timestamp.getTime() >= new Date(lastHistory.timestamp).getTime())) {
+    return current;
+  }
+  return lastHistory ? { timestamp: new Date(lastHistory.timestamp), count: lastHistory.count } : null;
+}
+
+/**
+ * Tide range between the next high and low (a proxy for today's range)
+ */
+function tideRange(tide: TidePrediction | null): number | undefined {
+  if (tide?.nextHigh?.heightFeet == null || tide?.nextLow?.heightFeet == null) return undefined;
+  return Math.abs(tide.nextHigh.heightFeet - tide.nextLow.heightFeet);
+}
+
+/**
+ * Rate with PRIOR_WEIGHT pseudo-observations at the fallback rate
+ */
+function smooth(hits: number, total: number, fallback: number): number {
+  return (hits + fallback * PRIOR_WEIGHT) / (total + PRIOR_WEIGHT);
+}
+
+function daysBetween(from: Date | string, to: Date | string): number {
+  return Math.max(0, (new Date(to).getTime() - new Date(from).getTime()) / (1000 * 60 * 60 * 24));
+}
+
+function logit(p: number): number {
+  const clamped = Math.min(0.999, Math.max(0.001, p));
+  return Math.log(clamped / (1 - clamped));
+}
+
+function sigmoid(x: number): number {
+  return 1 / (1 + Math.exp(-x));
+}
@@ -0,0 +1,198 @@
+/**
+ * Cold Exposure
+ * Estimates a recommended maximum swim duration from water temperature and the swimmer's
+ * suit, cap and acclimatisation, and how cold the exit will feel from air temperature and wind
+ *
+ * Duration starts from the cold water rule of thumb of about a minute per °C for a new
+ * swimmer in skins, scaled up for acclimatisation and insulation. It is guidance for
+ * planning a swim, not a survival time.
+ */
+
+import type {
+  WaterTemperature,
+  WeatherData,
+  ExposureProfile,
+  ColdExposure,
+  SuitType,
+  CapType,
+  AcclimatisationLevel,
+  Locale,
+} from '@/types/conditions';
+import type { SafetyThresholds } from '@/config/thresholds';
+import { DEFAULT_LOCALE } from '@/config/locales';
+import { translate } from '@/lib/i18n';
+
+export const SUIT_TYPES: SuitType[] = ['skins', 'shorty', 'fullsuit'];
+export const CAP_TYPES: CapType[] = ['none', 'silicone', 'neoprene'];
+export const ACCLIMATISATION_LEVELS: AcclimatisationLevel[] = ['unacclimatised', 'partial', 'acclimatised'];
+
+// Recommended minutes per °C of water temperature, by cold water experience
+const MINUTES_PER_DEGREE_C: Record<AcclimatisationLevel, number> = {
+  unacclimatised: 1,
+  partial: 1.5,
+  acclimatised: 2.5,
+};
+
+// Above this water temperature (°C) cooling slows and time grows faster
+const MILD_WATER_C = 15;
+const MILD_WATER_GROWTH = 0.25; // Extra fraction of time per °C above MILD_WATER_C
+
+// Insulation multipliers
+const SUIT_FACTOR: Record<SuitType, number> = {
+  skins: 1,
+  shorty: 1.6,
+  fullsuit: 3,
+};
+const CAP_FACTOR: Record<CapType, number> = {
+  none: 0.9,      // A bare head loses heat quickly
+  silicone: 1,
+  neoprene: 1.15,
+};
+
+// A bitter exit shortens the swim - afterdrop continues cooling once out of the water
+const BITTER_EXIT_FACTOR = 0.85;
+
+// Recommended duration range (minutes), rounded to ROUND_TO_MINUTES
+const MIN_MINUTES = 5;
+const MAX_MINUTES = 180;
+const ROUND_TO_MINUTES = 5;
+
+// Extra cooling from evaporation on wet skin, per mph of wind (capped)
+const WET_SKIN_F_PER_MPH = 0.5;
+const MAX_WET_SKIN_F = 10;
+
+export interface ExposureParseResult {
+  exposure: Partial<ExposureProfile>;
+  errors: string[];
+}
+
+/**
+ * Assess cold exposure for a swimmer
+ * Returns null without a water temperature reading
+ */
+export function assessColdExposure(
+  waterTemperature: WaterTemperature | null,
+  weather: WeatherData | null,
+  exposure: ExposureProfile,
+  thresholds: SafetyThresholds,
+  now: Date = new Date(),
+  locale: Locale = DEFAULT_LOCALE
+): ColdExposure | null {
+  if (!waterTemperature || waterTemperature.source === 'unavailable' || isNaN(waterTemperature.temperatureF)) {
+    return null;
+  }
+
+  const waterTempF = waterTemperature.temperatureF;
+  const airTempF = weather?.temperatureF ?? waterTempF;
+  const windSpeedMph = weather?.windSpeedMph ?? 0;
+  const limits = thresholds.coldExposure;
+
+  // How cold the exit feels: wind chill plus evaporation from wet skin
+  const exitFeelF = Math.round(
+    windChill(airTempF, windSpeedMph) - Math.min(MAX_WET_SKIN_F, WET_SKIN_F_PER_MPH * windSpeedMph)
+  );
+  const exitFeel: ColdExposure['exitFeel'] =
+    exitFeelF < limits.bitterExitF ? 'bitter'
+    : exitFeelF < limits.coldExitF ? 'cold'
+    : exitFeelF < limits.chillyExitF ? 'chilly'
+    : 'mild';
+
+  // Recommended duration from water temperature, experience and insulation
+  const waterTempC = Math.max(1, (waterTempF - 32) * 5 / 9);
+  let minutes = waterTempC * MINUTES_PER_DEGREE_C[exposure.acclimatisation];
+  if (waterTempC > MILD_WATER_C) {
+    minutes *= 1 + (waterTempC - MILD_WATER_C) * MILD_WATER_GROWTH;
+  }
+  minutes *= SUIT_FACTOR[exposure.suit] * CAP_FACTOR[exposure.cap];
+  if (exitFeel === 'bitter') {
+    minutes *= BITTER_EXIT_FACTOR;
+  }
+  const maxSwimMinutes = Math.min(
+    MAX_MINUTES,
+    Math.max(MIN_MINUTES, Math.round(minutes / ROUND_TO_MINUTES) * ROUND_TO_MINUTES)
+  );
+
+  const risk: ColdExposure['risk'] =
+    maxSwimMinutes < limits.extremeMinutes ? 'extreme'
+    : maxSwimMinutes < limits.highMinutes ? 'high'
+    : maxSwimMinutes < limits.moderateMinutes ? 'moderate'
+    : 'low';
+
+  // Advice
+  const advice: string[] = [];
+  if (risk === 'extreme') {
+    advice.push(translate(locale, 'advice.coldExposure.extreme'));
+  } else if (risk === 'high') {
+    advice.push(translate(locale, 'advice.coldExposure.high'));
+  }
+  if (exposure.acclimatisation === 'unacclimatised' && waterTempF < thresholds.waterTemp.cool) {
+    advice.push(translate(locale, 'advice.coldExposure.newToCold'));
+    if (exposure.suit === 'skins') {
+      advice.push(translate(locale, 'advice.coldExposure.considerWetsuit'));
+    }
+  }
+  if (exposure.cap === 'none' && waterTempF < thresholds.waterTemp.cool) {
+    advice.push(translate(locale, 'advice.coldExposure.wearCap'));
+  }
+  if (exitFeel === 'bitter' || exitFeel === 'cold') {
+    advice.push(translate(locale, 'advice.coldExposure.coldExit'));
+  } else if (exitFeel === 'chilly') {
+    advice.push(translate(locale, 'advice.coldExposure.chillyExit'));
+  }
+
+  return {
+    timestamp: now,
+    maxSwimMinutes,
+    risk,
+    waterTempF,
+    airTempF,
+    windSpeedMph,
+    exitFeelF,
+    exitFeel,
+    exposure,
+    advice,
+  };
+}
+
+/**
+ * Parse suit, cap and acclimatisation query parameters
+ * Omitted parameters keep the swimmer profile's defaults
+ */
+export function parseExposureParams(params: {
+  suit?: string | null;
+  cap?: string | null;
+  acclimatisation?: string | null;
+}): ExposureParseResult {
+  const exposure: Partial<ExposureProfile> = {};
+  const errors: string[] = [];
+
+  if (params.suit) {
+    if (isOneOf(params.suit, SUIT_TYPES)) exposure.suit = params.suit;
+    else errors.push(`suit must be one of ${SUIT_TYPES.join(', ')}`);
+  }
+  if (params.cap) {
+    if (isOneOf(params.cap, CAP_TYPES)) exposure.cap = params.cap;
+    else errors.push(`cap must be one of ${CAP_TYPES.join(', ')}`);
+  }
+  if (params.acclimatisation) {
+    if (isOneOf(params.acclimatisation, ACCLIMATISATION_LEVELS)) exposure.acclimatisation = params.acclimatisation;
+    else errors.push(`acclimatisation must be one of ${ACCLIMATISATION_LEVELS.join(', ')}`);
+  }
+
+  return { exposure, errors };
+}
+
+/**
+ * NWS wind chill (°F)
+ * The formula is defined at or below 50°F; above that it converges on the air temperature,
+ * so it is capped there rather than cut off (a cutoff would make the exit feel jump at 50°F)
+ */
+function windChill(airTempF: number, windSpeedMph: number): number {
+  if (windSpeedMph <= 3) return airTempF;
+  const windFactor = Math.pow(windSpeedMph, 0.16);
+  return Math.min(airTempF, 35.74 + 0.6215 * airTempF - 35.75 * windFactor + 0.4275 * airTempF * windFactor);
+}
+
+function isOneOf<T extends string>(value: string, options: T[]): value is T {
+  return (options as string[]).includes(value);
+}
@@ -0,0 +1,318 @@
+/**
+ * Score Confidence
+ * Estimates how much the swim score can be trusted, based on how fresh each data source is
+ * and whether the conditions route had to fall back to defaults or derived values
+ */
+
+import type {
+  TidePrediction,
+  CurrentData,
+  WeatherData,
+  WaveData,
+  WaterQuality,
+  DamReleaseData,
+  WaterTemperature,
+  PrecipitationData,
+  FactorWeights,
+  ScoreFactorKey,
+  FactorConfidence,
+  ScoreConfidence,
+  Locale,
+} from '@/types/conditions';
+import { DEFAULT_LOCALE } from '@/config/locales';
+import { translate, formatNumber } from '@/lib/i18n';
+import { SCORE_FACTOR_KEYS } from './score-weights';
+import { HARMONIC_SOURCE } from './harmonic-tides';
+
+// Confidence given to a factor whose data is missing and replaced by a neutral default
+const MISSING_DATA_CONFIDENCE = 0.2;
+
+// Largest amount (in factor score points) a factor score could be off by at zero confidence
+const MAX_FACTOR_ERROR = 50;
+
+// Overall confidence levels
+const HIGH_CONFIDENCE = 0.8;
+const MEDIUM_CONFIDENCE = 0.55;
+
+/**
+ * Inputs used to assess confidence (the same raw inputs the score was calculated from)
+ */
+export interface ConfidenceInputs {
+  tide: TidePrediction | null;
+  current: CurrentData | null;
+  weather: WeatherData | null;
+  waves: WaveData | null;
+  waterQuality: WaterQuality | null;
+  damReleases: DamReleaseData | null;
+  waterTemperature: WaterTemperature | null;
+  precipitation: PrecipitationData | null;
+}
+
+/**
+ * Assess per-factor and overall confidence, and the range the score could plausibly fall in
+ */
+export function assessConfidence(
+  inputs: ConfidenceInputs,
+  weights: FactorWeights,
+  score: number,
+  now: Date = new Date(),
+  locale: Locale = DEFAULT_LOCALE
+): ScoreConfidence {
+  const factors: Record<ScoreFactorKey, FactorConfidence> = {
+    waterQuality: assessWaterQuality(inputs.waterQuality, inputs.precipitation, now, locale),
+    tideAndCurrent: assessTideAndCurrent(inputs.tide, inputs.current, now, locale),
+    waves: assessWaves(inputs.waves, now, locale),
+    weather: assessWeather(inputs.weather, now, locale),
+    damReleases: assessDamReleases(inputs.damReleases, now, locale),
+    waterTemperature: assessWaterTemperature(inputs.waterTemperature, now, locale),
+    visibility: assessVisibility(inputs.weather, now, locale),
+  };
+
+  // Overall confidence is the weight-averaged factor confidence
+  const overall = SCORE_FACTOR_KEYS.reduce(
+    (sum, key) => sum + factors[key].confidence * weights[key],
+    0
+  ) / 100;
+
+  // Each uncertain factor widens the plausible score range by its share of the weight
+  const halfWidth = SCORE_FACTOR_KEYS.reduce(
+    (sum, key) => sum + (1 - factors[key].confidence) * MAX_FACTOR_ERROR * weights[key] / 100,
+    0
+  );
+
+  return {
+    overall: round2(overall),
+    level: overall >= HIGH_CONFIDENCE ? 'high' : overall >= MEDIUM_CONFIDENCE ? 'medium' : 'low',
+    factors,
+    scoreRange: {
+      low: Math.max(0, Math.round(score - halfWidth)),
+      high: Math.min(100, Math.round(score + halfWidth)),
+    },
+  };
+}
+
+function assessWaterQuality(
+  waterQuality: WaterQuality | null,
+  precipitation: PrecipitationData | null,
+  now: Date,
+  locale: Locale
+): FactorConfidence {
+  if (!waterQuality || isUnavailable(waterQuality.source)) {
+    return missing(translate(locale, 'confidence.waterQuality.missing'));
+  }
+
+  const reasons: string[] = [];
+  let confidence = 1;
+
+  // Bacteria samples are weekly at best - full confidence for a day, then fade over two weeks
+  const ageHours = hoursSince(waterQuality.timestamp, now);
+  const freshness = fade(ageHours, 24, 14 * 24, 0.3);
+  if (freshness < 1) {
+    reasons.push(translate(locale, 'confidence.waterQuality.sampleAge', { days: Math.floor(ageHours / 24) }));
+    confidence = Math.min(confidence, freshness);
+  }
+
+  if (waterQuality.enterococcusCount === undefined && waterQuality.coliformCount === undefined) {
+    reasons.push(translate(locale, 'confidence.waterQuality.noCount'));
+    confidence = Math.min(confidence, 0.5);
+  }
+
+  // Without rainfall data a runoff event since the sample would go unnoticed
+  if (!precipitation) {
+    reasons.push(translate(locale, 'confidence.waterQuality.noRainfall'));
+    confidence = Math.min(confidence, 0.8);
+  }
+
+  return { confidence: round2(confidence), reasons };
+}
+
+function assessTideAndCurrent(
+  tide: TidePrediction | null,
+  current: CurrentData | null,
+  now: Date,
+  locale: Locale
+): FactorConfidence {
+  if (!tide || tide.heightFeet == null) {
+    return missing(translate(locale, 'confidence.tide.missing'));
+  }
+
+  const reasons: string[] = [];
+  let confidence = 1;
+
+  const tideAge = hoursSince(tide.timestamp, now);
+  const tideFreshness = fade(tideAge, 1, 6, 0.4);
+  if (tideFreshness < 1) {
+    reasons.push(translate(locale, 'confidence.tide.age', { hours: formatNumber(tideAge, locale, 1) }));
+    confidence = Math.min(confidence, tideFreshness);
+  }
+
+  if (tide.source === HARMONIC_SOURCE) {
+    reasons.push(translate(locale, 'confidence.tide.harmonic'));
+    confidence = Math.min(confidence, 0.7);
+  }
+
+  if (!current) {
+    reasons.push(translate(locale, 'confidence.current.missing'));
+    confidence = Math.min(confidence, 0.5);
+  } else if (current.source === 'calculated-from-tide-rate') {
+    reasons.push(translate(locale, 'confidence.current.estimated'));
+    confidence = Math.min(confidence, 0.6);
+  } else {
+    const currentAge = hoursSince(current.timestamp, now);
+    const currentFreshness = fade(currentAge, 1, 6, 0.5);
+    if (currentFreshness < 1) {
+      reasons.push(translate(locale, 'confidence.current.age', { hours: formatNumber(currentAge, locale, 1) }));
+      confidence = Math.min(confidence, currentFreshness);
+    }
+  }
+
+  return { confidence: round2(confidence), reasons };
+}
+
+function assessWaves(waves: WaveData | null, now: Date, locale: Locale): FactorConfidence {
+  if (!waves || isUnavailable(waves.source) || !waves.waveHeightFeet) {
+    return missing(translate(locale, 'confidence.waves.missing'));
+  }
+
+  const reasons: string[] = [];
+  let confidence = 1;
+
+  // Buoys report hourly; anything older than a few hours may miss a building swell
+  const ageHours = hoursSince(waves.timestamp, now);
+  const freshness = fade(ageHours, 3, 12, 0.4);
+  if (freshness < 1) {
+    reasons.push(translate(locale, 'confidence.waves.age', { hours: formatNumber(ageHours, locale, 1) }));
+    confidence = freshness;
+  }
+
+  // Without period and direction the reported height can't be adjusted for the cove
+  const hasPeriod = waves.swellPeriodSeconds !== undefined || waves.dominantPeriod !== undefined;
+  if (!hasPeriod || waves.swellDirection === undefined) {
+    reasons.push(translate(locale, 'confidence.waves.noSwell'));
+    confidence = Math.min(confidence, 0.8);
+  }
+
+  return { confidence: round2(confidence), reasons };
+}
+
+function assessWeather(weather: WeatherData | null, now: Date, locale: Locale): FactorConfidence {
+  if (!weather || isUnavailable(weather.source)) {
+    return missing(translate(locale, 'confidence.weather.missing'));
+  }
+
+  const reasons: string[] = [];
+  let confidence = 1;
+
+  // Wind from Open-Meteo alone means temperature and conditions are defaults or model values
+  if (weather.conditions === 'unavailable') {
+    reasons.push(translate(locale, 'confidence.weather.windOnly'));
+    confidence = 0.8;
+  }
+
+  const ageHours = hoursSince(weather.timestamp, now);
+  const freshness = fade(ageHours, 2, 8, 0.4);
+  if (freshness < 1) {
+    reasons.push(translate(locale, 'confidence.weather.age', { hours: formatNumber(ageHours, locale, 1) }));
+    confidence = Math.min(confidence, freshness);
+  }
+
+  return { confidence: round2(confidence), reasons };
+}
+
+function assessDamReleases(damReleases: DamReleaseData | null, now: Date, locale: Locale): FactorConfidence {
+  if (!damReleases) {
+    return { confidence: 0.4, reasons: [translate(locale, 'confidence.damReleases.missing')] };
+  }
+
+  const reasons: string[] = [];
+  let confidence = 1;
+
+  // CDEC updates daily for some stations - allow a day before fading
+  const latest = damReleases.latestDataTimestamp ?? damReleases.timestamp;
+  const ageHours = hoursSince(latest, now);
+  const freshness = fade(ageHours, 24, 72, 0.5);
+  if (freshness < 1) {
+    reasons.push(translate(locale, 'confidence.damReleases.age', { hours: Math.floor(ageHours) }));
+    confidence = freshness;
+  }
+
+  if (damReleases.historical48h.dataPointsCount === 0) {
+    reasons.push(translate(locale, 'confidence.damReleases.noHistory'));
+    confidence = Math.min(confidence, 0.6);
+  }
+
+  return { confidence: round2(confidence), reasons };
+}
+
+function assessWaterTemperature(
+  waterTemperature: WaterTemperature | null,
+  now: Date,
+  locale: Locale
+): FactorConfidence {
+  if (!waterTemperature || isUnavailable(waterTemperature.source)) {
+    return { confidence: 0.3, reasons: [translate(locale, 'confidence.waterTemperature.missing')] };
+  }
+
+  const reasons: string[] = [];
+  let confidence = 1;
+
+  // Water temperature changes slowly - a day-old reading is still useful
+  const ageHours = hoursSince(waterTemperature.timestamp, now);
+  const freshness = fade(ageHours, 12, 72, 0.5);
+  if (freshness < 1) {
+    reasons.push(translate(locale, 'confidence.waterTemperature.age', { hours: Math.floor(ageHours) }));
+    confidence = freshness;
+  }
+
+  return { confidence: round2(confidence), reasons };
+}
+
+function assessVisibility(weather: WeatherData | null, now: Date, locale: Locale): FactorConfidence {
+  // Visibility only comes from NWS observations - wind-only data leaves it at a default
+  if (!weather || isUnavailable(weather.source) || weather.conditions === 'unavailable') {
+    return missing(translate(locale, 'confidence.visibility.missing'));
+  }
+
+  const reasons: string[] = [];
+  let confidence = 1;
+
+  // Fog can roll in within an hour
+  const ageHours = hoursSince(weather.timestamp, now);
+  const freshness = fade(ageHours, 1, 4, 0.3);
+  if (freshness < 1) {
+    reasons.push(translate(locale, 'confidence.visibility.age', { hours: formatNumber(ageHours, locale, 1) }));
+    confidence = freshness;
+  }
+
+  return { confidence: round2(confidence), reasons };
+}
+
+// Utility functions
+
+function missing(reason: string): FactorConfidence {
+  return { confidence: MISSING_DATA_CONFIDENCE, reasons: [reason] };
+}
+
+function isUnavailable(source?: string): boolean {
+  return source === 'unavailable';
+}
+
+function hoursSince(timestamp: Date | string, now: Date): number {
+  const time = new Date(timestamp).getTime();
+  if (isNaN(time)) return Infinity;
+  return Math.max(0, (now.getTime() - time) / (1000 * 60 * 60));
+}
+
+/**
+ * Linear fade from 1 (at or before fullHours) to floor (at or after zeroHours)
+ */
+function fade(ageHours: number, fullHours: number, zeroHours: number, floor: number): number {
+  if (ageHours <= fullHours) return 1;
+  if (ageHours >= zeroHours) return floor;
+  const fraction = (ageHours - fullHours) / (zeroHours - fullHours);
+  return 1 - fraction * (1 - floor);
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
@@ -0,0 +1,39 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { SAFETY_THRESHOLDS, SCORING_CURVES, type SafetyThresholds, type ScoringCurve } from '@/config/thresholds';
+import { evaluateCurve } from './curves';
+
+describe('evaluateCurve', () => {
+  it('resolves named anchors against the thresholds', () => {
+    const { safe, advisory } = SAFETY_THRESHOLDS.waterQuality.enterococcus;
+    assert.equal(evaluateCurve(SCORING_CURVES.enterococcus, safe, SAFETY_THRESHOLDS), 90);
+    assert.equal(evaluateCurve(SCORING_CURVES.enterococcus, advisory, SAFETY_THRESHOLDS), 40);
+  });
+
+  it('interpolates linearly between points', () => {
+    const { safe, advisory } = SAFETY_THRESHOLDS.waterQuality.enterococcus;
+    assert.equal(evaluateCurve(SCORING_CURVES.enterococcus, (safe + advisory) / 2, SAFETY_THRESHOLDS), 65);
+  });
+
+  it('clamps outside the defined range', () => {
+    assert.equal(evaluateCurve(SCORING_CURVES.enterococcus, 0, SAFETY_THRESHOLDS), 100);
+    assert.equal(evaluateCurve(SCORING_CURVES.enterococcus, 1_000_000, SAFETY_THRESHOLDS), 0);
+  });
+
+  it('follows moved thresholds', () => {
+    const thresholds: SafetyThresholds = structuredClone(SAFETY_THRESHOLDS);
+    thresholds.waterQuality.enterococcus.safe = 200;
+    assert.equal(evaluateCurve(SCORING_CURVES.enterococcus, 200, thresholds), 90);
+  });
+
+  it('is halfway between min and max at a logistic midpoint', () => {
+    const { min, max } = SCORING_CURVES.waterTemperature;
+    const score = evaluateCurve(SCORING_CURVES.waterTemperature, SAFETY_THRESHOLDS.waterTemp.cold, SAFETY_THRESHOLDS);
+    assert.equal(score, (min + max) / 2);
+  });
+
+  it('throws on an unknown anchor', () => {
+    const curve: ScoringCurve = { kind: 'piecewise', group: 'waves', points: [{ at: 'missing', score: 0 }] };
+    assert.throws(() => evaluateCurve(curve, 1, SAFETY_THRESHOLDS), /Unknown scoring curve anchor "waves.missing"/);
+  });
+});
@@ -0,0 +1,72 @@
+/**
+ * Scoring Curves
+ * Evaluates the piecewise-linear and logistic curves defined in SCORING_CURVES
+ */
+
+import type { CurveAnchor, ScoringCurve, SafetyThresholds } from '@/config/thresholds';
+
+/**
+ * Evaluate a scoring curve at an input value
+ * Named anchors are resolved against the (profile-specific) thresholds
+ */
+export function evaluateCurve(
+  curve: ScoringCurve,
+  value: number,
+  thresholds: SafetyThresholds
+): number {
+  if (curve.kind === 'logistic') {
+    const midpoint = resolveAnchor(curve.midpoint, curve.group, thresholds);
+    const score = curve.min + (curve.max - curve.min) / (1 + Math.exp(-curve.steepness * (value - midpoint)));
+    return round1(score);
+  }
+
+  const points = curve.points
+    .map(point => ({ at: resolveAnchor(point.at, curve.group, thresholds), score: point.score }))
+    .sort((a, b) => a.at - b.at);
+
+  if (points.length === 0) {
+    throw new Error('Scoring curve has no points');
+  }
+
+  // Clamp outside the defined range
+  if (value <= points[0].at) return points[0].score;
+  const last = points[points.length - 1];
+  if (value >= last.at) return last.score;
+
+  // Linear interpolation between the surrounding points
+  for (let i = 1; i < points.length; i++) {
+    const upper = points[i];
+    if (value <= upper.at) {
+      const lower = points[i - 1];
+      const fraction = upper.at === lower.at ? 1 : (value - lower.at) / (upper.at - lower.at);
+      return round1(lower.score + fraction * (upper.score - lower.score));
+    }
+  }
+
+  return last.score;
+}
+
+/**
+ * Resolve a curve anchor to a number, looking up named thresholds in the curve's group
+ */
+function resolveAnchor(anchor: CurveAnchor, group: string, thresholds: SafetyThresholds): number {
+  if (typeof anchor === 'number') return anchor;
+
+  const resolved = `${group}.${anchor}`
+    .split('.')
+    .reduce<unknown>((node, key) => (isRecord(node) ? node[key] : undefined), thresholds);
+
+  if (typeof resolved !== 'number') {
+    throw new Error(`Unknown scoring curve anchor "${group}.${anchor}"`);
+  }
+
+  return resolved;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === 'object';
+}
+
+function round1(value: number): number {
+  return Math.round(value * 10) / 10;
+}
@@ -0,0 +1,56 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { getStationHarmonics, predictTideCurve, predictTideExtremes, predictTideHeight, HARMONIC_SOURCE } from './harmonic-tides';
+
+const MINUTE_MS = 60 * 1000;
+
+// NOAA CO-OPS predictions for 9414290 (MLLW, times in GMT), as in the /api/tides example in the README
+const NOAA_PREDICTIONS = [
+  { timestamp: new Date('2026-01-15T23:47:00Z'), heightFeet: -0.287, type: 'low' },
+  { timestamp: new Date('2026-01-16T07:13:00Z'), heightFeet: 4.533, type: 'high' },
+] as const;
+
+// The bundled constituents are the main ones only - see src/config/tide-harmonics.ts
+const HEIGHT_TOLERANCE_FEET = 0.3;
+const TIME_TOLERANCE_MINUTES = 10;
+
+function harmonics() {
+  const station = getStationHarmonics();
+  assert.ok(station);
+  return station;
+}
+
+describe('predictTideExtremes', () => {
+  it('matches NOAA\'s published highs and lows with no network', () => {
+    const extremes = predictTideExtremes(new Date('2026-01-15T20:00:00Z'), new Date('2026-01-16T10:00:00Z'), harmonics());
+
+    assert.deepEqual(extremes.map(extreme => extreme.type), NOAA_PREDICTIONS.map(prediction => prediction.type));
+    NOAA_PREDICTIONS.forEach((prediction, i) => {
+      const minutesOff = Math.abs(extremes[i].timestamp.getTime() - prediction.timestamp.getTime()) / MINUTE_MS;
+      const feetOff = Math.abs(extremes[i].heightFeet - prediction.heightFeet);
+      assert.ok(minutesOff <= TIME_TOLERANCE_MINUTES, `${prediction.type} tide ${minutesOff.toFixed(0)} minutes off`);
+      assert.ok(feetOff <= HEIGHT_TOLERANCE_FEET, `${prediction.type} tide ${feetOff.toFixed(2)} ft off`);
+      assert.equal(extremes[i].source, HARMONIC_SOURCE);
+    });
+  });
+
+  it('finds two highs and two lows a day', () => {
+    const extremes = predictTideExtremes(new Date('2026-07-15T00:00:00Z'), new Date('2026-07-16T00:00:00Z'), harmonics());
+
+    assert.equal(extremes.filter(extreme => extreme.type === 'high').length, 2);
+    assert.equal(extremes.filter(extreme => extreme.type === 'low').length, 2);
+    for (let i = 1; i < extremes.length; i++) {
+      assert.notEqual(extremes[i].type, extremes[i - 1].type);
+    }
+  });
+});
+
+describe('predictTideCurve', () => {
+  it('samples every 6 minutes on the interval, like NOAA', () => {
+    const curve = predictTideCurve(new Date('2026-01-15T23:01:00Z'), new Date('2026-01-16T00:00:00Z'), harmonics());
+
+    assert.equal(curve[0].timestamp.toISOString(), '2026-01-15T23:06:00.000Z');
+    assert.equal(curve.length, 10);
+    assert.ok(Math.abs(curve[0].heightFeet - predictTideHeight(curve[0].timestamp, harmonics())) < 0.001);
+  });
+});
@@ -0,0 +1,162 @@
+/**
+ * Harmonic Tide Prediction
+ * Predicts tide heights offline from bundled harmonic constituents, the way NOAA does:
+ * each constituent is a cosine at its own speed, adjusted for the 18.6-year lunar node cycle.
+ * Used when NOAA predictions can't be fetched, and by builds with no network.
+ */
+
+import type { TideData } from '@/types/conditions';
+import { TIDE_HARMONICS, type ConstituentName, type StationHarmonics } from '@/config/tide-harmonics';
+import { TIDE_STATION_ID } from '@/config/aquatic-park';
+import { TIDE_CURVE_INTERVAL_MINUTES, findTideExtremes } from './tide-curve';
+
+// Source recorded on offline predictions
+export const HARMONIC_SOURCE = 'harmonic-prediction';
+
+const DEG = Math.PI / 180;
+const MS_PER_DAY = 1000 * 60 * 60 * 24;
+const J2000_MS = Date.UTC(2000, 0, 1, 12);
+
+/**
+ * Mean longitudes (degrees) of the astronomical arguments at a moment
+ * T: hour angle of the mean sun, s: moon, h: sun, p: lunar perigee, N: lunar ascending node
+ */
+interface Astronomy {
+  T: number;
+  s: number;
+  h: number;
+  p: number;
+  N: number;
+}
+
+interface NodalCorrection {
+  f: number; // Amplitude factor
+  u: number; // Phase correction (degrees)
+}
+
+/**
+ * Equilibrium argument and nodal correction of each constituent (Schureman, 1958)
+ */
+const CONSTITUENTS: Record<ConstituentName, {
+  argument: (a: Astronomy) => number;
+  nodal: (N: number) => NodalCorrection;
+}> = {
+  M2: { argument: a => 2 * a.T - 2 * a.s + 2 * a.h, nodal: m2Nodal },
+  S2: { argument: a => 2 * a.T, nodal: () => ({ f: 1, u: 0 }) },
+  N2: { argument: a => 2 * a.T - 3 * a.s + 2 * a.h + a.p, nodal: m2Nodal },
+  K2: { argument: a => 2 * a.T + 2 * a.h, nodal: k2Nodal },
+  K1: { argument: a => a.T + a.h - 90, nodal: k1Nodal },
+  O1: { argument: a => a.T - 2 * a.s + a.h + 90, nodal: o1Nodal },
+  P1: { argument: a => a.T - a.h + 90, nodal: () => ({ f: 1, u: 0 }) },
+  Q1: { argument: a => a.T - 3 * a.s + a.h + a.p + 90, nodal: o1Nodal },
+  M4: {
+    argument: a => 4 * a.T - 4 * a.s + 4 * a.h,
+    nodal: N => {
+      const m2 = m2Nodal(N);
+      return { f: m2.f * m2.f, u: 2 * m2.u };
+    },
+  },
+  MS4: { argument: a => 4 * a.T - 2 * a.s + 2 * a.h, nodal: m2Nodal },
+  SA: { argument: a => a.h, nodal: () => ({ f: 1, u: 0 }) },
+  SSA: { argument: a => 2 * a.h, nodal: () => ({ f: 1, u: 0 }) },
+};
+
+/**
+ * Harmonic constituents bundled for a station, or null if it has none
+ */
+export function getStationHarmonics(stationId: string = TIDE_STATION_ID): StationHarmonics | null {
+  return TIDE_HARMONICS[stationId] ?? null;
+}
+
+/**
+ * Predicted tide height (feet above MLLW) at a moment
+ */
+export function predictTideHeight(time: Date, harmonics: StationHarmonics): number {
+  const astronomy = astronomyAt(time);
+  let height = harmonics.meanSeaLevelFeet;
+
+  for (const constituent of harmonics.constituents) {
+    const { argument, nodal } = CONSTITUENTS[constituent.name];
+    const { f, u } = nodal(astronomy.N);
+    height += f * constituent.amplitudeFeet * Math.cos((argument(astronomy) + u - constituent.phaseDegrees) * DEG);
+  }
+
+  return height;
+}
+
+/**
+ * Predicted heights at regular intervals, aligned to the interval like NOAA's 6-minute predictions
+ */
+export function predictTideCurve(
+  start: Date,
+  end: Date,
+  harmonics: StationHarmonics,
+  intervalMinutes: number = TIDE_CURVE_INTERVAL_MINUTES
+): TideData[] {
+  const intervalMs = intervalMinutes * 60 * 1000;
+  const curve: TideData[] = [];
+
+  for (let time = Math.ceil(start.getTime() / intervalMs) * intervalMs; time <= end.getTime(); time += intervalMs) {
+    const timestamp = new Date(time);
+    curve.push({
+      timestamp,
+      heightFeet: Math.round(predictTideHeight(timestamp, harmonics) * 1000) / 1000,
+      type: 'normal',
+      source: HARMONIC_SOURCE,
+    });
+  }
+
+  return curve;
+}
+
+/**
+ * Predicted high and low tides between two moments
+ */
+export function predictTideExtremes(start: Date, end: Date, harmonics: StationHarmonics): TideData[] {
+  // One sample either side so turns at the very edges of the range are still found
+  const intervalMs = TIDE_CURVE_INTERVAL_MINUTES * 60 * 1000;
+  const curve = predictTideCurve(new Date(start.getTime() - intervalMs), new Date(end.getTime() + intervalMs), harmonics);
+  return findTideExtremes(curve).filter(extreme => extreme.timestamp >= start && extreme.timestamp <= end);
+}
+
+function astronomyAt(time: Date): Astronomy {
+  const days = (time.getTime() - J2000_MS) / MS_PER_DAY;
+  const hoursUT = (time.getTime() % MS_PER_DAY) / (1000 * 60 * 60);
+
+  return {
+    T: 180 + 15 * hoursUT,
+    s: 218.3164477 + 13.17639648 * days,
+    h: 280.46646 + 0.98564736 * days,
+    p: 83.3532465 + 0.11140353 * days,
+    N: 125.04452 - 0.05295377 * days,
+  };
+}
+
+// Nodal corrections as series in the longitude of the moon's node (Schureman, Table 14 approximations)
+function m2Nodal(N: number): NodalCorrection {
+  return {
+    f: 1.0004 - 0.0373 * Math.cos(N * DEG) + 0.0002 * Math.cos(2 * N * DEG),
+    u: -2.14 * Math.sin(N * DEG),
+  };
+}
+
+function k1Nodal(N: number): NodalCorrection {
+  return {
+    f: 1.006 + 0.115 * Math.cos(N * DEG) - 0.0088 * Math.cos(2 * N * DEG) + 0.0006 * Math.cos(3 * N * DEG),
+    u: -8.86 * Math.sin(N * DEG) + 0.68 * Math.sin(2 * N * DEG) - 0.07 * Math.sin(3 * N * DEG),
+  };
+}
+
+function o1Nodal(N: number): NodalCorrection {
+  return {
+    f: 1.0089 + 0.1871 * Math.cos(N * DEG) - 0.0147 * Math.cos(2 * N * DEG) + 0.0014 * Math.cos(3 * N * DEG),
+    u: 10.8 * Math.sin(N * DEG) - 1.34 * Math.sin(2 * N * DEG) + 0.19 * Math.sin(3 * N * DEG),
+  };
+}
+
+function k2Nodal(N: number): NodalCorrection {
+  return {
+    f: 1.0241 + 0.2863 * Math.cos(N * DEG) + 0.0083 * Math.cos(2 * N * DEG) - 0.0015 * Math.cos(3 * N * DEG),
+    u: -17.74 * Math.sin(N * DEG) + 0.68 * Math.sin(2 * N * DEG) - 0.04 * Math.sin(3 * N * DEG),
+  };
+}
@@ -0,0 +1,65 @@
+/**
+ * Factor Interactions
+ * Some conditions are worse together than either factor scores on its own - these
+ * produce penalties applied to the weighted score before caps
+ */
+
+import type { CurrentData, WeatherData, ScoreInteraction, Locale } from '@/types/conditions';
+import type { SafetyThresholds } from '@/config/thresholds';
+import { DEFAULT_LOCALE } from '@/config/locales';
+import { translate, formatQuantity, formatKnots } from '@/lib/i18n';
+
+/**
+ * Wind against current
+ * At the cove the worst chop comes when a westerly wind opposes an ebb current.
+ * The penalty grows with wind speed × current speed and with how directly they oppose.
+ */
+export function assessWindAgainstCurrent(
+  weather: WeatherData | null,
+  current: CurrentData | null,
+  thresholds: SafetyThresholds,
+  locale: Locale = DEFAULT_LOCALE
+): ScoreInteraction | null {
+  if (!weather || !current || weather.source === 'unavailable') return null;
+
+  const config = thresholds.windAgainstCurrent;
+  const windSpeed = weather.windSpeedMph ?? 0;
+  const currentSpeed = current.speedKnots ?? 0;
+
+  if (windSpeed < config.minWind || currentSpeed < config.minCurrent) return null;
+  if (weather.windDirection == null || current.direction == null) return null;
+
+  // Wind blows from windDirection; water flows toward current.direction
+  const angle = angleBetween(weather.windDirection, current.direction);
+  if (angle > config.maxAngle) return null;
+
+  // Head-on opposition counts fully, fading to cos(maxAngle) at the edge
+  const alignment = Math.cos((angle * Math.PI) / 180);
+  const penalty = Math.min(
+    config.maxPenalty,
+    (windSpeed - config.minWind) * currentSpeed * config.penaltyPerMphKnot * alignment
+  );
+
+  if (penalty < 0.5) return null;
+
+  return {
+    id: 'windAgainstCurrent',
+    label: translate(locale, 'interaction.windAgainstCurrent'),
+    factors: ['weather', 'tideAndCurrent'],
+    contribution: -Math.round(penalty * 10) / 10,
+    detail: translate(locale, 'interaction.windAgainstCurrent.detail', {
+      wind: formatQuantity(windSpeed, 'windSpeed', locale, 0),
+      windDirection: Math.round(weather.windDirection),
+      current: formatKnots(currentSpeed, locale),
+      currentDirection: Math.round(current.direction),
+    }),
+  };
+}
+
+/**
+ * Smallest angle between two compass bearings (0-180°)
+ */
+function angleBetween(a: number, b: number): number {
+  const diff = Math.abs((((a - b) % 360) + 360) % 360);
+  return diff > 180 ? 360 - diff : diff;
+}
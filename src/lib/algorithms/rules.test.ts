@@ -0,0 +1,154 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { SwimScoreFactors } from '@/types/conditions';
+import { SAFETY_THRESHOLDS, SCORE_CAPS } from '@/config/thresholds';
+import { SCORE_RULES, type ScoreRule } from '@/config/rules';
+import { evaluateRules, type RuleFacts } from './rules';
+
+// Only the factor fields the rules under test read
+function facts(factors: Record<string, object>, score: number): RuleFacts {
+  return {
+    factors: factors as unknown as SwimScoreFactors,
+    interactions: {},
+    daylight: {
+      period: 'day',
+      sunElevation: 30,
+      sunriseAhead: false,
+      minutesToSunset: 300,
+      sunrise: null,
+      sunset: null,
+    },
+    bacteria: {},
+    sources: {},
+    score,
+  };
+}
+
+const WAVE_RULES: ScoreRule[] = [
+  {
+    id: 'waves.dangerous',
+    description: 'Dangerous waves',
+    when: { fact: 'factors.waves.status', op: 'eq', value: 'dangerous' },
+    severity: 'danger',
+    group: 'waves',
+    factor: 'waves',
+    cap: 'waves.dangerous',
+    condition: 'condition.waves.dangerous',
+  },
+  {
+    id: 'waves.high',
+    description: 'Waves ≥ {thresholds.waves.moderate} ft',
+    when: { fact: 'factors.waves.effectiveHeightFeet', op: 'gte', value: { threshold: 'waves.moderate' } },
+    severity: 'warning',
+    group: 'waves',
+    factor: 'waves',
+    cap: 50,
+    observed: 'factors.waves.effectiveHeightFeet',
+    threshold: 'waves.moderate',
+    unit: 'ft',
+    condition: 'condition.waves.rough',
+  },
+];
+
+describe('evaluateRules', () => {
+  it('applies only the first rule to fire in a group', () => {
+    const result = evaluateRules(
+      WAVE_RULES,
+      facts({ waves: { status: 'dangerous', effectiveHeightFeet: 9 } }, 80),
+      SAFETY_THRESHOLDS,
+      SCORE_CAPS
+    );
+    assert.deepEqual(result.firedRules.map(rule => rule.id), ['waves.dangerous']);
+    assert.equal(result.finalScore, SCORE_CAPS.waves.dangerous);
+  });
+
+  it('compares against thresholds and reports the applied cap', () => {
+    const result = evaluateRules(
+      WAVE_RULES,
+      facts({ waves: { status: 'rough', effectiveHeightFeet: 6 } }, 80),
+      SAFETY_THRESHOLDS,
+      SCORE_CAPS
+    );
+    assert.equal(result.finalScore, 50);
+    assert.deepEqual(result.appliedCaps[0], {
+      id: 'waves.high',
+      factor: 'waves',
+      cap: 50,
+      scoreBefore: 80,
+      scoreAfter: 50,
+      condition: `Effective wave height ≥ ${SAFETY_THRESHOLDS.waves.moderate.toFixed(1)} ft`,
+      observed: 6,
+      threshold: SAFETY_THRESHOLDS.waves.moderate,
+      unit: 'ft',
+    });
+  });
+
+  it('renders cap conditions in the requested language and units', () => {
+    const result = evaluateRules(
+      WAVE_RULES,
+      facts({ waves: { status: 'rough', effectiveHeightFeet: 6 } }, 80),
+      SAFETY_THRESHOLDS,
+      SCORE_CAPS,
+      'es'
+    );
+    const metres = (SAFETY_THRESHOLDS.waves.moderate * 0.3048).toFixed(1);
+    assert.equal(result.appliedCaps[0].condition, `Altura efectiva de las olas ≥ ${metres} m`);
+  });
+
+  it('does not list a cap above the score as applied', () => {
+    const result = evaluateRules(
+      WAVE_RULES,
+      facts({ waves: { status: 'rough', effectiveHeightFeet: 6 } }, 30),
+      SAFETY_THRESHOLDS,
+      SCORE_CAPS
+    );
+    assert.equal(result.finalScore, 30);
+    assert.deepEqual(result.appliedCaps, []);
+    assert.equal(result.firedRules[0].applied, false);
+  });
+
+  it('never matches ordered comparisons on missing facts', () => {
+    const result = evaluateRules(WAVE_RULES, facts({ waves: {} }, 80), SAFETY_THRESHOLDS, SCORE_CAPS);
+    assert.deepEqual(result.firedRules, []);
+    assert.equal(result.finalScore, 80);
+  });
+
+  it('needs a condition for every cap it applies', () => {
+    const rules: ScoreRule[] = [{ ...WAVE_RULES[1], condition: undefined }];
+    const check = () => evaluateRules(
+      rules,
+      facts({ waves: { status: 'rough', effectiveHeightFeet: 6 } }, 80),
+      SAFETY_THRESHOLDS,
+      SCORE_CAPS
+    );
+    assert.throws(check, /Cap rule "waves.high" needs a condition/);
+  });
+
+  it('renders advisories in the requested language', () => {
+    const factors = { waves: { status: 'rough', effectiveHeightFeet: 6 } };
+    const english = evaluateRules(SCORE_RULES, facts(factors, 80), SAFETY_THRESHOLDS, SCORE_CAPS, 'en');
+    const spanish = evaluateRules(SCORE_RULES, facts(factors, 80), SAFETY_THRESHOLDS, SCORE_CAPS, 'es');
+    const rough = (advisories: typeof english.advisories) => advisories.find(advisory => advisory.code === 'waves.rough');
+    assert.equal(rough(english.advisories)?.severity, 'warning');
+    assert.notEqual(rough(english.advisories)?.text, rough(spanish.advisories)?.text);
+    assert.ok(english.warnings.includes(rough(english.advisories)!.text));
+  });
+
+  it('reads the night limit from the thresholds', () => {
+    const dark = facts({}, 80);
+    dark.daylight = { ...dark.daylight, period: 'night', sunElevation: -10 };
+    const result = evaluateRules(SCORE_RULES, dark, SAFETY_THRESHOLDS, SCORE_CAPS);
+    const night = result.appliedCaps.find(cap => cap.id === 'visibility.night');
+    assert.equal(night?.threshold, SAFETY_THRESHOLDS.visibility.nightElevation);
+    assert.equal(night?.condition, `Sun elevation < ${SAFETY_THRESHOLDS.visibility.nightElevation}° (dark)`);
+  });
+
+  it('does not call the water calm without wave data', () => {
+    const factors = { waves: { status: 'calm', effectiveHeightFeet: 0 } };
+    const calm = (result: ReturnType<typeof evaluateRules>) => result.advisories.some(advisory => advisory.code === 'waves.calm');
+    const observed = facts(factors, 80);
+    const defaulted = { ...facts(factors, 80), sources: { waves: 'unavailable' } };
+    assert.ok(calm(evaluateRules(SCORE_RULES, observed, SAFETY_THRESHOLDS, SCORE_CAPS)));
+    assert.ok(!calm(evaluateRules(SCORE_RULES, defaulted, SAFETY_THRESHOLDS, SCORE_CAPS)));
+  });
+});
@@ -0,0 +1,306 @@
+/**
+ * Rule Evaluator
+ * Applies the declarative caps and advisories in SCORE_RULES and reports which rules fired
+ */
+
+import type {
+  SwimScoreFactors,
+  ScoreInteraction,
+  AppliedCap,
+  FiredRule,
+  Advisory,
+  DaylightInfo,
+  WaterQuality,
+  DaylightPeriod,
+  Locale,
+} from '@/types/conditions';
+import type { SafetyThresholds, ScoreCaps } from '@/config/thresholds';
+import type { V1ScoringBaseline } from '@/config/scoring-v1';
+import { DEFAULT_LOCALE } from '@/config/locales';
+import {
+  translate,
+  formatParkTime,
+  formatNumber,
+  formatQuantity,
+  formatKnots,
+  type MessageParams,
+} from '@/lib/i18n';
+import {
+  type RuleMessageCode,
+  type ScoreRule,
+  type RuleCondition,
+  type RuleValue,
+} from '@/config/rules';
+
+/**
+ * Facts the rule conditions and messages can refer to
+ */
+export interface RuleFacts {
+  factors: SwimScoreFactors;
+  interactions: Record<string, number>; // Points each interaction took off (positive)
+  daylight: {
+    period: DaylightPeriod;
+    sunElevation: number;
+    sunriseAhead: boolean;          // Sunrise is still to come today
+    minutesToSunset: number | null;
+    sunrise: Date | null;
+    sunset: Date | null;
+  };
+  bacteria: {
+    enterococcusCount?: number;
+  };
+  sources: Partial<Record<'tide' | 'current' | 'weather' | 'waves' | 'waterQuality', string>>; // 'unavailable' when defaults were filled in
+  score: number;
+}
+
+// Threshold and cap paths resolve against the current configuration, or v1's frozen one
+type RuleThresholds = SafetyThresholds | V1ScoringBaseline['thresholds'];
+type RuleCaps = ScoreCaps | V1ScoringBaseline['caps'];
+
+export interface RuleEvaluation {
+  finalScore: number;
+  appliedCaps: AppliedCap[];
+  firedRules: FiredRule[];
+  advisories: Advisory[];
+  recommendations: string[];
+  warnings: string[];
+}
+
+/**
+ * Build rule facts from the factor scores and inputs
+ */
+export function buildRuleFacts(
+  factors: SwimScoreFactors,
+  interactions: ScoreInteraction[],
+  daylight: DaylightInfo,
+  waterQuality: WaterQuality | null,
+  sources: RuleFacts['sources'],
+  score: number
+): RuleFacts {
+  const now = daylight.timestamp.getTime();
+  const sunset = daylight.sunset?.getTime();
+
+  return {
+    factors,
+    interactions: Object.fromEntries(
+      interactions.map(interaction => [interaction.id, -interaction.contribution])
+    ),
+    daylight: {
+      period: daylight.period,
+      sunElevation: daylight.sunElevation,
+      sunriseAhead: !!daylight.sunrise && daylight.sunrise.getTime() > now,
+      minutesToSunset: sunset !== undefined ? (sunset - now) / (1000 * 60) : null,
+      sunrise: daylight.sunrise,
+      sunset: daylight.sunset,
+    },
+    bacteria: {
+      enterococcusCount: waterQuality?.enterococcusCount,
+    },
+    sources,
+    score,
+  };
+}
+
+/**
+ * Evaluate rules in order
+ * The score fact follows the running score, so rules that use it (overall advice) see the
+ * final score when listed after the caps
+ * Advisory text and cap conditions are rendered in the given locale
+ */
+export function evaluateRules(
+  rules: ReadonlyArray<ScoreRule>,
+  facts: RuleFacts,
+  thresholds: RuleThresholds,
+  caps: RuleCaps,
+  locale: Locale = DEFAULT_LOCALE
+): RuleEvaluation {
+  const context = { ...facts, thresholds };
+  const claimedGroups = new Set<string>();
+  const firedRules: FiredRule[] = [];
+  const advisories: Advisory[] = [];
+  const appliedCaps: AppliedCap[] = [];
+  let score = facts.score;
+
+  for (const rule of rules) {
+    if (rule.group && claimedGroups.has(rule.group)) continue;
+    if (!matches(rule.when, { ...context, score }, thresholds)) continue;
+    if (rule.group) claimedGroups.add(rule.group);
+
+    const advisory = rule.message ? buildAdvisory(rule, rule.message, context, locale) : undefined;
+    if (advisory) advisories.push(advisory);
+
+    if (rule.cap === undefined) {
+      firedRules.push(firedRule(rule, advisory));
+      continue;
+    }
+
+    if (!rule.factor) {
+      throw new Error(`Cap rule "${rule.id}" needs a factor`);
+    }
+    const cap = resolveCap(rule.cap, caps);
+    const applied = cap < score;
+    if (applied) {
+      const observed = rule.observed ? lookup(context, rule.observed) : undefined;
+      const hasObserved = typeof observed === 'number';
+      appliedCaps.push({
+        id: rule.id,
+        factor: rule.factor,
+        cap,
+        scoreBefore: score,
+        scoreAfter: cap,
+        condition: conditionText(rule, thresholds, locale),
+        observed: hasObserved ? observed : undefined,
+        threshold: hasObserved && rule.threshold !== undefined
+          ? resolveThreshold(rule.threshold, thresholds)
+          : undefined,
+        unit: hasObserved ? rule.unit : undefined,
+      });
+      score = cap;
+    }
+    firedRules.push({ ...firedRule(rule, advisory), cap, applied });
+  }
+
+  return {
+    finalScore: score,
+    appliedCaps,
+    firedRules,
+    advisories,
+    recommendations: advisories.filter(item => !isWarning(item)).map(item => item.text),
+    warnings: advisories.filter(isWarning).map(item => item.text),
+  };
+}
+
+/**
+ * Warning and danger advisories are warnings; info and caution ones are recommendations
+ */
+export function isWarning(advisory: Advisory): boolean {
+  return advisory.severity === 'warning' || advisory.severity === 'danger';
+}
+
+function firedRule(rule: ScoreRule, advisory: Advisory | undefined): FiredRule {
+  return {
+    id: rule.id,
+    severity: rule.severity,
+    messageCode: rule.message,
+    message: advisory?.text,
+    applied: true,
+  };
+}
+
+/**
+ * Resolve a rule's message params and render its text
+ * Times are shown in park time and reported as ISO strings
+ */
+function buildAdvisory(rule: ScoreRule, code: RuleMessageCode, context: object, locale: Locale): Advisory {
+  const values: MessageParams = {};
+  const params: Advisory['params'] = {};
+  for (const [name, path] of Object.entries(rule.params ?? {})) {
+    const value = lookup(context, path);
+    if (value instanceof Date) {
+      values[name] = formatParkTime(value, locale);
+      params[name] = value.toISOString();
+    } else if (typeof value === 'number' || typeof value === 'string') {
+      values[name] = value;
+      params[name] = value;
+    } else {
+      values[name] = '';
+    }
+  }
+
+  return {
+    code,
+    severity: rule.severity,
+    factor: rule.factor,
+    params,
+    text: translate(locale, code, values),
+  };
+}
+
+/**
+ * Check a rule condition against the facts
+ */
+function matches(condition: RuleCondition, context: object, thresholds: RuleThresholds): boolean {
+  if ('all' in condition) return condition.all.every(inner => matches(inner, context, thresholds));
+  if ('any' in condition) return condition.any.some(inner => matches(inner, context, thresholds));
+
+  const actual = lookup(context, condition.fact);
+  const expected = resolveValue(condition.value, thresholds);
+
+  switch (condition.op) {
+    case 'eq':
+      return actual === expected;
+    case 'neq':
+      return actual !== expected;
+    default:
+      // Ordered comparisons only hold between numbers - missing facts never match
+      if (typeof actual !== 'number' || typeof expected !== 'number') return false;
+      if (condition.op === 'lt') return actual < expected;
+      if (condition.op === 'lte') return actual <= expected;
+      if (condition.op === 'gt') return actual > expected;
+      return actual >= expected;
+  }
+}
+
+function resolveValue(value: RuleValue, thresholds: RuleThresholds): number | string | boolean {
+  return typeof value === 'object' ? resolveThreshold(value.threshold, thresholds) : value;
+}
+
+function resolveThreshold(threshold: number | string, thresholds: RuleThresholds): number {
+  if (typeof threshold === 'number') return threshold;
+  const resolved = lookup(thresholds, threshold);
+  if (typeof resolved !== 'number') {
+    throw new Error(`Unknown rule threshold "${threshold}"`);
+  }
+  return resolved;
+}
+
+function resolveCap(cap: number | string, caps: RuleCaps): number {
+  if (typeof cap === 'number') return cap;
+  const resolved = lookup(caps, cap);
+  if (typeof resolved !== 'number') {
+    throw new Error(`Unknown rule cap "${cap}"`);
+  }
+  return resolved;
+}
+
+/**
+ * Render a cap rule's condition, with its threshold in the locale's units
+ */
+function conditionText(rule: ScoreRule, thresholds: RuleThresholds, locale: Locale): string {
+  if (!rule.condition) {
+    throw new Error(`Cap rule "${rule.id}" needs a condition`);
+  }
+  const threshold = rule.threshold !== undefined
+    ? formatThreshold(resolveThreshold(rule.threshold, thresholds), rule.unit, locale)
+    : '';
+  return translate(locale, rule.condition, { threshold });
+}
+
+function formatThreshold(value: number, unit: string | undefined, locale: Locale): string {
+  switch (unit) {
+    case 'kt':
+      return formatKnots(value, locale);
+    case 'ft':
+      return formatQuantity(value, 'height', locale);
+    case 'mi':
+      return formatQuantity(value, 'distance', locale);
+    case '°F':
+      return formatQuantity(value, 'temperature', locale, 0);
+    case '°':
+      return `${formatNumber(value, locale)}°`;
+    case 'MPN/100ml':
+      return `${formatNumber(value, locale)} ${translate(locale, 'unit.mpn')}`;
+    default:
+      return unit ? `${formatNumber(value, locale)} ${unit}` : formatNumber(value, locale);
+  }
+}
+
+function lookup(source: object, path: string): unknown {
+  return path
+    .split('.')
+    .reduce<unknown>((node, key) => (isRecord(node) ? node[key] : undefined), source);
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === 'object';
+}
@@ -0,0 +1,141 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { ScoreInputs } from '@/types/conditions';
+import { FIXTURE_TIME, scoreInputs } from '@/test/fixtures';
+import { parseScoreInputs, parseScoreParams } from './score-inputs';
+import { calculateSwimScore } from './swim-score';
+import { calculateDaylight } from './solar';
+
+// Conditions as a client gets them back from /api/conditions - dates become ISO strings
+function asJson(value: unknown): Record<string, unknown> {
+  return JSON.parse(JSON.stringify(value));
+}
+
+function score(inputs: ScoreInputs) {
+  return calculateSwimScore(
+    inputs.tide,
+    inputs.current,
+    inputs.weather,
+    inputs.waves,
+    inputs.waterQuality,
+    inputs.recentSSOs,
+    inputs.damReleases,
+    inputs.waterTemperature,
+    inputs.precipitation,
+    { daylight: calculateDaylight(FIXTURE_TIME) }
+  );
+}
+
+describe('parseScoreInputs', () => {
+  it('round-trips a conditions response', () => {
+    const inputs = scoreInputs();
+    const response = asJson({ timestamp: FIXTURE_TIME, ...inputs, score: score(inputs) });
+
+    const parsed = parseScoreInputs(response, FIXTURE_TIME);
+
+    assert.deepEqual(parsed.errors, []);
+    assert.ok(parsed.inputs);
+    assert.ok(parsed.inputs.recentSSOs[0].reportedAt instanceof Date);
+    assert.equal(parsed.inputs.recentSSOs[0].reportedAt.getTime(), inputs.recentSSOs[0].reportedAt.getTime());
+    assert.ok(parsed.inputs.tide.slackWindow?.start instanceof Date);
+    assert.ok(parsed.inputs.tide.residual?.history[0].timestamp instanceof Date);
+    assert.deepEqual(parsed.inputs.damReleases?.dams, inputs.damReleases?.dams);
+    assert.ok(parsed.inputs.damReleases?.latestDataTimestamp instanceof Date);
+    assert.equal(score(parsed.inputs).overallScore, score(inputs).overallScore);
+  });
+
+  it('requires tide, weather, waves and water quality', () => {
+    const result = parseScoreInputs({});
+    assert.equal(result.inputs, null);
+    assert.deepEqual(result.errors, ['tide is required', 'weather is required', 'waves is required', 'waterQuality is required']);
+  });
+
+  it('fills in defaults for hand-entered conditions', () => {
+    const result = parseScoreInputs({
+      tide: { heightFeet: 3, currentPhase: 'slack', changeRateFeetPerHour: 0.2 },
+      weather: { temperatureF: 60, windSpeedMph: 5 },
+      waves: { waveHeightFeet: 1 },
+      waterQuality: {},
+      damReleases: { current: { totalFlowCFS: 60000 } },
+    }, FIXTURE_TIME);
+
+    assert.deepEqual(result.errors, []);
+    assert.equal(result.inputs?.weather.timestamp.getTime(), FIXTURE_TIME.getTime());
+    assert.equal(result.inputs?.waterQuality.status, 'safe');
+    assert.equal(result.inputs?.damReleases?.current.releaseLevel, 'high');
+    assert.equal(result.inputs?.damReleases?.historical48h.peakFlowCFS, 60000);
+    assert.deepEqual(result.inputs?.recentSSOs, []);
+  });
+
+  it('rejects SSO events without a valid report time', () => {
+    const body = asJson(scoreInputs());
+    body.recentSSOs = [{ id: 'a', location: 'x' }, { id: 'b', reportedAt: 'yesterday' }, 'spill'];
+
+    const result = parseScoreInputs(body, FIXTURE_TIME);
+
+    assert.equal(result.inputs, null);
+    assert.deepEqual(result.errors, [
+      'recentSSOs[0].reportedAt is required',
+      'recentSSOs[1].reportedAt must be a date',
+      'recentSSOs[2] must be an object',
+    ]);
+  });
+
+  it('rejects dam entries without a current flow', () => {
+    const body = asJson(scoreInputs());
+    const damReleases = body.damReleases as Record<string, unknown>;
+    damReleases.dams = [{}, { name: 'Oroville', current: { flowCFS: 'high' } }];
+
+    const result = parseScoreInputs(body, FIXTURE_TIME);
+
+    assert.equal(result.inputs, null);
+    assert.deepEqual(result.errors, [
+      'damReleases.dams[0].current is required',
+      'damReleases.dams[1].current.flowCFS must be a number',
+    ]);
+  });
+
+  it('rejects wrongly typed fields', () => {
+    const body = asJson(scoreInputs());
+    body.recentSSOs = { id: 'a' };
+    (body.weather as Record<string, unknown>).windSpeedMph = 'breezy';
+
+    const result = parseScoreInputs(body, FIXTURE_TIME);
+
+    assert.deepEqual(result.errors, ['weather.windSpeedMph must be a number', 'recentSSOs must be an array']);
+  });
+});
+
+describe('parseScoreParams', () => {
+  it('reads tide, profile, weights and language', () => {
+    const result = parseScoreParams(
+      new URLSearchParams('tidePhasePreference=flood&profile=beginner&weights=waves:40&lang=es'),
+      'zh-TW'
+    );
+
+    assert.deepEqual(result.errors, []);
+    assert.deepEqual(result.params?.tidePreferences, { slack: 85, flood: 100, ebb: 85 });
+    assert.equal(result.params?.profile, 'beginner');
+    assert.ok(result.params?.weights);
+    assert.equal(result.params?.locale, 'es');
+  });
+
+  it('falls back to the Accept-Language header and ignores unknown tide phases and profiles', () => {
+    const result = parseScoreParams(new URLSearchParams('tidePhasePreference=high&profile=shark'), 'es-MX,es;q=0.9');
+
+    assert.equal(result.params?.locale, 'es');
+    assert.equal(result.params?.tidePreferences, undefined);
+    assert.equal(result.params?.profile, undefined);
+  });
+
+  it('rejects invalid weights and languages', () => {
+    const weights = parseScoreParams(new URLSearchParams('weights=waves:abc'), null);
+    assert.equal(weights.params, null);
+    assert.equal(weights.error, 'Invalid weights parameter');
+    assert.ok(weights.errors.length > 0);
+
+    const lang = parseScoreParams(new URLSearchParams('lang=fr'), null);
+    assert.equal(lang.params, null);
+    assert.equal(lang.error, 'Invalid lang parameter');
+  });
+});
@@ -0,0 +1,429 @@
+/**
+ * Score Inputs
+ * Validates conditions posted to the analysis endpoints and fills in optional fields,
+ * so conditions returned by /api/conditions or entered by hand can be scored, and parses
+ * the personalisation parameters the scoring routes share
+ */
+
+import type {
+  ScoreInputs,
+  TidePrediction,
+  TideData,
+  CurrentData,
+  WeatherData,
+  WaveData,
+  WaterQuality,
+  WaterTemperature,
+  PrecipitationData,
+  DamReleaseData,
+  SSOEvent,
+  TideResidual,
+  TideCycleDay,
+  MoonPhase,
+  TidePhaseType,
+} from '@/types/conditions';
+import { SAFETY_THRESHOLDS } from '@/config/thresholds';
+import { isSwimmerProfileId } from '@/config/profiles';
+import { LOCALES } from '@/config/locales';
+import { matchLocale, negotiateLocale } from '@/lib/i18n';
+import { parseWeightsParam } from './score-weights';
+import type { SwimScoreOptions } from './swim-score';
+
+type Fields = Record<string, unknown>;
+type ReleaseLevel = DamReleaseData['current']['releaseLevel'];
+
+const RELEASE_LEVELS: readonly ReleaseLevel[] = ['low', 'moderate', 'high', 'extreme'];
+const MOON_PHASES: readonly MoonPhase[] = [
+  'new-moon', 'waxing-crescent', 'first-quarter', 'waxing-gibbous',
+  'full-moon', 'waning-gibbous', 'last-quarter', 'waning-crescent',
+];
+
+export interface ScoreInputsParseResult {
+  inputs: ScoreInputs | null;
+  errors: string[];
+}
+
+export type ScoreParams = Pick<SwimScoreOptions, 'tidePreferences' | 'profile' | 'weights'> &
+  Required<Pick<SwimScoreOptions, 'locale'>>;
+
+export interface ScoreParamsParseResult {
+  params: ScoreParams | null;
+  error: string | null; // Summary for the 400 response, e.g. 'Invalid weights parameter'
+  errors: string[];
+}
+
+/**
+ * Parse a conditions object into score inputs
+ * tide, weather, waves and waterQuality are required; current, damReleases, waterTemperature,
+ * precipitation and recentSSOs are optional. Missing timestamps default to now, and dam releases
+ * need only current.totalFlowCFS, plus current.flowCFS for each listed dam. SSO events need the
+ * time they were reported.
+ */
+export function parseScoreInputs(body: unknown, now: Date = new Date()): ScoreInputsParseResult {
+  if (!isFields(body)) {
+    return { inputs: null, errors: ['Body must be a conditions object'] };
+  }
+
+  const errors: string[] = [];
+  const tide = readObject(body, 'tide', true, errors, (fields, path): TidePrediction => ({
+    ...fields,
+    ...readTideData(fields, path, errors, now),
+    currentPhase: readOneOf(fields, 'currentPhase', path, errors, ['flood', 'ebb', 'slack'] as const),
+    changeRateFeetPerHour: readNumber(fields, 'changeRateFeetPerHour', path, errors),
+    nextHigh: readObject(fields, 'nextHigh', false, errors, (event, eventPath) => readTideData(event, eventPath, errors, now, 'high')) ?? undefined,
+    nextLow: readObject(fields, 'nextLow', false, errors, (event, eventPath) => readTideData(event, eventPath, errors, now, 'low')) ?? undefined,
+    slackWindow: readObject(fields, 'slackWindow', false, errors, (window, windowPath) => ({
+      start: readRequiredDate(window, 'start', windowPath, errors),
+      end: readRequiredDate(window, 'end', windowPath, errors),
+    }), path) ?? undefined,
+    residual: readObject(fields, 'residual', false, errors, (residual, residualPath): TideResidual => ({
+      residualFeet: readNumber(residual, 'residualFeet', residualPath, errors),
+      trendFeetPerHour: readNumber(residual, 'trendFeetPerHour', residualPath, errors, 0),
+      maxResidualFeet: readNumber(residual, 'maxResidualFeet', residualPath, errors, 0),
+      offsetFeet: readNumber(residual, 'offsetFeet', residualPath, errors, 0),
+      lagMinutes: readNumber(residual, 'lagMinutes', residualPath, errors, 0),
+      status: readOneOf(residual, 'status', residualPath, errors, ['normal', 'anomaly', 'surge'] as const),
+      history: readArray(residual, 'history', `${residualPath}.history`, errors, (point, pointPath) => ({
+        timestamp: readRequiredDate(point, 'timestamp', pointPath, errors),
+        residualFeet: readNumber(point, 'residualFeet', pointPath, errors),
+      })),
+    }), path) ?? undefined,
+    tideCycle: readObject(fields, 'tideCycle', false, errors, (day, dayPath): TideCycleDay => ({
+      ...day,
+      date: typeof day.date === 'string' ? day.date : '',
+      cycle: readOneOf(day, 'cycle', dayPath, errors, ['king', 'spring', 'moderate', 'neap'] as const),
+      rangeFeet: readNumber(day, 'rangeFeet', dayPath, errors),
+      highFeet: readNumber(day, 'highFeet', dayPath, errors, NaN),
+      lowFeet: readNumber(day, 'lowFeet', dayPath, errors, NaN),
+      moonPhase: readOneOf(day, 'moonPhase', dayPath, errors, MOON_PHASES, 'new-moon'),
+      moonAgeDays: readNumber(day, 'moonAgeDays', dayPath, errors, 0),
+    }), path) ?? undefined,
+  }));
+
+  const current = readObject(body, 'current', false, errors, (fields, path): CurrentData => ({
+    ...fields,
+    timestamp: readDate(fields, 'timestamp', path, errors, now),
+    speedKnots: readNumber(fields, 'speedKnots', path, errors),
+    direction: readNumber(fields, 'direction', path, errors, 0),
+    lat: readNumber(fields, 'lat', path, errors, 0),
+    lon: readNumber(fields, 'lon', path, errors, 0),
+  }));
+
+  const weather = readObject(body, 'weather', true, errors, (fields, path): WeatherData => ({
+    ...fields,
+    timestamp: readDate(fields, 'timestamp', path, errors, now),
+    temperatureF: readNumber(fields, 'temperatureF', path, errors),
+    windSpeedMph: readNumber(fields, 'windSpeedMph', path, errors),
+    windDirection: readNumber(fields, 'windDirection', path, errors, 0),
+    windGustMph: readOptionalNumber(fields, 'windGustMph', path, errors),
+    visibilityMiles: readNumber(fields, 'visibilityMiles', path, errors, 10),
+    conditions: typeof fields.conditions === 'string' ? fields.conditions : 'clear',
+  }));
+
+  const waves = readObject(body, 'waves', true, errors, (fields, path): WaveData => ({
+    ...fields,
+    timestamp: readDate(fields, 'timestamp', path, errors, now),
+    waveHeightFeet: readNumber(fields, 'waveHeightFeet', path, errors),
+    swellPeriodSeconds: readOptionalNumber(fields, 'swellPeriodSeconds', path, errors),
+    swellDirection: readOptionalNumber(fields, 'swellDirection', path, errors),
+  }));
+
+  const waterQuality = readObject(body, 'waterQuality', true, errors, (fields, path): WaterQuality => ({
+    ...fields,
+    timestamp: readDate(fields, 'timestamp', path, errors, now),
+    status: readOneOf(fields, 'status', path, errors, ['safe', 'advisory', 'warning', 'closed'] as const, 'safe'),
+    enterococcusCount: readOptionalNumber(fields, 'enterococcusCount', path, errors),
+    coliformCount: readOptionalNumber(fields, 'coliformCount', path, errors),
+  }));
+
+  const waterTemperature = readObject(body, 'waterTemperature', false, errors, (fields, path): WaterTemperature => ({
+    ...fields,
+    timestamp: readDate(fields, 'timestamp', path, errors, now),
+    temperatureF: readNumber(fields, 'temperatureF', path, errors),
+    source: typeof fields.source === 'string' ? fields.source : 'manual',
+  }));
+
+  const precipitation = readObject(body, 'precipitation', false, errors, (fields, path): PrecipitationData => ({
+    ...fields,
+    timestamp: readDate(fields, 'timestamp', path, errors, now),
+    last24hInches: readNumber(fields, 'last24hInches', path, errors, 0),
+    last48hInches: readNumber(fields, 'last48hInches', path, errors, 0),
+    last72hInches: readNumber(fields, 'last72hInches', path, errors, 0),
+    next24hInches: readNumber(fields, 'next24hInches', path, errors, 0),
+    lastSignificantRainAt: fields.lastSignificantRainAt !== undefined
+      ? readDate(fields, 'lastSignificantRainAt', path, errors, now)
+      : undefined,
+    source: typeof fields.source === 'string' ? fields.source : 'manual',
+  }));
+
+  // Dam releases may be a full /api/conditions snapshot or just a hand-entered total flow
+  const damReleases = readObject(body, 'damReleases', false, errors, (fields, path): DamReleaseData | null => {
+    const snapshot = readObject(fields, 'current', true, errors, (current, currentPath) => {
+      const totalFlowCFS = readNumber(current, 'totalFlowCFS', currentPath, errors);
+      return {
+        totalFlowCFS,
+        releaseLevel: readOneOf(current, 'releaseLevel', currentPath, errors, RELEASE_LEVELS, releaseLevelFor(totalFlowCFS)),
+      };
+    }, path);
+    if (!snapshot) return null;
+
+    const timestamp = readDate(fields, 'timestamp', path, errors, now);
+    // Without history, treat the entered flow as steady over the last 48 hours
+    const historical48h = readObject(fields, 'historical48h', false, errors, (history, historyPath): DamReleaseData['historical48h'] => ({
+      averageFlowCFS: readNumber(history, 'averageFlowCFS', historyPath, errors, snapshot.totalFlowCFS),
+      peakFlowCFS: readNumber(history, 'peakFlowCFS', historyPath, errors, snapshot.totalFlowCFS),
+      peakTimestamp: readDate(history, 'peakTimestamp', historyPath, errors, timestamp),
+      trendDirection: readOneOf(history, 'trendDirection', historyPath, errors, ['increasing', 'stable', 'decreasing'] as const, 'stable'),
+      last24hAverage: readNumber(history, 'last24hAverage', historyPath, errors, snapshot.totalFlowCFS),
+      last48hAverage: readNumber(history, 'last48hAverage', historyPath, errors, snapshot.totalFlowCFS),
+      dataPointsCount: readNumber(history, 'dataPointsCount', historyPath, errors, 0),
+    }), path);
+
+    const dams = readArray(fields, 'dams', `${path}.dams`, errors, (dam, damPath, index): DamReleaseData['dams'][number] => {
+      const flow = readObject(dam, 'current', true, errors, (damCurrent, damCurrentPath) => ({
+        flowCFS: readNumber(damCurrent, 'flowCFS', damCurrentPath, errors),
+        timestamp: damCurrent.timestamp !== undefined ? readDate(damCurrent, 'timestamp', damCurrentPath, errors, timestamp) : undefined,
+        percentOfTotal: readNumber(damCurrent, 'percentOfTotal', damCurrentPath, errors, 0),
+      }), damPath);
+      const flowCFS = flow?.flowCFS ?? NaN;
+      return {
+        name: typeof dam.name === 'string' ? dam.name : `Dam ${index + 1}`,
+        stationId: typeof dam.stationId === 'string' ? dam.stationId : '',
+        current: flow ?? { flowCFS, percentOfTotal: 0 },
+        historical48h: readObject(dam, 'historical48h', false, errors, (history, historyPath) => ({
+          averageFlowCFS: readNumber(history, 'averageFlowCFS', historyPath, errors, flowCFS),
+          peakFlowCFS: readNumber(history, 'peakFlowCFS', historyPath, errors, flowCFS),
+          dataPoints: readNumber(history, 'dataPoints', historyPath, errors, 0),
+        }), damPath) ?? { averageFlowCFS: flowCFS, peakFlowCFS: flowCFS, dataPoints: 0 },
+      };
+    });
+
+    return {
+      ...fields,
+      timestamp,
+      current: snapshot,
+      historical48h: historical48h ?? {
+        averageFlowCFS: snapshot.totalFlowCFS,
+        peakFlowCFS: snapshot.totalFlowCFS,
+        peakTimestamp: timestamp,
+        trendDirection: 'stable',
+        last24hAverage: snapshot.totalFlowCFS,
+        last48hAverage: snapshot.totalFlowCFS,
+        dataPointsCount: 0,
+      },
+      dams,
+      latestDataTimestamp: fields.latestDataTimestamp !== undefined
+        ? readDate(fields, 'latestDataTimestamp', path, errors, timestamp)
+        : undefined,
+      source: typeof fields.source === 'string' ? fields.source : 'manual',
+    };
+  });
+
+  const recentSSOs = readArray(body, 'recentSSOs', 'recentSSOs', errors, (fields, path, index): SSOEvent => ({
+    ...fields,
+    id: typeof fields.id === 'string' ? fields.id : `sso-${index + 1}`,
+    reportedAt: readRequiredDate(fields, 'reportedAt', path, errors),
+    location: typeof fields.location === 'string' ? fields.location : '',
+    volumeGallons: readOptionalNumber(fields, 'volumeGallons', path, errors),
+    resolved: readBoolean(fields, 'resolved', path, errors, false),
+    resolvedAt: fields.resolvedAt !== undefined && fields.resolvedAt !== null
+      ? readRequiredDate(fields, 'resolvedAt', path, errors)
+      : undefined,
+    distanceFromParkMiles: readOptionalNumber(fields, 'distanceFromParkMiles', path, errors),
+  }));
+
+  if (errors.length > 0 || !tide || !weather || !waves || !waterQuality) {
+    return { inputs: null, errors };
+  }
+
+  return {
+    inputs: { tide, current, weather, waves, waterQuality, recentSSOs, damReleases: damReleases ?? null, waterTemperature, precipitation },
+    errors,
+  };
+}
+
+/**
+ * Parse the personalisation query parameters the scoring routes share
+ * tidePhasePreference and profile fall back to the profile's defaults when unknown; invalid
+ * weights or lang are errors. Without lang, the Accept-Language header picks the language.
+ */
+export function parseScoreParams(searchParams: URLSearchParams, acceptLanguage: string | null): ScoreParamsParseResult {
+  const tidePhase = searchParams.get('tidePhasePreference');
+  const tidePreferences = isTidePhase(tidePhase)
+    ? {
+        slack: tidePhase === 'slack' ? 100 : 85,
+        flood: tidePhase === 'flood' ? 100 : 85,
+        ebb: tidePhase === 'ebb' ? 100 : 85,
+      }
+    : undefined;
+
+  const profileParam = searchParams.get('profile');
+  const profile = isSwimmerProfileId(profileParam) ? profileParam : undefined;
+
+  // e.g. weights=waves:40,damReleases:5 (normalised to 100)
+  const weightsParam = searchParams.get('weights');
+  let weights: ScoreParams['weights'];
+  if (weightsParam) {
+    const parsed = parseWeightsParam(weightsParam);
+    if (parsed.errors.length > 0) {
+      return { params: null, error: 'Invalid weights parameter', errors: parsed.errors };
+    }
+    weights = parsed.weights;
+  }
+
+  const langParam = searchParams.get('lang');
+  const requestedLocale = matchLocale(langParam);
+  if (langParam && !requestedLocale) {
+    return {
+      params: null,
+      error: 'Invalid lang parameter',
+      errors: [`lang must be one of ${Object.keys(LOCALES).join(', ')}`],
+    };
+  }
+  const locale = requestedLocale ?? negotiateLocale(acceptLanguage);
+
+  return { params: { tidePreferences, profile, weights, locale }, error: null, errors: [] };
+}
+
+function isTidePhase(value: string | null): value is TidePhaseType {
+  return value === 'slack' || value === 'flood' || value === 'ebb';
+}
+
+// Same bands CDEC data is classified with
+function releaseLevelFor(totalFlowCFS: number): ReleaseLevel {
+  const { moderate, high, low } = SAFETY_THRESHOLDS.damReleases;
+  if (totalFlowCFS > high) return 'extreme';
+  if (totalFlowCFS > moderate) return 'high';
+  if (totalFlowCFS > low) return 'moderate';
+  return 'low';
+}
+
+function readTideData(
+  fields: Fields,
+  path: string,
+  errors: string[],
+  now: Date,
+  type: TideData['type'] = 'normal'
+): TideData {
+  return {
+    timestamp: readDate(fields, 'timestamp', path, errors, now),
+    heightFeet: readNumber(fields, 'heightFeet', path, errors),
+    type: readOneOf(fields, 'type', path, errors, ['high', 'low', 'normal'] as const, type),
+  };
+}
+
+function isFields(value: unknown): value is Fields {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Read a nested object, or record an error if a required one is missing
+ */
+function readObject<T>(
+  source: Fields,
+  key: string,
+  required: boolean,
+  errors: string[],
+  read: (fields: Fields, path: string) => T,
+  parentPath?: string
+): T | null {
+  const path = parentPath ? `${parentPath}.${key}` : key;
+  const value = source[key];
+  if (value === undefined || value === null) {
+    if (required) errors.push(`${path} is required`);
+    return null;
+  }
+  if (!isFields(value)) {
+    errors.push(`${path} must be an object`);
+    return null;
+  }
+  return read(value, path);
+}
+
+/**
+ * Read an optional array of objects, or record an error for anything else
+ */
+function readArray<T>(
+  source: Fields,
+  key: string,
+  path: string,
+  errors: string[],
+  read: (fields: Fields, itemPath: string, index: number) => T
+): T[] {
+  const value = source[key];
+  if (value === undefined || value === null) return [];
+  if (!Array.isArray(value)) {
+    errors.push(`${path} must be an array`);
+    return [];
+  }
+  return value.flatMap((item, index) => {
+    const itemPath = `${path}[${index}]`;
+    if (!isFields(item)) {
+      errors.push(`${itemPath} must be an object`);
+      return [];
+    }
+    return [read(item, itemPath, index)];
+  });
+}
+
+function readNumber(source: Fields, key: string, path: string, errors: string[], fallback?: number): number {
+  const value = source[key];
+  if (value === undefined && fallback !== undefined) return fallback;
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    errors.push(`${path}.${key} must be a number`);
+    return NaN;
+  }
+  return value;
+}
+
+function readOptionalNumber(source: Fields, key: string, path: string, errors: string[]): number | undefined {
+  return source[key] === undefined ? undefined : readNumber(source, key, path, errors);
+}
+
+function readOneOf<T extends string>(
+  source: Fields,
+  key: string,
+  path: string,
+  errors: string[],
+  allowed: readonly T[],
+  fallback?: T
+): T {
+  const value = source[key];
+  if (value === undefined && fallback !== undefined) return fallback;
+  if (typeof value !== 'string' || !(allowed as readonly string[]).includes(value)) {
+    errors.push(`${path}.${key} must be one of ${allowed.join(', ')}`);
+    return allowed[0];
+  }
+  return value as T;
+}
+
+function readBoolean(source: Fields, key: string, path: string, errors: string[], fallback: boolean): boolean {
+  const value = source[key];
+  if (value === undefined) return fallback;
+  if (typeof value !== 'boolean') {
+    errors.push(`${path}.${key} must be true or false`);
+    return fallback;
+  }
+  return value;
+}
+
+// Missing timestamps mean "now"; JSON dates arrive as ISO strings
+function readDate(source: Fields, key: string, path: string, errors: string[], now: Date): Date {
+  const value = source[key];
+  if (value === undefined) return now;
+  const date = typeof value === 'string' || typeof value === 'number' ? new Date(value) : null;
+  if (!date || Number.isNaN(date.getTime())) {
+    errors.push(`${path}.${key} must be a date`);
+    return now;
+  }
+  return date;
+}
+
+// Dates that say when something happened have no sensible default
+function readRequiredDate(source: Fields, key: string, path: string, errors: string[]): Date {
+  if (source[key] === undefined) {
+    errors.push(`${path}.${key} is required`);
+    return new Date(NaN);
+  }
+  return readDate(source, key, path, errors, new Date(NaN));
+}
@@ -0,0 +1,125 @@
+/**
+ * Custom factor weights
+ * Parses, validates and normalises user-supplied weights for the swim score factors
+ */
+
+import type { FactorWeights, ScoreFactorKey } from '@/types/conditions';
+
+export const SCORE_FACTOR_KEYS: ScoreFactorKey[] = [
+  'waterQuality',
+  'tideAndCurrent',
+  'waves',
+  'weather',
+  'damReleases',
+  'waterTemperature',
+  'visibility',
+];
+
+export const SCORE_FACTOR_LABELS: Record<ScoreFactorKey, string> = {
+  waterQuality: 'Water Quality',
+  tideAndCurrent: 'Tide & Current',
+  waves: 'Waves',
+  weather: 'Wind & Weather',
+  damReleases: 'Dam Releases',
+  waterTemperature: 'Water Temperature',
+  visibility: 'Visibility',
+};
+
+export interface WeightsParseResult {
+  weights: Partial<FactorWeights>;
+  errors: string[];
+}
+
+/**
+ * Type guard to validate factor names
+ */
+export function isScoreFactorKey(value: unknown): value is ScoreFactorKey {
+  return typeof value === 'string' && (SCORE_FACTOR_KEYS as string[]).includes(value);
+}
+
+/**
+ * Parse a weights query parameter
+ * Format: "waves:40,damReleases:5" - factors that are omitted keep their profile weight
+ */
+export function parseWeightsParam(param: string): WeightsParseResult {
+  const weights: Partial<FactorWeights> = {};
+  const errors: string[] = [];
+
+  for (const entry of param.split(',')) {
+    if (!entry.trim()) continue;
+
+    const [key, rawValue] = entry.split(':').map(part => part.trim());
+    if (!isScoreFactorKey(key)) {
+      errors.push(`Unknown factor "${key}" (expected one of ${SCORE_FACTOR_KEYS.join(', ')})`);
+      continue;
+    }
+
+    const value = Number(rawValue);
+    if (rawValue === undefined || rawValue === '' || !Number.isFinite(value) || value < 0) {
+      errors.push(`Weight for "${key}" must be a non-negative number`);
+      continue;
+    }
+
+    weights[key] = value;
+  }
+
+  const providedKeys = Object.keys(weights) as ScoreFactorKey[];
+  if (
+    providedKeys.length === SCORE_FACTOR_KEYS.length &&
+    providedKeys.every(key => weights[key] === 0)
+  ) {
+    errors.push('At least one weight must be greater than zero');
+  }
+
+  return { weights, errors };
+}
+
+/**
+ * Validate a partial weight set (e.g. parsed from JSON or localStorage)
+ */
+export function validateWeights(weights: Partial<Record<string, unknown>>): string[] {
+  const errors: string[] = [];
+
+  for (const [key, value] of Object.entries(weights)) {
+    if (!isScoreFactorKey(key)) {
+      errors.push(`Unknown factor "${key}"`);
+    } else if (typeof value !== 'number' || !Number.isFinite(value) || value < 0) {
+      errors.push(`Weight for "${key}" must be a non-negative number`);
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Merge custom weights onto the base (profile) weights and scale them to sum to 100
+ * Falls back to the base weights if every weight ends up zero
+ */
+export function normalizeWeights(
+  base: FactorWeights,
+  overrides?: Partial<FactorWeights>
+): FactorWeights {
+  const merged = { ...base, ...overrides };
+  const total = SCORE_FACTOR_KEYS.reduce((sum, key) => sum + (merged[key] ?? 0), 0);
+
+  if (total <= 0) {
+    return overrides ? normalizeWeights(base) : { ...base };
+  }
+
+  const normalized = {} as FactorWeights;
+  for (const key of SCORE_FACTOR_KEYS) {
+    normalized[key] = Math.round(((merged[key] ?? 0) * 100 / total) * 100) / 100;
+  }
+
+  return normalized;
+}
+
+/**
+ * Serialize weights back into the query parameter format
+ */
+export function serializeWeights(weights: Partial<FactorWeights>): string {
+  return SCORE_FACTOR_KEYS
+    .filter(key => weights[key] !== undefined)
+    .map(key => `${key}:${weights[key]}`)
+    .join(',');
+}
@@ -0,0 +1,50 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { ScoreInputs } from '@/types/conditions';
+import { SAFETY_THRESHOLDS } from '@/config/thresholds';
+import { FIXTURE_TIME, scoreInputs } from '@/test/fixtures';
+import { assessSensitivity } from './sensitivity';
+
+// A marginal day with a strong current, which caps the score - worse water quality or waves
+// would take the score under the cap without the current changing
+function strongCurrent(): ScoreInputs {
+  const inputs = scoreInputs();
+  return {
+    ...inputs,
+    current: { ...inputs.current!, speedKnots: 1.7 },
+    weather: { ...inputs.weather, windSpeedMph: 14, windGustMph: 18 },
+    waves: { ...inputs.waves, waveHeightFeet: 3.5 },
+    waterQuality: { ...inputs.waterQuality, enterococcusCount: 60 },
+    waterTemperature: { ...inputs.waterTemperature!, temperatureF: 53 },
+  };
+}
+
+describe('assessSensitivity', () => {
+  it('lifts a cap only when its rule stops firing', () => {
+    const result = assessSensitivity(strongCurrent(), {}, FIXTURE_TIME);
+    const current = result.inputs.find(input => input.variable === 'currentSpeed');
+
+    assert.ok(current);
+    assert.equal(current.capsLifted.length, 1);
+    assert.equal(current.capsLifted[0].capId, 'current.strong');
+    assert.ok(current.capsLifted[0].change < 0);
+    assert.ok(current.capsLifted[0].value <= SAFETY_THRESHOLDS.current.strong);
+  });
+
+  it('does not count worse conditions that push the score under a cap as lifting it', () => {
+    const result = assessSensitivity(strongCurrent(), {}, FIXTURE_TIME);
+
+    for (const input of result.inputs.filter(input => input.variable !== 'currentSpeed')) {
+      assert.deepEqual(input.capsLifted, [], `${input.variable} should not lift a cap`);
+    }
+  });
+
+  it('finds the nearest value that changes the rating either way', () => {
+    const result = assessSensitivity(strongCurrent(), {}, FIXTURE_TIME);
+    const current = result.inputs.find(input => input.variable === 'currentSpeed');
+
+    assert.ok(current?.improvement && current.improvement.change < 0);
+    assert.ok(current?.deterioration && current.deterioration.change > 0);
+    assert.equal(result.limiting, 'currentSpeed');
+  });
+});
@@ -0,0 +1,300 @@
+/**
+ * Score Sensitivity
+ * Works out how far each input must move on its own to change the rating or lift a cap,
+ * by re-running the swim score across perturbed inputs
+ */
+
+import type {
+  ScoreInputs,
+  SwimScore,
+  ScoreFactorKey,
+  Locale,
+  SensitivityVariable,
+  SensitivityPoint,
+  SensitivityChange,
+  CapRelease,
+  InputSensitivity,
+  ScoreSensitivity,
+} from '@/types/conditions';
+import { SCORE_RANGES } from '@/config/thresholds';
+import { DEFAULT_LOCALE, LOCALES } from '@/config/locales';
+import type { MessageKey } from '@/config/messages/en';
+import { calculateSwimScore, type SwimScoreOptions } from './swim-score';
+import { calculateDaylight } from './solar';
+import { translate, translateValue, formatNumber, formatQuantity, formatQuantityChange, type QuantityKind } from '@/lib/i18n';
+
+/**
+ * How one input is read, perturbed and described
+ */
+interface InputSpec {
+  factor: ScoreFactorKey;
+  unit: string;              // Unit of the raw input
+  kind?: QuantityKind;       // Converted to the locale's units when described
+  unitKey?: MessageKey;      // Unit label for inputs that are never converted (knots, bacteria counts)
+  better: -1 | 1;            // Direction the input improves conditions in
+  step: number;              // Spacing of the values tried
+  min: number;
+  max: number;
+  digits: number;            // Decimals shown in imperial units
+  metricDigits?: number;     // Decimals shown in metric units, when they differ
+  get: (inputs: ScoreInputs) => number | undefined;
+  set: (inputs: ScoreInputs, value: number) => ScoreInputs;
+}
+
+const INPUTS: Record<SensitivityVariable, InputSpec> = {
+  windSpeed: {
+    factor: 'weather',
+    unit: 'mph',
+    kind: 'windSpeed',
+    better: -1,
+    step: 1,
+    min: 0,
+    max: 40,
+    digits: 0,
+    get: inputs => inputs.weather.windSpeedMph,
+    // Gusts move with the mean wind
+    set: (inputs, value) => ({
+      ...inputs,
+      weather: {
+        ...inputs.weather,
+        windSpeedMph: value,
+        windGustMph: inputs.weather.windGustMph !== undefined
+          ? Math.max(value, inputs.weather.windGustMph + value - inputs.weather.windSpeedMph)
+          : undefined,
+      },
+    }),
+  },
+  currentSpeed: {
+    factor: 'tideAndCurrent',
+    unit: 'kt',
+    unitKey: 'unit.kt',
+    better: -1,
+    step: 0.1,
+    min: 0,
+    max: 4,
+    digits: 1,
+    get: inputs => inputs.current?.speedKnots,
+    set: (inputs, value) => ({
+      ...inputs,
+      current: inputs.current && { ...inputs.current, speedKnots: value },
+    }),
+  },
+  waveHeight: {
+    factor: 'waves',
+    unit: 'ft',
+    kind: 'height',
+    better: -1,
+    step: 0.1,
+    min: 0,
+    max: 10,
+    digits: 1,
+    metricDigits: 2,
+    get: inputs => inputs.waves.waveHeightFeet,
+    set: (inputs, value) => ({ ...inputs, waves: { ...inputs.waves, waveHeightFeet: value } }),
+  },
+  waterTemperature: {
+    factor: 'waterTemperature',
+    unit: '°F',
+    kind: 'temperature',
+    better: 1,
+    step: 0.5,
+    min: 40,
+    max: 80,
+    digits: 1,
+    get: inputs => inputs.waterTemperature?.temperatureF,
+    set: (inputs, value) => ({
+      ...inputs,
+      waterTemperature: inputs.waterTemperature && { ...inputs.waterTemperature, temperatureF: value },
+    }),
+  },
+  visibility: {
+    factor: 'visibility',
+    unit: 'mi',
+    kind: 'distance',
+    better: 1,
+    step: 0.1,
+    min: 0,
+    max: 10,
+    digits: 1,
+    get: inputs => inputs.weather.visibilityMiles,
+    set: (inputs, value) => ({ ...inputs, weather: { ...inputs.weather, visibilityMiles: value } }),
+  },
+  enterococcus: {
+    factor: 'waterQuality',
+    unit: 'MPN/100ml',
+    unitKey: 'unit.mpn',
+    better: -1,
+    step: 5,
+    min: 0,
+    max: 500,
+    digits: 0,
+    get: inputs => inputs.waterQuality.enterococcusCount,
+    set: (inputs, value) => ({ ...inputs, waterQuality: { ...inputs.waterQuality, enterococcusCount: value } }),
+  },
+};
+
+export const SENSITIVITY_VARIABLES = Object.keys(INPUTS) as SensitivityVariable[];
+
+/**
+ * Assess how sensitive the score is to each input, one input at a time
+ */
+export function assessSensitivity(
+  inputs: ScoreInputs,
+  options: SwimScoreOptions = {},
+  now: Date = new Date()
+): ScoreSensitivity {
+  const locale = options.locale ?? DEFAULT_LOCALE;
+  // Pin the moment and its daylight so every perturbed score is for the same time
+  const scoreOptions: SwimScoreOptions = { ...options, now, daylight: options.daylight ?? calculateDaylight(now) };
+  const score = (scoreInputs: ScoreInputs) => calculateSwimScore(
+    scoreInputs.tide,
+    scoreInputs.current,
+    scoreInputs.weather,
+    scoreInputs.waves,
+    scoreInputs.waterQuality,
+    scoreInputs.recentSSOs,
+    scoreInputs.damReleases,
+    scoreInputs.waterTemperature,
+    scoreInputs.precipitation,
+    scoreOptions
+  );
+
+  const baseline = score(inputs);
+  const results = SENSITIVITY_VARIABLES
+    .map(variable => assessInput(variable, inputs, baseline, score, locale))
+    .filter((result): result is InputSensitivity => result !== null);
+
+  // The input holding the score back most is the one whose best value gains the most points
+  const limiting = results.reduce<InputSensitivity | null>(
+    (most, result) =>
+      result.best.score > baseline.overallScore && (!most || result.best.score > most.best.score) ? result : most,
+    null
+  );
+
+  return {
+    timestamp: now,
+    score: baseline.overallScore,
+    rating: baseline.rating,
+    inputs: results,
+    limiting: limiting?.variable ?? null,
+  };
+}
+
+/**
+ * Walk one input outward from its current value in both directions, nearest values first
+ */
+function assessInput(
+  variable: SensitivityVariable,
+  inputs: ScoreInputs,
+  baseline: SwimScore,
+  score: (inputs: ScoreInputs) => SwimScore,
+  locale: Locale
+): InputSensitivity | null {
+  const spec = INPUTS[variable];
+  const value = spec.get(inputs);
+  if (value === undefined || !Number.isFinite(value)) return null;
+
+  const baselineRank = ratingRank(baseline.rating);
+  let improvement: SensitivityChange | null = null;
+  let deterioration: SensitivityChange | null = null;
+  let best: SensitivityPoint = { value, change: 0, score: baseline.overallScore, rating: baseline.rating };
+  const capsLifted = new Map<string, CapRelease>();
+
+  for (const direction of [-1, 1]) {
+    for (let step = 1; ; step++) {
+      const candidate = round(value + direction * step * spec.step);
+      if (direction < 0 ? candidate < spec.min : candidate > spec.max) break;
+
+      const result = score(spec.set(inputs, candidate));
+      const point: SensitivityPoint = {
+        value: candidate,
+        change: round(candidate - value),
+        score: result.overallScore,
+        rating: result.rating,
+      };
+
+      if (point.score > best.score || (point.score === best.score && Math.abs(point.change) < Math.abs(best.change))) {
+        best = point;
+      }
+
+      const rank = ratingRank(point.rating);
+      if (rank > baselineRank && isNearer(point, improvement)) {
+        improvement = { ...point, text: describeRatingChange(variable, spec, point, 'better', locale) };
+      }
+      if (rank < baselineRank && isNearer(point, deterioration)) {
+        deterioration = { ...point, text: describeRatingChange(variable, spec, point, 'worse', locale) };
+      }
+
+      // A cap is lifted once its rule stops firing as conditions improve - it also drops out of
+      // appliedCaps when worse conditions push the score under it, which lifts nothing
+      if (direction !== spec.better) continue;
+      for (const cap of baseline.breakdown.appliedCaps) {
+        const lifted = !result.firedRules.some(rule => rule.id === cap.id);
+        if (lifted && isNearer(point, capsLifted.get(cap.id) ?? null)) {
+          capsLifted.set(cap.id, {
+            ...point,
+            capId: cap.id,
+            text: translate(locale, point.change < 0 ? 'sensitivity.cap.decrease' : 'sensitivity.cap.increase', {
+              variable: translate(locale, `sensitivity.variable.${variable}`),
+              value: formatInput(spec, candidate, locale, false),
+              cap: cap.cap,
+            }),
+          });
+        }
+      }
+    }
+  }
+
+  return {
+    variable,
+    factor: spec.factor,
+    unit: spec.unit,
+    value,
+    improvement,
+    deterioration,
+    capsLifted: [...capsLifted.values()],
+    best,
+  };
+}
+
+// Higher is better
+function ratingRank(rating: SwimScore['rating']): number {
+  return SCORE_RANGES[rating].min;
+}
+
+function isNearer(point: SensitivityPoint, current: SensitivityPoint | null): boolean {
+  return !current || Math.abs(point.change) < Math.abs(current.change);
+}
+
+// Keep stepped values free of floating point noise
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
+
+function describeRatingChange(
+  variable: SensitivityVariable,
+  spec: InputSpec,
+  point: SensitivityPoint,
+  outcome: 'better' | 'worse',
+  locale: Locale
+): string {
+  const direction = point.change < 0 ? 'decrease' : 'increase';
+  return translate(locale, `sensitivity.${outcome}.${direction}`, {
+    variable: translate(locale, `sensitivity.variable.${variable}`),
+    amount: formatInput(spec, Math.abs(point.change), locale, true),
+    rating: translateValue(locale, point.rating),
+  });
+}
+
+/**
+ * Format an input value, or a change in it, in the locale's units
+ */
+function formatInput(spec: InputSpec, value: number, locale: Locale, isChange: boolean): string {
+  const digits = LOCALES[locale].units === 'metric' ? spec.metricDigits ?? spec.digits : spec.digits;
+  if (spec.kind) {
+    return isChange
+      ? formatQuantityChange(value, spec.kind, locale, digits)
+      : formatQuantity(value, spec.kind, locale, digits);
+  }
+  return `${formatNumber(value, locale, digits)} ${spec.unitKey ? translate(locale, spec.unitKey) : spec.unit}`;
+}
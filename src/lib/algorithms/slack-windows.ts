@@ -0,0 +1,59 @@
+/**
+ * Slack Current Windows
+ * Brackets each predicted slack current with the times the current is slow enough to swim.
+ * Slack current in the bay can come an hour or more after slack tide, so this works from
+ * current predictions rather than the tide curve.
+ */
+
+import type { CurrentEvent, SlackWindow } from '@/types/conditions';
+
+const MS_PER_MINUTE = 60 * 1000;
+
+/**
+ * Slack windows from a series of slack and maximum flood/ebb predictions
+ * Between a slack and the neighbouring maximum the speed follows NOAA's sine rule
+ * (a quarter sine wave), which gives when it passes the speed limit. Slacks without a
+ * maximum either side, or that never get below the limit, have no window.
+ */
+export function findSlackWindows(events: CurrentEvent[], maxSpeedKnots: number): SlackWindow[] {
+  const sorted = [...events].sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+  const windows: SlackWindow[] = [];
+
+  for (let i = 1; i < sorted.length - 1; i++) {
+    const slack = sorted[i];
+    const before = sorted[i - 1];
+    const after = sorted[i + 1];
+    if (slack.type !== 'slack' || slack.speedKnots >= maxSpeedKnots) continue;
+    if (before.type === 'slack' || after.type === 'slack') continue;
+
+    const slackTime = slack.timestamp.getTime();
+    const start = slackTime - fractionBelow(slack.speedKnots, before.speedKnots, maxSpeedKnots) * (slackTime - before.timestamp.getTime());
+    const end = slackTime + fractionBelow(slack.speedKnots, after.speedKnots, maxSpeedKnots) * (after.timestamp.getTime() - slackTime);
+
+    windows.push({
+      slackAt: slack.timestamp,
+      start: new Date(Math.round(start / MS_PER_MINUTE) * MS_PER_MINUTE),
+      end: new Date(Math.round(end / MS_PER_MINUTE) * MS_PER_MINUTE),
+      durationMinutes: Math.round((end - start) / MS_PER_MINUTE),
+      from: before.type,
+      to: after.type,
+      peakBefore: before,
+      peakAfter: after,
+    });
+  }
+
+  return windows;
+}
+
+/**
+ * The window in progress at a moment, or the next one
+ */
+export function nextSlackWindow(windows: SlackWindow[], time: Date): SlackWindow | null {
+  return windows.find(window => window.end > time) ?? null;
+}
+
+// Fraction of the time between slack and a maximum that the current stays under the limit
+function fractionBelow(slackSpeed: number, peakSpeed: number, limit: number): number {
+  if (peakSpeed <= limit) return 1;
+  return (2 / Math.PI) * Math.asin((limit - slackSpeed) / (peakSpeed - slackSpeed));
+}
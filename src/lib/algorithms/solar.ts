@@ -0,0 +1,226 @@
+/**
+ * Solar Position
+ * Sunrise, sunset and civil twilight for Aquatic Park, computed offline from the NOAA /
+ * Meeus low-precision solar equations (accurate to about a minute at this latitude)
+ */
+
+import type { DaylightInfo, DaylightPeriod, OptimalSwimWindow } from '@/types/conditions';
+import { AQUATIC_PARK_LAT, AQUATIC_PARK_LON } from '@/config/aquatic-park';
+
+// Sun elevation (degrees) at sunrise/sunset - accounts for refraction and the solar disc
+const SUNRISE_ELEVATION = -0.833;
+
+// Sun elevation (degrees) at civil dawn/dusk - enough light to see a swimmer without lights
+export const CIVIL_TWILIGHT_ELEVATION = -6;
+
+// Axial tilt of the earth (degrees)
+const OBLIQUITY = 23.4397;
+
+const J2000 = 2451545;
+const MS_PER_DAY = 1000 * 60 * 60 * 24;
+
+export interface SunTimes {
+  solarNoon: Date;
+  sunrise: Date | null;   // null when the sun doesn't rise or set on this day
+  sunset: Date | null;
+  civilDawn: Date | null;
+  civilDusk: Date | null;
+}
+
+/**
+ * Sun times for the solar day whose noon is nearest to the given time
+ */
+export function calculateSunTimes(
+  date: Date,
+  lat: number = AQUATIC_PARK_LAT,
+  lon: number = AQUATIC_PARK_LON
+): SunTimes {
+  // Day count of the nearest solar noon at this longitude
+  const n = Math.round(toJulian(date) - J2000 - 0.0009 + lon / 360);
+  const { transit, declination } = solarTransit(n + 0.0009 - lon / 360);
+
+  const eventsAt = (elevation: number): [Date | null, Date | null] => {
+    const hourAngle = sunriseHourAngle(elevation, lat, declination);
+    if (hourAngle === null) return [null, null];
+    return [fromJulian(transit - hourAngle / 360), fromJulian(transit + hourAngle / 360)];
+  };
+
+  const [sunrise, sunset] = eventsAt(SUNRISE_ELEVATION);
+  const [civilDawn, civilDusk] = eventsAt(CIVIL_TWILIGHT_ELEVATION);
+
+  return { solarNoon: fromJulian(transit), sunrise, sunset, civilDawn, civilDusk };
+}
+
+/**
+ * Sun elevation above the horizon in degrees (negative below it)
+ */
+export function calculateSunElevation(
+  date: Date,
+  lat: number = AQUATIC_PARK_LAT,
+  lon: number = AQUATIC_PARK_LON
+): number {
+  const julian = toJulian(date);
+  const n = Math.round(julian - J2000 - 0.0009 + lon / 360);
+  const { transit, declination } = solarTransit(n + 0.0009 - lon / 360);
+
+  // Hour angle: how far the sun has turned past its local noon
+  const hourAngle = (julian - transit) * 360;
+  const sinElevation =
+    Math.sin(rad(lat)) * Math.sin(rad(declination)) +
+    Math.cos(rad(lat)) * Math.cos(rad(declination)) * Math.cos(rad(hourAngle));
+
+  return Math.round(deg(Math.asin(sinElevation)) * 10) / 10;
+}
+
+/**
+ * Daylight information for the park at a point in time
+ */
+export function calculateDaylight(
+  date: Date = new Date(),
+  lat: number = AQUATIC_PARK_LAT,
+  lon: number = AQUATIC_PARK_LON
+): DaylightInfo {
+  const sunElevation = calculateSunElevation(date, lat, lon);
+  const { solarNoon, sunrise, sunset, civilDawn, civilDusk } = calculateSunTimes(date, lat, lon);
+
+  return {
+    timestamp: date,
+    period: getDaylightPeriod(sunElevation),
+    sunElevation,
+    civilDawn,
+    sunrise,
+    solarNoon,
+    sunset,
+    civilDusk,
+  };
+}
+
+/**
+ * Whether there is enough light to swim at a point in time
+ * @param includeTwilight Count civil twilight as light (default: sunrise to sunset only)
+ */
+export function isDaylight(
+  date: Date,
+  includeTwilight: boolean = false,
+  lat: number = AQUATIC_PARK_LAT,
+  lon: number = AQUATIC_PARK_LON
+): boolean {
+  const period = getDaylightPeriod(calculateSunElevation(date, lat, lon));
+  return period === 'day' || (includeTwilight && period === 'civil-twilight');
+}
+
+/**
+ * Trim forecast windows to daylight, splitting any that span a night
+ * Windows left with no daylight are dropped; scores are kept from the original window
+ * @param includeTwilight Keep civil twilight (dawn swims) as well as sunrise to sunset
+ */
+export function excludeDarkHours(
+  windows: OptimalSwimWindow[],
+  includeTwilight: boolean = false,
+  lat: number = AQUATIC_PARK_LAT,
+  lon: number = AQUATIC_PARK_LON
+): OptimalSwimWindow[] {
+  const result: OptimalSwimWindow[] = [];
+
+  for (const window of windows) {
+    const start = new Date(window.startTime).getTime();
+    const end = new Date(window.endTime).getTime();
+
+    // Walk the solar days the window touches
+    for (let day = start - MS_PER_DAY / 2; day <= end + MS_PER_DAY / 2; day += MS_PER_DAY) {
+      const light = lightInterval(calculateSunTimes(new Date(day), lat, lon), includeTwilight, lat, lon);
+      if (!light) continue;
+
+      const clippedStart = Math.max(start, light.start);
+      const clippedEnd = Math.min(end, light.end);
+      if (clippedEnd <= clippedStart) continue;
+
+      // Skip a segment already produced from a neighbouring day
+      const previous = result[result.length - 1];
+      if (previous && previous.endTime.getTime() >= clippedEnd && previous.startTime.getTime() <= clippedStart) {
+        continue;
+      }
+
+      result.push({ ...window, startTime: new Date(clippedStart), endTime: new Date(clippedEnd) });
+    }
+  }
+
+  return result;
+}
+
+function getDaylightPeriod(sunElevation: number): DaylightPeriod {
+  if (sunElevation >= SUNRISE_ELEVATION) return 'day';
+  if (sunElevation >= CIVIL_TWILIGHT_ELEVATION) return 'civil-twilight';
+  return 'night';
+}
+
+/**
+ * Start and end of light for one solar day (null if the sun never gets high enough)
+ */
+function lightInterval(
+  times: SunTimes,
+  includeTwilight: boolean,
+  lat: number,
+  lon: number
+): { start: number; end: number } | null {
+  const rise = includeTwilight ? times.civilDawn : times.sunrise;
+  const set = includeTwilight ? times.civilDusk : times.sunset;
+  if (rise && set) return { start: rise.getTime(), end: set.getTime() };
+
+  // No rise or set - either light all day or dark all day
+  const noon = times.solarNoon.getTime();
+  return isDaylight(times.solarNoon, includeTwilight, lat, lon)
+    ? { start: noon - MS_PER_DAY / 2, end: noon + MS_PER_DAY / 2 }
+    : null;
+}
+
+/**
+ * Julian date of solar noon and the sun's declination for a mean solar day
+ */
+function solarTransit(meanSolarDay: number): { transit: number; declination: number } {
+  const anomaly = normalize(357.5291 + 0.98560028 * meanSolarDay);
+  const center =
+    1.9148 * Math.sin(rad(anomaly)) +
+    0.02 * Math.sin(rad(2 * anomaly)) +
+    0.0003 * Math.sin(rad(3 * anomaly));
+  const eclipticLongitude = normalize(anomaly + center + 180 + 102.9372);
+
+  const transit =
+    J2000 + meanSolarDay + 0.0053 * Math.sin(rad(anomaly)) - 0.0069 * Math.sin(rad(2 * eclipticLongitude));
+  const declination = deg(Math.asin(Math.sin(rad(eclipticLongitude)) * Math.sin(rad(OBLIQUITY))));
+
+  return { transit, declination };
+}
+
+/**
+ * Hour angle (degrees) at which the sun crosses an elevation, or null if it never does
+ */
+function sunriseHourAngle(elevation: number, lat: number, declination: number): number | null {
+  const cosHourAngle =
+    (Math.sin(rad(elevation)) - Math.sin(rad(lat)) * Math.sin(rad(declination))) /
+    (Math.cos(rad(lat)) * Math.cos(rad(declination)));
+  if (cosHourAngle < -1 || cosHourAngle > 1) return null;
+  return deg(Math.acos(cosHourAngle));
+}
+
+// Utility functions
+
+function toJulian(date: Date): number {
+  return date.getTime() / MS_PER_DAY + 2440587.5;
+}
+
+function fromJulian(julian: number): Date {
+  return new Date(Math.round((julian - 2440587.5) * MS_PER_DAY));
+}
+
+function normalize(degrees: number): number {
+  return ((degrees % 360) + 360) % 360;
+}
+
+function rad(degrees: number): number {
+  return (degrees * Math.PI) / 180;
+}
+
+function deg(radians: number): number {
+  return (radians * 180) / Math.PI;
+}
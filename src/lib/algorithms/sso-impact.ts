@@ -0,0 +1,75 @@
+/**
+ * Sewer Overflow Impact
+ * Scales each sanitary sewer overflow (SSO) by distance from the park, spill volume and age,
+ * so one small spill across town doesn't count the same as a large spill next to the cove
+ */
+
+import type { SSOEvent } from '@/types/conditions';
+import type { SafetyThresholds } from '@/config/thresholds';
+
+// Assumed factor when the dataset has no location or volume for a spill
+const UNKNOWN_DISTANCE_FACTOR = 0.5;
+const UNKNOWN_VOLUME_FACTOR = 0.5;
+
+export interface SSOImpact {
+  event: SSOEvent;
+  impact: number;        // 0-1
+  daysSince: number;
+  active: boolean;
+  major: boolean;
+}
+
+/**
+ * Assess the most significant SSO, or null if none has any impact
+ */
+export function assessSSOImpact(
+  recentSSOs: SSOEvent[],
+  thresholds: SafetyThresholds,
+  now: Date = new Date()
+): SSOImpact | null {
+  let worst: SSOImpact | null = null;
+
+  for (const event of recentSSOs ?? []) {
+    if (!event?.reportedAt) continue;
+    const assessed = assessEvent(event, thresholds, now);
+    if (assessed.impact > 0 && (!worst || assessed.impact > worst.impact)) {
+      worst = assessed;
+    }
+  }
+
+  return worst;
+}
+
+function assessEvent(event: SSOEvent, thresholds: SafetyThresholds, now: Date): SSOImpact {
+  const sso = thresholds.sso;
+  const daysSince = Math.max(0, (now.getTime() - event.reportedAt.getTime()) / (1000 * 60 * 60 * 24));
+  const active = !event.resolved;
+  const major = (event.volumeGallons ?? 0) >= sso.majorVolumeGallons;
+
+  // Full impact within proximityMiles, fading to none at maxImpactMiles
+  const distance = event.distanceFromParkMiles;
+  let distanceFactor = UNKNOWN_DISTANCE_FACTOR;
+  if (distance !== undefined && !isNaN(distance)) {
+    distanceFactor = distance <= sso.proximityMiles
+      ? 1
+      : Math.max(0, 1 - (distance - sso.proximityMiles) / (sso.maxImpactMiles - sso.proximityMiles));
+  }
+
+  // Bacteria load grows with volume, but dilution means impact grows slower than volume
+  const volume = event.volumeGallons;
+  const volumeFactor = volume !== undefined && !isNaN(volume)
+    ? Math.min(1, Math.sqrt(Math.max(0, volume) / sso.fullImpactGallons))
+    : UNKNOWN_VOLUME_FACTOR;
+
+  // Active spills count fully; resolved ones fade over cautionDays (warningDays for major spills)
+  const windowDays = major ? sso.warningDays : sso.cautionDays;
+  const ageFactor = active ? 1 : Math.max(0, 1 - daysSince / windowDays);
+
+  return {
+    event,
+    impact: Math.round(distanceFactor * volumeFactor * ageFactor * 100) / 100,
+    daysSince,
+    active,
+    major,
+  };
+}
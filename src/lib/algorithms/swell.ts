@@ -0,0 +1,66 @@
+/**
+ * Swell Assessment
+ * Adjusts buoy wave height for swell period and for how much of the swell can reach Aquatic Park
+ */
+
+import type { WaveData, SwimScoreFactors } from '@/types/conditions';
+import type { SafetyThresholds } from '@/config/thresholds';
+import { AQUATIC_PARK } from '@/config/aquatic-park';
+
+type WaveFactor = SwimScoreFactors['waves'];
+
+export type SwellAssessment = Pick<
+  WaveFactor,
+  'effectiveHeightFeet' | 'periodSeconds' | 'direction' | 'swellType' | 'exposure' | 'exposureSector'
+>;
+
+/**
+ * Classify the swell and compute its effective height at the cove
+ * Missing period or direction is treated conservatively (no reduction)
+ */
+export function assessSwell(waves: WaveData | null, thresholds: SafetyThresholds): SwellAssessment {
+  const height = waves?.waveHeightFeet ?? 0;
+  const period = waves?.swellPeriodSeconds ?? waves?.dominantPeriod;
+  const direction = waves?.swellDirection;
+  const swell = thresholds.swell;
+
+  let swellType: WaveFactor['swellType'] = 'unknown';
+  let periodFactor = 1;
+  if (period !== undefined && !isNaN(period)) {
+    if (period < swell.windChop) {
+      swellType = 'wind-chop';
+      periodFactor = swell.windChopFactor;
+    } else if (period < swell.groundswell) {
+      swellType = 'mixed';
+    } else if (period < swell.longPeriod) {
+      swellType = 'groundswell';
+      periodFactor = swell.groundswellFactor;
+    } else {
+      swellType = 'long-period';
+      periodFactor = swell.longPeriodFactor;
+    }
+  }
+
+  let exposure = 1;
+  let exposureSector: WaveFactor['exposureSector'] = 'unknown';
+  if (direction !== undefined && !isNaN(direction)) {
+    const sector = findExposureSector(direction);
+    exposure = sector.exposure;
+    exposureSector = sector.id;
+  }
+
+  return {
+    effectiveHeightFeet: Math.round(height * periodFactor * exposure * 10) / 10,
+    periodSeconds: period,
+    direction,
+    swellType,
+    exposure,
+    exposureSector,
+  };
+}
+
+function findExposureSector(direction: number): { id: WaveFactor['exposureSector']; exposure: number } {
+  const bearing = ((direction % 360) + 360) % 360;
+  const { sectors, blocked } = AQUATIC_PARK.swellExposure;
+  return sectors.find(sector => bearing >= sector.from && bearing < sector.to) ?? blocked;
+}
@@ -0,0 +1,435 @@
+/**
+ * Swim Score Algorithm v1
+ * The original step-threshold swim score, kept so scores stamped v1 can be reproduced and
+ * compared with later versions. Scores the five original factors with the frozen v1
+ * configuration (src/config/scoring-v1.ts) - don't change what it calculates.
+ */
+
+import type {
+  TidePrediction,
+  CurrentData,
+  WeatherData,
+  WaveData,
+  WaterQuality,
+  SSOEvent,
+  DamReleaseData,
+  WaterTemperature,
+  PrecipitationData,
+  SwimScore,
+  SwimScoreFactors,
+  TidePhasePreferences,
+  ScoreContribution,
+  DaylightInfo,
+  Locale,
+} from '@/types/conditions';
+import { SCORE_RANGES } from '@/config/thresholds';
+import { DEFAULT_SWIMMER_PROFILE } from '@/config/profiles';
+import { DEFAULT_LOCALE } from '@/config/locales';
+import { V1_SCORING_BASELINE, type V1ScoringBaseline } from '@/config/scoring-v1';
+import { SCORE_FACTOR_KEYS } from './score-weights';
+import { assessConfidence } from './confidence';
+import { calculateDaylight } from './solar';
+import { evaluateRules, buildRuleFacts } from './rules';
+import type { SwimScoreOptions } from './swim-score';
+import { translate, translateValue, formatNumber, formatQuantity } from '@/lib/i18n';
+
+type V1Thresholds = V1ScoringBaseline['thresholds'];
+
+const MS_PER_DAY = 1000 * 60 * 60 * 24;
+
+/**
+ * Calculate the swim score as v1 did
+ * Takes the same arguments as calculateSwimScore so versions are interchangeable. Of the options,
+ * v1 only uses tidePreferences, locale, daylight and now - it had no swimmer profiles, custom
+ * weights or curves, and didn't score water temperature, visibility or rainfall.
+ */
+export function calculateSwimScoreV1(
+  tide: TidePrediction,
+  current: CurrentData | null,
+  weather: WeatherData,
+  waves: WaveData,
+  waterQuality: WaterQuality,
+  recentSSOs: SSOEvent[],
+  damReleases: DamReleaseData | null,
+  waterTemperature: WaterTemperature | null,
+  precipitation: PrecipitationData | null,
+  options: SwimScoreOptions = {},
+  baseline: V1ScoringBaseline = V1_SCORING_BASELINE
+): SwimScore {
+  const { thresholds, weights, caps, rules: scoreRules } = baseline;
+  const timestamp = options.now ?? new Date();
+  const daylight = options.daylight ?? calculateDaylight(timestamp);
+  const locale = options.locale ?? DEFAULT_LOCALE;
+
+  const factors: SwimScoreFactors = {
+    waterQuality: scoreWaterQuality(waterQuality, recentSSOs, thresholds, locale, timestamp),
+    tideAndCurrent: scoreTideAndCurrent(tide, current, thresholds, locale, options.tidePreferences),
+    waves: scoreWaves(waves, thresholds, locale),
+    weather: scoreWeather(weather, thresholds, locale),
+    damReleases: scoreDamReleases(damReleases, thresholds, locale),
+    ...unscoredFactors(daylight),
+  };
+
+  const contributions: ScoreContribution[] = SCORE_FACTOR_KEYS.map(factor => ({
+    factor,
+    rawScore: factors[factor].score,
+    weight: weights[factor],
+    contribution: Math.round(factors[factor].score * weights[factor]) / 100,
+  }));
+  const weightedScore = Math.round(
+    SCORE_FACTOR_KEYS.reduce((sum, factor) => sum + factors[factor].score * weights[factor], 0) / 100
+  );
+
+  // v1 had no interactions - caps apply straight to the weighted score
+  const rules = evaluateRules(
+    scoreRules,
+    buildRuleFacts(
+      factors,
+      [],
+      daylight,
+      waterQuality,
+      { tide: tide.source, current: current?.source, weather: weather.source, waves: waves.source, waterQuality: waterQuality.source },
+      weightedScore
+    ),
+    thresholds,
+    caps,
+    locale
+  );
+  const overallScore = rules.finalScore;
+
+  const confidence = assessConfidence(
+    { tide, current, weather, waves, waterQuality, damReleases, waterTemperature, precipitation },
+    { ...weights },
+    overallScore,
+    timestamp,
+    locale
+  );
+
+  return {
+    timestamp,
+    overallScore,
+    rating: getScoreRating(overallScore),
+    profile: DEFAULT_SWIMMER_PROFILE,
+    weights: { ...weights },
+    scoringMode: 'legacy',
+    algorithmVersion: 'v1',
+    factors,
+    breakdown: {
+      contributions,
+      weightedScore,
+      interactions: [],
+      adjustedScore: weightedScore,
+      appliedCaps: rules.appliedCaps,
+      finalScore: overallScore,
+    },
+    firedRules: rules.firedRules,
+    confidence,
+    advisories: rules.advisories,
+    recommendations: rules.recommendations,
+    warnings: rules.warnings,
+  };
+}
+
+/**
+ * Score water quality from the latest sample and any sewer overflow in the last few days
+ */
+function scoreWaterQuality(
+  waterQuality: WaterQuality,
+  recentSSOs: SSOEvent[],
+  thresholds: V1Thresholds,
+  locale: Locale,
+  now: Date
+): SwimScoreFactors['waterQuality'] {
+  let score = 100;
+  const issues: string[] = [];
+  let bacteriaLevel = 'unknown';
+  let status: 'safe' | 'advisory' | 'warning' | 'dangerous' = 'safe';
+
+  if (!waterQuality) {
+    score = 50;
+    status = 'advisory';
+    issues.push(translate(locale, 'issue.waterQuality.noData'));
+  } else if (waterQuality.enterococcusCount !== undefined) {
+    const count = waterQuality.enterococcusCount;
+    const enterococcus = thresholds.waterQuality.enterococcus;
+
+    if (count > enterococcus.dangerous) {
+      score = 0;
+      bacteriaLevel = 'dangerous';
+      status = 'dangerous';
+      issues.push(translate(locale, 'issue.waterQuality.dangerous', { count }));
+    } else if (count > enterococcus.advisory) {
+      score = 30;
+      bacteriaLevel = 'high';
+      status = 'warning';
+      issues.push(translate(locale, 'issue.waterQuality.high', { count }));
+    } else if (count > enterococcus.safe) {
+      score = 70;
+      bacteriaLevel = 'moderate';
+      status = 'advisory';
+      issues.push(translate(locale, 'issue.waterQuality.elevated', { count }));
+    } else {
+      bacteriaLevel = 'safe';
+    }
+  }
+
+  // Any unresolved overflow counts, however far away; resolved ones for a few days after the report
+  const activeSSOs = (recentSSOs ?? []).filter(sso => !sso?.resolved);
+  const recentSSO = (recentSSOs ?? []).find(sso => {
+    if (!sso?.reportedAt) return false;
+    return daysSince(sso.reportedAt, now) < thresholds.sso.cautionDays;
+  });
+  const daysSinceSSO = recentSSO ? Math.floor(daysSince(recentSSO.reportedAt, now)) : undefined;
+
+  if (activeSSOs.length > 0) {
+    score = Math.min(score, 20);
+    status = 'dangerous';
+    issues.push(translate(locale, 'issue.sso.active'));
+  } else if (recentSSO) {
+    score = Math.min(score, 60);
+    if (status === 'safe') status = 'advisory';
+    issues.push(translate(locale, 'issue.sso.recent', { days: daysSinceSSO ?? 0 }));
+  }
+
+  return {
+    score,
+    status,
+    bacteriaLevel,
+    recentSSO: recentSSO !== undefined,
+    daysSinceSSO,
+    ssoImpact: 0, // v1 didn't scale overflows by distance, volume or age
+    runoffAdvisory: false,
+    issues,
+  };
+}
+
+/**
+ * Score tide phase and change rate, limited by the current speed
+ */
+function scoreTideAndCurrent(
+  tide: TidePrediction,
+  current: CurrentData | null,
+  thresholds: V1Thresholds,
+  locale: Locale,
+  customTidePreferences?: TidePhasePreferences
+): SwimScoreFactors['tideAndCurrent'] {
+  let score = 100;
+  const issues: string[] = [];
+  const phase = tide?.currentPhase ?? 'slack';
+  const currentSpeed = current?.speedKnots ?? 0;
+  const tideHeight = tide?.heightFeet ?? 0;
+  const changeRate = tide?.changeRateFeetPerHour ?? 0;
+
+  if (!tide || tide.heightFeet == null) {
+    score = 50;
+    issues.push(translate(locale, 'issue.tide.noData'));
+  } else {
+    const preferences = customTidePreferences || thresholds.tide.phasePreference;
+    const basePhaseScore = preferences[phase];
+
+    if (Math.abs(changeRate) < thresholds.tide.lowCurrent) {
+      score = basePhaseScore;
+    } else if (Math.abs(changeRate) < thresholds.tide.moderateCurrent) {
+      score = Math.min(basePhaseScore * 0.7, 70);
+      issues.push(translate(locale, 'issue.tide.moderate', { phase: translateValue(locale, phase) }));
+    } else {
+      score = Math.min(basePhaseScore * 0.4, 40);
+      issues.push(translate(locale, 'issue.tide.strong', { phase: translateValue(locale, phase) }));
+    }
+
+    if (currentSpeed > thresholds.current.veryStrong) {
+      score = Math.min(score, 20);
+      issues.push(translate(locale, 'issue.current.veryStrong', { speed: formatNumber(currentSpeed, locale, 1) }));
+    } else if (currentSpeed > thresholds.current.strong) {
+      score = Math.min(score, 40);
+      issues.push(translate(locale, 'issue.current.strong', { speed: formatNumber(currentSpeed, locale, 1) }));
+    } else if (currentSpeed > thresholds.current.moderate) {
+      score = Math.min(score, 65);
+      issues.push(translate(locale, 'issue.current.moderate', { speed: formatNumber(currentSpeed, locale, 1) }));
+    }
+  }
+
+  return {
+    score,
+    phase,
+    currentSpeed,
+    tideHeight,
+    favorable: phase === 'slack' || currentSpeed < thresholds.current.slow,
+    issues,
+  };
+}
+
+/**
+ * Score the reported wave height (v1 didn't adjust for swell period or direction)
+ */
+function scoreWaves(waves: WaveData, thresholds: V1Thresholds, locale: Locale): SwimScoreFactors['waves'] {
+  let score = 100;
+  const issues: string[] = [];
+  let status: 'calm' | 'moderate' | 'rough' | 'dangerous' = 'calm';
+  const height = waves?.waveHeightFeet ?? 0;
+  const heightLabel = formatQuantity(height, 'height', locale);
+
+  if (height === 0 && !waves?.waveHeightFeet) {
+    score = 50;
+    status = 'moderate';
+    issues.push(translate(locale, 'issue.waves.noData'));
+  } else if (height < thresholds.waves.calm) {
+    score = 100;
+  } else if (height < thresholds.waves.safe) {
+    score = 85;
+  } else if (height < thresholds.waves.moderate) {
+    score = 60;
+    status = 'moderate';
+    issues.push(translate(locale, 'issue.waves.moderate', { height: heightLabel }));
+  } else if (height < thresholds.waves.rough) {
+    score = 30;
+    status = 'rough';
+    issues.push(translate(locale, 'issue.waves.rough', { height: heightLabel }));
+  } else {
+    score = 10;
+    status = 'dangerous';
+    issues.push(translate(locale, 'issue.waves.dangerous', { height: heightLabel }));
+  }
+
+  return {
+    score,
+    heightFeet: height,
+    effectiveHeightFeet: height,
+    periodSeconds: waves?.swellPeriodSeconds,
+    direction: waves?.swellDirection,
+    swellType: 'unknown',
+    exposure: 1,
+    exposureSector: 'unknown',
+    status,
+    issues,
+  };
+}
+
+/**
+ * Score wind speed, limited when it's raining
+ */
+function scoreWeather(weather: WeatherData, thresholds: V1Thresholds, locale: Locale): SwimScoreFactors['weather'] {
+  let score = 100;
+  const issues: string[] = [];
+  let windCondition: 'calm' | 'light' | 'moderate' | 'strong' = 'calm';
+  const windSpeed = weather?.windSpeedMph ?? 0;
+  const speed = formatQuantity(windSpeed, 'windSpeed', locale, 0);
+
+  if (windSpeed === 0 && !weather?.windSpeedMph) {
+    score = 50;
+    windCondition = 'moderate';
+    issues.push(translate(locale, 'issue.wind.noData'));
+  } else if (windSpeed < thresholds.wind.calm) {
+    windCondition = 'calm';
+  } else if (windSpeed < thresholds.wind.light) {
+    score = 95;
+    windCondition = 'light';
+  } else if (windSpeed < thresholds.wind.moderate) {
+    score = 80;
+    windCondition = 'moderate';
+  } else if (windSpeed < thresholds.wind.strong) {
+    score = 60;
+    windCondition = 'moderate';
+    issues.push(translate(locale, 'issue.wind.moderate', { speed }));
+  } else if (windSpeed < thresholds.wind.veryStrong) {
+    score = 35;
+    windCondition = 'strong';
+    issues.push(translate(locale, 'issue.wind.strong', { speed }));
+  } else {
+    score = 15;
+    windCondition = 'strong';
+    issues.push(translate(locale, 'issue.wind.veryStrong', { speed }));
+  }
+
+  if (weather?.conditions?.includes('rain') || weather?.conditions?.includes('storm')) {
+    score = Math.min(score, 40);
+    issues.push(translate(locale, 'issue.weather.precipitation'));
+  }
+
+  return {
+    score,
+    temperature: weather?.temperatureF ?? 0,
+    windSpeed,
+    windCondition,
+    issues,
+  };
+}
+
+/**
+ * Score dam releases from the time-lagged 48-hour flow
+ */
+function scoreDamReleases(
+  damReleases: DamReleaseData | null,
+  thresholds: V1Thresholds,
+  locale: Locale
+): SwimScoreFactors['damReleases'] {
+  const issues: string[] = [];
+
+  if (!damReleases) {
+    issues.push(translate(locale, 'issue.dams.noData'));
+    return { score: 75, totalFlowCFS: 0, releaseLevel: 'low', topContributor: 'Unknown', issues };
+  }
+
+  const { current, historical48h, dams } = damReleases;
+  const damThresholds = thresholds.damReleases;
+  const weightedAvgFlow = historical48h.last24hAverage * 0.6 + historical48h.last48hAverage * 0.4;
+  const scoringFlow = Math.max(weightedAvgFlow, historical48h.peakFlowCFS * 0.8);
+  const averageFlow = formatQuantity(Math.round(historical48h.averageFlowCFS), 'flow', locale, 0);
+  let score = 100;
+
+  if (scoringFlow > damThresholds.extreme) {
+    score = 10;
+    issues.push(translate(locale, 'issue.dams.extreme', { flow: formatQuantity(Math.round(historical48h.peakFlowCFS), 'flow', locale, 0) }));
+    issues.push(translate(locale, 'issue.dams.extremeCurrents'));
+  } else if (scoringFlow > damThresholds.high) {
+    score = 30;
+    issues.push(translate(locale, 'issue.dams.high', { flow: averageFlow }));
+    issues.push(translate(locale, 'issue.dams.highCurrents'));
+  } else if (scoringFlow > damThresholds.moderate) {
+    score = 65;
+    issues.push(translate(locale, 'issue.dams.elevated', { flow: averageFlow }));
+    issues.push(translate(locale, 'issue.dams.elevatedCurrents'));
+  } else if (scoringFlow > damThresholds.low) {
+    score = 75;
+    issues.push(translate(locale, 'issue.dams.moderate', { flow: averageFlow }));
+  }
+
+  if (historical48h.trendDirection === 'increasing' && scoringFlow > damThresholds.low) {
+    issues.push(translate(locale, 'issue.dams.rising'));
+  }
+
+  const topDam = dams.reduce((max, dam) =>
+    dam.current.flowCFS > max.current.flowCFS ? dam : max
+  , dams[0] || { name: 'Unknown', current: { flowCFS: 0 } });
+
+  return {
+    score,
+    totalFlowCFS: current.totalFlowCFS,
+    releaseLevel: current.releaseLevel,
+    topContributor: topDam.name,
+    issues,
+  };
+}
+
+/**
+ * Factors added after v1, reported unscored so v1 scores have the same shape as later ones
+ * (they carry no weight, so they don't change the overall score)
+ */
+function unscoredFactors(daylight: DaylightInfo): Pick<SwimScoreFactors, 'waterTemperature' | 'visibility'> {
+  return {
+    waterTemperature: { score: 0, condition: 'unknown', wetsuitRecommended: false, issues: [] },
+    visibility: { score: 0, condition: 'unknown', daylight: daylight.period, issues: [] },
+  };
+}
+
+function getScoreRating(score: number): SwimScore['rating'] {
+  if (score >= SCORE_RANGES.excellent.min) return 'excellent';
+  if (score >= SCORE_RANGES.good.min) return 'good';
+  if (score >= SCORE_RANGES.fair.min) return 'fair';
+  if (score >= SCORE_RANGES.poor.min) return 'poor';
+  return 'dangerous';
+}
+
+function daysSince(date: Date | string, now: Date): number {
+  return (now.getTime() - new Date(date).getTime()) / MS_PER_DAY;
+}
@@ -11,11 +11,57 @@ import type {
   WaterQuality,
   SSOEvent,
   DamReleaseData,
+  WaterTemperature,
+  PrecipitationData,
   SwimScore,
   SwimScoreFactors,
   TidePhasePreferences,
+  SwimmerProfileId,
+  FactorWeights,
+  ScoreContribution,
+  ScoreBreakdown,
+  ScoreInteraction,
+  ScoringMode,
+  AlgorithmVersion,
+  DaylightInfo,
+  Locale,
 } from '@/types/conditions';
-import { SAFETY_THRESHOLDS, SCORE_WEIGHTS, SCORE_RANGES } from '@/config/thresholds';
+import {
+  SCORE_RANGES,
+  DEFAULT_SCORING_MODE,
+  type SafetyThresholds,
+  type ScoringCurves,
+} from '@/config/thresholds';
+import { resolveScoringConfig, type ScoringBaseline } from '@/config/profiles';
+import { DEFAULT_LOCALE } from '@/config/locales';
+import { normalizeWeights, SCORE_FACTOR_KEYS } from './score-weights';
+import { assessConfidence } from './confidence';
+import { evaluateCurve } from './curves';
+import { assessWindAgainstCurrent } from './interactions';
+import { assessSwell } from './swell';
+import { assessSSOImpact } from './sso-impact';
+import { calculateDaylight } from './solar';
+import { evaluateRules, buildRuleFacts } from './rules';
+import { translate, translateValue, formatNumber, formatQuantity, formatQuantityChange } from '@/lib/i18n';
+
+// Algorithm version this calculation is registered as (v1 is the frozen original in swim-score-v1.ts).
+// A change that alters what scores mean should be registered as a new version in versions.ts
+// rather than changing this in place. scoringMode records whether the curves or the steps were used.
+export const SWIM_SCORE_VERSION: AlgorithmVersion = 'v2';
+
+/**
+ * Optional adjustments to how the score is calculated
+ */
+export interface SwimScoreOptions {
+  tidePreferences?: TidePhasePreferences; // Overrides the profile's tide phase preferences
+  profile?: SwimmerProfileId;             // Defaults to the standard profile
+  weights?: Partial<FactorWeights>;       // Custom factor weights, merged onto the profile's and normalised to 100
+  scoringMode?: ScoringMode;              // 'continuous' curves (default) or 'legacy' step thresholds
+  daylight?: DaylightInfo;                // Sun position at the score time, computed for the park when omitted
+  locale?: Locale;                        // Language of issues and advisories (default English)
+  baseline?: ScoringBaseline;             // Thresholds, curves, weights, caps and rules to start from (default the current config)
+  now?: Date;                             // Moment the score is for, which sample, rain and spill ages are measured from (default now)
+}
 
 /**
  * Calculate the overall swim score from all environmental factors
@@ -28,54 +74,27 @@ export function calculateSwimScore(
   waterQuality: WaterQuality,
   recentSSOs: SSOEvent[],
   damReleases: DamReleaseData | null,
-  customTidePreferences?: TidePhasePreferences
+  waterTemperature: WaterTemperature | null,
+  precipitation: PrecipitationData | null,
+  options: SwimScoreOptions = {}
 ): SwimScore {
-  // Calculate individual factor scores
-  const waterQualityFactor = scoreWaterQuality(waterQuality, recentSSOs);
-  const tideCurrentFactor = scoreTideAndCurrent(tide, current, customTidePreferences);
-  const waveFactor = scoreWaves(waves);
-  const weatherFactor = scoreWeather(weather);
-  const damReleasesFactor = scoreDamReleases(damReleases);
-
-  // Calculate weighted overall score
-  let overallScore = Math.round(
-    (waterQualityFactor.score * SCORE_WEIGHTS.waterQuality +
-      tideCurrentFactor.score * SCORE_WEIGHTS.tideAndCurrent +
-      waveFactor.score * SCORE_WEIGHTS.waves +
-      weatherFactor.score * SCORE_WEIGHTS.weather +
-      damReleasesFactor.score * SCORE_WEIGHTS.damReleases) /
-      100
-  );
-
-  // Cap overall score based on critical danger conditions
-  // These conditions are dangerous enough to override the weighted average
-  const currentSpeed = tideCurrentFactor.currentSpeed;
-
-  // Very strong current (>2.0 knots) caps score at 39 (Poor)
-  if (currentSpeed >= SAFETY_THRESHOLDS.current.veryStrong) {
-    overallScore = Math.min(overallScore, 39);
-  }
-  // Strong current (>1.5 knots) caps score at 59 (Fair)
-  else if (currentSpeed >= SAFETY_THRESHOLDS.current.strong) {
-    overallScore = Math.min(overallScore, 59);
-  }
-
-  // Dangerous water quality caps score
-  if (waterQualityFactor.status === 'dangerous') {
-    overallScore = Math.min(overallScore, 19);
-  } else if (waterQualityFactor.status === 'warning') {
-    overallScore = Math.min(overallScore, 39);
-  }
-
-  // Dangerous waves cap score
-  if (waveFactor.status === 'dangerous') {
-    overallScore = Math.min(overallScore, 19);
-  } else if (waveFactor.status === 'rough') {
-    overallScore = Math.min(overallScore, 39);
-  }
+  // Resolve thresholds, weights and caps for the selected swimmer profile
+  const { profile, thresholds, curves, weights: profileWeights, caps, rules: scoreRules } =
+    resolveScoringConfig(options.profile, options.baseline);
+  const weights = normalizeWeights(profileWeights, options.weights);
+  const scoringMode = options.scoringMode ?? DEFAULT_SCORING_MODE;
+  const timestamp = options.now ?? new Date();
+  const daylight = options.daylight ?? calculateDaylight(timestamp);
+  const locale = options.locale ?? DEFAULT_LOCALE;
 
-  // Determine rating
-  const rating = getScoreRating(overallScore);
+  // Calculate individual factor scores
+  const waterQualityFactor = scoreWaterQuality(waterQuality, recentSSOs, precipitation, thresholds, curves, scoringMode, locale, timestamp);
+  const tideCurrentFactor = scoreTideAndCurrent(tide, current, thresholds, curves, scoringMode, locale, options.tidePreferences);
+  const waveFactor = scoreWaves(waves, thresholds, curves, scoringMode, locale);
+  const weatherFactor = scoreWeather(weather, thresholds, curves, scoringMode, locale);
+  const damReleasesFactor = scoreDamReleases(damReleases, thresholds, curves, scoringMode, locale);
+  const waterTemperatureFactor = scoreWaterTemperature(waterTemperature, thresholds, curves, scoringMode, locale);
+  const visibilityFactor = scoreVisibility(weather, daylight, thresholds, curves, scoringMode, locale);
 
   // Aggregate all factors
   const factors: SwimScoreFactors = {
@@ -84,100 +103,239 @@ export function calculateSwimScore(
     waves: waveFactor,
     weather: weatherFactor,
     damReleases: damReleasesFactor,
+    waterTemperature: waterTemperatureFactor,
+    visibility: visibilityFactor,
+  };
+
+  // Calculate weighted overall score, keeping each factor's contribution for the breakdown
+  const contributions: ScoreContribution[] = SCORE_FACTOR_KEYS.map(factor => ({
+    factor,
+    rawScore: factors[factor].score,
+    weight: weights[factor],
+    contribution: Math.round(factors[factor].score * weights[factor]) / 100,
+  }));
+  const exactWeightedScore =
+    SCORE_FACTOR_KEYS.reduce((sum, factor) => sum + factors[factor].score * weights[factor], 0) / 100;
+  const weightedScore = Math.round(exactWeightedScore);
+
+  // Apply interaction penalties for factors that are worse together than apart
+  const interactions: ScoreInteraction[] = [
+    assessWindAgainstCurrent(weather, current, thresholds, locale),
+  ].filter((interaction): interaction is ScoreInteraction => interaction !== null);
+  const interactionScore = Math.max(0, Math.round(
+    exactWeightedScore + interactions.reduce((sum, interaction) => sum + interaction.contribution, 0)
+  ));
+
+  // Apply rule caps and collect advice (see src/config/rules.ts)
+  // Caps override the weighted average so one critical hazard can't be averaged away
+  const rules = evaluateRules(
+    scoreRules,
+    buildRuleFacts(
+      factors,
+      interactions,
+      daylight,
+      waterQuality,
+      { tide: tide.source, current: current?.source, weather: weather.source, waves: waves.source, waterQuality: waterQuality.source },
+      interactionScore
+    ),
+    thresholds,
+    caps,
+    locale
+  );
+  const overallScore = rules.finalScore;
+
+  // Determine rating
+  const rating = getScoreRating(overallScore);
+
+  const breakdown: ScoreBreakdown = {
+    contributions,
+    weightedScore,
+    interactions,
+    adjustedScore: interactionScore,
+    appliedCaps: rules.appliedCaps,
+    finalScore: overallScore,
   };
 
-  // Generate recommendations and warnings
-  const { recommendations, warnings } = generateAdvice(factors, overallScore);
+  // Assess how far the inputs can be trusted (stale, estimated or missing data)
+  const confidence = assessConfidence(
+    { tide, current, weather, waves, waterQuality, damReleases, waterTemperature, precipitation },
+    weights,
+    overallScore,
+    timestamp,
+    locale
+  );
 
   return {
-    timestamp: new Date(),
+    timestamp,
     overallScore,
     rating,
+    profile,
+    weights,
+    scoringMode,
+    algorithmVersion: SWIM_SCORE_VERSION,
     factors,
-    recommendations,
-    warnings,
+    breakdown,
+    firedRules: rules.firedRules,
+    confidence,
+    advisories: rules.advisories,
+    recommendations: rules.recommendations,
+    warnings: rules.warnings,
   };
 }
 
 /**
- * Score water quality (30% weight - highest priority)
+ * Score water quality (highest priority)
  */
 function scoreWaterQuality(
   waterQuality: WaterQuality,
-  recentSSOs: SSOEvent[]
+  recentSSOs: SSOEvent[],
+  precipitation: PrecipitationData | null,
+  thresholds: SafetyThresholds,
+  curves: ScoringCurves,
+  scoringMode: ScoringMode,
+  locale: Locale,
+  now: Date
 ): SwimScoreFactors['waterQuality'] {
   let score = 100;
   const issues: string[] = [];
   let bacteriaLevel = 'unknown';
   let status: 'safe' | 'advisory' | 'warning' | 'dangerous' = 'safe';
 
+  // Only ever make the status more severe
+  const severity = ['safe', 'advisory', 'warning', 'dangerous'] as const;
+  const raiseStatus = (next: typeof status) => {
+    if (severity.indexOf(next) > severity.indexOf(status)) status = next;
+  };
+
   // Handle null/undefined water quality data
   if (!waterQuality) {
     score = 50;
     status = 'advisory';
     bacteriaLevel = 'unknown';
-    issues.push('No water quality data available');
+    issues.push(translate(locale, 'issue.waterQuality.noData'));
   } else if (waterQuality.enterococcusCount !== undefined) {
     const count = waterQuality.enterococcusCount;
-    const thresholds = SAFETY_THRESHOLDS.waterQuality.enterococcus;
+    const enterococcus = thresholds.waterQuality.enterococcus;
 
-    if (count > thresholds.dangerous) {
+    if (count > enterococcus.dangerous) {
       score = 0;
       bacteriaLevel = 'dangerous';
       status = 'dangerous';
-      issues.push(`Dangerous bacteria levels (${count} MPN/100ml)`);
-    } else if (count > thresholds.advisory) {
+      issues.push(translate(locale, 'issue.waterQuality.dangerous', { count }));
+    } else if (count > enterococcus.advisory) {
       score = 30;
       bacteriaLevel = 'high';
       status = 'warning';
-      issues.push(`High bacteria levels (${count} MPN/100ml)`);
-    } else if (count > thresholds.safe) {
+      issues.push(translate(locale, 'issue.waterQuality.high', { count }));
+    } else if (count > enterococcus.safe) {
       score = 70;
       bacteriaLevel = 'moderate';
       status = 'advisory';
-      issues.push(`Elevated bacteria levels (${count} MPN/100ml)`);
+      issues.push(translate(locale, 'issue.waterQuality.elevated', { count }));
     } else {
       bacteriaLevel = 'safe';
     }
+
+    // Status and issues follow the thresholds; the score follows the curve
+    if (scoringMode === 'continuous') {
+      score = evaluateCurve(curves.enterococcus, count, thresholds);
+    }
+  }
+
+  // Between samples, defer to the nowcast when it expects an exceedance
+  const nowcast = waterQuality?.nowcast;
+  const sampleAgeDays = waterQuality
+    ? (now.getTime() - new Date(waterQuality.timestamp).getTime()) / (1000 * 60 * 60 * 24)
+    : Infinity;
+  const nowcastThresholds = thresholds.waterQuality.nowcast;
+  if (
+    nowcast &&
+    sampleAgeDays > nowcastThresholds.staleSampleDays &&
+    nowcast.probability >= nowcastThresholds.moderate
+  ) {
+    score = Math.min(score, Math.round(100 - nowcast.probability * 60));
+    if (nowcast.probability >= nowcastThresholds.advisory) raiseStatus('advisory');
+    issues.push(translate(locale, 'issue.waterQuality.nowcast', {
+      percent: Math.round(nowcast.probability * 100),
+      threshold: nowcast.thresholdMPN,
+    }));
   }
 
-  // Check for recent SSOs
-  const activeSSOs = (recentSSOs ?? []).filter(sso => !sso?.resolved);
-  const recentSSO = (recentSSOs ?? []).find(sso => {
-    if (!sso?.reportedAt) return false;
-    const daysSince = (Date.now() - sso.reportedAt.getTime()) / (1000 * 60 * 60 * 24);
-    return daysSince < SAFETY_THRESHOLDS.sso.cautionDays;
-  });
+  // Check for recent SSOs, scaled by distance, volume and age
+  const sso = assessSSOImpact(recentSSOs, thresholds, now);
+  const relevantSSO = sso && sso.impact >= thresholds.sso.minImpact ? sso : null;
+
+  if (relevantSSO) {
+    const { event, impact, active, major } = relevantSSO;
+    const daysSince = Math.floor(relevantSSO.daysSince);
+    const details = [
+      event.distanceFromParkMiles !== undefined
+        ? translate(locale, 'issue.sso.distance', { distance: formatQuantity(event.distanceFromParkMiles, 'distance', locale) })
+        : '',
+      event.volumeGallons !== undefined ? formatQuantity(Math.round(event.volumeGallons), 'volume', locale, 0) : '',
+    ].filter(Boolean).join(', ');
+
+    // Full impact matches the old active-spill ceiling of 20
+    score = Math.min(score, Math.round(100 - impact * 80));
+
+    raiseStatus(
+      impact >= thresholds.sso.dangerousImpact
+        ? 'dangerous'
+        : impact >= thresholds.sso.warningImpact
+        ? 'warning'
+        : 'advisory'
+    );
+
+    const issue = active
+      ? translate(locale, 'issue.sso.active')
+      : translate(locale, major ? 'issue.sso.major' : 'issue.sso.recent', { days: daysSince });
+    issues.push(details ? translate(locale, 'issue.sso.details', { issue, details }) : issue);
+  }
 
-  if (activeSSOs.length > 0) {
-    score = Math.min(score, 20);
-    status = 'dangerous';
-    issues.push(`Active sewer overflow nearby`);
-  } else if (recentSSO) {
-    const daysSince = Math.floor((Date.now() - recentSSO.reportedAt.getTime()) / (1000 * 60 * 60 * 24));
-    score = Math.min(score, 60);
-    if (status === 'safe') status = 'advisory';
-    issues.push(`Recent sewer overflow ${daysSince} days ago`);
+  // First-flush runoff: rain washes storm drain bacteria into the bay days before a sample
+  // can show it, so raise an advisory even when the last sample was clean
+  let runoffAdvisory = false;
+  let hoursSinceRain: number | undefined;
+  if (precipitation?.lastSignificantRainAt) {
+    hoursSinceRain = Math.max(0, (now.getTime() - new Date(precipitation.lastSignificantRainAt).getTime()) / (1000 * 60 * 60));
+    if (hoursSinceRain <= thresholds.rainfall.advisoryHours) {
+      const heavy = precipitation.last72hInches >= thresholds.rainfall.heavyInches;
+      const hoursLeft = Math.ceil(thresholds.rainfall.advisoryHours - hoursSinceRain);
+      runoffAdvisory = true;
+      score = Math.min(score, heavy ? 40 : 60);
+      raiseStatus(heavy ? 'warning' : 'advisory');
+      issues.push(translate(locale, heavy ? 'issue.rain.heavy' : 'issue.rain.light', {
+        amount: formatQuantity(precipitation.last72hInches, 'rain', locale, 2),
+        hours: hoursLeft,
+      }));
+    }
   }
 
   return {
     score,
     status,
     bacteriaLevel,
-    recentSSO: recentSSO !== undefined,
-    daysSinceSSO: recentSSO
-      ? Math.floor((Date.now() - recentSSO.reportedAt.getTime()) / (1000 * 60 * 60 * 24))
-      : undefined,
+    recentSSO: relevantSSO !== null,
+    daysSinceSSO: relevantSSO ? Math.floor(relevantSSO.daysSince) : undefined,
+    ssoImpact: relevantSSO?.impact ?? 0,
+    ssoDistanceMiles: relevantSSO?.event.distanceFromParkMiles,
+    runoffAdvisory,
+    hoursSinceRain: hoursSinceRain !== undefined ? Math.round(hoursSinceRain) : undefined,
+    forecastRainInches: precipitation?.next24hInches,
     issues,
   };
 }
 
 /**
- * Score tide and current conditions (25% weight)
+ * Score tide and current conditions
  */
 function scoreTideAndCurrent(
   tide: TidePrediction,
   current: CurrentData | null,
+  thresholds: SafetyThresholds,
+  curves: ScoringCurves,
+  scoringMode: ScoringMode,
+  locale: Locale,
   customTidePreferences?: TidePhasePreferences
 ): SwimScoreFactors['tideAndCurrent'] {
   let score = 100;
@@ -190,97 +348,173 @@ function scoreTideAndCurrent(
   // Handle null/undefined tide data
   if (!tide || tide.heightFeet == null) {
     score = 50;
-    issues.push('No tide data available');
+    issues.push(translate(locale, 'issue.tide.noData'));
   } else {
     // Score based on tide phase using custom or default preferences
-    const preferences = customTidePreferences || SAFETY_THRESHOLDS.tide.phasePreference;
+    const preferences = customTidePreferences || thresholds.tide.phasePreference;
     const basePhaseScore = preferences[phase];
 
     // Adjust score based on actual tide change rate
-    if (Math.abs(changeRate) < SAFETY_THRESHOLDS.tide.lowCurrent) {
+    if (Math.abs(changeRate) < thresholds.tide.lowCurrent) {
       // Low current - use full phase preference score
       score = basePhaseScore;
-    } else if (Math.abs(changeRate) < SAFETY_THRESHOLDS.tide.moderateCurrent) {
+    } else if (Math.abs(changeRate) < thresholds.tide.moderateCurrent) {
       // Moderate current - reduce score
       score = Math.min(basePhaseScore * 0.7, 70);
-      issues.push(`Moderate tide movement (${phase})`);
+      issues.push(translate(locale, 'issue.tide.moderate', { phase: translateValue(locale, phase) }));
     } else {
       // Strong current - significantly reduce score
       score = Math.min(basePhaseScore * 0.4, 40);
-      issues.push(`Strong tide movement (${phase})`);
+      issues.push(translate(locale, 'issue.tide.strong', { phase: translateValue(locale, phase) }));
     }
 
     // Factor in current speed
-    if (currentSpeed > SAFETY_THRESHOLDS.current.veryStrong) {
+    if (currentSpeed > thresholds.current.veryStrong) {
       score = Math.min(score, 20);
-      issues.push(`Very strong current (${currentSpeed.toFixed(1)} knots)`);
-    } else if (currentSpeed > SAFETY_THRESHOLDS.current.strong) {
+      issues.push(translate(locale, 'issue.current.veryStrong', { speed: formatNumber(currentSpeed, locale, 1) }));
+    } else if (currentSpeed > thresholds.current.strong) {
       score = Math.min(score, 40);
-      issues.push(`Strong current (${currentSpeed.toFixed(1)} knots)`);
-    } else if (currentSpeed > SAFETY_THRESHOLDS.current.moderate) {
+      issues.push(translate(locale, 'issue.current.strong', { speed: formatNumber(currentSpeed, locale, 1) }));
+    } else if (currentSpeed > thresholds.current.moderate) {
       score = Math.min(score, 65);
-      issues.push(`Moderate current (${currentSpeed.toFixed(1)} knots)`);
+      issues.push(translate(locale, 'issue.current.moderate', { speed: formatNumber(currentSpeed, locale, 1) }));
     }
+
+    // Continuous mode scales the phase score smoothly with the change rate,
+    // and replaces the stepped current speed ceilings with the current speed curve
+    if (scoringMode === 'continuous') {
+      const retained = evaluateCurve(curves.tideRate, Math.abs(changeRate), thresholds);
+      score = Math.min(
+        Math.round(basePhaseScore * retained / 10) / 10,
+        evaluateCurve(curves.currentSpeed, currentSpeed, thresholds)
+      );
+    }
+
+    // Spring and king tides drive much stronger currents through the Gate, and shorter slack
+    const tideCycle = tide.tideCycle;
+    if (tideCycle && (tideCycle.cycle === 'king' || tideCycle.cycle === 'spring')) {
+      const king = tideCycle.cycle === 'king';
+      score = Math.max(0, score - (king ? thresholds.tide.kingPenalty : thresholds.tide.springPenalty));
+      issues.push(translate(locale, king ? 'issue.tide.king' : 'issue.tide.spring', {
+        range: formatQuantityChange(tideCycle.rangeFeet, 'height', locale),
+      }));
+    }
+  }
+
+  // Water running off the prediction moves the tide times and heights swimmers plan around
+  const residual = tide?.residual;
+  if (residual && residual.status !== 'normal') {
+    issues.push(translate(locale, residual.residualFeet > 0 ? 'issue.tide.above' : 'issue.tide.below', {
+      amount: formatQuantityChange(Math.abs(residual.residualFeet), 'height', locale),
+    }));
+  }
+  if (residual && residual.lagMinutes !== 0) {
+    issues.push(translate(locale, residual.lagMinutes > 0 ? 'issue.tide.late' : 'issue.tide.early', {
+      minutes: Math.abs(residual.lagMinutes),
+    }));
   }
 
-  const favorable = phase === 'slack' || currentSpeed < SAFETY_THRESHOLDS.current.slow;
+  const favorable = phase === 'slack' || currentSpeed < thresholds.current.slow;
 
   return {
     score,
     phase,
     currentSpeed,
     tideHeight,
+    residualFeet: residual?.residualFeet,
+    surge: residual?.status,
+    cycle: tide?.tideCycle?.cycle,
     favorable,
     issues,
   };
 }
 
 /**
- * Score wave conditions (20% weight)
+ * Score wave conditions
+ * Scores the effective height at the cove: long-period groundswell counts for more than its
+ * reported height, wind chop for less, and swell from blocked directions barely reaches the cove
  */
-function scoreWaves(waves: WaveData): SwimScoreFactors['waves'] {
+function scoreWaves(
+  waves: WaveData,
+  thresholds: SafetyThresholds,
+  curves: ScoringCurves,
+  scoringMode: ScoringMode,
+  locale: Locale
+): SwimScoreFactors['waves'] {
   let score = 100;
   const issues: string[] = [];
   let status: 'calm' | 'moderate' | 'rough' | 'dangerous' = 'calm';
   const height = waves?.waveHeightFeet ?? 0;
+  const swell = assessSwell(waves, thresholds);
+  const effective = swell.effectiveHeightFeet;
+  const heightLabel = effective !== height
+    ? translate(locale, 'issue.waves.effectiveHeight', {
+        effective: formatQuantity(effective, 'height', locale),
+        reported: formatQuantity(height, 'height', locale),
+      })
+    : formatQuantity(height, 'height', locale);
 
   // Handle null/undefined wave data
   if (height === 0 && !waves?.waveHeightFeet) {
     score = 50;
     status = 'moderate';
-    issues.push('No wave data available');
-  } else if (height < SAFETY_THRESHOLDS.waves.calm) {
+    issues.push(translate(locale, 'issue.waves.noData'));
+  } else if (effective < thresholds.waves.calm) {
     score = 100;
     status = 'calm';
-  } else if (height < SAFETY_THRESHOLDS.waves.safe) {
+  } else if (effective < thresholds.waves.safe) {
     score = 85;
     status = 'calm';
-  } else if (height < SAFETY_THRESHOLDS.waves.moderate) {
+  } else if (effective < thresholds.waves.moderate) {
     score = 60;
     status = 'moderate';
-    issues.push(`Moderate waves (${height.toFixed(1)} ft)`);
-  } else if (height < SAFETY_THRESHOLDS.waves.rough) {
+    issues.push(translate(locale, 'issue.waves.moderate', { height: heightLabel }));
+  } else if (effective < thresholds.waves.rough) {
     score = 30;
     status = 'rough';
-    issues.push(`Rough waves (${height.toFixed(1)} ft)`);
+    issues.push(translate(locale, 'issue.waves.rough', { height: heightLabel }));
   } else {
     score = 10;
     status = 'dangerous';
-    issues.push(`Dangerous waves (${height.toFixed(1)} ft)`);
+    issues.push(translate(locale, 'issue.waves.dangerous', { height: heightLabel }));
+  }
+
+  if (scoringMode === 'continuous' && waves?.waveHeightFeet) {
+    score = evaluateCurve(curves.waves, effective, thresholds);
+  }
+
+  // Long-period swell surges at the cove entrance even when it looks small
+  if (
+    waves?.waveHeightFeet &&
+    (swell.swellType === 'groundswell' || swell.swellType === 'long-period') &&
+    swell.exposure >= 0.5 &&
+    effective >= thresholds.waves.calm
+  ) {
+    issues.push(translate(locale, swell.swellType === 'long-period' ? 'issue.waves.longPeriod' : 'issue.waves.groundswell', {
+      period: formatNumber(swell.periodSeconds ?? 0, locale),
+      sector: translateValue(locale, swell.exposureSector),
+    }));
   }
 
   return {
     score,
     heightFeet: height,
+    ...swell,
     status,
     issues,
   };
 }
 
 /**
- * Score weather conditions (15% weight)
+ * Score weather conditions
  */
-function scoreWeather(weather: WeatherData): SwimScoreFactors['weather'] {
+function scoreWeather(
+  weather: WeatherData,
+  thresholds: SafetyThresholds,
+  curves: ScoringCurves,
+  scoringMode: ScoringMode,
+  locale: Locale
+): SwimScoreFactors['weather'] {
   let score = 100;
   const issues: string[] = [];
   let windCondition: 'calm' | 'light' | 'moderate' | 'strong' = 'calm';
@@ -291,33 +525,37 @@ function scoreWeather(weather: WeatherData): SwimScoreFactors['weather'] {
   if (windSpeed === 0 && !weather?.windSpeedMph) {
     score = 50;
     windCondition = 'moderate';
-    issues.push('No wind data available');
-  } else if (windSpeed < SAFETY_THRESHOLDS.wind.calm) {
+    issues.push(translate(locale, 'issue.wind.noData'));
+  } else if (windSpeed < thresholds.wind.calm) {
     windCondition = 'calm';
-  } else if (windSpeed < SAFETY_THRESHOLDS.wind.light) {
+  } else if (windSpeed < thresholds.wind.light) {
     score = 95;
     windCondition = 'light';
-  } else if (windSpeed < SAFETY_THRESHOLDS.wind.moderate) {
+  } else if (windSpeed < thresholds.wind.moderate) {
     score = 80;
     windCondition = 'moderate';
-  } else if (windSpeed < SAFETY_THRESHOLDS.wind.strong) {
+  } else if (windSpeed < thresholds.wind.strong) {
     score = 60;
     windCondition = 'moderate';
-    issues.push(`Moderate winds (${windSpeed.toFixed(0)} mph)`);
-  } else if (windSpeed < SAFETY_THRESHOLDS.wind.veryStrong) {
+    issues.push(translate(locale, 'issue.wind.moderate', { speed: formatQuantity(windSpeed, 'windSpeed', locale, 0) }));
+  } else if (windSpeed < thresholds.wind.veryStrong) {
     score = 35;
     windCondition = 'strong';
-    issues.push(`Strong winds (${windSpeed.toFixed(0)} mph)`);
+    issues.push(translate(locale, 'issue.wind.strong', { speed: formatQuantity(windSpeed, 'windSpeed', locale, 0) }));
   } else {
     score = 15;
     windCondition = 'strong';
-    issues.push(`Very strong winds (${windSpeed.toFixed(0)} mph)`);
+    issues.push(translate(locale, 'issue.wind.veryStrong', { speed: formatQuantity(windSpeed, 'windSpeed', locale, 0) }));
+  }
+
+  if (scoringMode === 'continuous' && weather?.windSpeedMph) {
+    score = evaluateCurve(curves.wind, windSpeed, thresholds);
   }
 
   // Check for precipitation
   if (weather?.conditions?.includes('rain') || weather?.conditions?.includes('storm')) {
     score = Math.min(score, 40);
-    issues.push('Precipitation present');
+    issues.push(translate(locale, 'issue.weather.precipitation'));
   }
 
   return {
@@ -330,19 +568,23 @@ function scoreWeather(weather: WeatherData): SwimScoreFactors['weather'] {
 }
 
 /**
- * Score dam releases (10% weight)
+ * Score dam releases
  * Dam releases affect bay currents and water flow patterns
  * Uses 48-hour historical data to account for time lag (releases take 24-48h to reach SF Bay)
  */
 function scoreDamReleases(
-  damReleases: DamReleaseData | null
+  damReleases: DamReleaseData | null,
+  thresholds: SafetyThresholds,
+  curves: ScoringCurves,
+  scoringMode: ScoringMode,
+  locale: Locale
 ): SwimScoreFactors['damReleases'] {
   let score = 100;
   const issues: string[] = [];
 
   if (!damReleases) {
     score = 75; // Unknown - slight caution
-    issues.push('Dam release data unavailable');
+    issues.push(translate(locale, 'issue.dams.noData'));
     return {
       score,
       totalFlowCFS: 0,
@@ -353,7 +595,7 @@ function scoreDamReleases(
   }
 
   const { current, historical48h, dams } = damReleases;
-  const thresholds = SAFETY_THRESHOLDS.damReleases;
+  const damThresholds = thresholds.damReleases;
 
   // Calculate weighted flow accounting for time lag
   // Recent 24h weighted 60%, older 24h weighted 40%
@@ -368,30 +610,35 @@ function scoreDamReleases(
 
   // Use the higher of weighted average or peak component for scoring
   const scoringFlow = Math.max(weightedAvgFlow, peakComponent);
+  const averageFlow = formatQuantity(Math.round(historical48h.averageFlowCFS), 'flow', locale, 0);
 
   // Apply thresholds to weighted flow
-  if (scoringFlow > thresholds.extreme) {
+  if (scoringFlow > damThresholds.extreme) {
     score = 10;
-    issues.push(`Extreme dam releases (48h peak: ${Math.round(historical48h.peakFlowCFS).toLocaleString()} CFS)`);
-    issues.push('Very strong currents expected - swimming not recommended');
-  } else if (scoringFlow > thresholds.high) {
+    issues.push(translate(locale, 'issue.dams.extreme', { flow: formatQuantity(Math.round(historical48h.peakFlowCFS), 'flow', locale, 0) }));
+    issues.push(translate(locale, 'issue.dams.extremeCurrents'));
+  } else if (scoringFlow > damThresholds.high) {
     score = 30;
-    issues.push(`High dam releases (48h avg: ${Math.round(historical48h.averageFlowCFS).toLocaleString()} CFS)`);
-    issues.push('Strong currents - experienced swimmers only');
-  } else if (scoringFlow > thresholds.moderate) {
+    issues.push(translate(locale, 'issue.dams.high', { flow: averageFlow }));
+    issues.push(translate(locale, 'issue.dams.highCurrents'));
+  } else if (scoringFlow > damThresholds.moderate) {
     score = 65;
-    issues.push(`Elevated dam releases (48h avg: ${Math.round(historical48h.averageFlowCFS).toLocaleString()} CFS)`);
-    issues.push('Increased current strength');
-  } else if (scoringFlow > thresholds.low) {
+    issues.push(translate(locale, 'issue.dams.elevated', { flow: averageFlow }));
+    issues.push(translate(locale, 'issue.dams.elevatedCurrents'));
+  } else if (scoringFlow > damThresholds.low) {
     score = 75;
-    issues.push(`Moderate dam releases (48h avg: ${Math.round(historical48h.averageFlowCFS).toLocaleString()} CFS)`);
+    issues.push(translate(locale, 'issue.dams.moderate', { flow: averageFlow }));
   } else {
     score = 100;
   }
 
+  if (scoringMode === 'continuous') {
+    score = evaluateCurve(curves.damReleases, scoringFlow, thresholds);
+  }
+
   // Add trend warning if releases are increasing and already elevated
-  if (historical48h.trendDirection === 'increasing' && scoringFlow > thresholds.low) {
-    issues.push('Dam releases trending upward - conditions may worsen');
+  if (historical48h.trendDirection === 'increasing' && scoringFlow > damThresholds.low) {
+    issues.push(translate(locale, 'issue.dams.rising'));
   }
 
   // Find top contributor
@@ -409,79 +656,172 @@ function scoreDamReleases(
 }
 
 /**
- * Determine rating from score
+ * Score water temperature
+ * Cold water drives cold shock and hypothermia risk, even for acclimatised swimmers
  */
-function getScoreRating(score: number): 'excellent' | 'good' | 'fair' | 'poor' | 'dangerous' {
-  if (score >= SCORE_RANGES.excellent.min) return 'excellent';
-  if (score >= SCORE_RANGES.good.min) return 'good';
-  if (score >= SCORE_RANGES.fair.min) return 'fair';
-  if (score >= SCORE_RANGES.poor.min) return 'poor';
-  return 'dangerous';
-}
+function scoreWaterTemperature(
+  waterTemperature: WaterTemperature | null,
+  thresholds: SafetyThresholds,
+  curves: ScoringCurves,
+  scoringMode: ScoringMode,
+  locale: Locale
+): SwimScoreFactors['waterTemperature'] {
+  const issues: string[] = [];
+  const temperature = waterTemperature?.temperatureF;
 
-/**
- * Generate recommendations and warnings based on factors
- */
-function generateAdvice(
-  factors: SwimScoreFactors,
-  overallScore: number
-): { recommendations: string[]; warnings: string[] } {
-  const recommendations: string[] = [];
-  const warnings: string[] = [];
-
-  // Water quality warnings
-  if (factors.waterQuality.status === 'dangerous') {
-    warnings.push('Do not swim - dangerous water quality');
-  } else if (factors.waterQuality.status === 'warning') {
-    warnings.push('Water quality warning in effect');
-  } else if (factors.waterQuality.recentSSO) {
-    warnings.push('Recent sewer overflow - use caution');
+  if (temperature === undefined || temperature === null || isNaN(temperature)) {
+    issues.push(translate(locale, 'issue.waterTemp.noData'));
+    return {
+      score: 75, // Unknown - slight caution
+      condition: 'unknown',
+      wetsuitRecommended: false,
+      issues,
+    };
   }
 
-  // Tide/current recommendations
-  if (factors.tideAndCurrent.phase === 'slack') {
-    recommendations.push('Excellent time - slack tide');
-  } else if (factors.tideAndCurrent.currentSpeed > 1.0) {
-    warnings.push('Strong currents - experienced swimmers only');
+  const tempThresholds = thresholds.waterTemp;
+  let score: number;
+  let condition: SwimScoreFactors['waterTemperature']['condition'];
+
+  if (temperature < tempThresholds.coldShock) {
+    score = 20;
+    condition = 'cold-shock';
+    issues.push(translate(locale, 'issue.waterTemp.coldShock', { temperature: formatQuantity(temperature, 'temperature', locale) }));
+  } else if (temperature < tempThresholds.cold) {
+    score = 45;
+    condition = 'cold';
+    issues.push(translate(locale, 'issue.waterTemp.veryCold', { temperature: formatQuantity(temperature, 'temperature', locale) }));
+  } else if (temperature < tempThresholds.cool) {
+    score = 70;
+    condition = 'cool';
+    issues.push(translate(locale, 'issue.waterTemp.cold', { temperature: formatQuantity(temperature, 'temperature', locale) }));
+  } else if (temperature < tempThresholds.moderate) {
+    score = 85;
+    condition = 'moderate';
+  } else if (temperature < tempThresholds.comfortable) {
+    score = 95;
+    condition = 'moderate';
+  } else {
+    score = 100;
+    condition = 'comfortable';
   }
 
-  // Wave warnings
-  if (factors.waves.status === 'dangerous') {
-    warnings.push('Dangerous wave conditions');
-  } else if (factors.waves.status === 'rough') {
-    warnings.push('Rough seas - not recommended');
-  } else if (factors.waves.heightFeet < 2) {
-    recommendations.push('Calm water conditions');
+  if (scoringMode === 'continuous') {
+    score = evaluateCurve(curves.waterTemperature, temperature, thresholds);
   }
 
-  // Weather advisories
-  if (factors.weather.windCondition === 'strong') {
-    warnings.push('Strong winds present');
+  return {
+    score,
+    temperatureF: temperature,
+    condition,
+    wetsuitRecommended: temperature < tempThresholds.cool,
+    issues,
+  };
+}
+
+/**
+ * Score visibility
+ * Fog and darkness hide swimmers from boats and pilots - summer fog at Aquatic Park is a real hazard
+ */
+function scoreVisibility(
+  weather: WeatherData,
+  daylight: DaylightInfo,
+  thresholds: SafetyThresholds,
+  curves: ScoringCurves,
+  scoringMode: ScoringMode,
+  locale: Locale
+): SwimScoreFactors['visibility'] {
+  const fog = scoreFog(weather, thresholds, curves, scoringMode, locale);
+  const issues = [...fog.issues];
+  let score = fog.score;
+
+  // Darkness limits the score however clear the air is
+  if (daylight.period === 'night') {
+    score = Math.min(score, thresholds.visibility.nightScore);
+    issues.push(translate(locale, 'issue.visibility.dark', { degrees: formatNumber(Math.abs(daylight.sunElevation), locale) }));
+  } else if (daylight.period === 'civil-twilight') {
+    score = Math.min(score, thresholds.visibility.twilightScore);
+    issues.push(translate(locale, 'issue.visibility.twilight'));
   }
 
-  // Dam releases advisories
-  if (factors.damReleases.releaseLevel === 'extreme') {
-    warnings.push('Extreme dam releases - very strong currents expected');
-  } else if (factors.damReleases.releaseLevel === 'high') {
-    warnings.push('High dam releases - strong bay currents');
-  } else if (factors.damReleases.releaseLevel === 'moderate') {
-    recommendations.push('Moderate dam releases - be aware of currents');
-  } else if (factors.damReleases.releaseLevel === 'low') {
-    recommendations.push('Normal dam operations');
+  return {
+    score,
+    visibilityMiles: fog.visibilityMiles,
+    condition: fog.condition,
+    daylight: daylight.period,
+    issues,
+  };
+}
+
+/**
+ * Score observed visibility (fog and haze)
+ */
+function scoreFog(
+  weather: WeatherData,
+  thresholds: SafetyThresholds,
+  curves: ScoringCurves,
+  scoringMode: ScoringMode,
+  locale: Locale
+): Omit<SwimScoreFactors['visibility'], 'daylight'> {
+  const issues: string[] = [];
+  const visibility = weather?.visibilityMiles;
+
+  // Without an NWS observation the visibility is only a default value
+  if (
+    visibility === undefined || visibility === null || isNaN(visibility) ||
+    !weather || weather.conditions === 'unavailable'
+  ) {
+    issues.push(translate(locale, 'issue.visibility.notObserved'));
+    return {
+      score: 75, // Unknown - slight caution
+      condition: 'unknown',
+      issues,
+    };
   }
 
-  // Overall advice
-  if (overallScore >= 80) {
-    recommendations.push('Excellent conditions for swimming');
-  } else if (overallScore >= 60) {
-    recommendations.push('Good conditions for swimming');
-  } else if (overallScore >= 40) {
-    recommendations.push('Fair conditions - experienced swimmers recommended');
-  } else if (overallScore >= 20) {
-    warnings.push('Poor conditions - not recommended');
+  const visibilityThresholds = thresholds.visibility;
+  let score: number;
+  let condition: SwimScoreFactors['visibility']['condition'];
+
+  if (visibility <= visibilityThresholds.denseFog) {
+    score = 5;
+    condition = 'dense-fog';
+    issues.push(translate(locale, 'issue.visibility.denseFog', { distance: formatQuantity(visibility, 'distance', locale, 2) }));
+  } else if (visibility < visibilityThresholds.poor) {
+    score = 25;
+    condition = 'fog';
+    issues.push(translate(locale, 'issue.visibility.fog', { distance: formatQuantity(visibility, 'distance', locale) }));
+  } else if (visibility < visibilityThresholds.moderate) {
+    score = 60;
+    condition = 'haze';
+    issues.push(translate(locale, 'issue.visibility.reduced', { distance: formatQuantity(visibility, 'distance', locale) }));
+  } else if (visibility < visibilityThresholds.good) {
+    score = 85;
+    condition = 'haze';
   } else {
-    warnings.push('Dangerous conditions - do not swim');
+    score = 100;
+    condition = 'clear';
   }
 
-  return { recommendations, warnings };
+  if (scoringMode === 'continuous') {
+    score = evaluateCurve(curves.visibility, visibility, thresholds);
+  }
+
+  return {
+    score,
+    visibilityMiles: visibility,
+    condition,
+    issues,
+  };
+}
+
+/**
+ * Determine rating from score
+ */
+function getScoreRating(score: number): 'excellent' | 'good' | 'fair' | 'poor' | 'dangerous' {
+  if (score >= SCORE_RANGES.excellent.min) return 'excellent';
+  if (score >= SCORE_RANGES.good.min) return 'good';
+  if (score >= SCORE_RANGES.fair.min) return 'fair';
+  if (score >= SCORE_RANGES.poor.min) return 'poor';
+  return 'dangerous';
 }
@@ -0,0 +1,49 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { ForecastConditions } from '@/types/conditions';
+import { findOptimalWindows } from './swim-windows';
+import { calculateSunTimes } from './solar';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Hourly points from a start time, with only the fields window detection reads
+function forecast(start: string, scores: number[]): ForecastConditions[] {
+  return scores.map((overallScore, hour) => ({
+    timestamp: new Date(new Date(start).getTime() + hour * HOUR_MS),
+    score: { overallScore, rating: 'good', advisories: [] },
+    tide: { heightFeet: 2 + hour / 10, currentPhase: 'flood' },
+  })) as unknown as ForecastConditions[];
+}
+
+describe('findOptimalWindows', () => {
+  it('joins consecutive points at or above the minimum score', () => {
+    const windows = findOptimalWindows(forecast('2026-07-15T17:00:00Z', [40, 70, 80, 75, 30, 65]));
+
+    assert.equal(windows.length, 2);
+    assert.equal(windows[0].startTime.toISOString(), '2026-07-15T18:00:00.000Z');
+    assert.equal(windows[0].endTime.toISOString(), '2026-07-15T21:00:00.000Z');
+    assert.equal(windows[0].averageScore, 75);
+    assert.equal(windows[0].peakScore, 80);
+    assert.deepEqual(windows[0].tide.heightRange, [2.1, 2.3]);
+    assert.equal(windows[1].endTime.toISOString(), '2026-07-15T23:00:00.000Z');
+  });
+
+  it('keeps dark hours unless asked for daylight only', () => {
+    // 04:00-08:00 PDT, across dawn
+    const dawn = forecast('2026-07-15T11:00:00Z', [70, 70, 70, 70]);
+    const { sunrise, civilDawn } = calculateSunTimes(new Date('2026-07-15T12:00:00Z'));
+
+    assert.equal(findOptimalWindows(dawn)[0].startTime.toISOString(), '2026-07-15T11:00:00.000Z');
+    assert.equal(findOptimalWindows(dawn, { daylightOnly: true })[0].startTime.getTime(), sunrise?.getTime());
+    assert.equal(
+      findOptimalWindows(dawn, { daylightOnly: true, includeTwilight: true })[0].startTime.getTime(),
+      civilDawn?.getTime()
+    );
+  });
+
+  it('drops windows entirely in the dark when asked for daylight only', () => {
+    // 23:00-02:00 PDT
+    const night = forecast('2026-07-15T06:00:00Z', [70, 70, 70]);
+    assert.deepEqual(findOptimalWindows(night, { daylightOnly: true, includeTwilight: true }), []);
+  });
+});
@@ -0,0 +1,73 @@
+/**
+ * Optimal Swim Windows
+ * Finds the stretches of a scored forecast that are good enough to swim, optionally
+ * keeping only the hours with light for swimmers who won't go in after dark
+ */
+
+import type { ForecastConditions, OptimalSwimWindow } from '@/types/conditions';
+import { SCORE_RANGES } from '@/config/thresholds';
+import { excludeDarkHours } from './solar';
+
+const MS_PER_HOUR = 60 * 60 * 1000;
+
+export interface SwimWindowOptions {
+  minScore?: number;          // Lowest score worth swimming at (default the bottom of Good)
+  daylightOnly?: boolean;     // Trim windows to daylight (default false - the score already marks the dark down)
+  includeTwilight?: boolean;  // With daylightOnly, keep civil twilight for dawn swims
+}
+
+/**
+ * Windows of consecutive forecast points scoring at least minScore
+ * Each point covers the time until the next one; the last covers the same step as the one before it.
+ * With daylightOnly, windows are trimmed to daylight and keep the scores of the whole window.
+ */
+export function findOptimalWindows(
+  conditions: ForecastConditions[],
+  options: SwimWindowOptions = {}
+): OptimalSwimWindow[] {
+  const minScore = options.minScore ?? SCORE_RANGES.good.min;
+  const sorted = [...conditions].sort((a, b) => timeOf(a) - timeOf(b));
+  const windows: OptimalSwimWindow[] = [];
+
+  for (let start = 0; start < sorted.length; start++) {
+    if (sorted[start].score.overallScore < minScore) continue;
+
+    let end = start;
+    while (end + 1 < sorted.length && sorted[end + 1].score.overallScore >= minScore) end++;
+
+    windows.push(toWindow(sorted.slice(start, end + 1), pointEnd(sorted, end)));
+    start = end;
+  }
+
+  return options.daylightOnly ? excludeDarkHours(windows, options.includeTwilight) : windows;
+}
+
+function toWindow(points: ForecastConditions[], endTime: number): OptimalSwimWindow {
+  const scores = points.map(point => point.score.overallScore);
+  const heights = points.map(point => point.tide.heightFeet);
+  const peak = points.reduce((best, point) => (point.score.overallScore > best.score.overallScore ? point : best));
+
+  return {
+    startTime: new Date(timeOf(points[0])),
+    endTime: new Date(endTime),
+    averageScore: Math.round(scores.reduce((sum, score) => sum + score, 0) / scores.length),
+    peakScore: peak.score.overallScore,
+    // The overall advice at the best moment, in the language it was scored in
+    reason: peak.score.advisories.find(advisory => advisory.code.startsWith('overall.'))?.text ?? peak.score.rating,
+    tide: {
+      phase: peak.tide.currentPhase,
+      heightRange: [Math.min(...heights), Math.max(...heights)],
+    },
+  };
+}
+
+// End of the time a forecast point covers
+function pointEnd(sorted: ForecastConditions[], index: number): number {
+  const time = timeOf(sorted[index]);
+  if (index + 1 < sorted.length) return timeOf(sorted[index + 1]);
+  return time + (index > 0 ? time - timeOf(sorted[index - 1]) : MS_PER_HOUR);
+}
+
+function timeOf(point: ForecastConditions): number {
+  return new Date(point.timestamp).getTime();
+}
@@ -0,0 +1,191 @@
+/**
+ * Tide Curve
+ * Works with tide heights sampled every few minutes: interpolates the curve from high/low
+ * predictions, differentiates it for the instantaneous rate of change, and locates the
+ * turning points and slack water precisely
+ */
+
+import type { TideData, TidePrediction } from '@/types/conditions';
+
+// NOAA publishes height predictions at 6-minute intervals
+export const TIDE_CURVE_INTERVAL_MINUTES = 6;
+
+const MS_PER_HOUR = 1000 * 60 * 60;
+
+export interface TidePhaseInfo {
+  currentPhase: TidePrediction['currentPhase'];
+  changeRateFeetPerHour: number;
+  nextHigh?: TideData;
+  nextLow?: TideData;
+  slackWindow?: TidePrediction['slackWindow'];
+}
+
+/**
+ * Interpolate a regular tide curve between high and low predictions
+ * Uses the cosine rule NOAA applies between extremes, so the rate is zero at each turn
+ * and greatest halfway between. Only covers the span between the first and last extreme.
+ */
+export function interpolateTideCurve(
+  extremes: TideData[],
+  start: Date,
+  end: Date,
+  intervalMinutes: number = TIDE_CURVE_INTERVAL_MINUTES
+): TideData[] {
+  const sorted = [...extremes].sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+  if (sorted.length < 2) return [];
+
+  const intervalMs = intervalMinutes * 60 * 1000;
+  const first = Math.max(start.getTime(), sorted[0].timestamp.getTime());
+  const last = Math.min(end.getTime(), sorted[sorted.length - 1].timestamp.getTime());
+  const curve: TideData[] = [];
+  let segment = 0;
+
+  // Align samples to the interval, as NOAA's predictions are
+  for (let time = Math.ceil(first / intervalMs) * intervalMs; time <= last; time += intervalMs) {
+    while (segment < sorted.length - 2 && time > sorted[segment + 1].timestamp.getTime()) segment++;
+    const from = sorted[segment];
+    const to = sorted[segment + 1];
+    const span = to.timestamp.getTime() - from.timestamp.getTime();
+    const progress = span > 0 ? (time - from.timestamp.getTime()) / span : 0;
+    const mean = (from.heightFeet + to.heightFeet) / 2;
+    const amplitude = (from.heightFeet - to.heightFeet) / 2;
+
+    curve.push({
+      timestamp: new Date(time),
+      heightFeet: Math.round((mean + amplitude * Math.cos(Math.PI * progress)) * 1000) / 1000,
+      type: 'normal',
+      source: 'Interpolated',
+    });
+  }
+
+  return curve;
+}
+
+/**
+ * Height on the curve at a moment, interpolated between samples
+ * Returns null outside the curve
+ */
+export function tideHeightAt(curve: TideData[], time: Date): number | null {
+  const index = segmentIndex(curve, time);
+  if (index === null) return null;
+  const from = curve[index];
+  const to = curve[index + 1] ?? from;
+  return lerp(from, to, time, point => point.heightFeet);
+}
+
+/**
+ * Instantaneous rate of change (ft/hr, positive while rising) at a moment
+ * Central differences at the samples either side, blended by position between them
+ */
+export function tideRateAt(curve: TideData[], time: Date): number | null {
+  const index = segmentIndex(curve, time);
+  if (index === null || curve.length < 2) return null;
+  const from = curve[index];
+  const to = curve[index + 1] ?? from;
+  const rateFrom = sampleRate(curve, index);
+  const rateTo = curve[index + 1] ? sampleRate(curve, index + 1) : rateFrom;
+  return lerp(from, to, time, point => (point === from ? rateFrom : rateTo));
+}
+
+/**
+ * Highs and lows on the curve, timed to within a minute or so
+ * A parabola through the sample at each turn and its neighbours places the true peak between samples
+ */
+export function findTideExtremes(curve: TideData[]): TideData[] {
+  const extremes: TideData[] = [];
+
+  for (let i = 1; i < curve.length - 1; i++) {
+    const before = curve[i].heightFeet - curve[i - 1].heightFeet;
+    const after = curve[i + 1].heightFeet - curve[i].heightFeet;
+    const isHigh = before > 0 && after <= 0;
+    const isLow = before < 0 && after >= 0;
+    if (!isHigh && !isLow) continue;
+
+    const [y0, y1, y2] = [curve[i - 1].heightFeet, curve[i].heightFeet, curve[i + 1].heightFeet];
+    const curvature = y0 - 2 * y1 + y2;
+    const offset = curvature !== 0 ? (0.5 * (y0 - y2)) / curvature : 0; // In samples, -0.5 to 0.5
+    const stepMs = curve[i + 1].timestamp.getTime() - curve[i].timestamp.getTime();
+
+    extremes.push({
+      timestamp: new Date(Math.round(curve[i].timestamp.getTime() + offset * stepMs)),
+      heightFeet: Math.round((y1 - 0.25 * (y0 - y2) * offset) * 1000) / 1000,
+      type: isHigh ? 'high' : 'low',
+      source: curve[i].source,
+    });
+  }
+
+  return extremes;
+}
+
+/**
+ * The slack water window in progress at a moment, or the next one
+ * Slack is whenever the tide changes slower than the threshold, which brackets each turn
+ */
+export function findSlackWindow(
+  curve: TideData[],
+  time: Date,
+  slackRateFeetPerHour: number
+): { start: Date; end: Date } | null {
+  const isSlack = (index: number) => Math.abs(sampleRate(curve, index)) < slackRateFeetPerHour;
+  const nowIndex = segmentIndex(curve, time);
+  if (nowIndex === null) return null;
+
+  let first = nowIndex;
+  while (first < curve.length && !isSlack(first)) first++;
+  if (first >= curve.length) return null;
+
+  // Slack already under way: walk back to where it started
+  let start = first;
+  if (first === nowIndex) {
+    while (start > 0 && isSlack(start - 1)) start--;
+  }
+  let end = first;
+  while (end < curve.length - 1 && isSlack(end + 1)) end++;
+
+  return { start: curve[start].timestamp, end: curve[end].timestamp };
+}
+
+/**
+ * Tide phase at a moment from the curve's instantaneous rate
+ * Slack while the rate is under the slack threshold, otherwise flood when rising and ebb when falling
+ */
+export function assessTidePhase(curve: TideData[], time: Date, slackRateFeetPerHour: number): TidePhaseInfo | null {
+  const rate = tideRateAt(curve, time);
+  if (rate === null) return null;
+
+  const upcoming = findTideExtremes(curve).filter(extreme => extreme.timestamp > time);
+
+  return {
+    currentPhase: Math.abs(rate) < slackRateFeetPerHour ? 'slack' : rate > 0 ? 'flood' : 'ebb',
+    changeRateFeetPerHour: Math.round(rate * 100) / 100,
+    nextHigh: upcoming.find(extreme => extreme.type === 'high'),
+    nextLow: upcoming.find(extreme => extreme.type === 'low'),
+    slackWindow: findSlackWindow(curve, time, slackRateFeetPerHour) ?? undefined,
+  };
+}
+
+// Index of the sample at or before the time, or null outside the curve
+function segmentIndex(curve: TideData[], time: Date): number | null {
+  const t = time.getTime();
+  if (curve.length === 0 || t < curve[0].timestamp.getTime() || t > curve[curve.length - 1].timestamp.getTime()) {
+    return null;
+  }
+  let index = 0;
+  while (index < curve.length - 1 && curve[index + 1].timestamp.getTime() <= t) index++;
+  return index;
+}
+
+// Rate (ft/hr) at a sample: central difference inside the curve, one-sided at its ends
+function sampleRate(curve: TideData[], index: number): number {
+  const before = curve[Math.max(index - 1, 0)];
+  const after = curve[Math.min(index + 1, curve.length - 1)];
+  const hours = (after.timestamp.getTime() - before.timestamp.getTime()) / MS_PER_HOUR;
+  return hours > 0 ? (after.heightFeet - before.heightFeet) / hours : 0;
+}
+
+function lerp(from: TideData, to: TideData, time: Date, value: (point: TideData) => number): number {
+  const span = to.timestamp.getTime() - from.timestamp.getTime();
+  if (span <= 0) return value(from);
+  const progress = (time.getTime() - from.timestamp.getTime()) / span;
+  return value(from) + (value(to) - value(from)) * progress;
+}
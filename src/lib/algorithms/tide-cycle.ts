@@ -0,0 +1,127 @@
+/**
+ * Spring/Neap Tide Cycle
+ * Classifies days by their predicted tidal range. Ranges peak (spring tides) a day or two after
+ * new and full moon and bottom out (neap tides) near the quarters; the biggest springs, when the
+ * moon is also near perigee, are king tides. San Francisco's tides are mixed, so the moon's
+ * declination matters too - classifying by the predicted range rather than the moon alone
+ * accounts for both.
+ */
+
+import type { MoonPhase, TideCycle, TideCycleDay, TideData } from '@/types/conditions';
+import type { SafetyThresholds } from '@/config/thresholds';
+
+const MS_PER_DAY = 1000 * 60 * 60 * 24;
+const J2000_MS = Date.UTC(2000, 0, 1, 12);
+const SYNODIC_MONTH_DAYS = 29.530589;
+const PARK_TIME_ZONE = 'America/Los_Angeles';
+
+const MOON_PHASES: MoonPhase[] = [
+  'new-moon',
+  'waxing-crescent',
+  'first-quarter',
+  'waxing-gibbous',
+  'full-moon',
+  'waning-gibbous',
+  'last-quarter',
+  'waning-crescent',
+];
+
+/**
+ * Moon phase at a moment, from the moon's mean elongation from the sun
+ * Accurate to within about a day of the true phase - plenty for the tide cycle
+ */
+export function moonPhaseAt(time: Date): { moonPhase: MoonPhase; moonAgeDays: number } {
+  const days = (time.getTime() - J2000_MS) / MS_PER_DAY;
+  const elongation = normalise(297.8501921 + 12.19074912 * days);
+
+  return {
+    // Each named phase covers the eighth of the cycle centred on it
+    moonPhase: MOON_PHASES[Math.round(elongation / 45) % MOON_PHASES.length],
+    moonAgeDays: Math.round((elongation / 360) * SYNODIC_MONTH_DAYS * 10) / 10,
+  };
+}
+
+/**
+ * Spring/neap class of a tidal range
+ */
+export function classifyTideRange(rangeFeet: number, thresholds: SafetyThresholds['tide']): TideCycle {
+  if (rangeFeet >= thresholds.kingRange) return 'king';
+  if (rangeFeet >= thresholds.springRange) return 'spring';
+  if (rangeFeet <= thresholds.neapRange) return 'neap';
+  return 'moderate';
+}
+
+/**
+ * Classify each date from high and low tide predictions covering it
+ * Dates without both a high and a low predicted are left out
+ */
+export function buildTideCalendar(
+  extremes: TideData[],
+  dates: string[],
+  thresholds: SafetyThresholds['tide']
+): TideCycleDay[] {
+  const byDate = new Map<string, TideData[]>();
+  for (const extreme of extremes) {
+    const date = parkDate(extreme.timestamp);
+    byDate.set(date, [...(byDate.get(date) ?? []), extreme]);
+  }
+
+  return dates
+    .map(date => classifyTideDay(date, byDate.get(date) ?? [], thresholds))
+    .filter((day): day is TideCycleDay => day !== null);
+}
+
+/**
+ * Classify one date from its high and low tides
+ */
+export function classifyTideDay(
+  date: string,
+  extremes: TideData[],
+  thresholds: SafetyThresholds['tide']
+): TideCycleDay | null {
+  const highs = extremes.filter(extreme => extreme.type === 'high').map(extreme => extreme.heightFeet);
+  const lows = extremes.filter(extreme => extreme.type === 'low').map(extreme => extreme.heightFeet);
+  if (highs.length === 0 || lows.length === 0) return null;
+
+  const highFeet = Math.max(...highs);
+  const lowFeet = Math.min(...lows);
+  const rangeFeet = Math.round((highFeet - lowFeet) * 100) / 100;
+
+  return {
+    date,
+    cycle: classifyTideRange(rangeFeet, thresholds),
+    rangeFeet,
+    highFeet,
+    lowFeet,
+    // Moon at about midday at the park
+    ...moonPhaseAt(new Date(`${date}T20:00:00Z`)),
+  };
+}
+
+/**
+ * Date at the park (YYYY-MM-DD) of a moment
+ */
+export function parkDate(time: Date): string {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: PARK_TIME_ZONE,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+  }).formatToParts(time);
+  const part = (type: Intl.DateTimeFormatPartTypes) => parts.find(p => p.type === type)?.value;
+  return `${part('year')}-${part('month')}-${part('day')}`;
+}
+
+/**
+ * Every date of a month (month 1-12)
+ */
+export function monthDates(year: number, month: number): string[] {
+  const days = new Date(Date.UTC(year, month, 0)).getUTCDate();
+  return Array.from({ length: days }, (_, i) =>
+    `${year}-${String(month).padStart(2, '0')}-${String(i + 1).padStart(2, '0')}`
+  );
+}
+
+function normalise(degrees: number): number {
+  return ((degrees % 360) + 360) % 360;
+}
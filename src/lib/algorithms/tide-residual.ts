@@ -0,0 +1,139 @@
+/**
+ * Tide Residual
+ * Compares observed water levels with the tide prediction. The difference (the residual) is
+ * mostly weather: storms and low pressure push water into the bay, offshore wind pulls it out.
+ * A persistent residual shifts the tide's height and timing, so the prediction is corrected by it.
+ */
+
+import type { TideData, TideResidual } from '@/types/conditions';
+import type { SafetyThresholds } from '@/config/thresholds';
+import { tideHeightAt } from './tide-curve';
+
+const MS_PER_MINUTE = 60 * 1000;
+const MS_PER_HOUR = 60 * MS_PER_MINUTE;
+
+// Observations averaged for the current residual and height correction
+const RECENT_WINDOW_MS = MS_PER_HOUR;
+
+// Timing shifts tried when fitting the observations to the prediction
+const MAX_LAG_MINUTES = 60;
+const LAG_STEP_MINUTES = 6;
+
+// A lag is only applied when it fits the observations this much better than no lag,
+// so noise on a flat stretch of tide doesn't move the turns
+const LAG_IMPROVEMENT = 0.8;
+
+/**
+ * Residual of observed water levels against the prediction curve
+ * Returns null with fewer than three observations the curve covers
+ */
+export function assessTideResidual(
+  observations: TideData[],
+  curve: TideData[],
+  thresholds: SafetyThresholds['tide'],
+  now: Date
+): TideResidual | null {
+  const history = observations
+    .map(observation => {
+      const predicted = tideHeightAt(curve, observation.timestamp);
+      return predicted === null
+        ? null
+        : { timestamp: observation.timestamp, residualFeet: round(observation.heightFeet - predicted) };
+    })
+    .filter((point): point is TideResidual['history'][number] => point !== null);
+  if (history.length < 3) return null;
+
+  const recentFrom = now.getTime() - RECENT_WINDOW_MS;
+  const recent = history.filter(point => point.timestamp.getTime() >= recentFrom);
+  const residualFeet = round(mean((recent.length > 0 ? recent : history.slice(-1)).map(point => point.residualFeet)));
+  const maxResidualFeet = history.reduce(
+    (max, point) => (Math.abs(point.residualFeet) > Math.abs(max) ? point.residualFeet : max),
+    0
+  );
+
+  const { offsetFeet, lagMinutes } = fitCorrection(observations, curve, recentFrom);
+  const magnitude = Math.abs(residualFeet);
+
+  return {
+    residualFeet,
+    trendFeetPerHour: round(slope(history)),
+    maxResidualFeet,
+    offsetFeet,
+    lagMinutes,
+    status: magnitude >= thresholds.residualSurge ? 'surge' : magnitude >= thresholds.residualAnomaly ? 'anomaly' : 'normal',
+    history,
+  };
+}
+
+/**
+ * Shift a prediction curve by a residual's lag and offset
+ */
+export function applyTideCorrection(curve: TideData[], residual: Pick<TideResidual, 'offsetFeet' | 'lagMinutes'>): TideData[] {
+  if (residual.offsetFeet === 0 && residual.lagMinutes === 0) return curve;
+  return curve.map(point => ({
+    ...point,
+    timestamp: new Date(point.timestamp.getTime() + residual.lagMinutes * MS_PER_MINUTE),
+    heightFeet: round(point.heightFeet + residual.offsetFeet),
+  }));
+}
+
+/**
+ * Best timing shift and height offset to match the prediction to the observations
+ * Each lag is scored by how well a constant offset then explains the observations
+ */
+function fitCorrection(
+  observations: TideData[],
+  curve: TideData[],
+  recentFrom: number
+): { offsetFeet: number; lagMinutes: number } {
+  const fit = (lagMinutes: number) => {
+    const pairs = observations
+      .map(observation => {
+        const predicted = tideHeightAt(curve, new Date(observation.timestamp.getTime() - lagMinutes * MS_PER_MINUTE));
+        return predicted === null ? null : { timestamp: observation.timestamp, difference: observation.heightFeet - predicted };
+      })
+      .filter((pair): pair is { timestamp: Date; difference: number } => pair !== null);
+    if (pairs.length < 3) return null;
+
+    const offset = mean(pairs.map(pair => pair.difference));
+    const rms = Math.sqrt(mean(pairs.map(pair => (pair.difference - offset) ** 2)));
+    // Correct the height by the latest hour - the residual drifts over a storm
+    const recent = pairs.filter(pair => pair.timestamp.getTime() >= recentFrom);
+    const recentOffset = recent.length > 0 ? mean(recent.map(pair => pair.difference)) : offset;
+    return { lagMinutes, rms, offsetFeet: round(recentOffset) };
+  };
+
+  const unshifted = fit(0);
+  if (!unshifted) return { offsetFeet: 0, lagMinutes: 0 };
+
+  let best = unshifted;
+  for (let lag = -MAX_LAG_MINUTES; lag <= MAX_LAG_MINUTES; lag += LAG_STEP_MINUTES) {
+    const candidate = fit(lag);
+    if (candidate && candidate.rms < best.rms) best = candidate;
+  }
+  if (best.rms > unshifted.rms * LAG_IMPROVEMENT) best = unshifted;
+
+  return { offsetFeet: best.offsetFeet, lagMinutes: best.lagMinutes };
+}
+
+// Least-squares slope of the residual over time (ft/hr)
+function slope(history: TideResidual['history']): number {
+  const hours = history.map(point => point.timestamp.getTime() / MS_PER_HOUR);
+  const meanHours = mean(hours);
+  const meanResidual = mean(history.map(point => point.residualFeet));
+  let covariance = 0;
+  let variance = 0;
+  history.forEach((point, i) => {
+    covariance += (hours[i] - meanHours) * (point.residualFeet - meanResidual);
+    variance += (hours[i] - meanHours) ** 2;
+  });
+  return variance > 0 ? covariance / variance : 0;
+}
+
+function mean(values: number[]): number {
+  return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
@@ -0,0 +1,171 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createHash } from 'node:crypto';
+import type { AlgorithmVersion, ScoreInputs } from '@/types/conditions';
+import { FIXTURE_TIME, scoreInputs } from '@/test/fixtures';
+import { SCORING_ALGORITHMS, parseAlgorithmParam } from './versions';
+import { calculateDaylight } from './solar';
+
+// Configuration each version was registered with. A failure here means a change to the thresholds,
+// curves, weights, caps or rules would change what stored scores mean - register it as a new version.
+// Update a fingerprint only for a change that can't alter any score, such as reordering keys or changing display text.
+const REGISTERED_BASELINES: Record<AlgorithmVersion, string> = {
+  v1: 'a762d12bc185c5ec646d5aee4e0ddf0995d2fb4d5798526c6bf39b41f07cb768',
+  v2: '8c1226f868e01f11c7c7957a6afd0f6727fe7bd7c7103d242b8014a4aedf09fd',
+};
+
+function fingerprint(version: AlgorithmVersion): string {
+  return createHash('sha256').update(JSON.stringify(SCORING_ALGORITHMS[version].baseline)).digest('hex');
+}
+
+describe('SCORING_ALGORITHMS', () => {
+  it('still scores with the configuration each version was registered with', () => {
+    for (const version of Object.keys(SCORING_ALGORITHMS) as AlgorithmVersion[]) {
+      assert.equal(fingerprint(version), REGISTERED_BASELINES[version], `${version} configuration changed`);
+    }
+  });
+
+  it('freezes each version\'s configuration', () => {
+    for (const { baseline } of Object.values(SCORING_ALGORITHMS)) {
+      const current: { strong: number } = baseline.thresholds.current;
+      assert.throws(() => {
+        current.strong = 5;
+      }, TypeError);
+      assert.ok(Object.isFrozen(baseline.rules[0]));
+    }
+  });
+
+  it('stamps the version on its scores whatever mode the caller asks for', () => {
+    const inputs = scoreInputs();
+    const score = SCORING_ALGORITHMS.v1.calculate(
+      inputs.tide,
+      inputs.current,
+      inputs.weather,
+      inputs.waves,
+      inputs.waterQuality,
+      inputs.recentSSOs,
+      inputs.damReleases,
+      inputs.waterTemperature,
+      inputs.precipitation,
+      { scoringMode: 'continuous', daylight: calculateDaylight(FIXTURE_TIME) }
+    );
+    assert.equal(score.algorithmVersion, 'v1');
+    assert.equal(score.scoringMode, 'legacy');
+  });
+});
+
+// Scores the original algorithm (before continuous curves and swimmer profiles) gave these inputs,
+// recorded by running it with the clock at FIXTURE_TIME
+const ORIGINAL_SCORES = [
+  {
+    name: 'a calm morning',
+    inputs: () => scoreInputs(),
+    overallScore: 84,
+    rating: 'excellent',
+    factors: { waterQuality: 60, tideAndCurrent: 85, waves: 100, weather: 95, damReleases: 100 },
+    recommendations: ['Calm water conditions', 'Normal dam operations', 'Excellent conditions for swimming'],
+    warnings: ['Recent sewer overflow - use caution'],
+  },
+  {
+    name: 'a wet, windy ebb with high dam releases',
+    inputs: () => {
+      const inputs = scoreInputs();
+      return {
+        ...inputs,
+        tide: { ...inputs.tide, currentPhase: 'ebb', changeRateFeetPerHour: -1.4 },
+        current: inputs.current && { ...inputs.current, speedKnots: 1.2 },
+        weather: { ...inputs.weather, windSpeedMph: 16, conditions: 'light rain' },
+        waves: { ...inputs.waves, waveHeightFeet: 3.4 },
+        waterQuality: { ...inputs.waterQuality, enterococcusCount: 150 },
+        recentSSOs: [{ ...inputs.recentSSOs[0], reportedAt: new Date(FIXTURE_TIME.getTime() - 24 * 60 * 60 * 1000) }],
+        damReleases: inputs.damReleases && {
+          ...inputs.damReleases,
+          current: { totalFlowCFS: 55000, releaseLevel: 'high' },
+          historical48h: {
+            ...inputs.damReleases.historical48h,
+            averageFlowCFS: 54000,
+            peakFlowCFS: 60000,
+            last24hAverage: 56000,
+            last48hAverage: 52000,
+            trendDirection: 'increasing',
+          },
+        },
+      } satisfies ScoreInputs;
+    },
+    overallScore: 57,
+    rating: 'fair',
+    factors: { waterQuality: 60, tideAndCurrent: 59.5, waves: 60, weather: 40, damReleases: 65 },
+    recommendations: ['Fair conditions - experienced swimmers recommended'],
+    warnings: [
+      'Recent sewer overflow - use caution',
+      'Strong currents - experienced swimmers only',
+      'High dam releases - strong bay currents',
+    ],
+  },
+  {
+    name: 'a very strong current and rough seas',
+    inputs: () => {
+      const inputs = scoreInputs();
+      return {
+        ...inputs,
+        current: inputs.current && { ...inputs.current, speedKnots: 2.3 },
+        waves: { ...inputs.waves, waveHeightFeet: 6 },
+      } satisfies ScoreInputs;
+    },
+    overallScore: 39,
+    rating: 'poor',
+    factors: { waterQuality: 60, tideAndCurrent: 20, waves: 30, weather: 95, damReleases: 100 },
+    recommendations: ['Normal dam operations'],
+    warnings: [
+      'Recent sewer overflow - use caution',
+      'Strong currents - experienced swimmers only',
+      'Rough seas - not recommended',
+      'Poor conditions - not recommended',
+    ],
+  },
+] as const;
+
+describe('v1', () => {
+  for (const expected of ORIGINAL_SCORES) {
+    it(`reproduces the original algorithm's score for ${expected.name}`, () => {
+      const inputs = expected.inputs();
+      const score = SCORING_ALGORITHMS.v1.calculate(
+        inputs.tide,
+        inputs.current,
+        inputs.weather,
+        inputs.waves,
+        inputs.waterQuality,
+        inputs.recentSSOs,
+        inputs.damReleases,
+        inputs.waterTemperature,
+        inputs.precipitation,
+        // Options later versions added must not change a v1 score
+        { now: FIXTURE_TIME, profile: 'skins', weights: { waterTemperature: 40 }, scoringMode: 'continuous' }
+      );
+
+      assert.equal(score.overallScore, expected.overallScore);
+      assert.equal(score.rating, expected.rating);
+      for (const [factor, factorScore] of Object.entries(expected.factors)) {
+        const actual = score.factors[factor as keyof typeof expected.factors].score;
+        assert.ok(Math.abs(actual - factorScore) < 0.01, `${factor} scored ${actual}, originally ${factorScore}`);
+      }
+      assert.deepEqual(score.recommendations, expected.recommendations);
+      assert.deepEqual(score.warnings, expected.warnings);
+    });
+  }
+});
+
+describe('parseAlgorithmParam', () => {
+  it('parses a version and a version to compare with', () => {
+    assert.deepEqual(parseAlgorithmParam('v2, v1'), { versions: ['v2', 'v1'], errors: [] });
+  });
+
+  it('rejects unknown, repeated and extra versions', () => {
+    assert.deepEqual(parseAlgorithmParam('v9').errors, ['Unknown algorithm "v9" (expected one of v1, v2)']);
+    assert.deepEqual(parseAlgorithmParam('v1,v1').errors, ['Algorithm "v1" is listed twice']);
+    assert.deepEqual(parseAlgorithmParam('v1,v2,v1').errors, [
+      'Algorithm "v1" is listed twice',
+      'algorithm can compare at most two versions',
+    ]);
+  });
+});
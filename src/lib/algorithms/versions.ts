@@ -0,0 +1,170 @@
+/**
+ * Scoring Algorithm Versions
+ * Registry of swim score implementations, so every score can be traced to the algorithm that
+ * produced it and a proposed algorithm can be compared with the current one on the same inputs
+ */
+
+import type { AlgorithmVersion, AlgorithmComparison, ScoringMode, SwimScore, ScoreFactorKey } from '@/types/conditions';
+import { CURRENT_SCORING_BASELINE, type ScoringBaseline } from '@/config/profiles';
+import { V1_SCORING_BASELINE, type V1ScoringBaseline } from '@/config/scoring-v1';
+import { calculateSwimScore } from './swim-score';
+import { calculateSwimScoreV1 } from './swim-score-v1';
+import { SCORE_FACTOR_KEYS } from './score-weights';
+
+export type ScoreCalculator = typeof calculateSwimScore;
+
+export interface ScoringAlgorithm {
+  id: AlgorithmVersion;
+  label: string;
+  description: string;
+  baseline: ScoringBaseline | V1ScoringBaseline; // Thresholds, curves, weights, caps and rules the version scores with
+  calculate: ScoreCalculator;
+}
+
+export interface AlgorithmParseResult {
+  versions: AlgorithmVersion[]; // Main version first, then the version to compare with
+  errors: string[];
+}
+
+/**
+ * Copy a baseline and freeze the copy, so nothing that changes the live configuration
+ * at run time reaches a registered version
+ */
+function snapshotBaseline<T extends ScoringBaseline | V1ScoringBaseline>(baseline: T): T {
+  return deepFreeze(structuredClone(baseline));
+}
+
+function deepFreeze<T>(value: T): T {
+  if (value !== null && typeof value === 'object') {
+    Object.values(value).forEach(deepFreeze);
+    Object.freeze(value);
+  }
+  return value;
+}
+
+/**
+ * Score with the scoring mode and baseline pinned, whatever the caller's options say
+ */
+function pinned(scoringMode: ScoringMode, baseline: ScoringBaseline): ScoreCalculator {
+  return (tide, current, weather, waves, waterQuality, recentSSOs, damReleases, waterTemperature, precipitation, options = {}) =>
+    calculateSwimScore(
+      tide,
+      current,
+      weather,
+      waves,
+      waterQuality,
+      recentSSOs,
+      damReleases,
+      waterTemperature,
+      precipitation,
+      { ...options, scoringMode, baseline }
+    );
+}
+
+/**
+ * Score with the original algorithm and its frozen baseline
+ */
+function pinnedV1(baseline: V1ScoringBaseline): ScoreCalculator {
+  return (tide, current, weather, waves, waterQuality, recentSSOs, damReleases, waterTemperature, precipitation, options = {}) =>
+    calculateSwimScoreV1(
+      tide,
+      current,
+      weather,
+      waves,
+      waterQuality,
+      recentSSOs,
+      damReleases,
+      waterTemperature,
+      precipitation,
+      options,
+      baseline
+    );
+}
+
+// v1 is the original algorithm with its own frozen configuration (src/config/scoring-v1.ts).
+// v2 scores with the live configuration - changing src/config/thresholds.ts or rules.ts changes it,
+// so versions.test.ts fails until the change is registered as a new version instead
+const V1_BASELINE = snapshotBaseline(V1_SCORING_BASELINE);
+const V2_BASELINE = snapshotBaseline(CURRENT_SCORING_BASELINE);
+
+// Versions the older scoring=legacy|continuous parameter picks
+export const SCORING_MODE_VERSIONS: Record<ScoringMode, AlgorithmVersion> = {
+  legacy: 'v1',
+  continuous: 'v2',
+};
+
+export const SCORING_ALGORITHMS: Record<AlgorithmVersion, ScoringAlgorithm> = {
+  v1: {
+    id: 'v1',
+    label: 'Original step thresholds',
+    description: 'The original algorithm: five factors whose scores step down at each safety threshold, with the original weights and caps',
+    baseline: V1_BASELINE,
+    calculate: pinnedV1(V1_BASELINE),
+  },
+  v2: {
+    id: 'v2',
+    label: 'Continuous curves',
+    description: 'Factor scores follow piecewise-linear and logistic curves between the thresholds',
+    baseline: V2_BASELINE,
+    calculate: pinned('continuous', V2_BASELINE),
+  },
+};
+
+export const DEFAULT_ALGORITHM_VERSION: AlgorithmVersion = 'v2';
+
+/**
+ * Type guard for algorithm version ids
+ */
+export function isAlgorithmVersion(value: unknown): value is AlgorithmVersion {
+  return typeof value === 'string' && value in SCORING_ALGORITHMS;
+}
+
+/**
+ * Parse an algorithm query parameter
+ * Format: "v2" to score with one version, or "v2,v1" to also score with a second version for comparison
+ */
+export function parseAlgorithmParam(param: string): AlgorithmParseResult {
+  const versions: AlgorithmVersion[] = [];
+  const errors: string[] = [];
+  const entries = param.split(',').map(entry => entry.trim()).filter(Boolean);
+
+  for (const entry of entries) {
+    if (!isAlgorithmVersion(entry)) {
+      errors.push(`Unknown algorithm "${entry}" (expected one of ${Object.keys(SCORING_ALGORITHMS).join(', ')})`);
+    } else if (versions.includes(entry)) {
+      errors.push(`Algorithm "${entry}" is listed twice`);
+    } else {
+      versions.push(entry);
+    }
+  }
+
+  if (entries.length === 0) {
+    errors.push('algorithm must name at least one version');
+  } else if (entries.length > 2) {
+    errors.push('algorithm can compare at most two versions');
+  }
+
+  return { versions, errors };
+}
+
+/**
+ * Compare the scores two algorithm versions gave the same inputs
+ */
+export function compareScores(baseline: SwimScore, candidate: SwimScore): AlgorithmComparison {
+  const factorDeltas = Object.fromEntries(
+    SCORE_FACTOR_KEYS.map(key => [key, Math.round((candidate.factors[key].score - baseline.factors[key].score) * 10) / 10])
+  ) as Record<ScoreFactorKey, number>;
+  const baselineCodes = baseline.advisories.map(advisory => advisory.code);
+  const candidateCodes = candidate.advisories.map(advisory => advisory.code);
+
+  return {
+    baseline: baseline.algorithmVersion,
+    candidate: candidate.algorithmVersion,
+    score: candidate,
+    scoreDelta: candidate.overallScore - baseline.overallScore,
+    ratingChanged: candidate.rating !== baseline.rating,
+    factorDeltas,
+    advisoriesAdded: candidateCodes.filter(code => !baselineCodes.includes(code)),
+    advisoriesRemoved: baselineCodes.filter(code => !candidateCodes.includes(code)),
+  };
+}
@@ -6,7 +6,7 @@
  */
 
 import axios from 'axios';
-import type { WaterQuality } from '@/types/conditions';
+import type { WaterQuality, EnterococcusSample } from '@/types/conditions';
 import { AQUATIC_PARK_LAT, AQUATIC_PARK_LON } from '@/config/aquatic-park';
 
 // SF Gov Beach Water Quality Monitoring (Primary source) - SODA API
@@ -387,6 +387,46 @@ export async function fetchWaterQuality(): Promise<WaterQuality | null> {
   }
 }
 
+/**
+ * Fetch the Enterococcus sample history for Aquatic Park and Hyde St Pier from SF Gov
+ * Used by the bacteria nowcast to learn how often and how persistently samples exceed the standard
+ *
+ * @param days Days of history to fetch
+ * @returns Samples sorted oldest first, or an empty array if the fetch fails
+ */
+export async function fetchEnterococcusHistory(days: number = 730): Promise<EnterococcusSample[]> {
+  try {
+    const response = await axios.get(SF_BEACH_WQ_API, {
+      params: {
+        $where: `(source like '%210%' OR source like '%211%') AND analyte = 'ENTERO' AND sample_date >= '${daysAgo(days).toISOString().slice(0, 19)}'`,
+        $order: 'sample_date ASC',
+        $limit: 2000,
+      },
+      timeout: 10000,
+    });
+
+    if (!Array.isArray(response.data)) {
+      return [];
+    }
+
+    return response.data
+      .filter((record: any) =>
+        (record.source === 'BAY#211_SL' || record.source === 'BAY#210.1_SL') &&
+        record.data !== null &&
+        record.data !== undefined &&
+        !isNaN(parseFloat(record.data))
+      )
+      .map((record: any) => ({
+        timestamp: new Date(record.sample_date),
+        count: parseFloat(record.data),
+        stationId: record.source,
+      }));
+  } catch (error) {
+    console.error('Error fetching Enterococcus history:', error);
+    return [];
+  }
+}
+
 /**
  * Fetch bacteria count data
  */
@@ -5,19 +5,30 @@
 
 import axios from 'axios';
 import { TIDE_STATION_ID, WAVE_BUOY_ID, AQUATIC_PARK_LAT, AQUATIC_PARK_LON, CURRENT_STATION_ID } from '@/config/aquatic-park';
-import type { TideData, TidePrediction, WeatherData, WaveData, CurrentData } from '@/types/conditions';
+import { SAFETY_THRESHOLDS } from '@/config/thresholds';
+import type { TideData, TidePrediction, WeatherData, WaveData, CurrentData, CurrentEvent } from '@/types/conditions';
+import { interpolateTideCurve, assessTidePhase, tideHeightAt } from '@/lib/algorithms/tide-curve';
+import { getStationHarmonics, predictTideCurve, predictTideExtremes } from '@/lib/algorithms/harmonic-tides';
+import { assessTideResidual, applyTideCorrection } from '@/lib/algorithms/tide-residual';
+import { classifyTideDay, parkDate } from '@/lib/algorithms/tide-cycle';
 
 const NOAA_TIDES_BASE_URL = 'https://api.tidesandcurrents.noaa.gov/api/prod/datagetter';
 const NOAA_WEATHER_BASE_URL = 'https://api.weather.gov';
 const NDBC_BASE_URL = 'https://www.ndbc.noaa.gov/data/realtime2';
 
+// Hours of water level observations compared with the prediction
+const RESIDUAL_HOURS = 6;
+
 /**
  * Fetch tide predictions for a given time range
+ * 'hilo' returns high and low tides only, '6' the height every 6 minutes.
+ * Falls back to offline harmonic predictions for stations with bundled constituents.
  */
 export async function fetchTidePredictions(
   startDate: Date,
   endDate: Date,
-  stationId: string = TIDE_STATION_ID
+  stationId: string = TIDE_STATION_ID,
+  interval: 'hilo' | '6' = 'hilo'
 ): Promise<TideData[]> {
   try {
     const startStr = formatNOAADate(startDate);
@@ -31,9 +42,9 @@ export async function fetchTidePredictions(
         end_date: endStr,
         datum: 'MLLW', // Mean Lower Low Water
         station: stationId,
-        time_zone: 'lst_ldt', // Local Standard Time / Local Daylight Time
+        time_zone: 'gmt', // Same time basis as the offline harmonic predictions
         units: 'english',
-        interval: 'hilo', // High and low tides only
+        interval,
         format: 'json',
       },
     });
@@ -43,58 +54,102 @@ export async function fetchTidePredictions(
     }
 
     return response.data.predictions.map((pred: any) => ({
-      timestamp: new Date(pred.t),
+      timestamp: parseNOAATime(pred.t),
       heightFeet: parseFloat(pred.v),
       type: pred.type === 'H' ? 'high' : pred.type === 'L' ? 'low' : 'normal',
       source: 'NOAA',
     }));
   } catch (error) {
     console.error('Error fetching tide predictions:', error);
+
+    // Predict offline from bundled harmonic constituents rather than go without tides
+    const harmonics = getStationHarmonics(stationId);
+    if (harmonics) {
+      console.warn(`Using offline harmonic tide predictions for station ${stationId}`);
+      return interval === '6'
+        ? predictTideCurve(startDate, endDate, harmonics)
+        : predictTideExtremes(startDate, endDate, harmonics);
+    }
+
     throw new Error(`Failed to fetch tide predictions: ${error instanceof Error ? error.message : 'Unknown error'}`);
   }
 }
 
 /**
- * Fetch current tide data (6-minute interval observations)
+ * Fetch the tide height curve at 6-minute intervals for a given time range
+ * Falls back to interpolating between high and low predictions when the curve is unavailable
  */
-export async function fetchCurrentTide(stationId: string = TIDE_STATION_ID): Promise<TideData | null> {
+export async function fetchTideCurve(
+  startDate: Date,
+  endDate: Date,
+  stationId: string = TIDE_STATION_ID
+): Promise<TideData[]> {
   try {
-    const now = new Date();
-    const oneHourAgo = new Date(now.getTime() - 60 * 60 * 1000);
+    return await fetchTidePredictions(startDate, endDate, stationId, '6');
+  } catch (error) {
+    console.warn('6-minute tide predictions unavailable, interpolating from highs and lows:', error);
+    // Widen the range so the turns either side of it are included
+    const padding = 8 * 60 * 60 * 1000;
+    const extremes = await fetchTidePredictions(
+      new Date(startDate.getTime() - padding),
+      new Date(endDate.getTime() + padding),
+      stationId
+    );
+    return interpolateTideCurve(extremes, startDate, endDate);
+  }
+}
 
+/**
+ * Fetch observed water levels (6-minute interval observations) for a given time range
+ */
+export async function fetchWaterLevels(
+  startDate: Date,
+  endDate: Date,
+  stationId: string = TIDE_STATION_ID
+): Promise<TideData[]> {
+  try {
     const response = await axios.get(NOAA_TIDES_BASE_URL, {
       params: {
         product: 'water_level',
         application: 'Swimmingly',
-        begin_date: formatNOAADate(oneHourAgo),
-        end_date: formatNOAADate(now),
+        begin_date: formatNOAADate(startDate),
+        end_date: formatNOAADate(endDate),
         datum: 'MLLW',
         station: stationId,
-        time_zone: 'lst_ldt',
+        time_zone: 'gmt',
         units: 'english',
         format: 'json',
       },
     });
 
-    if (!response.data?.data || response.data.data.length === 0) {
-      return null;
+    if (!response.data?.data) {
+      return [];
     }
 
-    // Get the most recent observation
-    const latest = response.data.data[response.data.data.length - 1];
-
-    return {
-      timestamp: new Date(latest.t),
-      heightFeet: parseFloat(latest.v),
-      type: 'normal',
-      source: 'NOAA',
-    };
+    return response.data.data
+      .filter((obs: any) => obs.v !== '' && obs.v != null)
+      .map((obs: any): TideData => ({
+        timestamp: parseNOAATime(obs.t),
+        heightFeet: parseFloat(obs.v),
+        type: 'normal',
+        source: 'NOAA',
+      }));
   } catch (error) {
-    console.error('Error fetching current tide:', error);
-    return null;
+    console.error('Error fetching water levels:', error);
+    return [];
   }
 }
 
+/**
+ * Fetch current tide data (the latest 6-minute observation)
+ */
+export async function fetchCurrentTide(stationId: string = TIDE_STATION_ID): Promise<TideData | null> {
+  const now = new Date();
+  const oneHourAgo = new Date(now.getTime() - 60 * 60 * 1000);
+  const observations = await fetchWaterLevels(oneHourAgo, now, stationId);
+  return observations[observations.length - 1] ?? null;
+}
+
 /**
  * Fetch current data (water flow/currents)
  */
@@ -112,7 +167,7 @@ export async function fetchCurrents(
         begin_date: formatNOAADate(oneHourAgo),
         end_date: formatNOAADate(now),
         station: stationId,
-        time_zone: 'lst_ldt',
+        time_zone: 'gmt',
         units: 'english',
         format: 'json',
       },
@@ -134,7 +189,7 @@ export async function fetchCurrents(
         : parseInt(latest.meanEbbDir, 10);
 
     return {
-      timestamp: new Date(latest.Time),
+      timestamp: parseNOAATime(latest.Time),
       speedKnots,
       direction,
       lat: AQUATIC_PARK_LAT,
@@ -147,6 +202,53 @@ export async function fetchCurrents(
   }
 }
 
+/**
+ * Fetch slack and maximum flood/ebb current predictions for a given time range
+ */
+export async function fetchCurrentPredictions(
+  startDate: Date,
+  endDate: Date,
+  stationId: string = CURRENT_STATION_ID
+): Promise<CurrentEvent[]> {
+  try {
+    const response = await axios.get(NOAA_TIDES_BASE_URL, {
+      params: {
+        product: 'currents_predictions',
+        application: 'Swimmingly',
+        begin_date: formatNOAADate(startDate),
+        end_date: formatNOAADate(endDate),
+        station: stationId,
+        time_zone: 'gmt',
+        interval: 'MAX_SLACK', // Slack and maximum flood/ebb only
+        units: 'english',
+        format: 'json',
+      },
+    });
+
+    const predictions = response.data?.current_predictions?.cp;
+    if (!predictions) {
+      throw new Error('No current predictions data received from NOAA');
+    }
+
+    return predictions.map((pred: any): CurrentEvent => {
+      const type: CurrentEvent['type'] = pred.Type === 'flood' || pred.Type === 'ebb' ? pred.Type : 'slack';
+      return {
+        timestamp: parseNOAATime(pred.Time),
+        type,
+        speedKnots: Math.abs(parseFloat(pred.Velocity_Major)),
+        direction: type === 'flood'
+          ? parseInt(pred.meanFloodDir, 10)
+          : type === 'ebb'
+          ? parseInt(pred.meanEbbDir, 10)
+          : undefined,
+      };
+    });
+  } catch (error) {
+    console.error('Error fetching current predictions:', error);
+    throw new Error(`Failed to fetch current predictions: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
 /**
  * Fetch weather forecast from NOAA National Weather Service
  */
@@ -347,54 +449,59 @@ export async function fetchWaveData(buoyId: string = WAVE_BUOY_ID): Promise<Wave
 
 /**
  * Calculate tide prediction with phase information
+ * Phase, rate and the next turns come from the 6-minute prediction curve at this moment,
+ * corrected by how far observed water levels have been running from it
  */
 export async function fetchCurrentTidePrediction(): Promise<TidePrediction | null> {
   try {
     const now = new Date();
-    const tomorrow = new Date(now.getTime() + 24 * 60 * 60 * 1000);
-
-    const [currentTide, predictions] = await Promise.all([
-      fetchCurrentTide(),
-      fetchTidePredictions(now, tomorrow),
+    // From the hours of observations compared with the prediction (which also finds the start
+    // of a slack already under way) to just over a tidal day ahead, to find both the next high and low
+    const observedFrom = new Date(now.getTime() - RESIDUAL_HOURS * 60 * 60 * 1000);
+    const curveEnd = new Date(now.getTime() + 26 * 60 * 60 * 1000);
+
+    // Today's highs and lows classify the day in the spring/neap cycle
+    const [observations, predictedCurve, extremes] = await Promise.all([
+      fetchWaterLevels(observedFrom, now),
+      fetchTideCurve(observedFrom, curveEnd),
+      fetchTidePredictions(new Date(now.getTime() - 24 * 60 * 60 * 1000), new Date(now.getTime() + 24 * 60 * 60 * 1000))
+        .catch(() => [] as TideData[]),
     ]);
 
-    if (!currentTide || !predictions || predictions.length === 0) {
+    const residual = assessTideResidual(observations, predictedCurve, SAFETY_THRESHOLDS.tide, now);
+    const curve = residual ? applyTideCorrection(predictedCurve, residual) : predictedCurve;
+
+    const phase = assessTidePhase(curve, now, SAFETY_THRESHOLDS.tide.slackWindow);
+    if (!phase) {
       return null;
     }
 
-    // Find next high and low tides
-    const futureTides = predictions.filter(p => p.timestamp > now);
-    const nextHigh = futureTides.find(p => p.type === 'high');
-    const nextLow = futureTides.find(p => p.type === 'low');
-
-    // Determine current phase
-    let currentPhase: 'flood' | 'ebb' | 'slack' = 'slack';
-    let changeRate = 0;
-
-    if (nextHigh && nextLow) {
-      const timeToHigh = nextHigh.timestamp.getTime() - now.getTime();
-      const timeToLow = nextLow.timestamp.getTime() - now.getTime();
-
-      if (timeToHigh < timeToLow) {
-        currentPhase = 'flood'; // Rising tide
-        changeRate = (nextHigh.heightFeet - currentTide.heightFeet) / (timeToHigh / (1000 * 60 * 60));
-      } else {
-        currentPhase = 'ebb'; // Falling tide
-        changeRate = (currentTide.heightFeet - nextLow.heightFeet) / (timeToLow / (1000 * 60 * 60));
-      }
-
-      // If change rate is very low, consider it slack
-      if (Math.abs(changeRate) < 0.5) {
-        currentPhase = 'slack';
-      }
+    // Without an observation, use the predicted height
+    const predictedHeight = tideHeightAt(curve, now);
+    const tide: TideData | null = observations[observations.length - 1] ?? (predictedHeight !== null
+      ? {
+          timestamp: now,
+          heightFeet: Math.round(predictedHeight * 1000) / 1000,
+          type: 'normal',
+          source: curve[0].source,
+        }
+      : null);
+    if (!tide) {
+      return null;
     }
 
+    const today = parkDate(now);
+    const tideCycle = classifyTideDay(
+      today,
+      extremes.filter(extreme => parkDate(extreme.timestamp) === today),
+      SAFETY_THRESHOLDS.tide
+    );
+
     return {
-      ...currentTide,
-      nextHigh,
-      nextLow,
-      currentPhase,
-      changeRateFeetPerHour: changeRate,
+      ...tide,
+      ...phase,
+      residual: residual ?? undefined,
+      tideCycle: tideCycle ?? undefined,
     };
   } catch (error) {
     console.error('Error calculating tide prediction:', error);
@@ -404,15 +511,21 @@ export async function fetchCurrentTidePrediction(): Promise<TidePrediction | nul
 
 // Utility functions
 
+// CO-OPS dates and times are requested and returned in GMT, whatever the server's time zone
 function formatNOAADate(date: Date): string {
-  const year = date.getFullYear();
-  const month = String(date.getMonth() + 1).padStart(2, '0');
-  const day = String(date.getDate()).padStart(2, '0');
-  const hour = String(date.getHours()).padStart(2, '0');
-  const minute = String(date.getMinutes()).padStart(2, '0');
+  const year = date.getUTCFullYear();
+  const month = String(date.getUTCMonth() + 1).padStart(2, '0');
+  const day = String(date.getUTCDate()).padStart(2, '0');
+  const hour = String(date.getUTCHours()).padStart(2, '0');
+  const minute = String(date.getUTCMinutes()).padStart(2, '0');
   return `${year}${month}${day} ${hour}:${minute}`;
 }
 
+// e.g. "2026-01-15 23:47" in GMT
+function parseNOAATime(time: string): Date {
+  return new Date(`${time.replace(' ', 'T')}Z`);
+}
+
 function parseWindSpeed(windSpeedStr: string): number {
   // Wind speed format: "10 mph" or "10 to 15 mph"
   const match = windSpeedStr.match(/(\d+)/);
@@ -1,13 +1,15 @@
 /**
  * Open-Meteo API Client
- * Provides real-time wind data for Aquatic Park
+ * Provides real-time wind and rainfall data for Aquatic Park
  *
  * API Docs: https://open-meteo.com/en/docs
  * No API key required - completely free for non-commercial use
  */
 
 import axios from 'axios';
+import type { PrecipitationData } from '@/types/conditions';
 import { AQUATIC_PARK_LAT, AQUATIC_PARK_LON } from '@/config/aquatic-park';
+import { SAFETY_THRESHOLDS } from '@/config/thresholds';
 
 const OPEN_METEO_BASE_URL = 'https://api.open-meteo.com/v1/forecast';
 
@@ -126,3 +128,80 @@ export async function fetchWindForecast(hours: number = 48): Promise<OpenMeteoWi
     return null;
   }
 }
+
+/**
+ * Fetch rainfall history and forecast for Aquatic Park
+ * Used for the first-flush runoff advisory - storm drains carry bacteria into the bay after rain
+ *
+ * @param firstFlushInches Rolling 24-hour total that counts as significant rain
+ * @param pastDays Days of history to fetch (covers the 72-hour advisory window by default)
+ * @returns Precipitation summary or null if fetch fails
+ */
+export async function fetchPrecipitation(
+  firstFlushInches: number = SAFETY_THRESHOLDS.rainfall.firstFlushInches,
+  pastDays: number = 4
+): Promise<PrecipitationData | null> {
+  try {
+    const response = await axios.get(OPEN_METEO_BASE_URL, {
+      params: {
+        latitude: AQUATIC_PARK_LAT,
+        longitude: AQUATIC_PARK_LON,
+        hourly: 'precipitation',
+        precipitation_unit: 'inch',
+        timeformat: 'unixtime',
+        past_days: pastDays,
+        forecast_days: 2,
+      },
+      timeout: 5000,
+    });
+
+    const hourly = response.data?.hourly;
+
+    if (!hourly || !Array.isArray(hourly.time) || !Array.isArray(hourly.precipitation)) {
+      console.warn('Open-Meteo: Missing hourly precipitation data');
+      return null;
+    }
+
+    const now = Date.now();
+    const hours: Array<{ time: number; inches: number }> = hourly.time.map((time: number, i: number) => ({
+      time: time * 1000,
+      inches: Number(hourly.precipitation[i]) || 0,
+    }));
+
+    const history = hours.filter(hour => hour.time <= now);
+    const sumSince = (hoursBack: number) => history
+      .filter(hour => hour.time > now - hoursBack * 60 * 60 * 1000)
+      .reduce((sum, hour) => sum + hour.inches, 0);
+    const next24hInches = hours
+      .filter(hour => hour.time > now && hour.time <= now + 24 * 60 * 60 * 1000)
+      .reduce((sum, hour) => sum + hour.inches, 0);
+
+    // Rolling 24h totals - find the latest hour of rain once significant rain had fallen
+    let lastSignificantRainAt: Date | undefined;
+    for (let i = 0; i < history.length; i++) {
+      const rolling = history
+        .slice(Math.max(0, i - 23), i + 1)
+        .reduce((sum, hour) => sum + hour.inches, 0);
+      if (rolling >= firstFlushInches && history[i].inches > 0) {
+        lastSignificantRainAt = new Date(history[i].time);
+      }
+    }
+
+    return {
+      timestamp: new Date(history.length > 0 ? history[history.length - 1].time : now),
+      last24hInches: round2(sumSince(24)),
+      last48hInches: round2(sumSince(48)),
+      last72hInches: round2(sumSince(72)),
+      next24hInches: round2(next24hInches),
+      lastSignificantRainAt,
+      source: 'open-meteo',
+    };
+  } catch (error) {
+    console.error('Error fetching Open-Meteo precipitation:', error);
+    return null;
+  }
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
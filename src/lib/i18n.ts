@@ -0,0 +1,148 @@
+/**
+ * Localisation
+ * Locale negotiation, message lookup and unit-aware number formatting
+ *
+ * Values are stored in imperial units throughout; they are converted only when formatted for
+ * a locale that reads metric.
+ */
+
+import type { Locale } from '@/types/conditions';
+import { DEFAULT_LOCALE, LOCALES, MESSAGES, isLocale } from '@/config/locales';
+import type { MessageKey } from '@/config/messages/en';
+
+export type MessageParams = Record<string, string | number>;
+
+export type QuantityKind = 'temperature' | 'height' | 'distance' | 'windSpeed' | 'rain' | 'flow' | 'volume';
+
+interface UnitConversion {
+  imperial: string;
+  metric: string;
+  toMetric: (value: number) => number;
+  grouping?: boolean; // Thousands separators (large flows and volumes)
+  compact?: boolean;  // No space between the number and the unit (°F, °C)
+}
+
+const CONVERSIONS: Record<QuantityKind, UnitConversion> = {
+  temperature: { imperial: '°F', metric: '°C', toMetric: f => (f - 32) * 5 / 9, compact: true },
+  height: { imperial: 'ft', metric: 'm', toMetric: ft => ft * 0.3048 },
+  distance: { imperial: 'mi', metric: 'km', toMetric: mi => mi * 1.609344 },
+  windSpeed: { imperial: 'mph', metric: 'km/h', toMetric: mph => mph * 1.609344 },
+  rain: { imperial: 'in', metric: 'mm', toMetric: inches => inches * 25.4 },
+  flow: { imperial: 'CFS', metric: 'm³/s', toMetric: cfs => cfs * 0.0283168, grouping: true },
+  volume: { imperial: 'gal', metric: 'm³', toMetric: gal => gal * 0.00378541, grouping: true },
+};
+
+/**
+ * Match a language tag (e.g. "es-MX") to a supported locale
+ */
+export function matchLocale(tag: string | null | undefined): Locale | null {
+  if (!tag) return null;
+  const language = tag.trim().toLowerCase().split(/[-_]/)[0];
+  return isLocale(language) ? language : null;
+}
+
+/**
+ * Pick the best supported locale from an Accept-Language header, honouring q-values
+ */
+export function negotiateLocale(acceptLanguage: string | null | undefined): Locale {
+  if (!acceptLanguage) return DEFAULT_LOCALE;
+
+  const ranked = acceptLanguage
+    .split(',')
+    .map((entry, index) => {
+      const [tag, ...options] = entry.split(';');
+      const quality = options
+        .map(option => option.trim().match(/^q=([\d.]+)$/)?.[1])
+        .find(value => value !== undefined);
+      return { tag, quality: quality !== undefined ? parseFloat(quality) : 1, index };
+    })
+    .filter(entry => entry.quality > 0)
+    .sort((a, b) => b.quality - a.quality || a.index - b.index);
+
+  for (const entry of ranked) {
+    const locale = matchLocale(entry.tag);
+    if (locale) return locale;
+  }
+  return DEFAULT_LOCALE;
+}
+
+/**
+ * Look up a message and fill its {name} placeholders
+ */
+export function translate(locale: Locale, key: MessageKey, params: MessageParams = {}): string {
+  const template = MESSAGES[locale][key] ?? MESSAGES[DEFAULT_LOCALE][key];
+  return template.replace(/\{(\w+)\}/g, (match, name: string) =>
+    params[name] !== undefined ? String(params[name]) : match
+  );
+}
+
+/**
+ * Translate a status or category value such as 'calm' or 'dense-fog'
+ * Values without a translation are shown as they are
+ */
+export function translateValue(locale: Locale, value: string): string {
+  const key = `value.${value}` as MessageKey;
+  return MESSAGES[locale][key] ?? MESSAGES[DEFAULT_LOCALE][key] ?? value;
+}
+
+/**
+ * Format a number with a fixed number of decimals (like toFixed, with the locale's separators)
+ */
+export function formatNumber(value: number, locale: Locale, digits: number = 0, grouping: boolean = false): string {
+  return new Intl.NumberFormat(LOCALES[locale].intlTag, {
+    minimumFractionDigits: digits,
+    maximumFractionDigits: digits,
+    useGrouping: grouping,
+  }).format(value);
+}
+
+/**
+ * Convert an imperial value to the locale's units
+ */
+export function toLocalUnits(value: number, kind: QuantityKind, locale: Locale): { value: number; unit: string } {
+  const conversion = CONVERSIONS[kind];
+  return LOCALES[locale].units === 'metric'
+    ? { value: conversion.toMetric(value), unit: conversion.metric }
+    : { value, unit: conversion.imperial };
+}
+
+/**
+ * Format an imperial value in the locale's units, e.g. "52.3°F" or "11.3°C"
+ */
+export function formatQuantity(value: number, kind: QuantityKind, locale: Locale, digits: number = 1): string {
+  const local = toLocalUnits(value, kind, locale);
+  const number = formatNumber(local.value, locale, digits, CONVERSIONS[kind].grouping);
+  return CONVERSIONS[kind].compact ? `${number}${local.unit}` : `${number} ${local.unit}`;
+}
+
+/**
+ * Format a difference between two imperial values in the locale's units, e.g. "3 mph" or "1.7°C"
+ * Temperature differences scale without the 32° offset
+ */
+export function formatQuantityChange(change: number, kind: QuantityKind, locale: Locale, digits: number = 1): string {
+  const conversion = CONVERSIONS[kind];
+  const local = LOCALES[locale].units === 'metric'
+    ? conversion.toMetric(change) - conversion.toMetric(0)
+    : change;
+  const number = formatNumber(local, locale, digits, conversion.grouping);
+  const unit = LOCALES[locale].units === 'metric' ? conversion.metric : conversion.imperial;
+  return conversion.compact ? `${number}${unit}` : `${number} ${unit}`;
+}
+
+/**
+ * Format a current speed - knots in every locale
+ */
+export function formatKnots(value: number, locale: Locale, digits: number = 1): string {
+  return `${formatNumber(value, locale, digits)} ${translate(locale, 'unit.kt')}`;
+}
+
+/**
+ * Format a time of day at the park, e.g. "6:52 AM" or "18:52"
+ */
+export function formatParkTime(date: Date | string, locale: Locale = DEFAULT_LOCALE): string {
+  return new Date(date).toLocaleTimeString(LOCALES[locale].intlTag, {
+    timeZone: 'America/Los_Angeles',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+}
@@ -4,12 +4,18 @@
  * without HTTP overhead
  */
 
-import type { CurrentConditions, TidePhaseType, TidePhasePreferences } from '@/types/conditions';
+import type { CurrentConditions, TidePhaseType, TidePhasePreferences, WaterQuality } from '@/types/conditions';
 import { fetchCurrentTidePrediction, fetchCurrentWeather, fetchWaveData, fetchCurrents } from '@/lib/api/noaa';
-import { fetchWaterQuality } from '@/lib/api/beachwatch';
+import { fetchWaterQuality, fetchEnterococcusHistory } from '@/lib/api/beachwatch';
 import { fetchRecentSSOs } from '@/lib/api/sfpuc';
 import { calculateSwimScore } from '@/lib/algorithms/swim-score';
-import { fetchWindData } from '@/lib/api/open-meteo';
+import { calculateBacteriaNowcast } from '@/lib/algorithms/bacteria-nowcast';
+import { assessSSOImpact } from '@/lib/algorithms/sso-impact';
+import { calculateDaylight } from '@/lib/algorithms/solar';
+import { assessColdExposure } from '@/lib/algorithms/cold-exposure';
+import { DEFAULT_EXPOSURE_PROFILE } from '@/config/profiles';
+import { SAFETY_THRESHOLDS } from '@/config/thresholds';
+import { fetchWindData, fetchPrecipitation } from '@/lib/api/open-meteo';
 import { fetchDamReleases } from '@/lib/api/cdec';
 import { fetchOpenWaterLogWaveData } from '@/lib/api/openwaterlog';
 import { fetchWaterTemperature } from '@/lib/api/seatemperature';
@@ -52,7 +58,9 @@ export async function fetchStaticData(tidePhasePreference?: TidePhaseType): Prom
     };
 
     // Fetch all data sources in parallel
-    const [tide, current, weather, waves, waterQuality, recentSSOs, windData, damReleases, waterTemp] = await Promise.allSettled([
+    const [
+      tide, current, weather, waves, waterQuality, recentSSOs, windData, damReleases, waterTemp, precipitation, bacteriaHistory,
+    ] = await Promise.allSettled([
       fetchCurrentTidePrediction(),
       fetchCurrents(),
       fetchCurrentWeather(),
@@ -62,6 +70,8 @@ export async function fetchStaticData(tidePhasePreference?: TidePhaseType): Prom
       fetchWindData(),
       fetchDamReleases(),
       fetchWaterTemperature(),
+      fetchPrecipitation(),
+      fetchEnterococcusHistory(),
     ]);
 
     // Extract successful results or use fallbacks
@@ -74,6 +84,8 @@ export async function fetchStaticData(tidePhasePreference?: TidePhaseType): Prom
     const windDataResult = windData.status === 'fulfilled' ? windData.value : null;
     const damReleasesData = damReleases.status === 'fulfilled' ? damReleases.value : null;
     const waterTempData = waterTemp.status === 'fulfilled' ? waterTemp.value : null;
+    const precipitationData = precipitation.status === 'fulfilled' ? precipitation.value : null;
+    const bacteriaHistoryData = bacteriaHistory.status === 'fulfilled' ? bacteriaHistory.value : [];
 
     // Check if we have minimum required data (tide is critical)
     if (!tideData) {
@@ -117,12 +129,28 @@ export async function fetchStaticData(tidePhasePreference?: TidePhaseType): Prom
       source: 'unavailable',
     };
 
-    const waterQualityWithFallback = waterQualityData || {
+    const waterQualityWithFallback: WaterQuality = waterQualityData || {
       timestamp: now,
       status: 'safe' as const,
       source: 'unavailable',
     };
 
+    // Bacteria nowcast for the days between weekly samples
+    waterQualityWithFallback.nowcast = calculateBacteriaNowcast(
+      {
+        history: bacteriaHistoryData,
+        waterQuality: waterQualityData,
+        precipitation: precipitationData,
+        tide: tideData,
+        ssoImpact: assessSSOImpact(ssoData, SAFETY_THRESHOLDS)?.impact ?? 0,
+      },
+      SAFETY_THRESHOLDS,
+      now
+    );
+
+    // Sunrise, sunset and twilight for the park - computed offline
+    const daylight = calculateDaylight(now);
+
     // Calculate current from tide if actual current data is unavailable
     const currentWithFallback = currentData || calculateCurrentFromTide(tideData, now);
 
@@ -135,7 +163,18 @@ export async function fetchStaticData(tidePhasePreference?: TidePhaseType): Prom
       waterQualityWithFallback,
       ssoData,
       damReleasesData,
-      customTidePreferences
+      waterTempData,
+      precipitationData,
+      { tidePreferences: customTidePreferences, daylight }
+    );
+
+    // Recommended swim duration and exit feel for the default swimmer
+    const coldExposure = assessColdExposure(
+      waterTempData,
+      weatherWithFallback.source === 'unavailable' ? null : weatherWithFallback,
+      DEFAULT_EXPOSURE_PROFILE,
+      SAFETY_THRESHOLDS,
+      now
     );
 
     // Construct response with fallbacks for missing data
@@ -148,6 +187,9 @@ export async function fetchStaticData(tidePhasePreference?: TidePhaseType): Prom
       waves: wavesWithFallback,
       waterQuality: waterQualityWithFallback,
       waterTemperature: waterTempData || undefined,
+      precipitation: precipitationData || undefined,
+      daylight,
+      coldExposure: coldExposure || undefined,
       recentSSOs: ssoData,
       damReleases: damReleasesData || undefined,
       dataFreshness: {
@@ -156,6 +198,7 @@ export async function fetchStaticData(tidePhasePreference?: TidePhaseType): Prom
         waves: waveData?.timestamp || now,
         waterQuality: waterQualityData?.timestamp || now,
         waterTemperature: waterTempData?.timestamp || undefined,
+        precipitation: precipitationData?.timestamp || undefined,
         sso: ssoData.length > 0 ? ssoData[0].reportedAt : now,
         damReleases: damReleasesData?.timestamp || undefined,
       },
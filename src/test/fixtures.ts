@@ -0,0 +1,103 @@
+/**
+ * Test fixtures
+ * A complete set of score inputs, as /api/conditions would gather them on a calm morning
+ */
+
+import type { ScoreInputs } from '@/types/conditions';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+// Mid-morning at the park, so the score doesn't depend on when tests run
+export const FIXTURE_TIME = new Date('2026-07-15T17:00:00Z');
+
+export function scoreInputs(now: Date = FIXTURE_TIME): ScoreInputs {
+  return {
+    tide: {
+      timestamp: now,
+      heightFeet: 3.1,
+      type: 'normal',
+      source: 'NOAA',
+      currentPhase: 'flood',
+      changeRateFeetPerHour: 0.6,
+      nextHigh: { timestamp: new Date(now.getTime() + 2 * HOUR_MS), heightFeet: 5.4, type: 'high' },
+      nextLow: { timestamp: new Date(now.getTime() + 8 * HOUR_MS), heightFeet: 0.2, type: 'low' },
+      slackWindow: { start: new Date(now.getTime() + 90 * 60 * 1000), end: new Date(now.getTime() + 150 * 60 * 1000) },
+      residual: {
+        residualFeet: 0.2,
+        trendFeetPerHour: 0,
+        maxResidualFeet: 0.25,
+        offsetFeet: 0.2,
+        lagMinutes: 0,
+        status: 'normal',
+        history: [{ timestamp: new Date(now.getTime() - HOUR_MS), residualFeet: 0.2 }],
+      },
+      tideCycle: {
+        date: '2026-07-15',
+        cycle: 'moderate',
+        rangeFeet: 5.6,
+        highFeet: 5.4,
+        lowFeet: -0.2,
+        moonPhase: 'waxing-crescent',
+        moonAgeDays: 2.5,
+      },
+    },
+    current: { timestamp: now, speedKnots: 0.4, direction: 90, lat: 37.8, lon: -122.42, source: 'NOAA' },
+    weather: {
+      timestamp: now,
+      temperatureF: 62,
+      windSpeedMph: 6,
+      windDirection: 270,
+      windGustMph: 9,
+      visibilityMiles: 10,
+      conditions: 'clear',
+      source: 'NOAA-NWS',
+    },
+    waves: { timestamp: now, waveHeightFeet: 1.2, swellPeriodSeconds: 9, swellDirection: 280, source: 'NOAA' },
+    waterQuality: { timestamp: new Date(now.getTime() - 2 * DAY_MS), status: 'safe', enterococcusCount: 20, source: 'BeachWatch' },
+    recentSSOs: [
+      {
+        id: 'sso-1',
+        reportedAt: new Date(now.getTime() - 2 * DAY_MS),
+        location: 'Beach St',
+        volumeGallons: 1200,
+        resolved: true,
+        resolvedAt: new Date(now.getTime() - DAY_MS),
+        distanceFromParkMiles: 1.5,
+        source: 'SFPUC',
+      },
+    ],
+    damReleases: {
+      timestamp: now,
+      current: { totalFlowCFS: 12000, releaseLevel: 'low' },
+      historical48h: {
+        averageFlowCFS: 11000,
+        peakFlowCFS: 13000,
+        peakTimestamp: new Date(now.getTime() - 6 * HOUR_MS),
+        trendDirection: 'stable',
+        last24hAverage: 11500,
+        last48hAverage: 11000,
+        dataPointsCount: 48,
+      },
+      dams: [
+        {
+          name: 'Shasta',
+          stationId: 'SHA',
+          current: { flowCFS: 8000, timestamp: now, percentOfTotal: 66.7 },
+          historical48h: { averageFlowCFS: 7500, peakFlowCFS: 8500, dataPoints: 48 },
+        },
+      ],
+      latestDataTimestamp: now,
+      source: 'CDEC',
+    },
+    waterTemperature: { timestamp: now, temperatureF: 58, source: 'NOAA' },
+    precipitation: {
+      timestamp: now,
+      last24hInches: 0,
+      last48hInches: 0,
+      last72hInches: 0,
+      next24hInches: 0,
+      source: 'Open-Meteo',
+    },
+  };
+}
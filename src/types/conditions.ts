@@ -23,7 +23,49 @@ export interface TidePrediction extends TideData {
   nextHigh?: TideData;
   nextLow?: TideData;
   currentPhase: 'flood' | 'ebb' | 'slack';
-  changeRateFeetPerHour: number;
+  changeRateFeetPerHour: number;           // Instantaneous rate, positive while rising
+  slackWindow?: { start: Date; end: Date }; // Slack water in progress, or the next one
+  residual?: TideResidual;                  // Observed vs predicted water level
+  tideCycle?: TideCycleDay;                 // Today's place in the spring/neap cycle
+}
+
+/**
+ * How far the observed water level is running from the tide prediction
+ * Phase, rate and the next turns are corrected by the offset and lag
+ */
+export interface TideResidual {
+  residualFeet: number;       // Observed minus predicted, averaged over the last hour
+  trendFeetPerHour: number;   // How fast the residual is changing
+  maxResidualFeet: number;    // Largest residual over the tracked hours (signed)
+  offsetFeet: number;         // Height correction applied to the prediction
+  lagMinutes: number;         // Timing correction - positive when the tide runs late
+  status: 'normal' | 'anomaly' | 'surge';
+  history: Array<{ timestamp: Date; residualFeet: number }>;
+}
+
+export type TideCycle = 'king' | 'spring' | 'moderate' | 'neap';
+
+export type MoonPhase =
+  | 'new-moon'
+  | 'waxing-crescent'
+  | 'first-quarter'
+  | 'waxing-gibbous'
+  | 'full-moon'
+  | 'waning-gibbous'
+  | 'last-quarter'
+  | 'waning-crescent';
+
+/**
+ * A day classified by its predicted tidal range, with the moon phase driving it
+ */
+export interface TideCycleDay {
+  date: string;          // Date at the park (YYYY-MM-DD)
+  cycle: TideCycle;
+  rangeFeet: number;     // Highest high minus lowest low over the day
+  highFeet: number;
+  lowFeet: number;
+  moonPhase: MoonPhase;
+  moonAgeDays: number;   // Days since new moon
 }
 
 export interface CurrentData {
@@ -35,6 +77,30 @@ export interface CurrentData {
   source?: string;
 }
 
+/**
+ * A predicted slack or maximum flood/ebb current (NOAA MAX_SLACK predictions)
+ */
+export interface CurrentEvent {
+  timestamp: Date;
+  type: 'slack' | 'flood' | 'ebb';
+  speedKnots: number;
+  direction?: number; // degrees, for flood and ebb
+}
+
+/**
+ * The period around a slack current when the current is slow enough to swim
+ */
+export interface SlackWindow {
+  slackAt: Date;
+  start: Date;
+  end: Date;
+  durationMinutes: number;
+  from: 'flood' | 'ebb';          // Current turning at this slack
+  to: 'flood' | 'ebb';
+  peakBefore: CurrentEvent;       // Strongest flow either side of the slack
+  peakAfter: CurrentEvent;
+}
+
 export interface WeatherData {
   timestamp: Date;
   temperatureF: number;
@@ -65,6 +131,32 @@ export interface WaterQuality {
   notes?: string;
   source?: string;
   stationId?: string; // e.g., BAY#211_SL, BAY#210.1_SL
+  nowcast?: BacteriaNowcast; // Modelled estimate for today, between weekly samples
+}
+
+export interface EnterococcusSample {
+  timestamp: Date;
+  count: number; // MPN/100ml
+  stationId: string;
+}
+
+/**
+ * Modelled probability that today's Enterococcus exceeds the single-sample standard
+ */
+export interface BacteriaNowcast {
+  timestamp: Date;
+  probability: number;      // 0-1
+  level: 'low' | 'moderate' | 'high';
+  thresholdMPN: number;     // Standard the probability refers to
+  inputs: {
+    rain72hInches?: number;
+    tideRangeFeet?: number;
+    ssoImpact: number;
+    lastSampleCount?: number;
+    lastSampleAgeDays?: number;
+    historicalExceedanceRate: number;
+    samplesUsed: number;
+  };
 }
 
 export interface SSOEvent {
@@ -85,6 +177,31 @@ export interface WaterTemperature {
   source: string;
 }
 
+export interface PrecipitationData {
+  timestamp: Date;
+  last24hInches: number;
+  last48hInches: number;
+  last72hInches: number;
+  next24hInches: number;             // Forecast
+  lastSignificantRainAt?: Date;      // Latest hour the rolling 24h total reached the first flush amount
+  source: string;
+}
+
+/**
+ * Sun position for the park, computed offline
+ * Event times are null when the sun doesn't rise or set that day
+ */
+export interface DaylightInfo {
+  timestamp: Date;
+  period: DaylightPeriod;
+  sunElevation: number; // Degrees above the horizon (negative below)
+  civilDawn: Date | null;
+  sunrise: Date | null;
+  solarNoon: Date;
+  sunset: Date | null;
+  civilDusk: Date | null;
+}
+
 export interface DamReleaseData {
   timestamp: Date;
 
@@ -124,6 +241,31 @@ export interface DamReleaseData {
   source?: string;
 }
 
+/**
+ * What the swimmer wears and how used to cold water they are
+ */
+export interface ExposureProfile {
+  suit: SuitType;
+  cap: CapType;
+  acclimatisation: AcclimatisationLevel;
+}
+
+/**
+ * Recommended swim duration and how cold the exit will feel
+ */
+export interface ColdExposure {
+  timestamp: Date;
+  maxSwimMinutes: number;
+  risk: 'low' | 'moderate' | 'high' | 'extreme';
+  waterTempF: number;
+  airTempF: number;
+  windSpeedMph: number;
+  exitFeelF: number; // Wind chill on wet skin once out of the water
+  exitFeel: 'mild' | 'chilly' | 'cold' | 'bitter';
+  exposure: ExposureProfile;
+  advice: string[];
+}
+
 export interface SwimScoreFactors {
   waterQuality: {
     score: number; // 0-100
@@ -131,6 +273,11 @@ export interface SwimScoreFactors {
     bacteriaLevel: string;
     recentSSO: boolean;
     daysSinceSSO?: number;
+    ssoImpact: number;          // 0-1, impact of the most significant sewer overflow
+    ssoDistanceMiles?: number;
+    runoffAdvisory: boolean;    // Significant rain within the advisory window (first flush)
+    hoursSinceRain?: number;
+    forecastRainInches?: number; // Next 24 hours
     issues: string[];
   };
   tideAndCurrent: {
@@ -138,12 +285,21 @@ export interface SwimScoreFactors {
     phase: 'slack' | 'flood' | 'ebb';
     currentSpeed: number;
     tideHeight: number;
+    residualFeet?: number;    // Observed minus predicted water level, when both are known
+    surge?: TideResidual['status'];
+    cycle?: TideCycle;        // Spring/neap classification of today's tides
     favorable: boolean;
     issues: string[];
   };
   waves: {
     score: number; // 0-100
-    heightFeet: number;
+    heightFeet: number;           // Height reported by the source
+    effectiveHeightFeet: number;  // Height adjusted for swell period and cove exposure (used for scoring)
+    periodSeconds?: number;
+    direction?: number;           // Degrees the swell comes from
+    swellType: 'wind-chop' | 'mixed' | 'groundswell' | 'long-period' | 'unknown';
+    exposure: number;             // 0-1, share of the swell that reaches the cove
+    exposureSector: 'golden-gate' | 'northwest' | 'southwest' | 'blocked' | 'unknown'; // Sector the swell comes through
     status: 'calm' | 'moderate' | 'rough' | 'dangerous';
     issues: string[];
   };
@@ -161,26 +317,233 @@ export interface SwimScoreFactors {
     topContributor: string;  // Name of dam with highest flow
     issues: string[];
   };
+  waterTemperature: {
+    score: number; // 0-100
+    temperatureF?: number;
+    condition: 'cold-shock' | 'cold' | 'cool' | 'moderate' | 'comfortable' | 'unknown';
+    wetsuitRecommended: boolean;
+    issues: string[];
+  };
+  visibility: {
+    score: number; // 0-100
+    visibilityMiles?: number;
+    condition: 'dense-fog' | 'fog' | 'haze' | 'clear' | 'unknown';
+    daylight: DaylightPeriod;
+    issues: string[];
+  };
+}
+
+export type ScoreFactorKey = keyof SwimScoreFactors;
+
+/**
+ * Weight given to each factor in the overall score (normalised to sum to 100)
+ */
+export type FactorWeights = Record<ScoreFactorKey, number>;
+
+/**
+ * How one factor contributed to the weighted score
+ */
+export interface ScoreContribution {
+  factor: ScoreFactorKey;
+  rawScore: number;     // Factor score 0-100
+  weight: number;       // Effective weight (weights sum to 100)
+  contribution: number; // rawScore × weight / 100, in overall score points
+}
+
+/**
+ * A cap that lowered the overall score
+ */
+export interface AppliedCap {
+  id: string;           // e.g. 'current.veryStrong'
+  factor: ScoreFactorKey;
+  cap: number;          // Maximum overall score allowed by this cap
+  scoreBefore: number;
+  scoreAfter: number;
+  condition: string;    // Human-readable trigger, e.g. 'Current speed ≥ 2.0 kt'
+  observed?: number;    // Observed value that triggered the cap
+  threshold?: number;   // Threshold the observed value crossed
+  unit?: string;
+}
+
+/**
+ * A declarative scoring rule (src/config/rules.ts) that fired
+ */
+export interface FiredRule {
+  id: string;
+  severity: AdvisorySeverity;
+  messageCode?: string;
+  message?: string;     // Rendered message, added to recommendations or warnings
+  cap?: number;         // Maximum overall score the rule imposes
+  applied: boolean;     // False for a cap that was already above the score
+}
+
+/**
+ * A structured advisory, e.g. for notifications and chat bots
+ * `code` is stable; `text` is rendered from the code's template and `params`
+ */
+export interface Advisory {
+  code: string;                            // e.g. 'current.strong'
+  severity: AdvisorySeverity;
+  factor?: ScoreFactorKey;                 // Originating factor (omitted for overall advice)
+  params: Record<string, string | number>; // Values interpolated into the text; times as ISO strings
+  text: string;
+}
+
+/**
+ * A penalty for factors that are worse together than either is alone (e.g. wind against tide)
+ */
+export interface ScoreInteraction {
+  id: string;             // e.g. 'windAgainstCurrent'
+  label: string;
+  factors: ScoreFactorKey[];
+  contribution: number;   // Overall score points, always ≤ 0
+  detail: string;         // Human-readable explanation of the inputs
+}
+
+/**
+ * Explains how the overall score was built up from factors, adjusted for interactions and then capped
+ */
+export interface ScoreBreakdown {
+  contributions: ScoreContribution[];
+  weightedScore: number; // Rounded weighted average before interactions and caps
+  interactions: ScoreInteraction[];
+  adjustedScore: number; // Weighted score plus interaction penalties, before caps
+  appliedCaps: AppliedCap[];
+  finalScore: number;
+}
+
+/**
+ * How much one factor's inputs can be trusted
+ */
+export interface FactorConfidence {
+  confidence: number; // 0-1
+  reasons: string[];  // Why confidence is reduced (stale, estimated or missing data)
+}
+
+/**
+ * Confidence in the overall score, derived from data freshness and fallbacks
+ */
+export interface ScoreConfidence {
+  overall: number; // 0-1, weight-averaged factor confidence
+  level: 'high' | 'medium' | 'low';
+  factors: Record<ScoreFactorKey, FactorConfidence>;
+  scoreRange: {
+    low: number;
+    high: number;
+  };
 }
 
 export interface SwimScore {
   timestamp: Date;
   overallScore: number; // 0-100
   rating: 'excellent' | 'good' | 'fair' | 'poor' | 'dangerous';
+  profile: SwimmerProfileId;
+  weights: FactorWeights; // Effective weights used for this score
+  scoringMode: ScoringMode;
+  algorithmVersion: AlgorithmVersion; // Registered scoring algorithm that produced this score
   factors: SwimScoreFactors;
-  recommendations: string[];
-  warnings: string[];
+  breakdown: ScoreBreakdown;
+  firedRules: FiredRule[];
+  confidence: ScoreConfidence;
+  advisories: Advisory[];
+  recommendations: string[]; // Text of info and caution advisories
+  warnings: string[];        // Text of warning and danger advisories
+}
+
+/**
+ * The same inputs scored by a second algorithm version, relative to the main score
+ */
+export interface AlgorithmComparison {
+  baseline: AlgorithmVersion;  // Version of the main score
+  candidate: AlgorithmVersion;
+  score: SwimScore;            // Candidate version's score
+  scoreDelta: number;          // Candidate minus baseline overall score
+  ratingChanged: boolean;
+  factorDeltas: Record<ScoreFactorKey, number>; // Candidate minus baseline factor scores
+  advisoriesAdded: string[];   // Advisory codes only the candidate raises
+  advisoriesRemoved: string[]; // Advisory codes only the baseline raises
+}
+
+/**
+ * Environmental inputs to the swim score, as passed to calculateSwimScore
+ */
+export interface ScoreInputs {
+  tide: TidePrediction;
+  current: CurrentData | null;
+  weather: WeatherData;
+  waves: WaveData;
+  waterQuality: WaterQuality;
+  recentSSOs: SSOEvent[];
+  damReleases: DamReleaseData | null;
+  waterTemperature: WaterTemperature | null;
+  precipitation: PrecipitationData | null;
+}
+
+/**
+ * Inputs the sensitivity analysis perturbs one at a time
+ */
+export type SensitivityVariable =
+  | 'windSpeed'
+  | 'currentSpeed'
+  | 'waveHeight'
+  | 'waterTemperature'
+  | 'visibility'
+  | 'enterococcus';
+
+/**
+ * The score with one input moved to another value
+ */
+export interface SensitivityPoint {
+  value: number;  // Input value in its own units (mph, kt, ft, °F, mi, MPN/100ml)
+  change: number; // Value minus the current value
+  score: number;
+  rating: SwimScore['rating'];
+}
+
+export interface SensitivityChange extends SensitivityPoint {
+  text: string;
+}
+
+export interface CapRelease extends SensitivityChange {
+  capId: string; // Applied cap that no longer fires at this value
+}
+
+/**
+ * How far one input must move to change the rating or lift a cap
+ */
+export interface InputSensitivity {
+  variable: SensitivityVariable;
+  factor: ScoreFactorKey;
+  unit: string;
+  value: number;                           // Current value
+  improvement: SensitivityChange | null;   // Smallest change that reaches a better rating
+  deterioration: SensitivityChange | null; // Smallest change that drops to a worse rating
+  capsLifted: CapRelease[];                // Smallest change that lifts each applied cap
+  best: SensitivityPoint;                  // Highest score this input alone can reach
+}
+
+export interface ScoreSensitivity {
+  timestamp: Date;
+  score: number;
+  rating: SwimScore['rating'];
+  inputs: InputSensitivity[];
+  limiting: SensitivityVariable | null; // Input whose best value gains the most points, if any
 }
 
 export interface CurrentConditions {
   timestamp: Date;
   score: SwimScore;
+  algorithmComparison?: AlgorithmComparison;
   tide: TidePrediction;
   current: CurrentData;
   weather: WeatherData;
   waves: WaveData;
   waterQuality: WaterQuality;
   waterTemperature?: WaterTemperature;
+  precipitation?: PrecipitationData;
+  daylight?: DaylightInfo;
+  coldExposure?: ColdExposure;
+  locale?: Locale;            // Language of advice and issue text
   recentSSOs: SSOEvent[];
   damReleases?: DamReleaseData;
   dataFreshness: {
@@ -189,6 +552,7 @@ export interface CurrentConditions {
     waves: Date;
     waterQuality: Date;
     waterTemperature?: Date;
+    precipitation?: Date;
     sso: Date;
     damReleases?: Date;
   };
@@ -249,3 +613,42 @@ export interface TidePhasePreferences {
   flood: number;   // Preference score 0-100
   ebb: number;     // Preference score 0-100
 }
+
+/**
+ * Named swimmer profiles that reshape thresholds, weights and caps
+ */
+export type SwimmerProfileId = 'standard' | 'wetsuit' | 'skins' | 'beginner' | 'marathoner';
+
+/**
+ * Cold exposure inputs: swimwear, cap and cold water experience
+ */
+export type SuitType = 'skins' | 'shorty' | 'fullsuit';
+export type CapType = 'none' | 'silicone' | 'neoprene';
+export type AcclimatisationLevel = 'unacclimatised' | 'partial' | 'acclimatised';
+
+/**
+ * Languages advice and labels are translated into, and the units each reads in
+ */
+export type Locale = 'en' | 'es' | 'zh';
+export type UnitSystem = 'imperial' | 'metric';
+
+/**
+ * How factor scores are derived: continuous curves or the original step thresholds
+ */
+export type ScoringMode = 'continuous' | 'legacy';
+
+/**
+ * Registered swim score algorithm versions (see src/lib/algorithms/versions.ts)
+ */
+export type AlgorithmVersion = 'v1' | 'v2';
+
+/**
+ * Light at the park: sun above the horizon, civil twilight (sun up to 6° below), or night
+ */
+export type DaylightPeriod = 'day' | 'civil-twilight' | 'night';
+
+/**
+ * How serious an advisory or scoring rule is: info and caution advisories are recommendations,
+ * warning and danger advisories are warnings
+ */
+export type AdvisorySeverity = 'info' | 'caution' | 'warning' | 'danger';